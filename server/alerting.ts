@@ -0,0 +1,85 @@
+import { randomUUID } from "crypto";
+import {
+  AlertIncident,
+  evaluateAlerts,
+  metricValue,
+} from "../src/analytics/alerts";
+import { alertEvents } from "../src/analytics/notifications";
+import { Notifier } from "./notifications";
+import { AnalyticsStore } from "./store";
+import { AlertRepository } from "./store/AlertRepository";
+
+/**
+ * Evaluates the alert rules against the store on a fixed cycle, and on demand after data changes.
+ * Incidents that fire or resolve are handed to the notifier.
+ */
+export class AlertMonitor {
+  private timer?: NodeJS.Timeout;
+  private cycle?: Promise<AlertIncident[]>;
+
+  constructor(
+    private readonly store: AnalyticsStore,
+    private readonly repository: AlertRepository,
+    private readonly notifier: Notifier
+  ) {}
+
+  /**
+   * Evaluate every `intervalMs`, the timer does not keep the process alive
+   */
+  start(intervalMs: number) {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.evaluate().catch((error) =>
+        console.error("[alerts] evaluation failed", error)
+      );
+    }, intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run a cycle now, joining the one in flight if there is one
+   * @returns the incidents after the cycle, newest first
+   */
+  evaluate(): Promise<AlertIncident[]> {
+    if (!this.cycle) {
+      this.cycle = this.run(new Date()).finally(() => {
+        this.cycle = undefined;
+      });
+    }
+    return this.cycle;
+  }
+
+  private async run(now: Date) {
+    const rules = this.repository.rules();
+    const readings = Object.fromEntries(
+      await Promise.all(
+        rules
+          .filter((rule) => rule.enabled)
+          .map(async (rule) => {
+            const metrics = await this.store.getWindowMetrics(
+              now.getTime() - rule.windowMinutes * 60 * 1000,
+              now.getTime(),
+              rule
+            );
+            return [rule.id, metricValue(rule.metric, metrics)];
+          })
+      )
+    );
+
+    const before = this.repository.incidents();
+    const incidents = evaluateAlerts(rules, before, readings, now, randomUUID);
+    await this.repository.setIncidents(incidents);
+
+    // Deliveries retry in the background, the cycle does not wait for them
+    this.notifier.notify(
+      alertEvents(before, incidents),
+      this.repository.channels()
+    );
+    return incidents;
+  }
+}
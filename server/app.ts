@@ -0,0 +1,82 @@
+import cors from "cors";
+import express from "express";
+import { AlertMonitor } from "./alerting";
+import { errorHandler, notFound } from "./http";
+import { LiveFeed, SessionTicker } from "./live";
+import { Notifier } from "./notifications";
+import { alertsRouter } from "./routes/alerts";
+import { analyticsRouter } from "./routes/analytics";
+import { liveRouter } from "./routes/live";
+import { reportsRouter } from "./routes/reports";
+import { schedulesRouter } from "./routes/schedules";
+import { sessionsRouter } from "./routes/sessions";
+import { settingsRouter } from "./routes/settings";
+import { ReportScheduler } from "./scheduler";
+import { AnalyticsStore } from "./store";
+import { AlertRepository } from "./store/AlertRepository";
+import { ReportRepository } from "./store/ReportRepository";
+import { ScheduleRepository } from "./store/ScheduleRepository";
+import { SessionRepository } from "./store/SessionRepository";
+import { SettingsRepository } from "./store/SettingsRepository";
+
+/**
+ * Build the express app, kept separate from `listen` so it can be mounted or tested on its own
+ * @param store the data source for every endpoint
+ * @param sessions raw sessions uploaded through the ingest endpoint
+ * @param alerts alert rules and incidents
+ * @param monitor evaluates the alert rules
+ * @param notifier delivers alert notifications
+ * @param settings dashboard settings such as the SLA bands
+ * @param feed pushes live updates of the success rate gauge
+ * @param ticker pushes ingested sessions to the live ticker
+ * @param reports generated reports
+ * @param schedules report schedules
+ * @param scheduler runs the report schedules
+ */
+export const createApp = (
+  store: AnalyticsStore,
+  sessions: SessionRepository,
+  alerts: AlertRepository,
+  monitor: AlertMonitor,
+  notifier: Notifier,
+  settings: SettingsRepository,
+  feed: LiveFeed,
+  ticker: SessionTicker,
+  reports: ReportRepository,
+  schedules: ScheduleRepository,
+  scheduler: ReportScheduler
+) => {
+  const app = express();
+
+  app.use(cors());
+  app.use(express.json());
+
+  app.get("/health", (req, res) => {
+    res.json({ success: true, payload: { status: "ok", store: store.name } });
+  });
+  app.use(
+    "/api/analytics/sessions",
+    sessionsRouter(sessions, () => {
+      monitor
+        .evaluate()
+        .catch((error) => console.error("[alerts] evaluation failed", error));
+      feed
+        .refresh()
+        .catch((error) => console.error("[live] refresh failed", error));
+    })
+  );
+  app.use("/api/analytics/alerts", alertsRouter(alerts, monitor, notifier));
+  app.use("/api/analytics/settings", settingsRouter(settings));
+  app.use("/api/analytics/reports", reportsRouter(store, reports, settings));
+  app.use(
+    "/api/analytics/schedules",
+    schedulesRouter(schedules, alerts, scheduler)
+  );
+  app.use("/api/analytics", liveRouter(feed, ticker));
+  app.use("/api/analytics", analyticsRouter(store));
+
+  app.use(notFound);
+  app.use(errorHandler);
+
+  return app;
+};
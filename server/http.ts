@@ -0,0 +1,139 @@
+import { NextFunction, Request, RequestHandler, Response } from "express";
+import { parseAnomalyThreshold } from "../src/analytics/anomalies";
+import { parseDateRange } from "../src/analytics/dateRange";
+import { parseSessionSearch } from "../src/analytics/explorer";
+import { parseFunnelSteps } from "../src/analytics/funnel";
+import { parseFailureFilter } from "../src/analytics/sessions";
+import {
+  DateRange,
+  FailureSessionFilter,
+  SessionSearchFilter,
+} from "../src/services/types";
+
+/**
+ * An error the client caused, answered with its status instead of a 500
+ */
+export class HttpError extends Error {
+  constructor(public readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Wrap an async route so its result is sent in the `{ success, payload }` envelope
+ * and any thrown error reaches the error handler
+ * @param handler resolves the payload for the request
+ */
+export const route =
+  <T>(handler: (req: Request) => Promise<T>): RequestHandler =>
+  (req, res, next) => {
+    handler(req)
+      .then((payload) => res.json({ success: true, payload }))
+      .catch(next);
+  };
+
+/**
+ * Check a path param against the values an endpoint accepts
+ * @param value the raw param
+ * @param allowed the accepted values
+ * @param label name used in the error message
+ */
+export const oneOf = <T extends string>(
+  value: string,
+  allowed: readonly T[],
+  label: string
+): T => {
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(
+      400,
+      `Invalid ${label} "${value}", expected one of: ${allowed.join(", ")}`
+    );
+  }
+  return value as T;
+};
+
+/**
+ * Read a date range from a path param (a preset or `custom`) and the `start` / `end` query params
+ * @param segment the raw path param
+ * @param req the request carrying the query
+ */
+export const dateRangeOf = (segment: string, req: Request): DateRange => {
+  const result = parseDateRange(segment, req.query);
+  if ("error" in result) throw new HttpError(400, result.error);
+  return result.range;
+};
+
+/**
+ * Read the robust z-score past which a bucket is anomalous from the `threshold` query param
+ * @param req the request carrying the query
+ */
+export const anomalyThresholdOf = (req: Request): number => {
+  const result = parseAnomalyThreshold(req.query.threshold);
+  if ("error" in result) throw new HttpError(400, result.error);
+  return result.threshold;
+};
+
+/**
+ * Read which failed sessions to return from the `reason` and `network` query params
+ * @param req the request carrying the query
+ */
+export const failureFilterOf = (req: Request): FailureSessionFilter => {
+  const result = parseFailureFilter(req.query);
+  if ("error" in result) throw new HttpError(400, result.error);
+  return result.filter;
+};
+
+/**
+ * Read the menu nodes of a funnel from the `steps` query param
+ * @param req the request carrying the query
+ */
+export const funnelStepsOf = (req: Request): string[] => {
+  const result = parseFunnelSteps(req.query.steps);
+  if ("error" in result) throw new HttpError(400, result.error);
+  return result.steps;
+};
+
+/**
+ * Read which sessions to explore from the `node`, `outcome` and `network` query params
+ * @param req the request carrying the query
+ */
+export const sessionSearchOf = (req: Request): SessionSearchFilter => {
+  const result = parseSessionSearch(req.query);
+  if ("error" in result) throw new HttpError(400, result.error);
+  return result.filter;
+};
+
+export const notFound: RequestHandler = (req, res) => {
+  res.status(404).json({
+    success: false,
+    message: `No endpoint for ${req.method} ${req.path}`,
+  });
+};
+
+// Express recognises error handlers by their four arguments
+export const errorHandler = (
+  error: unknown,
+  req: Request,
+  res: Response,
+  next: NextFunction
+) => {
+  if (error instanceof HttpError) {
+    res.status(error.status).json({ success: false, message: error.message });
+    return;
+  }
+
+  // Body parser errors (payload too large, malformed json) are safe to show
+  const { status, expose, message } = error as {
+    status?: number;
+    expose?: boolean;
+    message?: string;
+  };
+  if (expose && status) {
+    res.status(status).json({ success: false, message });
+    return;
+  }
+
+  console.error(`[analytics] ${req.method} ${req.originalUrl} failed`, error);
+  res.status(500).json({ success: false, message: "Internal server error" });
+};
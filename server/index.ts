@@ -0,0 +1,93 @@
+import { join } from "path";
+import { AlertMonitor } from "./alerting";
+import { createApp } from "./app";
+import { LiveFeed, SessionTicker } from "./live";
+import { createTransports, Notifier } from "./notifications";
+import { ReportScheduler } from "./scheduler";
+import { createStore } from "./store";
+import { AlertRepository } from "./store/AlertRepository";
+import { ReportRepository } from "./store/ReportRepository";
+import { ScheduleRepository } from "./store/ScheduleRepository";
+import { SessionRepository } from "./store/SessionRepository";
+import { SettingsRepository } from "./store/SettingsRepository";
+
+const port = Number(process.env.API_PORT) || 4000;
+const dataDir = process.env.ANALYTICS_DATA_DIR || join(__dirname, "data");
+const alertIntervalMs = Number(process.env.ALERT_INTERVAL_MS) || 60 * 1000;
+const notifyMaxAttempts = Number(process.env.NOTIFY_MAX_ATTEMPTS) || 4;
+const notifyRetryMs = Number(process.env.NOTIFY_RETRY_MS) || 5 * 1000;
+const liveIntervalMs = Number(process.env.LIVE_INTERVAL_MS) || 5 * 1000;
+const scheduleIntervalMs =
+  Number(process.env.SCHEDULE_INTERVAL_MS) || 30 * 1000;
+
+const start = async () => {
+  const sessions = new SessionRepository(join(dataDir, "sessions.ndjson"));
+  await sessions.load();
+
+  const store = createStore(process.env.ANALYTICS_STORE, { sessions });
+
+  const alerts = new AlertRepository(join(dataDir, "alerts.json"));
+  await alerts.load();
+  const notifier = new Notifier(
+    createTransports({
+      smtp: { url: process.env.SMTP_URL, from: process.env.SMTP_FROM },
+      smsGateway: {
+        url: process.env.SMS_GATEWAY_URL,
+        token: process.env.SMS_GATEWAY_TOKEN,
+      },
+      logDir: join(dataDir, "logs"),
+    }),
+    { maxAttempts: notifyMaxAttempts, retryBaseMs: notifyRetryMs }
+  );
+  const monitor = new AlertMonitor(store, alerts, notifier);
+  monitor.start(alertIntervalMs);
+
+  const settings = new SettingsRepository(join(dataDir, "settings.json"));
+  await settings.load();
+
+  const reports = new ReportRepository(join(dataDir, "reports.json"));
+  await reports.load();
+  const schedules = new ScheduleRepository(join(dataDir, "schedules.json"));
+  await schedules.load();
+  const scheduler = new ReportScheduler(
+    store,
+    schedules,
+    reports,
+    alerts,
+    settings,
+    notifier
+  );
+  scheduler.start(scheduleIntervalMs);
+
+  const feed = new LiveFeed(store);
+  feed.start(liveIntervalMs);
+  const ticker = new SessionTicker(sessions);
+  ticker.start(liveIntervalMs);
+
+  createApp(
+    store,
+    sessions,
+    alerts,
+    monitor,
+    notifier,
+    settings,
+    feed,
+    ticker,
+    reports,
+    schedules,
+    scheduler
+  ).listen(port, () => {
+    console.log(
+      `[analytics] serving ${
+        store.name
+      } on http://localhost:${port}/api/analytics (${
+        sessions.summary().count
+      } ingested sessions)`
+    );
+  });
+};
+
+start().catch((error) => {
+  console.error("[analytics] failed to start", error);
+  process.exit(1);
+});
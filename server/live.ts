@@ -0,0 +1,231 @@
+import { Request, Response } from "express";
+import { dateRangeKey } from "../src/analytics/dateRange";
+import { successRateUpdate } from "../src/analytics/live";
+import { UssdSession } from "../src/analytics/sessions";
+import {
+  mergeTickerSessions,
+  sessionsPerMinute,
+  TICKER_HISTORY,
+  TICKER_RATE_WINDOW_MS,
+  TickerSession,
+  TickerUpdate,
+  toTickerSession,
+} from "../src/analytics/ticker";
+import { DateRange, GaugeApiResponse } from "../src/services/types";
+import { AnalyticsStore } from "./store";
+import { SessionRepository } from "./store/SessionRepository";
+
+// Comment lines keep idle connections from being closed by proxies
+const HEARTBEAT_MS = 15 * 1000;
+
+interface LiveChannel {
+  period: DateRange;
+  clients: Set<Response>;
+  last?: GaugeApiResponse; // the reading every client of the channel holds
+}
+
+/**
+ * Server-Sent Events feed of the success rate gauge.
+ * Clients watching the same period share a channel: the store is read once per cycle and per channel,
+ * and only what changed since the previous reading is pushed.
+ */
+export class LiveFeed {
+  private timer?: NodeJS.Timeout;
+  private heartbeat?: NodeJS.Timeout;
+  private cycle?: Promise<void>;
+  private readonly channels = new Map<string, LiveChannel>();
+
+  constructor(private readonly store: AnalyticsStore) {}
+
+  /**
+   * Push updates every `intervalMs`, the timers do not keep the process alive
+   */
+  start(intervalMs: number) {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.refresh().catch((error) =>
+        console.error("[live] refresh failed", error)
+      );
+    }, intervalMs);
+    this.timer.unref();
+    this.heartbeat = setInterval(() => {
+      this.channels.forEach(({ clients }) => clients.forEach(ping));
+    }, HEARTBEAT_MS);
+    this.heartbeat.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    clearInterval(this.heartbeat);
+    this.timer = undefined;
+    this.heartbeat = undefined;
+  }
+
+  /**
+   * Open an event stream on the response, starting with a `snapshot` of the gauge
+   * @param req the request, its closing ends the subscription
+   * @param res the response kept open for the stream
+   * @param period the window the client watches
+   */
+  async subscribe(req: Request, res: Response, period: DateRange) {
+    const key = dateRangeKey(period);
+    // Registered before the snapshot is read, so clients subscribing meanwhile join the same channel
+    let channel: LiveChannel = this.channels.get(key) ?? {
+      period,
+      clients: new Set(),
+    };
+    this.channels.set(key, channel);
+
+    let closed = false;
+    req.on("close", () => {
+      closed = true;
+      channel.clients.delete(res);
+      if (channel.clients.size === 0 && this.channels.get(key) === channel) {
+        this.channels.delete(key);
+      }
+    });
+
+    const reading = channel.last ?? (await this.store.getSuccessRate(period));
+    // The client may have left while the snapshot was read
+    if (closed) return;
+    // Clients that left meanwhile may have dropped the channel, join the one watching the period now
+    channel = this.channels.get(key) ?? channel;
+    this.channels.set(key, channel);
+    const snapshot = channel.last ?? reading;
+    channel.last = snapshot;
+
+    openStream(res);
+    send(res, "snapshot", snapshot);
+    channel.clients.add(res);
+  }
+
+  /**
+   * Read every watched period now and push what changed, joining the cycle in flight if there is one
+   */
+  refresh(): Promise<void> {
+    if (!this.cycle) {
+      this.cycle = this.run().finally(() => {
+        this.cycle = undefined;
+      });
+    }
+    return this.cycle;
+  }
+
+  private async run() {
+    await Promise.all(
+      Array.from(this.channels.values()).map(async (channel) => {
+        const reading = await this.store.getSuccessRate(channel.period);
+        const update = channel.last && successRateUpdate(channel.last, reading);
+        channel.last = reading;
+        if (update)
+          channel.clients.forEach((res) => send(res, "update", update));
+      })
+    );
+  }
+}
+
+/**
+ * Server-Sent Events feed of the sessions ingested while clients watch, for the live ticker.
+ * New sessions are pushed as they are stored, the rates per network on every cycle they changed.
+ */
+export class SessionTicker {
+  private timer?: NodeJS.Timeout;
+  private heartbeat?: NodeJS.Timeout;
+  private history: TickerSession[];
+  private recent: UssdSession[]; // sessions ended within the rate window
+  private rates: TickerUpdate["rates"];
+  private readonly clients = new Set<Response>();
+
+  constructor(repository: SessionRepository) {
+    const now = Date.now();
+    // Stored sessions are in upload order, the latest uploads hold the latest sessions
+    this.history = mergeTickerSessions(
+      [],
+      repository.all().slice(-TICKER_HISTORY).map(toTickerSession)
+    );
+    this.recent = repository
+      .all()
+      .filter(
+        ({ endedAt }) => Date.parse(endedAt) > now - TICKER_RATE_WINDOW_MS
+      );
+    this.rates = sessionsPerMinute(this.recent, now);
+    repository.subscribe((added) => this.push(added));
+  }
+
+  /**
+   * Recompute the rates every `intervalMs`, the timers do not keep the process alive
+   */
+  start(intervalMs: number) {
+    this.stop();
+    this.timer = setInterval(() => this.tick(), intervalMs);
+    this.timer.unref();
+    this.heartbeat = setInterval(
+      () => this.clients.forEach(ping),
+      HEARTBEAT_MS
+    );
+    this.heartbeat.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    clearInterval(this.heartbeat);
+    this.timer = undefined;
+    this.heartbeat = undefined;
+  }
+
+  /**
+   * Open an event stream on the response, starting with a `snapshot` of the latest sessions
+   * @param req the request, its closing ends the subscription
+   * @param res the response kept open for the stream
+   */
+  subscribe(req: Request, res: Response) {
+    req.on("close", () => this.clients.delete(res));
+    openStream(res);
+    send(res, "snapshot", { sessions: this.history, rates: this.rates });
+    this.clients.add(res);
+  }
+
+  private push(added: UssdSession[]) {
+    const now = Date.now();
+    const sessions = mergeTickerSessions([], added.map(toTickerSession));
+    this.history = mergeTickerSessions(this.history, sessions);
+    this.recent.push(
+      ...added.filter(
+        ({ endedAt }) => Date.parse(endedAt) > now - TICKER_RATE_WINDOW_MS
+      )
+    );
+    this.rates = sessionsPerMinute(this.recent, now);
+    this.broadcast({ sessions, rates: this.rates });
+  }
+
+  private tick() {
+    const now = Date.now();
+    this.recent = this.recent.filter(
+      ({ endedAt }) => Date.parse(endedAt) > now - TICKER_RATE_WINDOW_MS
+    );
+    const rates = sessionsPerMinute(this.recent, now);
+    if (JSON.stringify(rates) === JSON.stringify(this.rates)) return;
+    this.rates = rates;
+    this.broadcast({ sessions: [], rates });
+  }
+
+  private broadcast(update: TickerUpdate) {
+    this.clients.forEach((res) => send(res, "update", update));
+  }
+}
+
+const openStream = (res: Response) => {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+};
+
+const send = (res: Response, event: string, data: unknown) => {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+};
+
+const ping = (res: Response) => {
+  res.write(": ping\n\n");
+};
@@ -0,0 +1,28 @@
+import { mkdirSync, promises as fs } from "fs";
+import { join } from "path";
+import {
+  Notification,
+  NotificationChannel,
+} from "../../src/analytics/notifications";
+import { Transport } from "./Transport";
+
+/**
+ * Local stand-in for the real channels: appends one line per notification to a file
+ * in its own directory, apart from the server's data files, or prints it to the console when the channel has no file
+ */
+export class LogTransport implements Transport {
+  constructor(private readonly dir: string) {}
+
+  async send(channel: NotificationChannel, notification: Notification) {
+    // One line per notification, whatever the template
+    const message = notification.message.replace(/\s*\n\s*/g, " ");
+    const line = `${new Date().toISOString()} [${channel.name}] ${message}`;
+
+    if (!channel.target) {
+      console.log(`[notify] ${line}`);
+      return;
+    }
+    mkdirSync(this.dir, { recursive: true });
+    await fs.appendFile(join(this.dir, channel.target), `${line}\n`);
+  }
+}
@@ -0,0 +1,114 @@
+import { randomUUID } from "crypto";
+import {
+  AlertEvent,
+  backoffDelay,
+  buildNotification,
+  ChannelType,
+  Delivery,
+  MAX_DELIVERY_HISTORY,
+  Notification,
+  NotificationChannel,
+} from "../../src/analytics/notifications";
+import { PermanentDeliveryError, Transport } from "./Transport";
+
+export interface NotifierOptions {
+  maxAttempts: number; // attempts per delivery, the first one included
+  retryBaseMs: number; // delay before the first retry, doubled for each next one
+}
+
+const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms).unref());
+
+/**
+ * Routes alert events to the channels of their rule and delivers them, retrying failures with backoff.
+ * The latest deliveries are kept in memory for the dashboard.
+ */
+export class Notifier {
+  private history: Delivery[] = [];
+
+  constructor(
+    private readonly transports: Record<ChannelType, Transport>,
+    private readonly options: NotifierOptions
+  ) {}
+
+  /**
+   * Deliver every event to the enabled channels its rule routes to
+   * @param events incidents that fired or resolved in the last cycle
+   * @param channels every configured channel
+   * @returns the deliveries, once all of them succeeded or ran out of attempts
+   */
+  notify(
+    events: readonly AlertEvent[],
+    channels: readonly NotificationChannel[]
+  ): Promise<Delivery[]> {
+    const byId = new Map(channels.map((channel) => [channel.id, channel]));
+    return Promise.all(
+      events.flatMap(({ kind, incident }) =>
+        incident.rule.channels
+          .map((id) => byId.get(id))
+          .filter(
+            (channel): channel is NotificationChannel => !!channel?.enabled
+          )
+          .map((channel) =>
+            this.deliver(channel, buildNotification(channel, incident, kind))
+          )
+      )
+    );
+  }
+
+  /**
+   * Send one notification, never rejects: the outcome is in the delivery
+   */
+  async deliver(
+    channel: NotificationChannel,
+    notification: Notification
+  ): Promise<Delivery> {
+    const { maxAttempts, retryBaseMs } = this.options;
+    let attempts = 0;
+    let error: unknown;
+
+    while (attempts < maxAttempts) {
+      attempts++;
+      try {
+        await this.transports[channel.type].send(channel, notification);
+        error = undefined;
+        break;
+      } catch (caught) {
+        error = caught;
+        if (caught instanceof PermanentDeliveryError) break;
+        if (attempts < maxAttempts) {
+          await sleep(backoffDelay(attempts, retryBaseMs));
+        }
+      }
+    }
+
+    const delivery: Delivery = {
+      id: randomUUID(),
+      channelId: channel.id,
+      channelName: channel.name,
+      incidentId: notification.incident?.id,
+      reportId: notification.report?.id,
+      event: notification.event,
+      status: error === undefined ? "sent" : "failed",
+      attempts,
+      at: new Date().toISOString(),
+      ...(error !== undefined && {
+        error: error instanceof Error ? error.message : String(error),
+      }),
+    };
+    if (error !== undefined) {
+      console.error(
+        `[notify] "${channel.name}" failed after ${attempts} attempt(s): ${delivery.error}`
+      );
+    }
+    this.history = [delivery, ...this.history].slice(0, MAX_DELIVERY_HISTORY);
+    return delivery;
+  }
+
+  /**
+   * Latest deliveries, newest first
+   */
+  deliveries(): readonly Delivery[] {
+    return this.history;
+  }
+}
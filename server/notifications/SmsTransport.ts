@@ -0,0 +1,32 @@
+import {
+  Notification,
+  NotificationChannel,
+  splitTargets,
+} from "../../src/analytics/notifications";
+import { PermanentDeliveryError, postJson, Transport } from "./Transport";
+
+export interface SmsGatewayConfig {
+  url?: string; // SMS_GATEWAY_URL
+  token?: string; // SMS_GATEWAY_TOKEN, sent as a bearer token
+}
+
+/**
+ * Sends the message to every number of the channel through an HTTP SMS gateway,
+ * as `{ to: string[], message: string }`
+ */
+export class SmsTransport implements Transport {
+  constructor(private readonly gateway: SmsGatewayConfig) {}
+
+  async send(channel: NotificationChannel, notification: Notification) {
+    if (!this.gateway.url) {
+      throw new PermanentDeliveryError("SMS_GATEWAY_URL is not set");
+    }
+    await postJson(
+      this.gateway.url,
+      { to: splitTargets(channel.target), message: notification.message },
+      this.gateway.token
+        ? { Authorization: `Bearer ${this.gateway.token}` }
+        : {}
+    );
+  }
+}
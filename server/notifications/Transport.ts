@@ -0,0 +1,51 @@
+import {
+  Notification,
+  NotificationChannel,
+} from "../../src/analytics/notifications";
+
+/**
+ * Delivers rendered notifications for one channel type
+ */
+export interface Transport {
+  send(channel: NotificationChannel, notification: Notification): Promise<void>;
+}
+
+/**
+ * A failure retrying cannot fix, e.g. missing configuration or a request the receiver rejected
+ */
+export class PermanentDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PermanentDeliveryError";
+  }
+}
+
+const REQUEST_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * POST a json body, failing on any non 2xx answer
+ * @param url the receiver
+ * @param body serialized as json
+ * @param [headers] extra request headers
+ */
+export const postJson = async (
+  url: string,
+  body: unknown,
+  headers: Record<string, string> = {}
+) => {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+  if (response.ok) return;
+
+  const message = `${url} answered ${response.status} ${response.statusText}`;
+  // Client errors repeat on every attempt, except timeouts and rate limiting
+  const retryable =
+    response.status >= 500 ||
+    response.status === 408 ||
+    response.status === 429;
+  throw retryable ? new Error(message) : new PermanentDeliveryError(message);
+};
@@ -0,0 +1,20 @@
+import {
+  Notification,
+  NotificationChannel,
+} from "../../src/analytics/notifications";
+import { postJson, Transport } from "./Transport";
+
+/**
+ * POSTs the message and the incident, or the report, as json to the channel's url
+ */
+export class WebhookTransport implements Transport {
+  async send(channel: NotificationChannel, notification: Notification) {
+    await postJson(channel.target, {
+      event: notification.event,
+      subject: notification.subject,
+      message: notification.message,
+      incident: notification.incident,
+      report: notification.report,
+    });
+  }
+}
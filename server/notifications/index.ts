@@ -0,0 +1,32 @@
+import { ChannelType } from "../../src/analytics/notifications";
+import { EmailTransport, SmtpConfig } from "./EmailTransport";
+import { LogTransport } from "./LogTransport";
+import { SmsGatewayConfig, SmsTransport } from "./SmsTransport";
+import { Transport } from "./Transport";
+import { WebhookTransport } from "./WebhookTransport";
+
+export { Notifier } from "./Notifier";
+export type { Transport } from "./Transport";
+
+/**
+ * Settings of the transports, read from the environment
+ */
+export interface TransportConfig {
+  smtp: SmtpConfig;
+  smsGateway: SmsGatewayConfig;
+  logDir: string; // where log channels write their file
+}
+
+/**
+ * The transport of every channel type
+ */
+export const createTransports = ({
+  smtp,
+  smsGateway,
+  logDir,
+}: TransportConfig): Record<ChannelType, Transport> => ({
+  webhook: new WebhookTransport(),
+  email: new EmailTransport(smtp),
+  sms: new SmsTransport(smsGateway),
+  log: new LogTransport(logDir),
+});
@@ -0,0 +1,214 @@
+import { Request, Router } from "express";
+import { randomUUID } from "crypto";
+import {
+  acknowledgeIncident,
+  parseAlertRule,
+} from "../../src/analytics/alerts";
+import {
+  buildNotification,
+  parseNotificationChannel,
+  sampleIncident,
+} from "../../src/analytics/notifications";
+import { HttpError, oneOf, route } from "../http";
+import { AlertMonitor } from "../alerting";
+import { Notifier } from "../notifications";
+import { AlertRepository } from "../store/AlertRepository";
+
+const INCIDENT_FILTERS = ["open", "all"];
+
+/**
+ * Alert rules, incidents and notification channels, mounted under `/api/analytics/alerts`
+ * @param repository where rules, incidents and channels are stored
+ * @param monitor evaluates the rules, run again whenever they change
+ * @param notifier delivers notifications, and keeps the latest deliveries
+ */
+export const alertsRouter = (
+  repository: AlertRepository,
+  monitor: AlertMonitor,
+  notifier: Notifier
+) => {
+  const router = Router();
+
+  const ruleOf = (req: Request) => {
+    const result = parseAlertRule(req.body);
+    if ("error" in result) throw new HttpError(400, result.error);
+    const unknown = result.rule.channels.find(
+      (id) => !repository.channels().some((channel) => channel.id === id)
+    );
+    if (unknown) {
+      throw new HttpError(400, `No notification channel "${unknown}"`);
+    }
+    return result.rule;
+  };
+
+  const ruleIndex = (id: string) => {
+    const index = repository.rules().findIndex((rule) => rule.id === id);
+    if (index === -1) throw new HttpError(404, `No alert rule "${id}"`);
+    return index;
+  };
+
+  const channelOf = (req: Request) => {
+    const result = parseNotificationChannel(req.body);
+    if ("error" in result) throw new HttpError(400, result.error);
+    return result.channel;
+  };
+
+  const channelIndex = (id: string) => {
+    const index = repository
+      .channels()
+      .findIndex((channel) => channel.id === id);
+    if (index === -1) {
+      throw new HttpError(404, `No notification channel "${id}"`);
+    }
+    return index;
+  };
+
+  router.get(
+    "/rules",
+    route(async () => repository.rules())
+  );
+
+  router.post(
+    "/rules",
+    route(async (req) => {
+      const rule = { id: randomUUID(), ...ruleOf(req) };
+      await repository.setRules([...repository.rules(), rule]);
+      await monitor.evaluate();
+      return rule;
+    })
+  );
+
+  router.put(
+    "/rules/:id",
+    route(async (req) => {
+      const index = ruleIndex(req.params.id);
+      const rule = { id: req.params.id, ...ruleOf(req) };
+      const rules = [...repository.rules()];
+      rules[index] = rule;
+      await repository.setRules(rules);
+      await monitor.evaluate();
+      return rule;
+    })
+  );
+
+  router.delete(
+    "/rules/:id",
+    route(async (req) => {
+      ruleIndex(req.params.id);
+      await repository.setRules(
+        repository.rules().filter((rule) => rule.id !== req.params.id)
+      );
+      // Resolves the incident the rule may have open
+      await monitor.evaluate();
+      return repository.rules();
+    })
+  );
+
+  /**
+   * Incident history, newest first, `?status=open` for the ones not resolved yet
+   */
+  router.get(
+    "/incidents",
+    route(async (req) => {
+      const status =
+        typeof req.query.status === "string"
+          ? oneOf(req.query.status, INCIDENT_FILTERS, "status")
+          : "all";
+      return repository
+        .incidents()
+        .filter(
+          (incident) => status === "all" || incident.status !== "resolved"
+        );
+    })
+  );
+
+  router.post(
+    "/incidents/:id/acknowledge",
+    route(async (req) => {
+      const incidents = acknowledgeIncident(
+        repository.incidents(),
+        req.params.id,
+        new Date()
+      );
+      if (!incidents) {
+        throw new HttpError(404, `No open incident "${req.params.id}"`);
+      }
+      await repository.setIncidents(incidents);
+      return incidents.find((incident) => incident.id === req.params.id);
+    })
+  );
+
+  router.get(
+    "/channels",
+    route(async () => repository.channels())
+  );
+
+  router.post(
+    "/channels",
+    route(async (req) => {
+      const channel = { id: randomUUID(), ...channelOf(req) };
+      await repository.setChannels([...repository.channels(), channel]);
+      return channel;
+    })
+  );
+
+  router.put(
+    "/channels/:id",
+    route(async (req) => {
+      const index = channelIndex(req.params.id);
+      const channel = { id: req.params.id, ...channelOf(req) };
+      const channels = [...repository.channels()];
+      channels[index] = channel;
+      await repository.setChannels(channels);
+      return channel;
+    })
+  );
+
+  router.delete(
+    "/channels/:id",
+    route(async (req) => {
+      const { id } = req.params;
+      channelIndex(id);
+      // Rules stop routing to it, open incidents keep the copy they were opened with
+      await repository.setRules(
+        repository.rules().map((rule) => ({
+          ...rule,
+          channels: rule.channels.filter((channel) => channel !== id),
+        }))
+      );
+      await repository.setChannels(
+        repository.channels().filter((channel) => channel.id !== id)
+      );
+      return repository.channels();
+    })
+  );
+
+  /**
+   * Send a made up incident through a channel, answers once it was delivered or gave up
+   */
+  router.post(
+    "/channels/:id/test",
+    route(async (req) => {
+      const channel = repository.channels()[channelIndex(req.params.id)];
+      return notifier.deliver(
+        channel,
+        buildNotification(channel, sampleIncident(new Date()), "test")
+      );
+    })
+  );
+
+  /**
+   * Latest deliveries, newest first
+   */
+  router.get(
+    "/deliveries",
+    route(async () => notifier.deliveries())
+  );
+
+  router.post(
+    "/evaluate",
+    route(() => monitor.evaluate())
+  );
+
+  return router;
+};
@@ -0,0 +1,115 @@
+import { Router } from "express";
+import { detectAnomalies } from "../../src/analytics/anomalies";
+import {
+  anomalyThresholdOf,
+  dateRangeOf,
+  failureFilterOf,
+  funnelStepsOf,
+  oneOf,
+  route,
+  sessionSearchOf,
+} from "../http";
+import { AnalyticsStore } from "../store";
+
+const SERVICES = [
+  "all",
+  "electricity",
+  "water",
+  "airtime",
+  "mobileMoney",
+  "banking",
+];
+
+/**
+ * Every endpoint used by `src/services/api.ts`, mounted under `/api/analytics`.
+ * Ranges are a preset (`24h`, `7d`, `30d`, `90d`, `ytd`) or `custom` with `?start=&end=` ISO dates or timestamps.
+ * @param store where the data is read from
+ */
+export const analyticsRouter = (store: AnalyticsStore) => {
+  const router = Router();
+
+  router.get(
+    "/transactions/volume/:range/:service",
+    route((req) =>
+      store.getTransactionVolume(
+        dateRangeOf(req.params.range, req),
+        oneOf(req.params.service, SERVICES, "service")
+      )
+    )
+  );
+
+  router.get(
+    "/transactions/success-rate/:period",
+    route((req) => store.getSuccessRate(dateRangeOf(req.params.period, req)))
+  );
+
+  router.get(
+    "/transactions/failures/:period",
+    route((req) =>
+      store.getFailureBreakdown(dateRangeOf(req.params.period, req))
+    )
+  );
+
+  router.get(
+    "/transactions/failures/:period/sessions",
+    route((req) =>
+      store.getFailedSessions(
+        dateRangeOf(req.params.period, req),
+        failureFilterOf(req)
+      )
+    )
+  );
+
+  router.get(
+    "/anomalies/:range/:service",
+    route(async (req) => {
+      const range = dateRangeOf(req.params.range, req);
+      const service = oneOf(req.params.service, SERVICES, "service");
+      const threshold = anomalyThresholdOf(req);
+      return detectAnomalies(
+        await store.getTransactionVolume(range, service),
+        threshold
+      );
+    })
+  );
+
+  router.get(
+    "/peak-hours",
+    route(() => store.getPeakHours())
+  );
+
+  router.get(
+    "/users/demographics",
+    route(() => store.getDemographics())
+  );
+
+  router.get(
+    "/revenue/trends/:range",
+    route((req) => store.getRevenueTrends(dateRangeOf(req.params.range, req)))
+  );
+
+  router.get(
+    "/menu-flow",
+    route(() => store.getMenuNavigationFlow())
+  );
+
+  router.get(
+    "/menu-flow/funnel",
+    route((req) => store.getMenuFunnel(funnelStepsOf(req)))
+  );
+
+  /**
+   * Sessions for the explorer, `/sessions` itself belongs to the ingest router mounted before this one
+   */
+  router.get(
+    "/sessions/explore/:period",
+    route((req) =>
+      store.searchSessions(
+        dateRangeOf(req.params.period, req),
+        sessionSearchOf(req)
+      )
+    )
+  );
+
+  return router;
+};
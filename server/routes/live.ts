@@ -0,0 +1,21 @@
+import { Router } from "express";
+import { dateRangeOf } from "../http";
+import { LiveFeed, SessionTicker } from "../live";
+
+/**
+ * Event streams, mounted under `/api/analytics` next to the endpoints they push updates of
+ * @param feed the live feed of the success rate gauge
+ * @param ticker the live feed of ingested sessions
+ */
+export const liveRouter = (feed: LiveFeed, ticker: SessionTicker) => {
+  const router = Router();
+
+  // Not wrapped in `route`, the response stays open instead of carrying an envelope
+  router.get("/transactions/success-rate/:period/stream", (req, res, next) => {
+    feed.subscribe(req, res, dateRangeOf(req.params.period, req)).catch(next);
+  });
+
+  router.get("/sessions/stream", (req, res) => ticker.subscribe(req, res));
+
+  return router;
+};
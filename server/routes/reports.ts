@@ -0,0 +1,56 @@
+import { Request, Router } from "express";
+import { buildReport, parseReportRequest } from "../../src/analytics/reports";
+import { HttpError, route } from "../http";
+import { AnalyticsStore } from "../store";
+import { ReportRepository } from "../store/ReportRepository";
+import { SettingsRepository } from "../store/SettingsRepository";
+
+/**
+ * Report generation and history, mounted under `/api/analytics/reports`
+ * @param store the data the dashboards read, reports are built from it
+ * @param reports the generated reports
+ * @param settings the SLA bands the network SLA report is measured against
+ */
+export const reportsRouter = (
+  store: AnalyticsStore,
+  reports: ReportRepository,
+  settings: SettingsRepository
+) => {
+  const router = Router();
+
+  const generate = async (req: Request) => {
+    const result = parseReportRequest(
+      req.params.type,
+      req.params.period,
+      req.query
+    );
+    if ("error" in result) throw new HttpError(400, result.error);
+    const report = await buildReport(
+      store,
+      result.definition,
+      result.period,
+      settings.sla()
+    );
+    return reports.add(report);
+  };
+
+  router.get(
+    "/history",
+    route(async () => reports.history())
+  );
+
+  router.get(
+    "/history/:id",
+    route(async (req) => {
+      const report = reports.get(req.params.id);
+      if (!report) throw new HttpError(404, `No report "${req.params.id}"`);
+      return report;
+    })
+  );
+
+  // Snapshots take no period, the others a preset or `custom` with `start` and `end`
+  router.post("/:type", route(generate));
+  router.post("/:type/:period", route(generate));
+
+  return router;
+};
@@ -0,0 +1,98 @@
+import { Request, Router } from "express";
+import { randomUUID } from "crypto";
+import {
+  nextScheduleRun,
+  parseReportSchedule,
+} from "../../src/analytics/schedules";
+import { HttpError, route } from "../http";
+import { ReportScheduler } from "../scheduler";
+import { AlertRepository } from "../store/AlertRepository";
+import { ScheduleRepository } from "../store/ScheduleRepository";
+
+/**
+ * Report schedules, mounted under `/api/analytics/schedules`
+ * @param schedules where the schedules are stored
+ * @param alerts the notification channels schedules deliver through
+ * @param scheduler runs schedules, on demand here
+ */
+export const schedulesRouter = (
+  schedules: ScheduleRepository,
+  alerts: AlertRepository,
+  scheduler: ReportScheduler
+) => {
+  const router = Router();
+
+  const scheduleOf = (req: Request) => {
+    const result = parseReportSchedule(req.body);
+    if ("error" in result) throw new HttpError(400, result.error);
+    const unknown = result.schedule.channels.find(
+      (id) => !alerts.channels().some((channel) => channel.id === id)
+    );
+    if (unknown) {
+      throw new HttpError(400, `No notification channel "${unknown}"`);
+    }
+    return result.schedule;
+  };
+
+  const scheduleById = (id: string) => {
+    const schedule = schedules.get(id);
+    if (!schedule) throw new HttpError(404, `No report schedule "${id}"`);
+    return schedule;
+  };
+
+  router.get(
+    "/",
+    route(async () => schedules.all())
+  );
+
+  router.post(
+    "/",
+    route(async (req) => {
+      const input = scheduleOf(req);
+      const schedule = {
+        id: randomUUID(),
+        ...input,
+        nextRunAt: nextScheduleRun(input, new Date()),
+      };
+      await schedules.put(schedule);
+      return schedule;
+    })
+  );
+
+  // Editing keeps the last run, the next one is counted again from now
+  router.put(
+    "/:id",
+    route(async (req) => {
+      const { lastRun } = scheduleById(req.params.id);
+      const input = scheduleOf(req);
+      const schedule = {
+        id: req.params.id,
+        ...input,
+        nextRunAt: nextScheduleRun(input, new Date()),
+        ...(lastRun && { lastRun }),
+      };
+      await schedules.put(schedule);
+      return schedule;
+    })
+  );
+
+  router.delete(
+    "/:id",
+    route(async (req) => {
+      scheduleById(req.params.id);
+      await schedules.remove(req.params.id);
+      return schedules.all();
+    })
+  );
+
+  /**
+   * Generate and send the report now, the next scheduled run is unchanged.
+   * Answers with the archived report, deliveries carry on in the background.
+   */
+  router.post(
+    "/:id/run",
+    route(async (req) => scheduler.run(scheduleById(req.params.id)))
+  );
+
+  return router;
+};
@@ -0,0 +1,68 @@
+import express, { Router } from "express";
+import {
+  buildIngestReport,
+  detectSessionLogFormat,
+  parseSessionLog,
+  SessionLogFormat,
+} from "../../src/analytics/sessions";
+import { HttpError, oneOf, route } from "../http";
+import { SessionRepository } from "../store/SessionRepository";
+
+const FORMATS: SessionLogFormat[] = ["csv", "ndjson"];
+
+// Uploads are sent as the raw file content
+const uploadBody = express.text({
+  type: ["text/*", "application/x-ndjson", "application/octet-stream"],
+  limit: process.env.INGEST_MAX_BYTES || "25mb",
+});
+
+/**
+ * Upload and manage raw session logs, mounted under `/api/analytics/sessions`
+ * @param repository where ingested sessions are stored
+ * @param [onChange] called once sessions were added or cleared
+ */
+export const sessionsRouter = (
+  repository: SessionRepository,
+  onChange?: () => void
+) => {
+  const router = Router();
+
+  router.get(
+    "/summary",
+    route(async () => repository.summary())
+  );
+
+  /**
+   * Ingest a CSV or NDJSON log, `?format=` wins over detection from the content
+   */
+  router.post(
+    "/ingest",
+    uploadBody,
+    route(async (req) => {
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        throw new HttpError(400, "Upload a non empty CSV or NDJSON body");
+      }
+
+      const format =
+        typeof req.query.format === "string"
+          ? oneOf(req.query.format, FORMATS, "format")
+          : detectSessionLogFormat(req.body);
+      const parsed = parseSessionLog(req.body, format);
+      const stored = await repository.add(parsed.sessions);
+      if (stored.added > 0) onChange?.();
+
+      return buildIngestReport(format, parsed, stored, repository.summary());
+    })
+  );
+
+  router.delete(
+    "/",
+    route(async () => {
+      await repository.clear();
+      onChange?.();
+      return repository.summary();
+    })
+  );
+
+  return router;
+};
@@ -0,0 +1,29 @@
+import { Router } from "express";
+import { parseSlaConfig } from "../../src/analytics/sla";
+import { HttpError, route } from "../http";
+import { SettingsRepository } from "../store/SettingsRepository";
+
+/**
+ * Dashboard settings, mounted under `/api/analytics/settings`
+ * @param settings where the settings are stored
+ */
+export const settingsRouter = (settings: SettingsRepository) => {
+  const router = Router();
+
+  router.get(
+    "/sla",
+    route(async () => settings.sla())
+  );
+
+  router.put(
+    "/sla",
+    route(async (req) => {
+      const result = parseSlaConfig(req.body);
+      if ("error" in result) throw new HttpError(400, result.error);
+      await settings.setSla(result.config);
+      return result.config;
+    })
+  );
+
+  return router;
+};
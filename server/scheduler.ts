@@ -0,0 +1,183 @@
+import {
+  REPORT_MIME_TYPES,
+  reportFileName,
+} from "../src/analytics/reportFiles";
+import { reportFile } from "../src/analytics/reportPdf";
+import { buildReport, REPORT_DEFINITIONS } from "../src/analytics/reports";
+import {
+  buildReportNotification,
+  nextScheduleRun,
+  recipientsChannel,
+  ReportSchedule,
+} from "../src/analytics/schedules";
+import { ArchivedReport } from "../src/services/types";
+import { Notifier } from "./notifications";
+import { AnalyticsStore } from "./store";
+import { AlertRepository } from "./store/AlertRepository";
+import { ReportRepository } from "./store/ReportRepository";
+import { ScheduleRepository } from "./store/ScheduleRepository";
+import { SettingsRepository } from "./store/SettingsRepository";
+
+/**
+ * Runs report schedules when they are due: builds the report from the store, archives it
+ * and delivers it through the schedule's channels and recipients.
+ */
+export class ReportScheduler {
+  private timer?: NodeJS.Timeout;
+  private checking?: Promise<void>;
+
+  constructor(
+    private readonly store: AnalyticsStore,
+    private readonly schedules: ScheduleRepository,
+    private readonly reports: ReportRepository,
+    private readonly alerts: AlertRepository,
+    private readonly settings: SettingsRepository,
+    private readonly notifier: Notifier
+  ) {}
+
+  /**
+   * Check for due schedules now and every `intervalMs`, the timer does not keep the process alive
+   */
+  start(intervalMs: number) {
+    this.stop();
+    const check = () =>
+      this.check().catch((error) =>
+        console.error("[schedules] check failed", error)
+      );
+    check();
+    this.timer = setInterval(check, intervalMs);
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  /**
+   * Run every enabled schedule whose next run has passed, joining the check in flight if there is one.
+   * Runs missed while the server was down go out once, not once per missed run.
+   */
+  check(): Promise<void> {
+    if (!this.checking) {
+      this.checking = this.runDue(new Date()).finally(() => {
+        this.checking = undefined;
+      });
+    }
+    return this.checking;
+  }
+
+  /**
+   * Generate and deliver a schedule's report now
+   * @returns the archived report, deliveries carry on in the background
+   */
+  async run(
+    schedule: ReportSchedule,
+    now = new Date()
+  ): Promise<ArchivedReport> {
+    const definition = REPORT_DEFINITIONS.find(
+      (item) => item.type === schedule.report
+    )!;
+    let report: ArchivedReport;
+    try {
+      report = await this.reports.add(
+        await buildReport(
+          this.store,
+          definition,
+          schedule.period,
+          this.settings.sla(),
+          { now }
+        ),
+        { id: schedule.id, name: schedule.name }
+      );
+    } catch (error) {
+      await this.schedules.update(schedule.id, {
+        lastRun: {
+          at: now.toISOString(),
+          reportId: null,
+          status: "failed",
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+      throw error;
+    }
+
+    await this.schedules.update(schedule.id, {
+      lastRun: {
+        at: now.toISOString(),
+        reportId: report.id,
+        status: "delivering",
+      },
+    });
+    this.deliver(schedule, report, now).catch((error) =>
+      console.error(`[schedules] "${schedule.name}" delivery failed`, error)
+    );
+    return report;
+  }
+
+  private async runDue(now: Date) {
+    const due = this.schedules
+      .all()
+      .filter(
+        (schedule) =>
+          schedule.enabled &&
+          schedule.nextRunAt !== null &&
+          Date.parse(schedule.nextRunAt) <= now.getTime()
+      );
+    for (const schedule of due) {
+      // Moved on first, so a failing schedule is not retried every check
+      await this.schedules.update(schedule.id, {
+        nextRunAt: nextScheduleRun(schedule, now),
+      });
+      await this.run(schedule, now).catch((error) =>
+        console.error(`[schedules] "${schedule.name}" failed`, error)
+      );
+    }
+  }
+
+  private async deliver(
+    schedule: ReportSchedule,
+    report: ArchivedReport,
+    now: Date
+  ) {
+    const attachments = schedule.formats.map((format) => ({
+      filename: reportFileName(report, format),
+      contentType: REPORT_MIME_TYPES[format],
+      content: reportFile(report, format),
+    }));
+    const channels = [
+      ...this.alerts
+        .channels()
+        .filter(
+          (channel) => channel.enabled && schedule.channels.includes(channel.id)
+        ),
+      ...(schedule.recipients ? [recipientsChannel(schedule)] : []),
+    ];
+    const deliveries = await Promise.all(
+      channels.map((channel) =>
+        this.notifier.deliver(
+          channel,
+          buildReportNotification(channel, report, attachments)
+        )
+      )
+    );
+
+    const failed = deliveries.filter(
+      (delivery) => delivery.status === "failed"
+    );
+    const error =
+      channels.length === 0
+        ? "No enabled channel or recipient to deliver to"
+        : failed
+            .map((delivery) => `${delivery.channelName}: ${delivery.error}`)
+            .join("; ");
+    await this.schedules.update(schedule.id, {
+      lastRun: {
+        at: now.toISOString(),
+        reportId: report.id,
+        status: error ? "failed" : "sent",
+        ...(error && { error }),
+      },
+    });
+  }
+}
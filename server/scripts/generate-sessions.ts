@@ -0,0 +1,51 @@
+import { mkdirSync, writeFileSync } from "fs";
+import { dirname, extname } from "path";
+import { parseArgs } from "util";
+import { generateSessions } from "../../src/analytics/generator";
+import { sessionsToCsv, sessionsToNdjson } from "../../src/analytics/sessions";
+
+/**
+ * Write synthetic USSD sessions to a file, the format follows the extension (.csv, .ndjson or .json)
+ *
+ *   npm run generate:sessions -- --out sessions.csv --start 2025-01-01 --days 90 --seed demo
+ */
+
+const { values } = parseArgs({
+  options: {
+    out: { type: "string", default: "server/data/sessions.csv" },
+    seed: { type: "string", default: "ussd" },
+    start: { type: "string" },
+    days: { type: "string", default: "30" },
+    "per-day": { type: "string", default: "1500" },
+  },
+});
+
+const days = Number(values.days);
+// Without an explicit start the window ends today, pass --start for reproducible files
+const start =
+  values.start ??
+  new Date(Date.now() - (days - 1) * 24 * 60 * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+const sessions = generateSessions({
+  seed: values.seed,
+  start,
+  days,
+  sessionsPerDay: Number(values["per-day"]),
+});
+
+const out = values.out as string;
+const format = extname(out).toLowerCase();
+const content =
+  format === ".json"
+    ? JSON.stringify(sessions, null, 2)
+    : format === ".ndjson"
+    ? sessionsToNdjson(sessions)
+    : sessionsToCsv(sessions);
+
+mkdirSync(dirname(out), { recursive: true });
+writeFileSync(out, content);
+console.log(
+  `[generator] wrote ${sessions.length} sessions (${start}, ${days} days, seed "${values.seed}") to ${out}`
+);
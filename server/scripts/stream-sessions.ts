@@ -0,0 +1,52 @@
+import { parseArgs } from "util";
+import { createSessionSimulator } from "../../src/analytics/generator";
+import { sessionsToNdjson } from "../../src/analytics/sessions";
+
+/**
+ * Post synthetic sessions to a running server as they end, to watch the live views without a gateway
+ *
+ *   npm run stream:sessions -- --url http://localhost:4000/api/analytics --per-day 20000
+ */
+
+const { values } = parseArgs({
+  options: {
+    url: { type: "string", default: "http://localhost:4000/api/analytics" },
+    seed: { type: "string", default: "live" },
+    "per-day": { type: "string", default: "20000" },
+    interval: { type: "string", default: "2" },
+  },
+});
+
+const simulate = createSessionSimulator({
+  seed: values.seed,
+  sessionsPerDay: Number(values["per-day"]),
+});
+const intervalMs = Number(values.interval) * 1000;
+let last = Date.now();
+
+const post = async () => {
+  const now = Date.now();
+  const sessions = simulate(last, now);
+  last = now;
+  if (sessions.length === 0) return;
+
+  const response = await fetch(`${values.url}/sessions/ingest?format=ndjson`, {
+    method: "POST",
+    headers: { "Content-Type": "application/x-ndjson" },
+    body: sessionsToNdjson(sessions),
+  });
+  if (!response.ok) {
+    console.error(
+      `[stream] ingest answered ${response.status}: ${await response.text()}`
+    );
+    return;
+  }
+  console.log(`[stream] posted ${sessions.length} sessions`);
+};
+
+console.log(
+  `[stream] posting sessions to ${values.url} every ${values.interval}s, stop with Ctrl+C`
+);
+setInterval(() => {
+  post().catch((error) => console.error("[stream] post failed", error.message));
+}, intervalMs);
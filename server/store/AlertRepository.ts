@@ -0,0 +1,107 @@
+import {
+  AlertIncident,
+  AlertRule,
+  AlertRuleInput,
+  DEFAULT_ALERT_RULES,
+} from "../../src/analytics/alerts";
+import {
+  DEFAULT_CHANNELS,
+  NotificationChannel,
+} from "../../src/analytics/notifications";
+import { JsonFileStore } from "./JsonFileStore";
+
+interface AlertFile {
+  rules: AlertRule[];
+  incidents: AlertIncident[];
+  channels: NotificationChannel[];
+}
+
+// A rule as stored, files written before notification channels existed have none
+type StoredRule<T extends AlertRuleInput> = Omit<T, "channels"> & {
+  channels?: string[];
+};
+
+interface StoredAlertFile {
+  rules?: StoredRule<AlertRule>[];
+  incidents?: (Omit<AlertIncident, "rule"> & {
+    rule: StoredRule<AlertRuleInput>;
+  })[];
+  channels?: NotificationChannel[];
+}
+
+/**
+ * Alert rules, incident history and notification channels.
+ * Kept in memory and written to a JSON file after every change so they survive restarts.
+ */
+export class AlertRepository {
+  private state: AlertFile = {
+    rules: DEFAULT_ALERT_RULES,
+    incidents: [],
+    channels: DEFAULT_CHANNELS,
+  };
+  private readonly file: JsonFileStore<AlertFile>;
+
+  constructor(file: string) {
+    this.file = new JsonFileStore(file);
+  }
+
+  /**
+   * Read the rules and incidents of previous runs, a missing file starts with the default rules
+   */
+  async load() {
+    const stored: StoredAlertFile | undefined = await this.file.read();
+    if (!stored) return;
+
+    // Files written before notification channels existed route nothing
+    const withChannels = <T extends StoredRule<AlertRuleInput>>(rule: T) => ({
+      ...rule,
+      channels: rule.channels ?? [],
+    });
+    this.state = {
+      rules: Array.isArray(stored.rules) ? stored.rules.map(withChannels) : [],
+      incidents: Array.isArray(stored.incidents)
+        ? stored.incidents.map((incident) => ({
+            ...incident,
+            rule: withChannels(incident.rule),
+          }))
+        : [],
+      channels: Array.isArray(stored.channels)
+        ? stored.channels
+        : DEFAULT_CHANNELS,
+    };
+  }
+
+  rules(): readonly AlertRule[] {
+    return this.state.rules;
+  }
+
+  /**
+   * Incidents, newest first
+   */
+  incidents(): readonly AlertIncident[] {
+    return this.state.incidents;
+  }
+
+  channels(): readonly NotificationChannel[] {
+    return this.state.channels;
+  }
+
+  async setRules(rules: AlertRule[]) {
+    this.state = { ...this.state, rules };
+    await this.save();
+  }
+
+  async setIncidents(incidents: AlertIncident[]) {
+    this.state = { ...this.state, incidents };
+    await this.save();
+  }
+
+  async setChannels(channels: NotificationChannel[]) {
+    this.state = { ...this.state, channels };
+    await this.save();
+  }
+
+  private save() {
+    return this.file.write(this.state);
+  }
+}
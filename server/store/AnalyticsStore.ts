@@ -0,0 +1,54 @@
+import { MetricScope, WindowMetrics } from "../../src/analytics/alerts";
+import { UssdSession } from "../../src/analytics/sessions";
+import {
+  ChartDataPoint,
+  DateRange,
+  DemographicsResponse,
+  FailureBreakdownResponse,
+  FailureSessionFilter,
+  GaugeApiResponse,
+  HeatmapCell,
+  MenuFlowResponse,
+  MenuFunnelResponse,
+  RevenuePoint,
+  SessionSearchFilter,
+} from "../../src/services/types";
+
+/**
+ * Data source behind the analytics api.
+ * Every route reads through this interface, so a store can be swapped (fixtures, database, ...)
+ * without touching the http layer. Methods are async so stores are free to do I/O.
+ */
+export interface AnalyticsStore {
+  /** Human readable name, logged on startup */
+  readonly name: string;
+
+  getTransactionVolume(
+    range: DateRange,
+    service: string
+  ): Promise<ChartDataPoint[]>;
+  getSuccessRate(period: DateRange): Promise<GaugeApiResponse>;
+  getFailureBreakdown(period: DateRange): Promise<FailureBreakdownResponse>;
+  /** The latest failed sessions behind a reason and network of the breakdown */
+  getFailedSessions(
+    period: DateRange,
+    filter: FailureSessionFilter
+  ): Promise<UssdSession[]>;
+  getPeakHours(): Promise<HeatmapCell[]>;
+  getDemographics(): Promise<DemographicsResponse>;
+  getRevenueTrends(range: DateRange): Promise<RevenuePoint[]>;
+  getMenuNavigationFlow(): Promise<MenuFlowResponse>;
+  /** Conversion through an ordered list of menu nodes */
+  getMenuFunnel(steps: string[]): Promise<MenuFunnelResponse>;
+  /** The latest sessions of a period for the session explorer, replies masked */
+  searchSessions(
+    period: DateRange,
+    filter: SessionSearchFilter
+  ): Promise<UssdSession[]>;
+  /** Session counts of a window, read by the alert monitor on every cycle */
+  getWindowMetrics(
+    start: number,
+    end: number,
+    scope: MetricScope
+  ): Promise<WindowMetrics>;
+}
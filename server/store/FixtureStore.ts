@@ -0,0 +1,71 @@
+import { MetricScope } from "../../src/analytics/alerts";
+import {
+  fixtureDemographics,
+  fixtureFailedSessions,
+  fixtureFailureBreakdown,
+  fixtureMenuFlow,
+  fixtureMenuFunnel,
+  fixturePeakHours,
+  fixtureRevenueTrends,
+  fixtureSessionSearch,
+  fixtureSuccessRate,
+  fixtureTransactionVolume,
+  fixtureWindowMetrics,
+} from "../../src/analytics/fixtures";
+import {
+  DateRange,
+  FailureSessionFilter,
+  SessionSearchFilter,
+} from "../../src/services/types";
+import { AnalyticsStore } from "./AnalyticsStore";
+
+/**
+ * Serves the same seeded fixtures as the in-browser mock profile, anchored on the current time
+ */
+export class FixtureStore implements AnalyticsStore {
+  readonly name = "fixtures";
+
+  async getTransactionVolume(range: DateRange, service: string) {
+    return fixtureTransactionVolume(range, service);
+  }
+
+  async getSuccessRate(period: DateRange) {
+    return fixtureSuccessRate(period);
+  }
+
+  async getFailureBreakdown(period: DateRange) {
+    return fixtureFailureBreakdown(period);
+  }
+
+  async getFailedSessions(period: DateRange, filter: FailureSessionFilter) {
+    return fixtureFailedSessions(period, filter);
+  }
+
+  async getPeakHours() {
+    return fixturePeakHours();
+  }
+
+  async getDemographics() {
+    return fixtureDemographics();
+  }
+
+  async getRevenueTrends(range: DateRange) {
+    return fixtureRevenueTrends(range);
+  }
+
+  async getMenuNavigationFlow() {
+    return fixtureMenuFlow();
+  }
+
+  async getMenuFunnel(steps: string[]) {
+    return fixtureMenuFunnel(steps);
+  }
+
+  async searchSessions(period: DateRange, filter: SessionSearchFilter) {
+    return fixtureSessionSearch(period, filter);
+  }
+
+  async getWindowMetrics(start: number, end: number, scope: MetricScope) {
+    return fixtureWindowMetrics(start, end, scope);
+  }
+}
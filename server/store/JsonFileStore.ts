@@ -0,0 +1,35 @@
+import { existsSync, mkdirSync, promises as fs } from "fs";
+import { dirname } from "path";
+
+/**
+ * A JSON file the repositories keep their state in, rewritten whole after every change
+ */
+export class JsonFileStore<T> {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Read the content written by previous runs
+   * @returns undefined when there is no file yet, an empty object when it does not hold one
+   */
+  async read(): Promise<object | undefined> {
+    if (!existsSync(this.file)) return undefined;
+
+    const parsed: unknown = JSON.parse(await fs.readFile(this.file, "utf8"));
+    return typeof parsed === "object" && parsed !== null ? parsed : {};
+  }
+
+  // Writes are chained so a slow one never lands after a newer one
+  write(content: T): Promise<void> {
+    const json = JSON.stringify(content, null, 2);
+    // A failed write is reported to its caller, the next one still goes through
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        mkdirSync(dirname(this.file), { recursive: true });
+        await fs.writeFile(this.file, json);
+      });
+    return this.writing;
+  }
+}
@@ -0,0 +1,69 @@
+import { randomUUID } from "crypto";
+import { MAX_REPORT_HISTORY } from "../../src/analytics/reports";
+import {
+  ArchivedReport,
+  ReportRecord,
+  ReportResponse,
+} from "../../src/services/types";
+import { JsonFileStore } from "./JsonFileStore";
+
+interface ReportFile {
+  reports: ArchivedReport[];
+}
+
+/**
+ * Generated reports, kept whole so any of them can be downloaded again as generated.
+ * Written to a JSON file after every report, the oldest dropped past `MAX_REPORT_HISTORY`.
+ */
+export class ReportRepository {
+  private reports: ArchivedReport[] = [];
+  private readonly file: JsonFileStore<ReportFile>;
+
+  constructor(file: string) {
+    this.file = new JsonFileStore(file);
+  }
+
+  /**
+   * Read the reports of previous runs, a missing file starts with an empty history
+   */
+  async load() {
+    const stored: Partial<ReportFile> | undefined = await this.file.read();
+    if (!stored) return;
+
+    this.reports = Array.isArray(stored.reports) ? stored.reports : [];
+  }
+
+  /**
+   * Reports without their content, newest first
+   */
+  history(): ReportRecord[] {
+    return this.reports.map(({ summary, sections, ...record }) => record);
+  }
+
+  get(id: string): ArchivedReport | undefined {
+    return this.reports.find((report) => report.id === id);
+  }
+
+  /**
+   * Archive a report
+   * @param report the generated report
+   * @param [schedule] the schedule that generated it, none for reports generated on demand
+   */
+  async add(
+    report: ReportResponse,
+    schedule?: ArchivedReport["schedule"]
+  ): Promise<ArchivedReport> {
+    const archived = {
+      id: randomUUID(),
+      ...report,
+      ...(schedule && { schedule }),
+    };
+    this.reports = [archived, ...this.reports].slice(0, MAX_REPORT_HISTORY);
+    await this.save();
+    return archived;
+  }
+
+  private save() {
+    return this.file.write({ reports: this.reports });
+  }
+}
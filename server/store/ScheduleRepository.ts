@@ -0,0 +1,66 @@
+import { ReportSchedule } from "../../src/analytics/schedules";
+import { JsonFileStore } from "./JsonFileStore";
+
+interface ScheduleFile {
+  schedules: ReportSchedule[];
+}
+
+/**
+ * Report schedules with their next and last run, kept in a JSON file
+ * so a run missed while the server was down still goes out when it starts again
+ */
+export class ScheduleRepository {
+  private schedules: ReportSchedule[] = [];
+  private readonly file: JsonFileStore<ScheduleFile>;
+
+  constructor(file: string) {
+    this.file = new JsonFileStore(file);
+  }
+
+  /**
+   * Read the schedules of previous runs, a missing file starts without any
+   */
+  async load() {
+    const stored: Partial<ScheduleFile> | undefined = await this.file.read();
+    if (!stored) return;
+
+    this.schedules = Array.isArray(stored.schedules) ? stored.schedules : [];
+  }
+
+  all(): readonly ReportSchedule[] {
+    return this.schedules;
+  }
+
+  get(id: string): ReportSchedule | undefined {
+    return this.schedules.find((schedule) => schedule.id === id);
+  }
+
+  /**
+   * Add a schedule, or replace the one with the same id
+   */
+  async put(schedule: ReportSchedule) {
+    this.schedules = this.get(schedule.id)
+      ? this.schedules.map((s) => (s.id === schedule.id ? schedule : s))
+      : [...this.schedules, schedule];
+    await this.save();
+  }
+
+  /**
+   * Change some fields of a schedule, a schedule deleted meanwhile stays deleted
+   */
+  async update(id: string, changes: Partial<ReportSchedule>) {
+    this.schedules = this.schedules.map((schedule) =>
+      schedule.id === id ? { ...schedule, ...changes } : schedule
+    );
+    await this.save();
+  }
+
+  async remove(id: string) {
+    this.schedules = this.schedules.filter((schedule) => schedule.id !== id);
+    await this.save();
+  }
+
+  private save() {
+    return this.file.write({ schedules: this.schedules });
+  }
+}
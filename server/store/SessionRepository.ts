@@ -0,0 +1,94 @@
+import { existsSync, mkdirSync, promises as fs } from "fs";
+import { dirname } from "path";
+import {
+  parseSessionLog,
+  SessionSummary,
+  summarizeSessions,
+  UssdSession,
+} from "../../src/analytics/sessions";
+
+/**
+ * Raw sessions ingested from uploaded gateway logs.
+ * Kept in memory for aggregation and appended to an NDJSON file so they survive restarts.
+ */
+export class SessionRepository {
+  private sessions: UssdSession[] = [];
+  private ids = new Set<string>();
+  private readonly listeners = new Set<(added: UssdSession[]) => void>();
+
+  constructor(private readonly file: string) {}
+
+  /**
+   * Read the sessions persisted by previous runs, a missing file is an empty repository
+   */
+  async load() {
+    if (!existsSync(this.file)) return;
+
+    const { sessions, rejected } = parseSessionLog(
+      await fs.readFile(this.file, "utf8"),
+      "ndjson"
+    );
+    if (rejected.length > 0) {
+      console.warn(
+        `[sessions] skipped ${rejected.length} unreadable lines in ${this.file}`
+      );
+    }
+    this.insert(sessions);
+  }
+
+  private insert(sessions: UssdSession[]): UssdSession[] {
+    const batch = new Set<string>();
+    const added = sessions.filter(({ sessionId }) => {
+      if (this.ids.has(sessionId) || batch.has(sessionId)) return false;
+      batch.add(sessionId);
+      return true;
+    });
+    // Spreading a large batch into push() overflows the call stack, and ids are only recorded once their sessions are stored
+    this.sessions = this.sessions.concat(added);
+    batch.forEach((id) => this.ids.add(id));
+    return added;
+  }
+
+  /**
+   * Store new sessions, ids that are already stored are skipped so re-uploading a log is harmless
+   * @param sessions validated sessions
+   * @returns how many were added and how many were duplicates
+   */
+  async add(sessions: UssdSession[]) {
+    const added = this.insert(sessions);
+    if (added.length > 0) {
+      mkdirSync(dirname(this.file), { recursive: true });
+      await fs.appendFile(
+        this.file,
+        added.map((session) => JSON.stringify(session)).join("\n") + "\n"
+      );
+      this.listeners.forEach((listener) => listener(added));
+    }
+    return { added: added.length, duplicates: sessions.length - added.length };
+  }
+
+  /**
+   * Be told about the sessions added from now on, duplicates excluded
+   * @returns unsubscribes the listener
+   */
+  subscribe(listener: (added: UssdSession[]) => void) {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  all(): readonly UssdSession[] {
+    return this.sessions;
+  }
+
+  summary(): SessionSummary {
+    return summarizeSessions(this.sessions);
+  }
+
+  async clear() {
+    this.sessions = [];
+    this.ids.clear();
+    await fs.rm(this.file, { force: true });
+  }
+}
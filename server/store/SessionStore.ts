@@ -0,0 +1,154 @@
+import {
+  aggregateFailures,
+  aggregateMenuFlow,
+  aggregatePeakHours,
+  aggregateRevenue,
+  aggregateSuccessRate,
+  aggregateVolume,
+  aggregateWindowMetrics,
+  sampleFailedSessions,
+} from "../../src/analytics/aggregate";
+import { MetricScope } from "../../src/analytics/alerts";
+import { fixtureDemographics } from "../../src/analytics/fixtures";
+import { searchSessions } from "../../src/analytics/explorer";
+import { aggregateMenuFunnel } from "../../src/analytics/funnel";
+import { NETWORKS } from "../../src/analytics/sessions";
+import {
+  DateRange,
+  DemographicsResponse,
+  FailureSessionFilter,
+  SessionSearchFilter,
+} from "../../src/services/types";
+import { AnalyticsStore } from "./AnalyticsStore";
+import { SessionRepository } from "./SessionRepository";
+
+const NETWORK_LABELS: Record<string, string> = {
+  MTN: "MTN Zambia",
+  Airtel: "Airtel Zambia",
+  Zamtel: "Zamtel",
+};
+
+const PROVINCE_TYPES: Record<string, string> = {
+  Lusaka: "Urban",
+  Copperbelt: "Urban/Mining",
+  Southern: "Agricultural",
+  Central: "Agricultural",
+  Eastern: "Agricultural",
+  "North-Western": "Mining",
+};
+
+const percentage = (part: number, whole: number) =>
+  whole > 0 ? Math.round((part / whole) * 100) : 0;
+
+/**
+ * Computes every endpoint from the sessions ingested through `/sessions/ingest`
+ */
+export class SessionStore implements AnalyticsStore {
+  readonly name = "sessions";
+
+  constructor(private readonly repository: SessionRepository) {}
+
+  async getTransactionVolume(range: DateRange, service: string) {
+    const sessions = this.repository.all();
+    return aggregateVolume(
+      service === "all"
+        ? sessions
+        : sessions.filter((session) => session.service === service),
+      range
+    );
+  }
+
+  async getSuccessRate(period: DateRange) {
+    return aggregateSuccessRate(this.repository.all(), period);
+  }
+
+  async getFailureBreakdown(period: DateRange) {
+    return aggregateFailures(this.repository.all(), period);
+  }
+
+  async getFailedSessions(period: DateRange, filter: FailureSessionFilter) {
+    return sampleFailedSessions(this.repository.all(), period, filter);
+  }
+
+  async getPeakHours() {
+    return aggregatePeakHours(this.repository.all());
+  }
+
+  /**
+   * Subscribers per province and network are counted from the logs.
+   * Age, gender, device and urban/rural are not in session logs, so the reference shares are applied to the real total.
+   */
+  async getDemographics(): Promise<DemographicsResponse> {
+    const provinces = new Map<string, Set<string>>();
+    const networks = new Map<string, Set<string>>();
+    const subscribers = new Set<string>();
+
+    this.repository.all().forEach(({ msisdnHash, province, network }) => {
+      subscribers.add(msisdnHash);
+      if (!provinces.has(province)) provinces.set(province, new Set());
+      provinces.get(province)!.add(msisdnHash);
+      if (!networks.has(network)) networks.set(network, new Set());
+      networks.get(network)!.add(msisdnHash);
+    });
+
+    const totalUsers = subscribers.size;
+    const reference = fixtureDemographics();
+    const scale = <T extends { value?: number; percentage?: number }>(
+      items: T[]
+    ) =>
+      items.map((item) => ({
+        ...item,
+        users: Math.round(
+          (totalUsers * (item.percentage ?? item.value ?? 0)) / 100
+        ),
+      }));
+
+    return {
+      ...reference,
+      totalUsers,
+      provinceData: Array.from(provinces.entries())
+        .map(([name, users]) => ({
+          name,
+          users: users.size,
+          percentage: percentage(users.size, totalUsers),
+          type: PROVINCE_TYPES[name] ?? "Mixed",
+        }))
+        .sort((a, b) => b.users - a.users),
+      networkData: NETWORKS.map((name) => {
+        const users = networks.get(name)?.size ?? 0;
+        return {
+          name: NETWORK_LABELS[name],
+          users,
+          percentage: percentage(users, totalUsers),
+          description:
+            reference.networkData.find((n) => n.name === NETWORK_LABELS[name])
+              ?.description ?? "",
+        };
+      }),
+      ageGroups: scale(reference.ageGroups),
+      genderData: scale(reference.genderData),
+      urbanRuralData: scale(reference.urbanRuralData),
+      deviceData: scale(reference.deviceData),
+    };
+  }
+
+  async getRevenueTrends(range: DateRange) {
+    return aggregateRevenue(this.repository.all(), range);
+  }
+
+  async getMenuNavigationFlow() {
+    return aggregateMenuFlow(this.repository.all());
+  }
+
+  async getMenuFunnel(steps: string[]) {
+    return aggregateMenuFunnel(this.repository.all(), steps);
+  }
+
+  async searchSessions(period: DateRange, filter: SessionSearchFilter) {
+    return searchSessions(this.repository.all(), period, filter);
+  }
+
+  async getWindowMetrics(start: number, end: number, scope: MetricScope) {
+    return aggregateWindowMetrics(this.repository.all(), start, end, scope);
+  }
+}
@@ -0,0 +1,39 @@
+import { DEFAULT_SLA_CONFIG, SlaConfig } from "../../src/analytics/sla";
+import { JsonFileStore } from "./JsonFileStore";
+
+interface SettingsFile {
+  sla: SlaConfig;
+}
+
+/**
+ * Dashboard settings shared by every user of the server, kept in a JSON file
+ */
+export class SettingsRepository {
+  private state: SettingsFile = { sla: DEFAULT_SLA_CONFIG };
+  private readonly file: JsonFileStore<SettingsFile>;
+
+  constructor(file: string) {
+    this.file = new JsonFileStore(file);
+  }
+
+  /**
+   * Read the settings of previous runs, anything missing keeps its default
+   */
+  async load() {
+    const stored: Partial<SettingsFile> | undefined = await this.file.read();
+    this.state = { ...this.state, ...stored };
+  }
+
+  sla(): SlaConfig {
+    return this.state.sla;
+  }
+
+  async setSla(sla: SlaConfig) {
+    this.state = { ...this.state, sla };
+    await this.save();
+  }
+
+  private save() {
+    return this.file.write(this.state);
+  }
+}
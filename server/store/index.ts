@@ -0,0 +1,42 @@
+import { AnalyticsStore } from "./AnalyticsStore";
+import { FixtureStore } from "./FixtureStore";
+import { SessionRepository } from "./SessionRepository";
+import { SessionStore } from "./SessionStore";
+
+export type { AnalyticsStore } from "./AnalyticsStore";
+
+/**
+ * What a store may read from besides its own configuration
+ */
+export interface StoreDependencies {
+  sessions: SessionRepository;
+}
+
+// Every store the server can be started with, selected through ANALYTICS_STORE
+const stores: Record<string, (deps: StoreDependencies) => AnalyticsStore> = {
+  fixtures: () => new FixtureStore(),
+  sessions: ({ sessions }) => new SessionStore(sessions),
+};
+
+export const DEFAULT_STORE = "fixtures";
+
+/**
+ * Build the store registered under a name
+ * @param name the registry key, DEFAULT_STORE when empty
+ * @param deps shared services the store can use
+ */
+export const createStore = (
+  name: string | undefined,
+  deps: StoreDependencies
+): AnalyticsStore => {
+  const key = name || DEFAULT_STORE;
+  const factory = stores[key];
+  if (!factory) {
+    throw new Error(
+      `Unknown analytics store "${key}", expected one of: ${Object.keys(
+        stores
+      ).join(", ")}`
+    );
+  }
+  return factory(deps);
+};
@@ -0,0 +1,314 @@
+import {
+  aggregateFailures,
+  aggregateMenuFlow,
+  aggregatePeakHours,
+  aggregateRevenue,
+  aggregateSuccessRate,
+  aggregateVolume,
+  aggregateWindowMetrics,
+  peakConcurrency,
+  sampleFailedSessions,
+} from "./aggregate";
+import { timeBuckets } from "./buckets";
+import { UssdSession } from "./sessions";
+import { testSession } from "./testSessions";
+
+// UTC wall clock so the expected values below read directly off the timestamps
+const options = { now: new Date("2025-03-10T12:30:00Z"), utcOffsetMinutes: 0 };
+
+let nextId = 0;
+const session = (
+  startedAt: string,
+  endedAt: string,
+  overrides: Partial<UssdSession> = {}
+): UssdSession =>
+  testSession({
+    sessionId: `T${nextId++}`,
+    msisdnHash: "abc123",
+    service: "airtime",
+    menuPath: ["*115#", "Buy Airtime", "Confirm"],
+    startedAt,
+    endedAt,
+    amount: 0,
+    ...overrides,
+  });
+
+const sessions = [
+  session("2025-03-10T10:05:00Z", "2025-03-10T10:06:00Z", { amount: 10 }),
+  session("2025-03-10T10:05:30Z", "2025-03-10T10:07:00Z", {
+    service: "electricity",
+    outcome: "failed",
+  }),
+  session("2025-03-10T10:06:00Z", "2025-03-10T10:08:00Z", {
+    service: "water",
+    outcome: "abandoned",
+  }),
+  session("2025-03-10T10:59:00Z", "2025-03-10T11:01:00Z", {
+    service: "mobileMoney",
+    amount: 200,
+  }),
+  session("2025-03-10T11:30:00Z", "2025-03-10T11:30:40Z", { amount: 5 }),
+];
+
+describe("peakConcurrency", () => {
+  const hour = timeBuckets("24h", options).slice(-3);
+
+  it("does not overlap sessions that end as another starts", () => {
+    expect(peakConcurrency(sessions, hour)).toEqual([2, 1, 0]);
+  });
+
+  it("ignores sessions without a duration", () => {
+    const instant = session("2025-03-10T12:10:00Z", "2025-03-10T12:10:00Z");
+    expect(peakConcurrency([instant], hour)).toEqual([0, 0, 0]);
+  });
+});
+
+describe("aggregateVolume", () => {
+  it("rolls sessions into hourly buckets", () => {
+    const [ten, eleven, noon] = aggregateVolume(sessions, "24h", options).slice(
+      -3
+    );
+
+    expect(ten).toEqual({
+      date: "10:00",
+      fullDate: "2025-03-10T10:00:00.000Z",
+      dayOfWeek: "Mon",
+      hour: 10,
+      total: 4,
+      electricity: 1,
+      water: 1,
+      airtime: 1,
+      mobileMoney: 1,
+      banking: 0,
+      // (60 + 90 + 120 + 120) / 4
+      avgSessionTime: 98,
+      // 2 completed out of 3 concluded, the abandoned session does not count
+      successRate: 66.7,
+      revenue: 210,
+      failedTransactions: 1,
+      peakConcurrentUsers: 2,
+    });
+    expect(eleven).toMatchObject({
+      total: 1,
+      avgSessionTime: 40,
+      successRate: 100,
+      revenue: 5,
+      // Still open from 10:59
+      peakConcurrentUsers: 1,
+    });
+    expect(noon).toMatchObject({ total: 0, successRate: 0, revenue: 0 });
+  });
+
+  it("rolls sessions into daily buckets", () => {
+    const days = aggregateVolume(sessions, "7d", options);
+    expect(days).toHaveLength(7);
+    expect(days[6]).toMatchObject({
+      date: "Mar 10",
+      total: 5,
+      revenue: 215,
+      peakConcurrentUsers: 2,
+    });
+    expect(days.slice(0, 6).every((d) => d.total === 0)).toBe(true);
+  });
+});
+
+describe("aggregateRevenue", () => {
+  it("sums completed sessions per service and leaves banking out", () => {
+    const banking = session("2025-03-10T09:00:00Z", "2025-03-10T09:01:00Z", {
+      service: "banking",
+      amount: 1000,
+    });
+    const [today] = aggregateRevenue(
+      [...sessions, banking],
+      { start: "2025-03-10", end: "2025-03-10" },
+      options
+    );
+    expect(today).toEqual({
+      date: "2025-03-10T00:00:00.000Z",
+      electricity: 0,
+      mobileMoney: 200,
+      airtime: 15,
+      water: 0,
+      total: 215,
+    });
+  });
+});
+
+describe("aggregatePeakHours", () => {
+  it("counts sessions per weekday and two hour slot", () => {
+    const cells = aggregatePeakHours(sessions, options);
+    expect(cells).toHaveLength(7 * 12);
+    expect(cells.find((c) => c.day === "Monday" && c.hour === "10-12")).toEqual(
+      { day: "Monday", hour: "10-12", value: 5, intensity: 0, isPeak: true }
+    );
+  });
+});
+
+describe("aggregateSuccessRate", () => {
+  it("rates each bucket on its concluded sessions, null without any", () => {
+    const { timeline } = aggregateSuccessRate(sessions, "24h", options);
+
+    expect(timeline.slice(-3)).toEqual([
+      {
+        fullDate: "2025-03-10T10:00:00.000Z",
+        minutes: 60,
+        rate: 66.7,
+        networks: { MTN: 66.7, Airtel: null, Zamtel: null },
+      },
+      {
+        fullDate: "2025-03-10T11:00:00.000Z",
+        minutes: 60,
+        rate: 100,
+        networks: { MTN: 100, Airtel: null, Zamtel: null },
+      },
+      {
+        fullDate: "2025-03-10T12:00:00.000Z",
+        minutes: 60,
+        rate: null,
+        networks: { MTN: null, Airtel: null, Zamtel: null },
+      },
+    ]);
+  });
+});
+
+describe("aggregateFailures", () => {
+  const failures = [
+    ...sessions,
+    session("2025-03-10T10:20:00Z", "2025-03-10T10:21:00Z", {
+      network: "Airtel",
+      outcome: "failed",
+      failureReason: "gatewayError",
+    }),
+    session("2025-03-10T11:40:00Z", "2025-03-10T11:41:00Z", {
+      outcome: "failed",
+      failureReason: "gatewayError",
+    }),
+  ];
+
+  it("counts failed sessions per reason, network and bucket", () => {
+    const { totalFailed, reasons, trend } = aggregateFailures(
+      failures,
+      "24h",
+      options
+    );
+
+    expect(totalFailed).toBe(3);
+    // The failed session without a reason comes from an older log
+    expect(reasons.map((r) => [r.reason, r.count, r.share])).toEqual([
+      ["sessionTimeout", 0, 0],
+      ["insufficientFunds", 0, 0],
+      ["gatewayError", 2, 66.7],
+      ["billerUnavailable", 0, 0],
+      ["userCancel", 0, 0],
+      ["invalidInput", 0, 0],
+      ["unreported", 1, 33.3],
+    ]);
+    expect(reasons[2].networks).toEqual({ MTN: 1, Airtel: 1, Zamtel: 0 });
+    expect(trend.slice(-3).map((point) => point.gatewayError)).toEqual([
+      1, 1, 0,
+    ]);
+    expect(trend[trend.length - 3].unreported).toBe(1);
+  });
+
+  it("leaves unreported out when every failure has a reason", () => {
+    const { reasons } = aggregateFailures(failures.slice(-2), "24h", options);
+    expect(reasons.map((r) => r.reason)).not.toContain("unreported");
+  });
+
+  it("returns the latest matching failed sessions", () => {
+    expect(
+      sampleFailedSessions(
+        failures,
+        "24h",
+        { reason: "gatewayError", network: "all" },
+        options
+      ).map((s) => s.startedAt)
+    ).toEqual(["2025-03-10T11:40:00Z", "2025-03-10T10:20:00Z"]);
+    expect(
+      sampleFailedSessions(
+        failures,
+        "24h",
+        { reason: "all", network: "Airtel" },
+        options
+      )
+    ).toHaveLength(1);
+  });
+
+  it("masks the replies of the sessions it returns", () => {
+    const withInputs = session("2025-03-10T11:50:00Z", "2025-03-10T11:51:00Z", {
+      outcome: "failed",
+      failureReason: "gatewayError",
+      menuPath: ["*115#", "Electricity", "Meter No", "Confirm"],
+      inputs: ["2", "04123456789", "150", "1"],
+    });
+    const [sample] = sampleFailedSessions(
+      [...failures, withInputs],
+      "24h",
+      { reason: "gatewayError", network: "all" },
+      options
+    );
+
+    expect(sample.sessionId).toBe(withInputs.sessionId);
+    expect(sample.inputs).toEqual(["2", "•••••••••89", "•50", "1"]);
+    expect(JSON.stringify(sample)).not.toContain("04123456789");
+  });
+});
+
+describe("aggregateWindowMetrics", () => {
+  it("counts sessions started in the window and scope", () => {
+    const start = Date.parse("2025-03-10T10:00:00Z");
+    const end = Date.parse("2025-03-10T11:00:00Z");
+
+    expect(
+      aggregateWindowMetrics(sessions, start, end, {
+        network: "all",
+        province: "all",
+      })
+    ).toEqual({ sessions: 4, completed: 2, failed: 1 });
+    expect(
+      aggregateWindowMetrics(
+        [
+          ...sessions,
+          session("2025-03-10T10:10:00Z", "2025-03-10T10:11:00Z", {
+            network: "Airtel",
+          }),
+        ],
+        start,
+        end,
+        { network: "Airtel", province: "all" }
+      )
+    ).toEqual({ sessions: 1, completed: 1, failed: 0 });
+    expect(
+      aggregateWindowMetrics(sessions, start, end, {
+        network: "all",
+        province: "Copperbelt",
+      })
+    ).toEqual({ sessions: 0, completed: 0, failed: 0 });
+  });
+});
+
+describe("aggregateMenuFlow", () => {
+  it("links consecutive menu nodes and ends paths in their outcome", () => {
+    const flow = aggregateMenuFlow([
+      session("2025-03-10T10:00:00Z", "2025-03-10T10:01:00Z"),
+      session("2025-03-10T10:00:00Z", "2025-03-10T10:01:00Z", {
+        outcome: "abandoned",
+        menuPath: ["*115#", "Buy Airtime"],
+      }),
+    ]);
+
+    expect(flow.nodes.map((n) => n.name)).toEqual([
+      "*115#",
+      "Buy Airtime",
+      "Confirm",
+      "Completed",
+      "Abandoned",
+    ]);
+    expect(flow.links).toEqual([
+      { source: 0, target: 1, value: 2 },
+      { source: 1, target: 2, value: 1 },
+      { source: 2, target: 3, value: 1 },
+      { source: 1, target: 4, value: 1 },
+    ]);
+  });
+});
@@ -0,0 +1,499 @@
+import {
+  ChartDataPoint,
+  DateRange,
+  FailureBreakdownResponse,
+  FailureReasonKey,
+  FailureSessionFilter,
+  GaugeApiResponse,
+  HeatmapCell,
+  MenuFlowResponse,
+  RevenuePoint,
+} from "../services/types";
+import { ALL_SCOPE, MetricScope, WindowMetrics } from "./alerts";
+import { BucketOptions, TimeBucket, timeBuckets } from "./buckets";
+import { maskSessionInputs } from "./explorer";
+import { withIntensity } from "./fixtures";
+import { MENU_FLOW_OUTCOME_NODES } from "./menuFlow";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+import {
+  FAILURE_REASONS,
+  FAILURE_SAMPLE_LIMIT,
+  NETWORKS,
+  UssdSession,
+} from "./sessions";
+
+/**
+ * Roll raw sessions up into the payloads of the analytics endpoints.
+ */
+
+export type AggregateOptions = BucketOptions;
+
+const HEATMAP_DAYS = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+];
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const pad = (value: number) => String(value).padStart(2, "0");
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+// Share of concluded transactions that completed, abandoned sessions never reached the gateway
+const successRateOf = (completed: number, failed: number) =>
+  completed + failed > 0 ? round1((completed / (completed + failed)) * 100) : 0;
+
+/**
+ * Group sessions by the bucket their start falls in, buckets must be contiguous and sorted
+ * @returns one list of sessions per bucket
+ */
+const groupByBucket = (
+  sessions: readonly UssdSession[],
+  buckets: TimeBucket[]
+): UssdSession[][] => {
+  const groups = buckets.map((): UssdSession[] => []);
+  if (buckets.length === 0) return groups;
+
+  const first = buckets[0].start;
+  const last = buckets[buckets.length - 1].end;
+  sessions.forEach((session) => {
+    const startedAt = Date.parse(session.startedAt);
+    if (startedAt < first || startedAt >= last) return;
+    // Every bucket of a series has the same length
+    const index = Math.floor(
+      (startedAt - first) / (buckets[0].end - buckets[0].start)
+    );
+    groups[index].push(session);
+  });
+  return groups;
+};
+
+/**
+ * Highest number of sessions open at the same moment in each bucket.
+ * A session is open on [startedAt, endedAt), so one ending exactly when another starts does not overlap it,
+ * and sessions spanning a bucket boundary count in both buckets.
+ * @param sessions sessions in any order
+ * @param buckets contiguous buckets, oldest first
+ */
+export const peakConcurrency = (
+  sessions: readonly UssdSession[],
+  buckets: TimeBucket[]
+): number[] => {
+  const events: [number, number][] = [];
+  sessions.forEach((session) => {
+    const start = Date.parse(session.startedAt);
+    const end = Date.parse(session.endedAt);
+    if (end > start) events.push([start, 1], [end, -1]);
+  });
+  // Ends before starts at the same instant
+  events.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+
+  let open = 0;
+  let next = 0;
+  return buckets.map(({ start, end }) => {
+    while (next < events.length && events[next][0] <= start) {
+      open += events[next++][1];
+    }
+    let peak = open;
+    while (next < events.length && events[next][0] < end) {
+      open += events[next++][1];
+      peak = Math.max(peak, open);
+    }
+    return peak;
+  });
+};
+
+/**
+ * Transaction volume series for a time range, the payload of `/transactions/volume/:range/:service`
+ * @param sessions sessions in any order
+ * @param range hourly buckets up to two days, daily otherwise
+ * @param [options={}] window end and timezone
+ */
+export const aggregateVolume = (
+  sessions: readonly UssdSession[],
+  range: DateRange,
+  options: AggregateOptions = {}
+): ChartDataPoint[] => {
+  const buckets = timeBuckets(range, options);
+  const groups = groupByBucket(sessions, buckets);
+  const concurrency = peakConcurrency(sessions, buckets);
+  const offsetMs =
+    (options.utcOffsetMinutes ?? CAT_UTC_OFFSET_MINUTES) * 60 * 1000;
+
+  return buckets.map((bucket, i) => {
+    const group = groups[i];
+    const counts = {
+      electricity: 0,
+      water: 0,
+      airtime: 0,
+      mobileMoney: 0,
+      banking: 0,
+    };
+    let duration = 0;
+    let completed = 0;
+    let failed = 0;
+    let revenue = 0;
+
+    group.forEach((session) => {
+      counts[session.service]++;
+      duration += Date.parse(session.endedAt) - Date.parse(session.startedAt);
+      if (session.outcome === "completed") {
+        completed++;
+        revenue += session.amount;
+      }
+      if (session.outcome === "failed") failed++;
+    });
+
+    return {
+      date: bucket.label,
+      fullDate: new Date(bucket.start).toISOString(),
+      dayOfWeek: DAY_NAMES[new Date(bucket.start + offsetMs).getUTCDay()],
+      ...(bucket.hour !== undefined && { hour: bucket.hour }),
+      total: group.length,
+      ...counts,
+      avgSessionTime: group.length
+        ? Math.round(duration / group.length / 1000)
+        : 0,
+      successRate: successRateOf(completed, failed),
+      revenue: Math.round(revenue),
+      failedTransactions: failed,
+      peakConcurrentUsers: concurrency[i],
+    };
+  });
+};
+
+/**
+ * Daily revenue in ZMW per service, the payload of `/revenue/trends/:range`.
+ * Only completed sessions earn revenue, banking has no line on the revenue chart so it is left out of the total.
+ * @param sessions sessions in any order
+ * @param range the days to cover
+ * @param [options={}] window end and timezone
+ */
+export const aggregateRevenue = (
+  sessions: readonly UssdSession[],
+  range: DateRange,
+  options: AggregateOptions = {}
+): RevenuePoint[] => {
+  // Revenue is always daily, even for short ranges
+  const buckets = timeBuckets(range, { ...options, granularity: "day" });
+
+  return groupByBucket(sessions, buckets).map((group, i) => {
+    const point = { electricity: 0, mobileMoney: 0, airtime: 0, water: 0 };
+    group.forEach((session) => {
+      if (session.outcome === "completed" && session.service !== "banking") {
+        point[session.service] += session.amount;
+      }
+    });
+    const rounded = {
+      electricity: Math.round(point.electricity),
+      mobileMoney: Math.round(point.mobileMoney),
+      airtime: Math.round(point.airtime),
+      water: Math.round(point.water),
+    };
+
+    return {
+      date: new Date(buckets[i].start).toISOString(),
+      ...rounded,
+      total:
+        rounded.electricity +
+        rounded.mobileMoney +
+        rounded.airtime +
+        rounded.water,
+    };
+  });
+};
+
+/**
+ * Sessions per weekday and two hour slot over the last days, the payload of `/peak-hours`
+ * @param sessions sessions in any order
+ * @param [options={}] window end, timezone and how many days to count (7 by default)
+ */
+export const aggregatePeakHours = (
+  sessions: readonly UssdSession[],
+  { days = 7, ...options }: AggregateOptions & { days?: number } = {}
+): HeatmapCell[] => {
+  const offsetMs =
+    (options.utcOffsetMinutes ?? CAT_UTC_OFFSET_MINUTES) * 60 * 1000;
+  const buckets = timeBuckets("90d", options).slice(-days);
+  const counts = HEATMAP_DAYS.map(() => new Array<number>(12).fill(0));
+
+  groupByBucket(sessions, buckets).forEach((group) =>
+    group.forEach((session) => {
+      const local = new Date(Date.parse(session.startedAt) + offsetMs);
+      // Monday first, like the heatmap rows
+      const day = (local.getUTCDay() + 6) % 7;
+      counts[day][Math.floor(local.getUTCHours() / 2)]++;
+    })
+  );
+
+  return withIntensity(
+    HEATMAP_DAYS.flatMap((day, d) =>
+      counts[d].map((value, slot) => ({
+        day,
+        hour: `${pad(slot * 2)}-${pad((slot * 2 + 2) % 24)}`,
+        value,
+        intensity: 0,
+        isPeak: false,
+      }))
+    )
+  );
+};
+
+/**
+ * Success rate gauge for a time range, the payload of `/transactions/success-rate/:period`
+ * @param sessions sessions in any order
+ * @param period the window to measure
+ * @param [options={}] window end and timezone
+ */
+export const aggregateSuccessRate = (
+  sessions: readonly UssdSession[],
+  period: DateRange,
+  options: AggregateOptions = {}
+): GaugeApiResponse => {
+  const now = (options.now ?? new Date()).getTime();
+  const offsetMs =
+    (options.utcOffsetMinutes ?? CAT_UTC_OFFSET_MINUTES) * 60 * 1000;
+  const buckets = timeBuckets(period, options);
+  const groups = groupByBucket(sessions, buckets);
+  const inWindow = groups.flat();
+
+  const byNetwork = new Map(
+    NETWORKS.map((name) => [name, { sessions: 0, completed: 0, failed: 0 }])
+  );
+  const byProvince = new Map<string, number>();
+  const bySlot = new Array<number>(12).fill(0);
+  let completed = 0;
+  let failed = 0;
+  let secondsPerScreen = 0;
+  let activeSessions = 0;
+
+  inWindow.forEach((session) => {
+    const startedAt = Date.parse(session.startedAt);
+    const endedAt = Date.parse(session.endedAt);
+    const network = byNetwork.get(session.network)!;
+    network.sessions++;
+    if (session.outcome === "completed") {
+      completed++;
+      network.completed++;
+    }
+    if (session.outcome === "failed") {
+      failed++;
+      network.failed++;
+    }
+    byProvince.set(
+      session.province,
+      (byProvince.get(session.province) || 0) + 1
+    );
+    bySlot[Math.floor(new Date(startedAt + offsetMs).getUTCHours() / 2)]++;
+    secondsPerScreen +=
+      (endedAt - startedAt) / 1000 / Math.max(1, session.menuPath.length);
+    if (startedAt <= now && endedAt > now) activeSessions++;
+  });
+
+  const topProvince = Array.from(byProvince.entries()).reduce(
+    (top, entry) => (entry[1] > top[1] ? entry : top),
+    ["-", 0]
+  )[0];
+  const peakSlot = bySlot.indexOf(Math.max(...bySlot));
+
+  return {
+    metrics: {
+      successRate: successRateOf(completed, failed),
+      successfulTxns: completed,
+      failedTxns: failed,
+      // Seconds per menu screen, the closest the session logs get to a response time
+      avgResponseTime: inWindow.length
+        ? round1(secondsPerScreen / inWindow.length)
+        : 0,
+      activeSessions,
+      topProvince,
+      peakHour: `${pad(peakSlot * 2)}:00 - ${pad((peakSlot * 2 + 2) % 24)}:00`,
+    },
+    networks: NETWORKS.map((name) => {
+      const network = byNetwork.get(name)!;
+      return {
+        name,
+        rate: successRateOf(network.completed, network.failed),
+        marketShare: inWindow.length
+          ? Math.round((network.sessions / inWindow.length) * 100)
+          : 0,
+        totalTransactions: network.completed + network.failed,
+      };
+    }),
+    timeline: buckets.map((bucket, i) => {
+      const rateOf = (group: readonly UssdSession[]) => {
+        const completed = group.filter((s) => s.outcome === "completed");
+        const failed = group.filter((s) => s.outcome === "failed");
+        return completed.length + failed.length > 0
+          ? successRateOf(completed.length, failed.length)
+          : null;
+      };
+      return {
+        fullDate: new Date(bucket.start).toISOString(),
+        minutes: (bucket.end - bucket.start) / 60000,
+        rate: rateOf(groups[i]),
+        networks: Object.fromEntries(
+          NETWORKS.map((name) => [
+            name,
+            rateOf(groups[i].filter((s) => s.network === name)),
+          ])
+        ),
+      };
+    }),
+  };
+};
+
+const failureReasonOf = (session: UssdSession): FailureReasonKey =>
+  session.failureReason ?? "unreported";
+
+/**
+ * Failed transactions by reason, per network and over time, the payload of `/transactions/failures/:period`
+ * @param sessions sessions in any order
+ * @param period the window to break down
+ * @param [options={}] window end and timezone
+ */
+export const aggregateFailures = (
+  sessions: readonly UssdSession[],
+  period: DateRange,
+  options: AggregateOptions = {}
+): FailureBreakdownResponse => {
+  const buckets = timeBuckets(period, options);
+  const groups = groupByBucket(
+    sessions.filter((session) => session.outcome === "failed"),
+    buckets
+  );
+  const failed = groups.flat();
+
+  const unreported = failed.filter((s) => !s.failureReason).length;
+  const keys: FailureReasonKey[] = unreported
+    ? [...FAILURE_REASONS, "unreported"]
+    : FAILURE_REASONS;
+  const countByReason = (group: readonly UssdSession[]) => {
+    const counts = Object.fromEntries(keys.map((key) => [key, 0]));
+    group.forEach((session) => counts[failureReasonOf(session)]++);
+    return counts;
+  };
+
+  return {
+    totalFailed: failed.length,
+    reasons: keys.map((reason) => {
+      const matching = failed.filter((s) => failureReasonOf(s) === reason);
+      return {
+        reason,
+        count: matching.length,
+        share: failed.length
+          ? round1((matching.length / failed.length) * 100)
+          : 0,
+        networks: Object.fromEntries(
+          NETWORKS.map((name) => [
+            name,
+            matching.filter((s) => s.network === name).length,
+          ])
+        ),
+      };
+    }),
+    trend: buckets.map((bucket, i) => ({
+      date: bucket.label,
+      fullDate: new Date(bucket.start).toISOString(),
+      ...countByReason(groups[i]),
+    })),
+  };
+};
+
+/**
+ * The latest failed sessions of a period matching a reason and network, to drill into a breakdown.
+ * Their replies are masked like in the session explorer.
+ * @param sessions sessions in any order
+ * @param period the window to look in
+ * @param filter reason and network, "all" for any
+ * @param [options={}] window end and timezone
+ */
+export const sampleFailedSessions = (
+  sessions: readonly UssdSession[],
+  period: DateRange,
+  { reason, network }: FailureSessionFilter,
+  options: AggregateOptions = {}
+): UssdSession[] =>
+  groupByBucket(
+    sessions.filter(
+      (session) =>
+        session.outcome === "failed" &&
+        (reason === "all" || failureReasonOf(session) === reason) &&
+        (network === "all" || session.network === network)
+    ),
+    timeBuckets(period, options)
+  )
+    .flat()
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, FAILURE_SAMPLE_LIMIT)
+    .map(maskSessionInputs);
+
+/**
+ * Session counts of a window within a network and province, what alert rules are evaluated on
+ * @param sessions sessions in any order
+ * @param start window start, epoch ms
+ * @param end window end (excluded), epoch ms
+ * @param scope network and province, "all" for any
+ */
+export const aggregateWindowMetrics = (
+  sessions: readonly UssdSession[],
+  start: number,
+  end: number,
+  { network, province }: MetricScope
+): WindowMetrics => {
+  const metrics = { sessions: 0, completed: 0, failed: 0 };
+  sessions.forEach((session) => {
+    const startedAt = Date.parse(session.startedAt);
+    if (startedAt < start || startedAt >= end) return;
+    if (network !== ALL_SCOPE && session.network !== network) return;
+    if (province !== ALL_SCOPE && session.province !== province) return;
+
+    metrics.sessions++;
+    if (session.outcome === "completed") metrics.completed++;
+    if (session.outcome === "failed") metrics.failed++;
+  });
+  return metrics;
+};
+
+/**
+ * Menu transitions as a Sankey graph, the payload of `/menu-flow`.
+ * Every path ends in a Completed, Failed or Abandoned node, nodes a session revisits (going back) are skipped.
+ * @param sessions sessions in any order
+ */
+export const aggregateMenuFlow = (
+  sessions: readonly UssdSession[]
+): MenuFlowResponse => {
+  const nodeIndex = new Map<string, number>();
+  const linkValues = new Map<string, number>();
+
+  const indexOf = (name: string) => {
+    if (!nodeIndex.has(name)) nodeIndex.set(name, nodeIndex.size);
+    return nodeIndex.get(name)!;
+  };
+
+  // Menu nodes first so outcome nodes end up last
+  sessions.forEach((session) => session.menuPath.forEach(indexOf));
+
+  sessions.forEach((session) => {
+    const visited = new Set<string>();
+    const path = session.menuPath
+      .filter((node) => !visited.has(node) && visited.add(node))
+      .concat(MENU_FLOW_OUTCOME_NODES[session.outcome]);
+
+    for (let i = 1; i < path.length; i++) {
+      const key = `${indexOf(path[i - 1])}>${indexOf(path[i])}`;
+      linkValues.set(key, (linkValues.get(key) || 0) + 1);
+    }
+  });
+
+  return {
+    nodes: Array.from(nodeIndex.keys()).map((name) => ({ name })),
+    links: Array.from(linkValues.entries()).map(([key, value]) => {
+      const [source, target] = key.split(">").map(Number);
+      return { source, target, value };
+    }),
+  };
+};
@@ -0,0 +1,247 @@
+import {
+  acknowledgeIncident,
+  AlertIncident,
+  AlertRule,
+  describeRule,
+  evaluateAlerts,
+  metricValue,
+  parseAlertRule,
+} from "./alerts";
+
+const rule: AlertRule = {
+  id: "mtn-rate",
+  name: "MTN success rate",
+  metric: "successRate",
+  network: "MTN",
+  province: "all",
+  operator: "<",
+  threshold: 90,
+  windowMinutes: 15,
+  enabled: true,
+  channels: [],
+};
+
+const at = (minute: number) => new Date(Date.UTC(2025, 0, 6, 8, minute));
+
+const sequentialIds = () => {
+  let next = 0;
+  return () => `incident-${++next}`;
+};
+
+describe("metricValue", () => {
+  it("measures the success rate over concluded transactions only", () => {
+    expect(
+      metricValue("successRate", { sessions: 10, completed: 6, failed: 2 })
+    ).toBe(75);
+    expect(
+      metricValue("successRate", { sessions: 4, completed: 0, failed: 0 })
+    ).toBeNull();
+    expect(
+      metricValue("failedTransactions", {
+        sessions: 4,
+        completed: 1,
+        failed: 3,
+      })
+    ).toBe(3);
+  });
+});
+
+describe("evaluateAlerts", () => {
+  it("opens, updates and resolves an incident", () => {
+    const newId = sequentialIds();
+
+    const opened = evaluateAlerts([rule], [], { [rule.id]: 88 }, at(0), newId);
+    expect(opened).toEqual([
+      expect.objectContaining({
+        id: "incident-1",
+        ruleId: rule.id,
+        status: "active",
+        value: 88,
+        worstValue: 88,
+        openedAt: at(0).toISOString(),
+      }),
+    ]);
+
+    // A second breach updates the same incident, the worst value only moves further past the threshold
+    const worse = evaluateAlerts(
+      [rule],
+      opened,
+      { [rule.id]: 84 },
+      at(1),
+      newId
+    );
+    const better = evaluateAlerts(
+      [rule],
+      worse,
+      { [rule.id]: 87 },
+      at(2),
+      newId
+    );
+    expect(better).toHaveLength(1);
+    expect(better[0]).toMatchObject({ value: 87, worstValue: 84 });
+
+    const resolved = evaluateAlerts(
+      [rule],
+      better,
+      { [rule.id]: 93 },
+      at(3),
+      newId
+    );
+    expect(resolved[0]).toMatchObject({
+      status: "resolved",
+      resolvedAt: at(3).toISOString(),
+    });
+
+    // The next breach is a new incident
+    const reopened = evaluateAlerts(
+      [rule],
+      resolved,
+      { [rule.id]: 80 },
+      at(4),
+      newId
+    );
+    expect(reopened.map((incident) => incident.id)).toEqual([
+      "incident-2",
+      "incident-1",
+    ]);
+  });
+
+  it("keeps incidents open when nothing was measured", () => {
+    const opened = evaluateAlerts(
+      [rule],
+      [],
+      { [rule.id]: 70 },
+      at(0),
+      sequentialIds()
+    );
+    const next = evaluateAlerts(
+      [rule],
+      opened,
+      { [rule.id]: null },
+      at(1),
+      () => {
+        throw new Error("no incident should open");
+      }
+    );
+    expect(next).toEqual(opened);
+  });
+
+  it("resolves incidents of disabled and deleted rules", () => {
+    const opened = evaluateAlerts(
+      [rule],
+      [],
+      { [rule.id]: 70 },
+      at(0),
+      sequentialIds()
+    );
+    const disabled = evaluateAlerts(
+      [{ ...rule, enabled: false }],
+      opened,
+      { [rule.id]: 70 },
+      at(1),
+      sequentialIds()
+    );
+    expect(disabled).toEqual([
+      expect.objectContaining({ status: "resolved", value: 70 }),
+    ]);
+    expect(
+      evaluateAlerts([], opened, {}, at(1), sequentialIds())[0].status
+    ).toBe("resolved");
+  });
+});
+
+describe("acknowledgeIncident", () => {
+  const incident: AlertIncident = {
+    id: "incident-1",
+    ruleId: rule.id,
+    rule,
+    status: "active",
+    openedAt: at(0).toISOString(),
+    value: 80,
+    worstValue: 80,
+  };
+
+  it("acknowledges an open incident once", () => {
+    const acknowledged = acknowledgeIncident([incident], incident.id, at(5));
+    expect(acknowledged?.[0]).toMatchObject({
+      status: "acknowledged",
+      acknowledgedAt: at(5).toISOString(),
+    });
+    expect(
+      acknowledgeIncident(acknowledged!, incident.id, at(9))?.[0].acknowledgedAt
+    ).toBe(at(5).toISOString());
+  });
+
+  it("rejects unknown and resolved incidents", () => {
+    expect(acknowledgeIncident([incident], "missing", at(5))).toBeNull();
+    expect(
+      acknowledgeIncident(
+        [{ ...incident, status: "resolved" }],
+        incident.id,
+        at(5)
+      )
+    ).toBeNull();
+  });
+});
+
+describe("parseAlertRule", () => {
+  it("accepts a rule and defaults its scope", () => {
+    expect(
+      parseAlertRule({
+        name: " Volume drop ",
+        metric: "volume",
+        operator: "<",
+        threshold: 50,
+        windowMinutes: 30,
+      })
+    ).toEqual({
+      rule: {
+        name: "Volume drop",
+        metric: "volume",
+        network: "all",
+        province: "all",
+        operator: "<",
+        threshold: 50,
+        windowMinutes: 30,
+        enabled: true,
+        channels: [],
+      },
+    });
+  });
+
+  it("rejects invalid fields", () => {
+    const { id, ...input } = rule;
+    expect(parseAlertRule({ ...input, name: "" })).toEqual({
+      error: "name is required",
+    });
+    expect(parseAlertRule({ ...input, operator: "==" })).toHaveProperty(
+      "error"
+    );
+    expect(parseAlertRule({ ...input, network: "Vodafone" })).toHaveProperty(
+      "error"
+    );
+    expect(parseAlertRule({ ...input, threshold: "90" })).toHaveProperty(
+      "error"
+    );
+    expect(parseAlertRule({ ...input, windowMinutes: 0 })).toHaveProperty(
+      "error"
+    );
+    expect(parseAlertRule({ ...input, channels: "console" })).toHaveProperty(
+      "error"
+    );
+    expect(parseAlertRule({ ...input, enabled: "yes" })).toEqual({
+      error: "enabled must be true or false",
+    });
+    expect(parseAlertRule(null)).toEqual({ error: "name is required" });
+    expect(parseAlertRule("rule")).toEqual({ error: "name is required" });
+  });
+});
+
+describe("describeRule", () => {
+  it("mentions the scope only when narrowed", () => {
+    expect(describeRule(rule)).toBe("Success rate (%) < 90 over 15 min, MTN");
+    expect(describeRule({ ...rule, network: "all", province: "Lusaka" })).toBe(
+      "Success rate (%) < 90 over 15 min, in Lusaka"
+    );
+  });
+});
@@ -0,0 +1,320 @@
+import { NETWORKS, PROVINCES } from "./sessions";
+import { DEFAULT_SLA_BANDS } from "./sla";
+
+/**
+ * Alert rules on success rate and volume, and the incidents they open.
+ * Rules are evaluated on every aggregation cycle against the metrics of their trailing window:
+ * a breach opens an incident, later breaches update it and the first reading back within the threshold resolves it.
+ */
+
+export type AlertMetric = "successRate" | "volume" | "failedTransactions";
+
+export const ALERT_METRICS: AlertMetric[] = [
+  "successRate",
+  "volume",
+  "failedTransactions",
+];
+
+export const ALERT_METRIC_LABELS: Record<AlertMetric, string> = {
+  successRate: "Success rate (%)",
+  volume: "Sessions",
+  failedTransactions: "Failed transactions",
+};
+
+export type AlertOperator = "<" | "<=" | ">" | ">=";
+
+export const ALERT_OPERATORS: AlertOperator[] = ["<", "<=", ">", ">="];
+
+// "all" matches every network or province
+export const ALL_SCOPE = "all";
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  metric: AlertMetric;
+  network: string; // a network or "all"
+  province: string; // a province or "all"
+  operator: AlertOperator;
+  threshold: number;
+  windowMinutes: number; // trailing window the metric is measured over
+  enabled: boolean;
+  channels: string[]; // ids of the notification channels incidents are sent to
+}
+
+export type AlertRuleInput = Omit<AlertRule, "id">;
+
+export type IncidentStatus = "active" | "acknowledged" | "resolved";
+
+/**
+ * A breach of a rule, from the first breaching reading to the first reading back within the threshold.
+ * The rule is copied in so history stays readable after the rule is edited or deleted.
+ */
+export interface AlertIncident {
+  id: string;
+  ruleId: string;
+  rule: AlertRuleInput;
+  status: IncidentStatus;
+  openedAt: string;
+  value: number; // latest reading
+  worstValue: number; // furthest reading past the threshold
+  acknowledgedAt?: string;
+  resolvedAt?: string;
+}
+
+/**
+ * Counts over the window of a rule, within its network and province
+ */
+export interface WindowMetrics {
+  sessions: number;
+  completed: number;
+  failed: number;
+}
+
+export interface MetricScope {
+  network: string;
+  province: string;
+}
+
+export const DEFAULT_ALERT_RULES: AlertRule[] = [
+  {
+    id: "success-rate-poor",
+    name: "Success rate Poor",
+    metric: "successRate",
+    network: ALL_SCOPE,
+    province: ALL_SCOPE,
+    operator: "<",
+    threshold: DEFAULT_SLA_BANDS.fair,
+    windowMinutes: 15,
+    enabled: true,
+    channels: ["console"],
+  },
+];
+
+export const MAX_WINDOW_MINUTES = 24 * 60;
+
+// Resolved incidents beyond this are dropped, oldest first
+export const MAX_INCIDENT_HISTORY = 500;
+
+/**
+ * Value of a metric for some window counts
+ * @returns null when there is nothing to measure (no concluded transaction for a success rate)
+ */
+export const metricValue = (
+  metric: AlertMetric,
+  { sessions, completed, failed }: WindowMetrics
+): number | null => {
+  switch (metric) {
+    case "successRate":
+      return completed + failed > 0
+        ? Math.round((completed / (completed + failed)) * 1000) / 10
+        : null;
+    case "volume":
+      return sessions;
+    case "failedTransactions":
+      return failed;
+  }
+};
+
+export const breaches = (
+  { operator, threshold }: Pick<AlertRule, "operator" | "threshold">,
+  value: number
+) => {
+  switch (operator) {
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+  }
+};
+
+/**
+ * Short description of a rule, `Success rate (%) < 85 over 15 min, MTN in Lusaka`
+ */
+export const describeRule = (rule: AlertRuleInput) => {
+  const scope = [
+    rule.network !== ALL_SCOPE && rule.network,
+    rule.province !== ALL_SCOPE && `in ${rule.province}`,
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return `${ALERT_METRIC_LABELS[rule.metric]} ${rule.operator} ${
+    rule.threshold
+  } over ${rule.windowMinutes} min${scope ? `, ${scope}` : ""}`;
+};
+
+const isAlertMetric = (value: unknown): value is AlertMetric =>
+  (ALERT_METRICS as readonly unknown[]).includes(value);
+
+const isAlertOperator = (value: unknown): value is AlertOperator =>
+  (ALERT_OPERATORS as readonly unknown[]).includes(value);
+
+const isScope = (value: unknown, allowed: readonly string[]): value is string =>
+  value === ALL_SCOPE || (allowed as readonly unknown[]).includes(value);
+
+/**
+ * Check a rule sent by a client
+ * @param body the parsed json body
+ */
+export const parseAlertRule = (
+  body: unknown
+): { rule: AlertRuleInput } | { error: string } => {
+  const fields: Record<string, unknown> =
+    typeof body === "object" && body !== null ? { ...body } : {};
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  if (!name) return { error: "name is required" };
+  const { metric, operator, threshold, windowMinutes } = fields;
+  if (!isAlertMetric(metric)) {
+    return { error: `metric must be one of: ${ALERT_METRICS.join(", ")}` };
+  }
+  if (!isAlertOperator(operator)) {
+    return { error: `operator must be one of: ${ALERT_OPERATORS.join(" ")}` };
+  }
+  const network = fields.network ?? ALL_SCOPE;
+  if (!isScope(network, NETWORKS)) {
+    return { error: `network must be "all" or one of: ${NETWORKS.join(", ")}` };
+  }
+  const province = fields.province ?? ALL_SCOPE;
+  if (!isScope(province, PROVINCES)) {
+    return { error: `Unknown province "${province}"` };
+  }
+  if (typeof threshold !== "number" || !Number.isFinite(threshold)) {
+    return { error: "threshold must be a number" };
+  }
+  if (
+    typeof windowMinutes !== "number" ||
+    !Number.isInteger(windowMinutes) ||
+    windowMinutes < 1 ||
+    windowMinutes > MAX_WINDOW_MINUTES
+  ) {
+    return {
+      error: `windowMinutes must be a whole number between 1 and ${MAX_WINDOW_MINUTES}`,
+    };
+  }
+  const enabled = fields.enabled ?? true;
+  if (typeof enabled !== "boolean") {
+    return { error: "enabled must be true or false" };
+  }
+  const channels = fields.channels ?? [];
+  if (
+    !Array.isArray(channels) ||
+    !channels.every((channel): channel is string => typeof channel === "string")
+  ) {
+    return { error: "channels must be a list of channel ids" };
+  }
+
+  return {
+    rule: {
+      name,
+      metric,
+      network,
+      province,
+      operator,
+      threshold,
+      windowMinutes,
+      enabled,
+      channels: Array.from(new Set(channels)),
+    },
+  };
+};
+
+/**
+ * One aggregation cycle: open, update and resolve incidents from the latest readings
+ * @param rules every rule, incidents of disabled or deleted rules are resolved
+ * @param incidents current incidents, newest first
+ * @param readings value of each enabled rule's metric by rule id, null or missing when nothing was measured
+ * @param now time of the readings
+ * @param newId generates incident ids
+ * @returns the incidents after the cycle, newest first
+ */
+export const evaluateAlerts = (
+  rules: readonly AlertRule[],
+  incidents: readonly AlertIncident[],
+  readings: Record<string, number | null | undefined>,
+  now: Date,
+  newId: () => string
+): AlertIncident[] => {
+  const at = now.toISOString();
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+
+  const updated = incidents.map((incident): AlertIncident => {
+    if (incident.status === "resolved") return incident;
+
+    const rule = rulesById.get(incident.ruleId);
+    if (!rule?.enabled)
+      return { ...incident, status: "resolved", resolvedAt: at };
+
+    const value = readings[rule.id];
+    if (value === null || value === undefined) return incident;
+    if (!breaches(rule, value)) {
+      return { ...incident, value, status: "resolved", resolvedAt: at };
+    }
+    // Below-threshold rules get worse as the value falls, above-threshold ones as it rises
+    const worse = rule.operator.startsWith("<")
+      ? Math.min(incident.worstValue, value)
+      : Math.max(incident.worstValue, value);
+    return { ...incident, value, worstValue: worse };
+  });
+
+  const open = new Set(
+    updated
+      .filter((incident) => incident.status !== "resolved")
+      .map((incident) => incident.ruleId)
+  );
+  const opened = rules.flatMap((rule): AlertIncident[] => {
+    const value = readings[rule.id];
+    if (
+      !rule.enabled ||
+      open.has(rule.id) ||
+      value === null ||
+      value === undefined ||
+      !breaches(rule, value)
+    ) {
+      return [];
+    }
+    const { id, ...copy } = rule;
+    return [
+      {
+        id: newId(),
+        ruleId: id,
+        rule: copy,
+        status: "active",
+        openedAt: at,
+        value,
+        worstValue: value,
+      },
+    ];
+  });
+
+  // Open incidents are always kept, only old resolved ones are dropped
+  let resolvedLeft = MAX_INCIDENT_HISTORY;
+  return [...opened, ...updated].filter(
+    (incident) => incident.status !== "resolved" || resolvedLeft-- > 0
+  );
+};
+
+/**
+ * Acknowledge an open incident, it stays open until its rule stops breaching
+ * @returns the incidents, or null when no open incident has that id
+ */
+export const acknowledgeIncident = (
+  incidents: readonly AlertIncident[],
+  id: string,
+  now: Date
+): AlertIncident[] | null => {
+  const incident = incidents.find((i) => i.id === id);
+  if (!incident || incident.status === "resolved") return null;
+
+  return incidents.map((i) =>
+    i.id === id
+      ? {
+          ...i,
+          status: i.status === "active" ? "acknowledged" : i.status,
+          acknowledgedAt: i.acknowledgedAt ?? now.toISOString(),
+        }
+      : i
+  );
+};
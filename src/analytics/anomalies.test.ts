@@ -0,0 +1,134 @@
+import { ChartDataPoint } from "../services/types";
+import {
+  detectAnomalies,
+  parseAnomalyThreshold,
+  seasonalBaseline,
+} from "./anomalies";
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Daily buckets from Monday 6 Jan 2025 with quieter weekends and a little noise
+const dailyPoints = (days: number): ChartDataPoint[] =>
+  Array.from({ length: days }, (_, i) => {
+    const date = new Date(Date.UTC(2025, 0, 6 + i));
+    const weekday = date.getUTCDay();
+    const total = Math.round(
+      (1000 + 4 * i) *
+        (weekday === 0 ? 0.7 : weekday === 6 ? 0.85 : 1) *
+        (1 + ((i * 7) % 5) / 100)
+    );
+    return {
+      date: date.toISOString().slice(5, 10),
+      fullDate: date.toISOString(),
+      dayOfWeek: WEEKDAYS[weekday],
+      total,
+      electricity: 0,
+      water: 0,
+      airtime: 0,
+      mobileMoney: 0,
+      banking: 0,
+      avgSessionTime: 90,
+      successRate: 96 + ((i * 3) % 4) / 2,
+      revenue: total * 10,
+      failedTransactions: Math.round(total * 0.04),
+      peakConcurrentUsers: 50,
+    };
+  });
+
+describe("seasonalBaseline", () => {
+  it("follows the level and the weekly cycle", () => {
+    const values = Array.from({ length: 28 }, (_, i) =>
+      i % 7 === 6 ? 50 : 100
+    );
+    const seasons = values.map((_, i) => i % 7);
+    const baseline = seasonalBaseline(values, seasons);
+
+    baseline.forEach((expected, i) => expect(expected).toBe(values[i]));
+  });
+});
+
+describe("detectAnomalies", () => {
+  it("flags nothing on a regular series", () => {
+    expect(detectAnomalies(dailyPoints(60))).toEqual([]);
+  });
+
+  it("flags spikes and drops with their magnitude", () => {
+    const points = dailyPoints(60);
+    points[20] = { ...points[20], total: points[20].total * 2 };
+    points[40] = {
+      ...points[40],
+      successRate: 70,
+      failedTransactions: points[40].failedTransactions * 5,
+    };
+
+    const anomalies = detectAnomalies(points);
+    expect(
+      anomalies.map(({ date, metric, direction }) => [date, metric, direction])
+    ).toEqual([
+      [points[20].date, "total", "spike"],
+      [points[40].date, "failedTransactions", "spike"],
+      [points[40].date, "successRate", "drop"],
+    ]);
+
+    const [spike] = anomalies;
+    expect(spike.value).toBe(points[20].total);
+    expect(spike.deviation).toBeGreaterThan(80);
+    expect(spike.score).toBeGreaterThan(3.5);
+  });
+
+  it("does not flag a quiet day of the usual weekly cycle", () => {
+    const points = dailyPoints(60);
+    // Sundays are already 30% down, only an unusual Sunday stands out
+    const sunday = points.findIndex((point) => point.dayOfWeek === "Sun");
+    expect(
+      detectAnomalies(points, 3.5, ["total"]).map((a) => a.fullDate)
+    ).not.toContain(points[sunday].fullDate);
+  });
+
+  it("leaves out the bucket still filling", () => {
+    const points = dailyPoints(60);
+    const last = points[points.length - 1];
+    points[points.length - 1] = {
+      ...last,
+      total: Math.round(last.total / 4),
+      failedTransactions: Math.round(last.failedTransactions / 4),
+    };
+    const midday = new Date(Date.parse(last.fullDate) + 12 * 60 * 60 * 1000);
+    const nextDay = new Date(Date.parse(last.fullDate) + 24 * 60 * 60 * 1000);
+
+    expect(detectAnomalies(points, 3.5, ["total"], midday)).toEqual([]);
+    expect(
+      detectAnomalies(points, 3.5, ["total"], nextDay).map((a) => a.fullDate)
+    ).toContain(last.fullDate);
+  });
+
+  it("gives no success rate to buckets without concluded transactions", () => {
+    const points = dailyPoints(60);
+    // Only abandoned sessions, the volume endpoint reports a rate of 0
+    points[30] = { ...points[30], successRate: 0, failedTransactions: 0 };
+    points[31] = { ...points[31], successRate: 0, failedTransactions: 0 };
+    expect(detectAnomalies(points, 3.5, ["successRate"])).toEqual([]);
+
+    // A bucket where every transaction failed still is a drop
+    points[40] = { ...points[40], successRate: 0 };
+    expect(
+      detectAnomalies(points, 3.5, ["successRate"]).map((a) => a.fullDate)
+    ).toEqual([points[40].fullDate]);
+  });
+
+  it("needs a week of buckets", () => {
+    const points = dailyPoints(6);
+    points[3] = { ...points[3], total: 10 };
+    expect(detectAnomalies(points)).toEqual([]);
+  });
+});
+
+describe("parseAnomalyThreshold", () => {
+  it("defaults and validates the threshold", () => {
+    expect(parseAnomalyThreshold(undefined)).toEqual({ threshold: 3.5 });
+    expect(parseAnomalyThreshold("2.5")).toEqual({ threshold: 2.5 });
+    expect(parseAnomalyThreshold("0")).toHaveProperty("error");
+    expect(parseAnomalyThreshold("abc")).toHaveProperty("error");
+    expect(parseAnomalyThreshold(["3", "4"])).toHaveProperty("error");
+  });
+});
@@ -0,0 +1,189 @@
+import { ChartDataPoint } from "../services/types";
+import { seriesBounds } from "./compare";
+
+/**
+ * Anomaly detection on volume buckets: each bucket is compared with a seasonal baseline
+ * (local level times the usual factor of its weekday or hour) and flagged when its deviation
+ * is an outlier by robust z-score, the median absolute deviation standing in for the standard deviation.
+ */
+
+export type AnomalyMetric = "total" | "failedTransactions" | "successRate";
+
+export const ANOMALY_METRICS: AnomalyMetric[] = [
+  "total",
+  "failedTransactions",
+  "successRate",
+];
+
+export const ANOMALY_METRIC_LABELS: Record<AnomalyMetric, string> = {
+  total: "Transactions",
+  failedTransactions: "Failed transactions",
+  successRate: "Success rate",
+};
+
+export interface Anomaly {
+  fullDate: string; // the bucket, as in `ChartDataPoint`
+  date: string;
+  metric: AnomalyMetric;
+  value: number;
+  expected: number; // seasonal baseline, rounded
+  deviation: number; // % from the baseline
+  score: number; // robust z-score, signed
+  direction: "spike" | "drop";
+}
+
+// Robust z-score past which a bucket is anomalous
+export const DEFAULT_ANOMALY_THRESHOLD = 3.5;
+
+export const MIN_ANOMALY_THRESHOLD = 1;
+export const MAX_ANOMALY_THRESHOLD = 10;
+
+// Fewer buckets than this carry no baseline worth comparing with
+const MIN_BUCKETS = 7;
+// Buckets on each side forming the local level, a full week for daily buckets
+const LEVEL_RADIUS = 3;
+// A season needs this many buckets before its own factor is trusted
+const MIN_SEASON_SIZE = 3;
+// Scales the median absolute deviation to a standard deviation for normal data
+const MAD_SCALE = 1.4826;
+
+/**
+ * Middle value of a sample, 0 when empty
+ */
+export const median = (values: readonly number[]) => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]
+    : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Seasonal baseline of a series: rolling median level times the median ratio of the bucket's season
+ * @param values the series
+ * @param seasons season of every bucket (weekday, hour of day...)
+ */
+export const seasonalBaseline = (
+  values: readonly number[],
+  seasons: readonly (string | number)[]
+): number[] => {
+  const levels = values.map((_, i) =>
+    median(values.slice(Math.max(0, i - LEVEL_RADIUS), i + LEVEL_RADIUS + 1))
+  );
+
+  const ratios = new Map<string | number, number[]>();
+  values.forEach((value, i) => {
+    if (levels[i] <= 0) return;
+    const season = ratios.get(seasons[i]) ?? [];
+    season.push(value / levels[i]);
+    ratios.set(seasons[i], season);
+  });
+  const factors = new Map(
+    Array.from(ratios, ([season, values]) => [
+      season,
+      values.length >= MIN_SEASON_SIZE ? median(values) : 1,
+    ])
+  );
+
+  return levels.map((level, i) => level * (factors.get(seasons[i]) ?? 1));
+};
+
+/**
+ * Buckets of a series that ended by `now`, the one still filling would read as a drop
+ * @param points buckets oldest first, all the same length
+ */
+const endedBuckets = (points: readonly ChartDataPoint[], now: Date) => {
+  const end = seriesBounds(points)?.end ?? 0;
+  return points.filter(
+    (_, i) =>
+      (i + 1 < points.length ? Date.parse(points[i + 1].fullDate) : end) <=
+      now.getTime()
+  );
+};
+
+// A bucket without a completed or failed transaction has no success rate, rather than a rate of 0
+const hasConcludedTransactions = (point: ChartDataPoint) =>
+  point.successRate > 0 || point.failedTransactions > 0;
+
+/**
+ * Anomalous buckets of a series, oldest first
+ * @param points the buckets, as returned by the volume endpoint
+ * @param [threshold] robust z-score past which a bucket is flagged
+ * @param [metrics] the fields to check
+ * @param [now] buckets ending after it are still filling and left out
+ */
+export const detectAnomalies = (
+  points: readonly ChartDataPoint[],
+  threshold = DEFAULT_ANOMALY_THRESHOLD,
+  metrics: readonly AnomalyMetric[] = ANOMALY_METRICS,
+  now = new Date()
+): Anomaly[] => {
+  const ended = endedBuckets(points, now);
+
+  return metrics
+    .flatMap((metric) => {
+      const scored =
+        metric === "successRate"
+          ? ended.filter(hasConcludedTransactions)
+          : ended;
+      if (scored.length < MIN_BUCKETS) return [];
+
+      // Hourly buckets repeat daily, daily buckets weekly
+      const seasons = scored.map((point) => point.hour ?? point.dayOfWeek);
+      const values = scored.map((point) => point[metric]);
+      const expected = seasonalBaseline(values, seasons);
+      // Relative deviations, so quiet and busy buckets share one scale
+      const deviations = values.map((value, i) =>
+        expected[i] > 0 ? value / expected[i] - 1 : 0
+      );
+      const center = median(deviations);
+      const spread =
+        MAD_SCALE * median(deviations.map((d) => Math.abs(d - center)));
+      if (spread === 0) return [];
+
+      return scored.flatMap((point, i): Anomaly[] => {
+        const score = (deviations[i] - center) / spread;
+        if (Math.abs(score) < threshold || expected[i] <= 0) return [];
+        return [
+          {
+            fullDate: point.fullDate,
+            date: point.date,
+            metric,
+            value: values[i],
+            expected: round1(expected[i]),
+            deviation: round1(deviations[i] * 100),
+            score: round1(score),
+            direction: score > 0 ? "spike" : "drop",
+          },
+        ];
+      });
+    })
+    .sort((a, b) => a.fullDate.localeCompare(b.fullDate));
+};
+
+/**
+ * Read the `threshold` query param of the anomalies endpoint
+ * @param raw the query value, the default threshold when missing
+ */
+export const parseAnomalyThreshold = (
+  raw: unknown
+): { threshold: number } | { error: string } => {
+  if (raw === undefined || raw === "") {
+    return { threshold: DEFAULT_ANOMALY_THRESHOLD };
+  }
+  const threshold = Number(raw);
+  if (
+    typeof raw !== "string" ||
+    !Number.isFinite(threshold) ||
+    threshold < MIN_ANOMALY_THRESHOLD ||
+    threshold > MAX_ANOMALY_THRESHOLD
+  ) {
+    return {
+      error: `threshold must be a number between ${MIN_ANOMALY_THRESHOLD} and ${MAX_ANOMALY_THRESHOLD}`,
+    };
+  }
+  return { threshold };
+};
@@ -0,0 +1,72 @@
+import { timeBuckets } from "./buckets";
+
+const options = { now: new Date("2025-03-10T12:30:00Z"), utcOffsetMinutes: 0 };
+
+describe("timeBuckets", () => {
+  it("ends the 24h range with the current hour", () => {
+    const buckets = timeBuckets("24h", options);
+    expect(buckets).toHaveLength(24);
+    expect(buckets[0].label).toBe("13:00");
+    expect(buckets[23]).toMatchObject({
+      label: "12:00",
+      hour: 12,
+      start: Date.parse("2025-03-10T12:00:00Z"),
+      end: Date.parse("2025-03-10T13:00:00Z"),
+    });
+  });
+
+  it("follows the local midnight for daily buckets", () => {
+    const buckets = timeBuckets("7d", { ...options, utcOffsetMinutes: 120 });
+    expect(buckets.map((b) => b.label)).toEqual([
+      "Mar 4",
+      "Mar 5",
+      "Mar 6",
+      "Mar 7",
+      "Mar 8",
+      "Mar 9",
+      "Mar 10",
+    ]);
+    expect(buckets[6].start).toBe(Date.parse("2025-03-09T22:00:00Z"));
+  });
+
+  it("counts the year to date", () => {
+    expect(timeBuckets("ytd", options)).toHaveLength(31 + 28 + 10);
+  });
+
+  it("covers custom dates inclusively, hour by hour for a single day", () => {
+    const day = timeBuckets(
+      { start: "2025-02-14", end: "2025-02-14" },
+      options
+    );
+    expect(day).toHaveLength(24);
+    expect(day[0].label).toBe("00:00");
+
+    const twoDays = timeBuckets(
+      { start: "2025-02-14", end: "2025-02-15" },
+      options
+    );
+    expect(twoDays).toHaveLength(48);
+    expect(twoDays[24].label).toBe("Feb 15 00:00");
+
+    const quarter = timeBuckets(
+      { start: "2025-01-01", end: "2025-03-31" },
+      options
+    );
+    expect(quarter).toHaveLength(90);
+    expect(quarter[89].label).toBe("Mar 31");
+  });
+
+  it("aligns custom timestamps on whole buckets", () => {
+    const outage = timeBuckets(
+      { start: "2025-02-14T09:30:00Z", end: "2025-02-14T12:00:00Z" },
+      options
+    );
+    expect(outage.map((b) => b.label)).toEqual(["09:00", "10:00", "11:00"]);
+  });
+
+  it("can force daily buckets on a short range", () => {
+    expect(
+      timeBuckets("24h", { ...options, granularity: "day" }).map((b) => b.label)
+    ).toEqual(["Mar 9", "Mar 10"]);
+  });
+});
@@ -0,0 +1,82 @@
+import { DateRange } from "../services/types";
+import { resolveDateRange } from "./dateRange";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+
+/**
+ * Time buckets of a chart series, aligned on the local wall clock (CAT by default)
+ * whatever the timezone of the machine computing them.
+ */
+
+export interface BucketOptions {
+  now?: Date; // end of preset windows, the current bucket is partial
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * A half open time window [start, end) in epoch ms
+ */
+export interface TimeBucket {
+  start: number;
+  end: number;
+  label: string; // "14:00" for hours, "Oct 24" for days
+  hour?: number; // local hour, hourly buckets only
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Ranges up to two days are shown hour by hour
+const HOURLY_MAX_MS = 2 * DAY_MS;
+
+const pad = (value: number) => String(value).padStart(2, "0");
+
+const dayLabel = (local: Date) =>
+  local.toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * Split a range into hourly buckets (up to two days) or daily buckets, oldest first
+ * @param range the range to cover
+ * @param [options={}] window end, timezone, and `granularity` to force hours or days
+ */
+export const timeBuckets = (
+  range: DateRange,
+  {
+    now = new Date(),
+    utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+    granularity,
+  }: BucketOptions & { granularity?: "hour" | "day" } = {}
+): TimeBucket[] => {
+  const offsetMs = utcOffsetMinutes * 60 * 1000;
+  const { start, end } = resolveDateRange(range, { now, utcOffsetMinutes });
+  const hourly = granularity
+    ? granularity === "hour"
+    : end - start <= HOURLY_MAX_MS;
+  const step = hourly ? HOUR_MS : DAY_MS;
+  // Hours past the first day also need the date to tell them apart
+  const spansDays = end - start > DAY_MS;
+
+  const buckets: TimeBucket[] = [];
+  const first = Math.floor((start + offsetMs) / step) * step - offsetMs;
+  for (let time = first; time < end; time += step) {
+    // Shifted so the UTC getters read the local wall clock
+    const local = new Date(time + offsetMs);
+    if (hourly) {
+      const hour = local.getUTCHours();
+      buckets.push({
+        start: time,
+        end: time + step,
+        label: spansDays
+          ? `${dayLabel(local)} ${pad(hour)}:00`
+          : `${pad(hour)}:00`,
+        hour,
+      });
+    } else {
+      buckets.push({ start: time, end: time + step, label: dayLabel(local) });
+    }
+  }
+  return buckets;
+};
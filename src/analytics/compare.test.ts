@@ -0,0 +1,82 @@
+import { timeBuckets } from "./buckets";
+import { comparisonRange, percentChange, seriesBounds } from "./compare";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const now = new Date("2025-03-10T12:30:00Z");
+
+const pointsOf = (range: Parameters<typeof timeBuckets>[0]) =>
+  timeBuckets(range, { now }).map((bucket) => ({
+    fullDate: new Date(bucket.start).toISOString(),
+    hour: bucket.hour,
+  }));
+
+describe("seriesBounds", () => {
+  it("spans the first bucket start to the last bucket end", () => {
+    expect(seriesBounds(pointsOf("7d"))).toEqual({
+      start: Date.parse("2025-03-03T22:00:00Z"),
+      end: Date.parse("2025-03-10T22:00:00Z"),
+    });
+    expect(seriesBounds([])).toBeNull();
+  });
+});
+
+describe("comparisonRange", () => {
+  it("covers the same number of buckets right before the series", () => {
+    const bounds = seriesBounds(pointsOf("7d"))!;
+    const previous = comparisonRange(bounds, "previous");
+    const buckets = timeBuckets(previous, { now });
+
+    expect(previous).toEqual({
+      start: "2025-02-24T22:00:00.000Z",
+      end: "2025-03-03T22:00:00.000Z",
+    });
+    expect(buckets).toHaveLength(7);
+    expect(buckets[0].start).toBe(bounds.start - 7 * DAY_MS);
+  });
+
+  it("keeps hourly buckets hourly", () => {
+    const previous = comparisonRange(
+      seriesBounds(pointsOf("24h"))!,
+      "previous"
+    );
+    const buckets = timeBuckets(previous, { now });
+    expect(buckets).toHaveLength(24);
+    expect(buckets[0].label).toBe("15:00");
+    expect(previous.start).toBe("2025-03-08T13:00:00.000Z");
+  });
+
+  it("moves the same dates back a year", () => {
+    expect(
+      comparisonRange(
+        seriesBounds(pointsOf({ start: "2025-03-01", end: "2025-03-31" }))!,
+        "lastYear"
+      )
+    ).toEqual({
+      start: "2024-02-29T22:00:00.000Z",
+      end: "2024-03-31T22:00:00.000Z",
+    });
+  });
+
+  it("moves back the calendar dates of the timezone", () => {
+    // Mar 1 00:00 in Central Africa Time, still Feb 28 in UTC
+    const bounds = {
+      start: Date.parse("2025-02-28T22:00:00Z"),
+      end: Date.parse("2025-03-01T22:00:00Z"),
+    };
+    expect(comparisonRange(bounds, "lastYear").start).toBe(
+      "2024-02-29T22:00:00.000Z"
+    );
+    expect(comparisonRange(bounds, "lastYear", 0).start).toBe(
+      "2024-02-28T22:00:00.000Z"
+    );
+  });
+});
+
+describe("percentChange", () => {
+  it("is null without a previous value", () => {
+    expect(percentChange(120, 100)).toBe(20);
+    expect(percentChange(90, 120)).toBe(-25);
+    expect(percentChange(10, 0)).toBeNull();
+    expect(percentChange(10, undefined)).toBeNull();
+  });
+});
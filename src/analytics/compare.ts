@@ -0,0 +1,79 @@
+import { ChartDataPoint, CustomDateRange } from "../services/types";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+
+/**
+ * Period over period comparison of chart series.
+ * The prior window is derived from the buckets the server returned, so it lines up
+ * with them whatever timezone the server buckets in.
+ */
+
+export type ComparisonMode = "previous" | "lastYear";
+
+export const COMPARISON_LABELS: Record<ComparisonMode, string> = {
+  previous: "Previous period",
+  lastYear: "Same period last year",
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Window covered by a series, from the start of its first bucket to the end of its last
+ * @param points buckets oldest first, all the same length
+ * @returns epoch ms with `end` excluded, or null for an empty series
+ */
+export const seriesBounds = (
+  points: readonly Pick<ChartDataPoint, "fullDate" | "hour">[]
+): { start: number; end: number } | null => {
+  if (points.length === 0) return null;
+  const start = Date.parse(points[0].fullDate);
+  const step =
+    points.length > 1
+      ? Date.parse(points[1].fullDate) - start
+      : points[0].hour !== undefined
+      ? HOUR_MS
+      : DAY_MS;
+  return { start, end: Date.parse(points[points.length - 1].fullDate) + step };
+};
+
+// The same wall clock time on the same calendar date a year earlier, Feb 29 falling on Mar 1
+const minusOneYear = (time: number, utcOffsetMinutes: number) => {
+  const offset = utcOffsetMinutes * 60 * 1000;
+  const local = new Date(time + offset);
+  local.setUTCFullYear(local.getUTCFullYear() - 1);
+  return local.getTime() - offset;
+};
+
+/**
+ * Window to compare a series against, as an exact custom range
+ * @param bounds the window of the current series
+ * @param mode `previous` for the window right before it, `lastYear` for the same dates a year earlier
+ * @param [utcOffsetMinutes] the timezone whose calendar dates `lastYear` moves back, Central Africa Time by default
+ */
+export const comparisonRange = (
+  { start, end }: { start: number; end: number },
+  mode: ComparisonMode,
+  utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES
+): CustomDateRange => {
+  const [from, to] =
+    mode === "previous"
+      ? [start - (end - start), start]
+      : [
+          minusOneYear(start, utcOffsetMinutes),
+          minusOneYear(end, utcOffsetMinutes),
+        ];
+  return {
+    start: new Date(from).toISOString(),
+    end: new Date(to).toISOString(),
+  };
+};
+
+/**
+ * Relative change between two values
+ * @returns percent rounded to 1 decimal, null when there is nothing to compare against
+ */
+export const percentChange = (
+  current: number,
+  previous: number | undefined
+): number | null =>
+  previous ? Math.round(((current - previous) / previous) * 1000) / 10 : null;
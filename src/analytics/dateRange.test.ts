@@ -0,0 +1,67 @@
+import { dateRangeLabel, parseDateRange } from "./dateRange";
+
+describe("parseDateRange", () => {
+  it("accepts presets and custom bounds", () => {
+    expect(parseDateRange("30d", {})).toEqual({ range: "30d" });
+    expect(
+      parseDateRange("custom", { start: "2025-01-01", end: "2025-03-31" })
+    ).toEqual({ range: { start: "2025-01-01", end: "2025-03-31" } });
+  });
+
+  it("reads plain dates at Central Africa Time midnight next to timestamps", () => {
+    // 1 March starts at 22:00 UTC the day before
+    expect(
+      parseDateRange("custom", {
+        start: "2025-03-01",
+        end: "2025-02-28T23:00:00Z",
+      })
+    ).toEqual({ range: { start: "2025-03-01", end: "2025-02-28T23:00:00Z" } });
+    expect(
+      parseDateRange("custom", {
+        start: "2025-02-28T23:00:00Z",
+        end: "2025-02-28",
+      })
+    ).toEqual({ error: "end must be after start" });
+    expect(
+      parseDateRange(
+        "custom",
+        { start: "2025-02-28T23:00:00Z", end: "2025-02-28" },
+        0
+      )
+    ).toHaveProperty("range");
+  });
+
+  it("explains invalid ranges", () => {
+    expect(parseDateRange("1y", {})).toEqual({
+      error:
+        'Invalid range "1y", expected one of: 24h, 7d, 30d, 90d, ytd, custom',
+    });
+    expect(parseDateRange("custom", { start: "2025-01-01" })).toEqual({
+      error: "A custom range needs start and end query params",
+    });
+    expect(
+      parseDateRange("custom", { start: "yesterday", end: "2025-01-01" })
+    ).toEqual({ error: "start and end must be ISO dates or timestamps" });
+    expect(
+      parseDateRange("custom", {
+        start: "2025-01-01T10:00:00Z",
+        end: "2025-01-01T09:00:00Z",
+      })
+    ).toEqual({ error: "end must be after start" });
+    expect(
+      parseDateRange("custom", { start: "2020-01-01", end: "2025-01-01" })
+    ).toEqual({ error: "A range can cover at most 400 days" });
+  });
+});
+
+describe("dateRangeLabel", () => {
+  it("describes presets and custom ranges", () => {
+    expect(dateRangeLabel("ytd")).toBe("Year to Date");
+    expect(dateRangeLabel({ start: "2025-03-01", end: "2025-03-31" })).toBe(
+      "Mar 1 - Mar 31, 2025"
+    );
+    expect(dateRangeLabel({ start: "2025-02-14", end: "2025-02-14" })).toBe(
+      "Feb 14, 2025"
+    );
+  });
+});
@@ -0,0 +1,163 @@
+import { CustomDateRange, DateRange, DateRangePreset } from "../services/types";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+
+/**
+ * Helpers for `DateRange`, shared by the api client, the mock profile and the server
+ * so a range is encoded, validated and resolved the same way everywhere.
+ */
+
+export const DATE_RANGE_PRESETS: DateRangePreset[] = [
+  "24h",
+  "7d",
+  "30d",
+  "90d",
+  "ytd",
+];
+
+export const PRESET_LABELS: Record<DateRangePreset, string> = {
+  "24h": "Last 24 Hours",
+  "7d": "Last 7 Days",
+  "30d": "Last 30 Days",
+  "90d": "Last 90 Days",
+  ytd: "Year to Date",
+};
+
+// Keeps daily series (and the work behind them) bounded
+export const MAX_RANGE_DAYS = 400;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const presetDays: Record<Exclude<DateRangePreset, "ytd">, number> = {
+  "24h": 1,
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+};
+
+export const isCustomRange = (range: DateRange): range is CustomDateRange =>
+  typeof range === "object";
+
+/**
+ * Stable string for cache keys and seeds, e.g. `7d` or `2025-03-01..2025-03-31`
+ */
+export const dateRangeKey = (range: DateRange): string =>
+  isCustomRange(range) ? `${range.start}..${range.end}` : range;
+
+/**
+ * Path segment of a range, custom ranges pass their bounds through `dateRangeSearch`
+ */
+export const dateRangeSegment = (range: DateRange): string =>
+  isCustomRange(range) ? "custom" : range;
+
+/**
+ * Query string carrying the bounds of a custom range, empty for presets
+ */
+export const dateRangeSearch = (range: DateRange): string =>
+  isCustomRange(range)
+    ? `?${new URLSearchParams({ start: range.start, end: range.end })}`
+    : "";
+
+const formatDay = (date: string, withYear: boolean) =>
+  new Date(`${date.slice(0, 10)}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    ...(withYear && { year: "numeric" }),
+    timeZone: "UTC",
+  });
+
+/**
+ * Human readable range, e.g. `Last 7 Days` or `Mar 1 - Mar 31, 2025`
+ */
+export const dateRangeLabel = (range: DateRange): string => {
+  if (!isCustomRange(range)) return PRESET_LABELS[range];
+  if (range.start.slice(0, 10) === range.end.slice(0, 10)) {
+    return formatDay(range.start, true);
+  }
+  return `${formatDay(range.start, false)} - ${formatDay(range.end, true)}`;
+};
+
+/**
+ * Start and end instants of a range
+ * @param range the range to resolve
+ * @param options `now` for presets, and the UTC offset plain dates are read in
+ * @returns epoch ms, `end` excluded
+ */
+export const resolveDateRange = (
+  range: DateRange,
+  { now, utcOffsetMinutes }: { now: Date; utcOffsetMinutes: number }
+): { start: number; end: number } => {
+  const offsetMs = utcOffsetMinutes * 60 * 1000;
+  // Start of the local hour / day containing an instant
+  const floorTo = (time: number, step: number) =>
+    Math.floor((time + offsetMs) / step) * step - offsetMs;
+
+  if (isCustomRange(range)) {
+    const instant = (value: string) =>
+      ISO_DATE.test(value) ? Date.parse(value) - offsetMs : Date.parse(value);
+    return {
+      start: instant(range.start),
+      // A plain end date includes that whole day
+      end: instant(range.end) + (ISO_DATE.test(range.end) ? DAY_MS : 0),
+    };
+  }
+
+  const time = now.getTime();
+  if (range === "24h") {
+    const end = floorTo(time, HOUR_MS) + HOUR_MS;
+    return { start: end - DAY_MS, end };
+  }
+
+  const end = floorTo(time, DAY_MS) + DAY_MS;
+  if (range === "ytd") {
+    const year = new Date(time + offsetMs).getUTCFullYear();
+    return { start: Date.UTC(year, 0, 1) - offsetMs, end };
+  }
+  return { start: end - presetDays[range] * DAY_MS, end };
+};
+
+/**
+ * Read a range from a path segment and `start` / `end` query params
+ * @param segment a preset, or `custom`
+ * @param query the request query params
+ * @param [utcOffsetMinutes] the UTC offset plain dates are read in, Central Africa Time like the server by default
+ * @returns the range, or why it is invalid
+ */
+export const parseDateRange = (
+  segment: string,
+  query: { start?: unknown; end?: unknown },
+  utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES
+): { range: DateRange } | { error: string } => {
+  if (DATE_RANGE_PRESETS.includes(segment as DateRangePreset)) {
+    return { range: segment as DateRangePreset };
+  }
+  if (segment !== "custom") {
+    return {
+      error: `Invalid range "${segment}", expected one of: ${DATE_RANGE_PRESETS.join(
+        ", "
+      )}, custom`,
+    };
+  }
+
+  const { start, end } = query;
+  if (typeof start !== "string" || typeof end !== "string") {
+    return { error: "A custom range needs start and end query params" };
+  }
+  const range = { start, end };
+  // Checked on the instants that get queried, a plain date next to a timestamp moves with the offset
+  const bounds = resolveDateRange(range, {
+    now: new Date(),
+    utcOffsetMinutes,
+  });
+  if (isNaN(bounds.start) || isNaN(bounds.end)) {
+    return { error: "start and end must be ISO dates or timestamps" };
+  }
+  if (bounds.end <= bounds.start) {
+    return { error: "end must be after start" };
+  }
+  if (bounds.end - bounds.start > MAX_RANGE_DAYS * DAY_MS) {
+    return { error: `A range can cover at most ${MAX_RANGE_DAYS} days` };
+  }
+  return { range };
+};
@@ -0,0 +1,164 @@
+import {
+  maskInput,
+  parseSessionSearch,
+  replaySession,
+  searchSessions,
+  SESSION_SEARCH_LIMIT,
+} from "./explorer";
+import { testSession as session } from "./testSessions";
+
+const now = new Date("2025-01-06T12:30:00Z");
+
+describe("parseSessionSearch", () => {
+  it("defaults to every node, outcome and network", () => {
+    expect(parseSessionSearch({})).toEqual({
+      filter: { node: "all", outcome: "all", network: "all" },
+    });
+    expect(
+      parseSessionSearch({ node: " Meter No ", outcome: "abandoned" })
+    ).toEqual({
+      filter: { node: "Meter No", outcome: "abandoned", network: "all" },
+    });
+  });
+
+  it("rejects unknown outcomes and networks", () => {
+    expect(parseSessionSearch({ node: "" })).toHaveProperty("error");
+    expect(parseSessionSearch({ outcome: "timeout" })).toEqual({
+      error: "outcome must be one of all, completed, failed, abandoned",
+    });
+    expect(parseSessionSearch({ network: "Vodacom" })).toHaveProperty("error");
+  });
+});
+
+describe("maskInput", () => {
+  it("keeps menu choices and hides entries but their last two characters", () => {
+    expect(maskInput("*115#", "1")).toBe("1");
+    expect(maskInput("Electricity", "04123456789")).toBe("•••••••••89");
+    expect(maskInput("Meter No", "150")).toBe("•50");
+    expect(maskInput("Unknown", "0977123456")).toBe("••••••••56");
+  });
+});
+
+describe("searchSessions", () => {
+  const sessions = [
+    session({ sessionId: "A", startedAt: "2025-01-06T08:00:00.000Z" }),
+    session({
+      sessionId: "B",
+      startedAt: "2025-01-06T09:00:00.000Z",
+      menuPath: ["*115#", "Pay Bills"],
+      outcome: "abandoned",
+      amount: 0,
+    }),
+    session({
+      sessionId: "C",
+      startedAt: "2025-01-06T10:00:00.000Z",
+      network: "Airtel",
+    }),
+    // Before the last 24 hours
+    session({ sessionId: "D", startedAt: "2025-01-04T10:00:00.000Z" }),
+  ];
+
+  it("returns the latest matching sessions of the period", () => {
+    const all = { node: "all", outcome: "all" as const, network: "all" };
+    expect(
+      searchSessions(sessions, "24h", all, { now }).map((s) => s.sessionId)
+    ).toEqual(["C", "B", "A"]);
+    expect(
+      searchSessions(
+        sessions,
+        "24h",
+        { node: "Electricity", outcome: "completed", network: "MTN" },
+        { now }
+      ).map((s) => s.sessionId)
+    ).toEqual(["A"]);
+  });
+
+  it("caps the results and masks the replies", () => {
+    const many = Array.from({ length: SESSION_SEARCH_LIMIT + 5 }, (_, i) =>
+      session({
+        sessionId: `S${i}`,
+        inputs: ["1", "1", "04123456789", "150", "1"],
+      })
+    );
+    const found = searchSessions(
+      many,
+      "24h",
+      { node: "all", outcome: "all", network: "all" },
+      { now }
+    );
+    expect(found).toHaveLength(SESSION_SEARCH_LIMIT);
+    expect(found[0].inputs).toEqual(["1", "1", "•••••••••89", "•50", "1"]);
+    expect(many[0].inputs?.[2]).toBe("04123456789");
+  });
+});
+
+describe("replaySession", () => {
+  it("shows the logged replies and screen times", () => {
+    const replay = replaySession(
+      session({
+        inputs: ["1", "1", "•••••••••89", "•50", "1"],
+        screenTimes: [
+          "2025-01-06T08:00:00.000Z",
+          "2025-01-06T08:00:05.000Z",
+          "2025-01-06T08:00:12.000Z",
+          "2025-01-06T08:00:30.000Z",
+          "2025-01-06T08:00:41.000Z",
+        ],
+      })
+    );
+    expect(replay.timed).toBe(true);
+    expect(replay.inputsLogged).toBe(true);
+    expect(replay.screens.map((screen) => screen.seconds)).toEqual([
+      5, 7, 18, 11, 9,
+    ]);
+    expect(replay.screens[0]).toMatchObject({
+      node: "*115#",
+      options: ["Pay Bills", "Buy Airtime", "Send Money", "Banking"],
+      input: "1",
+    });
+    expect(replay.screens[3].input).toBe("•50");
+    expect(replay.ending).toEqual({
+      node: "Completed",
+      text: "Transaction successful",
+    });
+  });
+
+  it("infers menu choices and spreads time evenly without them", () => {
+    const replay = replaySession(
+      session({
+        menuPath: ["*115#", "Pay Bills", "Water", "Custom Menu"],
+        endedAt: "2025-01-06T08:00:40.000Z",
+        outcome: "abandoned",
+        amount: 0,
+      })
+    );
+    expect(replay.timed).toBe(false);
+    expect(replay.inputsLogged).toBe(false);
+    expect(replay.screens.map((screen) => screen.input)).toEqual([
+      "1",
+      "2",
+      null,
+      null,
+    ]);
+    expect(replay.screens.map((screen) => screen.seconds)).toEqual([
+      10, 10, 10, 10,
+    ]);
+    expect(replay.screens[3]).toMatchObject({
+      text: "Custom Menu",
+      shownAt: "2025-01-06T08:00:30.000Z",
+    });
+    expect(replay.ending.node).toBe("Abandoned");
+  });
+
+  it("closes failed sessions with their reason", () => {
+    expect(
+      replaySession(
+        session({
+          outcome: "failed",
+          amount: 0,
+          failureReason: "insufficientFunds",
+        })
+      ).ending.text
+    ).toBe("Transaction failed: Insufficient funds");
+  });
+});
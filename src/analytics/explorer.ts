@@ -0,0 +1,221 @@
+import { DateRange, SessionSearchFilter } from "../services/types";
+import { BucketOptions } from "./buckets";
+import { resolveDateRange } from "./dateRange";
+import { MENU_FLOW_OUTCOME_NODES } from "./menuFlow";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+import {
+  FAILURE_REASON_LABELS,
+  Network,
+  NETWORKS,
+  SESSION_OUTCOMES,
+  SessionOutcome,
+  UssdSession,
+} from "./sessions";
+
+/**
+ * Session explorer: find individual sessions by menu node, outcome and network,
+ * then replay one as the screens the handset showed.
+ */
+
+// Most sessions a search returns, the latest ones
+export const SESSION_SEARCH_LIMIT = 50;
+
+/**
+ * Free text a screen asks for, masked wherever it is shown
+ */
+export type ScreenEntry =
+  | "amount"
+  | "meterNumber"
+  | "accountNumber"
+  | "phoneNumber";
+
+export interface MenuScreen {
+  text: string; // shown above the options
+  options?: string[]; // numbered choices, the menu nodes they lead to
+  entry?: ScreenEntry;
+}
+
+// What the handset shows on each node of the *115# menus, same names as the menu flow
+export const MENU_SCREENS: Record<string, MenuScreen> = {
+  "*115#": {
+    text: "Welcome to *115#",
+    options: ["Pay Bills", "Buy Airtime", "Send Money", "Banking"],
+  },
+  "Pay Bills": { text: "Pay Bills", options: ["Electricity", "Water"] },
+  Electricity: {
+    text: "ZESCO prepaid\nEnter meter number",
+    entry: "meterNumber",
+  },
+  "Meter No": { text: "Enter amount (ZMW)", entry: "amount" },
+  Water: { text: "Water bill\nEnter account number", entry: "accountNumber" },
+  "Buy Airtime": { text: "Buy Airtime\nEnter amount (ZMW)", entry: "amount" },
+  "Send Money": {
+    text: "Send Money\nEnter recipient number",
+    entry: "phoneNumber",
+  },
+  Banking: { text: "Bank transfer\nEnter amount (ZMW)", entry: "amount" },
+  "Account No": { text: "Enter account number", entry: "accountNumber" },
+  Confirm: { text: "Confirm transaction", options: ["Confirm", "Cancel"] },
+};
+
+/**
+ * A screen of a replayed session and the reply to it
+ */
+export interface ReplayScreen {
+  node: string;
+  text: string;
+  options: string[];
+  input: string | null; // masked, null without a reply or when it was not logged
+  shownAt: string; // ISO timestamp
+  seconds: number; // until the next screen, or the end of the session for the last one
+}
+
+export interface SessionReplay {
+  screens: ReplayScreen[];
+  ending: { node: string; text: string }; // closing message of the outcome
+  timed: boolean; // screen times come from the log, otherwise the session is spread evenly over its screens
+  inputsLogged: boolean; // otherwise only menu choices are known, from the screen that followed
+}
+
+/**
+ * Read the `node`, `outcome` and `network` query params of the session search endpoint
+ * @param query the parsed query, "all" for a missing param
+ */
+export const parseSessionSearch = (
+  query: Record<string, unknown>
+): { filter: SessionSearchFilter } | { error: string } => {
+  const node = query.node === undefined ? "all" : query.node;
+  const outcome = query.outcome === undefined ? "all" : query.outcome;
+  const network = query.network === undefined ? "all" : query.network;
+  if (typeof node !== "string" || !node.trim()) {
+    return { error: "node must be a menu node or all" };
+  }
+  if (
+    typeof outcome !== "string" ||
+    (outcome !== "all" && !SESSION_OUTCOMES.includes(outcome as SessionOutcome))
+  ) {
+    return {
+      error: `outcome must be one of all, ${SESSION_OUTCOMES.join(", ")}`,
+    };
+  }
+  if (
+    typeof network !== "string" ||
+    (network !== "all" && !NETWORKS.includes(network as Network))
+  ) {
+    return { error: `network must be one of all, ${NETWORKS.join(", ")}` };
+  }
+  return {
+    filter: {
+      node: node.trim(),
+      outcome: outcome as SessionSearchFilter["outcome"],
+      network,
+    },
+  };
+};
+
+/**
+ * Hide a reply, menu choices of one or two digits stay readable
+ * @param node the screen replied to
+ * @param input the raw reply
+ */
+export const maskInput = (node: string, input: string) =>
+  !MENU_SCREENS[node]?.entry && input.length <= 2
+    ? input
+    : input.replace(/.(?=.{2})/g, "•");
+
+/**
+ * A session with every reply masked, as it may be sent to the dashboard
+ */
+export const maskSessionInputs = (session: UssdSession): UssdSession =>
+  session.inputs
+    ? {
+        ...session,
+        inputs: session.inputs.map((input, i) =>
+          maskInput(session.menuPath[i], input)
+        ),
+      }
+    : session;
+
+/**
+ * The latest sessions started in a period that match a filter, their replies masked
+ * @param sessions sessions in any order
+ * @param period the window the sessions started in
+ * @param filter menu node, outcome and network, "all" for any
+ * @param [options={}] window end and timezone
+ */
+export const searchSessions = (
+  sessions: readonly UssdSession[],
+  period: DateRange,
+  { node, outcome, network }: SessionSearchFilter,
+  {
+    now = new Date(),
+    utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+  }: BucketOptions = {}
+): UssdSession[] => {
+  const { start, end } = resolveDateRange(period, { now, utcOffsetMinutes });
+  return sessions
+    .filter((session) => {
+      const startedAt = Date.parse(session.startedAt);
+      return (
+        startedAt >= start &&
+        startedAt < end &&
+        (node === "all" || session.menuPath.includes(node)) &&
+        (outcome === "all" || session.outcome === outcome) &&
+        (network === "all" || session.network === network)
+      );
+    })
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, SESSION_SEARCH_LIMIT)
+    .map(maskSessionInputs);
+};
+
+const endingText = (session: UssdSession) => {
+  switch (session.outcome) {
+    case "completed":
+      return "Transaction successful";
+    case "failed":
+      return session.failureReason
+        ? `Transaction failed: ${FAILURE_REASON_LABELS[session.failureReason]}`
+        : "Transaction failed";
+    case "abandoned":
+      return "Session ended without a reply";
+  }
+};
+
+/**
+ * Rebuild the screens of a session from its log.
+ * Nodes outside the known menus show their name, replies are shown as logged so mask them first.
+ * @param session the session, as returned by a search
+ */
+export const replaySession = (session: UssdSession): SessionReplay => {
+  const { menuPath, inputs, screenTimes } = session;
+  const start = Date.parse(session.startedAt);
+  const end = Date.parse(session.endedAt);
+  const times =
+    screenTimes?.map(Date.parse) ??
+    menuPath.map((_, i) => start + ((end - start) / menuPath.length) * i);
+
+  return {
+    screens: menuPath.map((node, i) => {
+      const screen = MENU_SCREENS[node];
+      const options = screen?.options ?? [];
+      // Without logged replies the choice that led to the next screen is still known
+      const choice = options.indexOf(menuPath[i + 1]) + 1;
+      const input = inputs ? inputs[i] : choice > 0 ? String(choice) : "";
+      return {
+        node,
+        text: screen?.text ?? node,
+        options,
+        input: input || null,
+        shownAt: new Date(times[i]).toISOString(),
+        seconds: Math.round(((times[i + 1] ?? end) - times[i]) / 100) / 10,
+      };
+    }),
+    ending: {
+      node: MENU_FLOW_OUTCOME_NODES[session.outcome],
+      text: endingText(session),
+    },
+    timed: Boolean(screenTimes),
+    inputsLogged: Boolean(inputs),
+  };
+};
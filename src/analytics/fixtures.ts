@@ -0,0 +1,668 @@
+import {
+  ChartDataPoint,
+  DateRange,
+  DemographicsResponse,
+  FailureBreakdownResponse,
+  FailureReasonSummary,
+  FailureSessionFilter,
+  FailureTrendPoint,
+  GaugeApiResponse,
+  HeatmapCell,
+  MenuFlowResponse,
+  MenuFunnelResponse,
+  RevenuePoint,
+  SessionSearchFilter,
+} from "../services/types";
+import { ALL_SCOPE, MetricScope, WindowMetrics } from "./alerts";
+import { timeBuckets } from "./buckets";
+import { dateRangeKey, resolveDateRange } from "./dateRange";
+import { searchSessions, SESSION_SEARCH_LIMIT } from "./explorer";
+import { aggregateMenuFunnel } from "./funnel";
+import {
+  createSessionSimulator,
+  generateSessions,
+  MENU_PATHS,
+  SERVICE_CODE,
+} from "./generator";
+import { dayWeight, hourWeight, SERVICE_SHARE } from "./patterns";
+import {
+  createRandom,
+  hashSeed,
+  randomInt,
+  Random,
+  weightedPick,
+} from "./random";
+import {
+  FAILURE_REASONS,
+  FAILURE_SAMPLE_LIMIT,
+  FailureReason,
+  Network,
+  PROVINCES,
+  UssdService,
+  UssdSession,
+} from "./sessions";
+
+/**
+ * Deterministic fixture payloads for every analytics endpoint.
+ * Used by the in-browser "mock" api profile so the dashboard can be demoed without a backend.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+// Fixtures follow the timezone of whoever renders them
+const localOffset = (now: Date) => -now.getTimezoneOffset();
+
+const dateWeight = (date: Date) =>
+  dayWeight(date.getDate(), date.getDay(), date.getMonth(), date.getFullYear());
+
+const buildPoint = (
+  random: Random,
+  date: Date,
+  base: number,
+  label: string,
+  hour?: number
+): ChartDataPoint => {
+  const noise = 0.9 + random() * 0.2;
+  const total = Math.round(base * noise);
+  const electricity = Math.round(total * SERVICE_SHARE.electricity);
+  const water = Math.round(total * SERVICE_SHARE.water);
+  const airtime = Math.round(total * SERVICE_SHARE.airtime);
+  const mobileMoney = Math.round(total * SERVICE_SHARE.mobileMoney);
+  const banking = total - electricity - water - airtime - mobileMoney;
+  const successRate = 90 + random() * 8;
+
+  return {
+    date: label,
+    fullDate: date.toISOString(),
+    dayOfWeek: DAY_NAMES[date.getDay()],
+    ...(hour !== undefined && { hour }),
+    total,
+    electricity,
+    water,
+    airtime,
+    mobileMoney,
+    banking,
+    avgSessionTime: Math.round(35 + random() * 40),
+    successRate: Math.round(successRate * 10) / 10,
+    revenue: Math.round(total * (2.5 + random())),
+    failedTransactions: Math.round(total * (1 - successRate / 100)),
+    peakConcurrentUsers: Math.round(total * (0.05 + random() * 0.05)),
+  };
+};
+
+export const fixtureTransactionVolume = (
+  range: DateRange,
+  service: string,
+  now = new Date()
+): ChartDataPoint[] => {
+  const random = createRandom(
+    hashSeed(`volume/${dateRangeKey(range)}/${service}`)
+  );
+  const buckets = timeBuckets(range, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+  });
+
+  return buckets.map((bucket, i) => {
+    const date = new Date(bucket.start);
+    if (bucket.hour !== undefined) {
+      return buildPoint(
+        random,
+        date,
+        600 * hourWeight(bucket.hour),
+        bucket.label,
+        bucket.hour
+      );
+    }
+    // Slow organic growth across the window
+    const growth = 1 + (i / buckets.length) * 0.08;
+    return buildPoint(
+      random,
+      date,
+      12000 * dateWeight(date) * growth,
+      bucket.label
+    );
+  });
+};
+
+export const fixtureSuccessRate = (
+  period: DateRange,
+  now = new Date()
+): GaugeApiResponse => {
+  const random = createRandom(hashSeed(`success-rate/${dateRangeKey(period)}`));
+  const { start, end } = resolveDateRange(period, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+  });
+  // Volumes grow with the number of days covered
+  const scale = Math.max(1, Math.round((end - start) / DAY_MS));
+  const networks = [
+    { name: "MTN", marketShare: 48 },
+    { name: "Airtel", marketShare: 37 },
+    { name: "Zamtel", marketShare: 15 },
+  ].map((n) => ({
+    ...n,
+    rate: Math.round((91 + random() * 7) * 10) / 10,
+    totalTransactions: Math.round(
+      n.marketShare * 250 * scale * (0.9 + random() * 0.2)
+    ),
+  }));
+
+  const total = networks.reduce((sum, n) => sum + n.totalTransactions, 0);
+  const successfulTxns = Math.round(
+    networks.reduce((sum, n) => sum + (n.totalTransactions * n.rate) / 100, 0)
+  );
+
+  // Own seed so the totals above stay what they were before the timeline existed
+  const timelineRandom = createRandom(
+    hashSeed(`success-rate-timeline/${dateRangeKey(period)}`)
+  );
+  const timeline = timeBuckets(period, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+  }).map((bucket) => {
+    // Every few buckets one network has an outage and drops well below its usual rate
+    const rates = networks.map((n) => {
+      const noise = (timelineRandom() - 0.5) * 6;
+      const outage = timelineRandom() < 0.06 ? 10 + timelineRandom() * 8 : 0;
+      return Math.min(100, Math.round((n.rate + noise - outage) * 10) / 10);
+    });
+    return {
+      fullDate: new Date(bucket.start).toISOString(),
+      minutes: (bucket.end - bucket.start) / 60000,
+      // Market shares add up to 100
+      rate:
+        Math.round(
+          rates.reduce(
+            (sum, rate, i) => sum + rate * networks[i].marketShare,
+            0
+          ) / 10
+        ) / 10,
+      networks: Object.fromEntries(
+        networks.map((n, i): [string, number | null] => [n.name, rates[i]])
+      ),
+    };
+  });
+
+  return {
+    metrics: {
+      successRate: Math.round((successfulTxns / total) * 1000) / 10,
+      successfulTxns,
+      failedTxns: total - successfulTxns,
+      avgResponseTime: Math.round((1.2 + random() * 1.5) * 10) / 10,
+      activeSessions: randomInt(random, 800, 2400),
+      topProvince: "Lusaka",
+      peakHour: "18:00 - 20:00",
+    },
+    networks,
+    timeline,
+  };
+};
+
+// Shares of the demographics fixture, the other provinces split the remaining quarter
+const NETWORK_SHARE: Record<string, number> = {
+  MTN: 0.48,
+  Airtel: 0.37,
+  Zamtel: 0.15,
+};
+const PROVINCE_SHARE: Record<string, number> = {
+  Lusaka: 0.35,
+  Copperbelt: 0.25,
+  Southern: 0.15,
+};
+const OTHER_PROVINCE_SHARE =
+  0.25 / (PROVINCES.length - Object.keys(PROVINCE_SHARE).length);
+
+const ALERT_READING_MS = 5 * 60 * 1000;
+
+/**
+ * Session counts of a window for alert rules.
+ * Readings change every 5 minutes and the success rate sometimes dips to Poor, so rules open and resolve incidents.
+ * @param start window start, epoch ms
+ * @param end window end (excluded), epoch ms
+ * @param scope network and province, "all" for any
+ */
+export const fixtureWindowMetrics = (
+  start: number,
+  end: number,
+  { network, province }: MetricScope
+): WindowMetrics => {
+  const random = createRandom(
+    hashSeed(
+      `alerts/${network}/${province}/${Math.floor(end / ALERT_READING_MS)}`
+    )
+  );
+  const share =
+    (network === ALL_SCOPE ? 1 : NETWORK_SHARE[network] ?? 0) *
+    (province === ALL_SCOPE
+      ? 1
+      : PROVINCE_SHARE[province] ?? OTHER_PROVINCE_SHARE);
+  // Same hourly rate as the 24h volume fixture
+  const perMinute = (600 * hourWeight(new Date(end).getHours())) / 60;
+  const sessions = Math.round(
+    perMinute * share * ((end - start) / 60000) * (0.9 + random() * 0.2)
+  );
+  // Abandoned sessions never reach the gateway, the rest completes at 84-98%
+  const concluded = Math.round(sessions * 0.92);
+  const completed = Math.round(concluded * (0.84 + random() * 0.14));
+
+  return { sessions, completed, failed: concluded - completed };
+};
+
+// Typical mix of failure reasons, each network drifts from it a little
+const FAILURE_REASON_WEIGHTS: Record<FailureReason, number> = {
+  sessionTimeout: 20,
+  insufficientFunds: 25,
+  gatewayError: 20,
+  billerUnavailable: 8,
+  userCancel: 15,
+  invalidInput: 12,
+};
+
+/**
+ * Split a total in whole parts proportional to the weights, the parts add up to the total
+ */
+const spread = (total: number, weights: number[]): number[] => {
+  const sum = weights.reduce((a, b) => a + b, 0);
+  let cumulative = 0;
+  let assigned = 0;
+  return weights.map((weight) => {
+    cumulative += weight;
+    const upTo = sum ? Math.round((total * cumulative) / sum) : 0;
+    const part = upTo - assigned;
+    assigned = upTo;
+    return part;
+  });
+};
+
+/**
+ * Failure reasons of the failed transactions of the success rate fixture,
+ * spread over the period along the dips of its timeline
+ */
+export const fixtureFailureBreakdown = (
+  period: DateRange,
+  now = new Date()
+): FailureBreakdownResponse => {
+  const { metrics, networks, timeline } = fixtureSuccessRate(period, now);
+  const random = createRandom(
+    hashSeed(`failure-reasons/${dateRangeKey(period)}`)
+  );
+  const labels = timeBuckets(period, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+  }).map((bucket) => bucket.label);
+
+  // Failed transactions per network, the last one takes the rounding so they add up to the gauge
+  const failedPerNetwork = networks.map((n) =>
+    Math.round((n.totalTransactions * (100 - n.rate)) / 100)
+  );
+  failedPerNetwork[failedPerNetwork.length - 1] +=
+    metrics.failedTxns - failedPerNetwork.reduce((a, b) => a + b, 0);
+
+  // counts[network][reason][bucket]
+  const counts = networks.map((n, i) => {
+    const byReason = spread(
+      failedPerNetwork[i],
+      FAILURE_REASONS.map(
+        (reason) => FAILURE_REASON_WEIGHTS[reason] * (0.7 + random() * 0.6)
+      )
+    );
+    // Buckets where the network dipped take more of its failures
+    const bucketWeights = timeline.map(
+      (bucket) => 100 - (bucket.networks[n.name] ?? n.rate)
+    );
+    return byReason.map((count) => spread(count, bucketWeights));
+  });
+
+  const reasons: FailureReasonSummary[] = FAILURE_REASONS.map((reason, r) => {
+    const perNetwork = networks.map((n, i) =>
+      counts[i][r].reduce((a, b) => a + b, 0)
+    );
+    const count = perNetwork.reduce((a, b) => a + b, 0);
+    return {
+      reason,
+      count,
+      share: metrics.failedTxns
+        ? Math.round((count / metrics.failedTxns) * 1000) / 10
+        : 0,
+      networks: Object.fromEntries(
+        networks.map((n, i) => [n.name, perNetwork[i]])
+      ),
+    };
+  });
+
+  const trend: FailureTrendPoint[] = timeline.map((bucket, b) => ({
+    date: labels[b],
+    fullDate: bucket.fullDate,
+    ...Object.fromEntries(
+      FAILURE_REASONS.map((reason, r) => [
+        reason,
+        networks.reduce((sum, n, i) => sum + counts[i][r][b], 0),
+      ])
+    ),
+  }));
+
+  return { totalFailed: metrics.failedTxns, reasons, trend };
+};
+
+// Services a failure reason can happen on, only bill payments go through a biller
+const servicesFor = (reason: FailureReason) =>
+  (Object.entries(SERVICE_SHARE) as [UssdService, number][]).filter(
+    ([service]) =>
+      reason !== "billerUnavailable" ||
+      service === "electricity" ||
+      service === "water"
+  );
+
+/**
+ * Made up failed sessions behind the failure breakdown fixture, latest first
+ * @param period the window they happened in
+ * @param filter reason and network, "all" for any
+ */
+export const fixtureFailedSessions = (
+  period: DateRange,
+  { reason, network }: FailureSessionFilter,
+  now = new Date()
+): UssdSession[] => {
+  const breakdown = fixtureFailureBreakdown(period, now);
+  const matching = breakdown.reasons.filter(
+    (summary) => reason === "all" || summary.reason === reason
+  );
+  const available = matching.reduce(
+    (sum, summary) =>
+      sum +
+      (network === "all" ? summary.count : summary.networks[network] ?? 0),
+    0
+  );
+
+  const random = createRandom(
+    hashSeed(`failed-sessions/${dateRangeKey(period)}/${reason}/${network}`)
+  );
+  const { start, end } = resolveDateRange(period, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+  });
+  const last = Math.min(end, now.getTime());
+  const count = Math.min(FAILURE_SAMPLE_LIMIT, available);
+  // Spaced out at random over the last part of the period
+  const gap = (last - start) / Math.max(1, available);
+
+  let startedAt = last;
+  return Array.from({ length: count }, (_, i) => {
+    startedAt -= Math.max(1000, Math.round(gap * (0.2 + random() * 1.6)));
+    const failureReason =
+      reason === "all" || reason === "unreported"
+        ? weightedPick(
+            random,
+            matching.map((summary) => [
+              summary.reason as FailureReason,
+              network === "all" ? summary.count : summary.networks[network],
+            ])
+          )
+        : reason;
+    const sessionNetwork = (
+      network === "all"
+        ? weightedPick(random, Object.entries(NETWORK_SHARE))
+        : network
+    ) as Network;
+    const service = weightedPick(random, servicesFor(failureReason));
+    const menuPath = MENU_PATHS[service];
+    const durationMs = menuPath.length * (6 + random() * 8) * 1000;
+
+    return {
+      sessionId: `F${String(hashSeed(`${startedAt}/${i}`)).padStart(10, "0")}`,
+      msisdnHash: Math.floor(random() * 0xffffffff)
+        .toString(16)
+        .padStart(8, "0"),
+      network: sessionNetwork,
+      province: weightedPick(
+        random,
+        PROVINCES.map((province): [string, number] => [
+          province,
+          PROVINCE_SHARE[province] ?? OTHER_PROVINCE_SHARE,
+        ])
+      ),
+      serviceCode: SERVICE_CODE,
+      service,
+      menuPath,
+      startedAt: new Date(startedAt).toISOString(),
+      endedAt: new Date(startedAt + Math.round(durationMs)).toISOString(),
+      outcome: "failed",
+      amount: 0,
+      failureReason,
+    };
+  });
+};
+
+export const fixturePeakHours = (): HeatmapCell[] => {
+  const random = createRandom(hashSeed("peak-hours"));
+  const days = [
+    "Monday",
+    "Tuesday",
+    "Wednesday",
+    "Thursday",
+    "Friday",
+    "Saturday",
+    "Sunday",
+  ];
+  const cells: HeatmapCell[] = [];
+
+  days.forEach((day, dayIndex) => {
+    const dayFactor = dayIndex === 4 ? 1.2 : dayIndex >= 5 ? 0.8 : 1;
+    for (let slot = 0; slot < 12; slot++) {
+      const startHour = slot * 2;
+      const hour = `${String(startHour).padStart(2, "0")}-${String(
+        (startHour + 2) % 24
+      ).padStart(2, "0")}`;
+      const value = Math.round(
+        1500 * hourWeight(startHour + 1) * dayFactor * (0.85 + random() * 0.3)
+      );
+      cells.push({ day, hour, value, intensity: 0, isPeak: false });
+    }
+  });
+
+  return withIntensity(cells);
+};
+
+/**
+ * Bucket heatmap values into the 0-5 intensity scale and flag each day's busiest slot
+ * @param cells cells with raw session counts
+ */
+export const withIntensity = (cells: HeatmapCell[]): HeatmapCell[] => {
+  const thresholds = [200, 500, 1000, 1500, 1800];
+  const dayPeaks: Record<string, number> = {};
+  cells.forEach((c) => {
+    dayPeaks[c.day] = Math.max(dayPeaks[c.day] || 0, c.value);
+  });
+
+  return cells.map((c) => ({
+    ...c,
+    intensity: thresholds.filter((t) => c.value > t).length,
+    isPeak: c.value > 0 && c.value === dayPeaks[c.day],
+  }));
+};
+
+export const fixtureDemographics = (): DemographicsResponse => ({
+  totalUsers: 1250000,
+  provinceData: [
+    { name: "Lusaka", users: 437500, percentage: 35, type: "Urban" },
+    { name: "Copperbelt", users: 312500, percentage: 25, type: "Urban/Mining" },
+    { name: "Southern", users: 187500, percentage: 15, type: "Agricultural" },
+    { name: "Other Provinces", users: 312500, percentage: 25, type: "Mixed" },
+  ],
+  networkData: [
+    {
+      name: "MTN Zambia",
+      percentage: 48,
+      users: 600000,
+      description: "Largest subscriber base",
+    },
+    {
+      name: "Airtel Zambia",
+      percentage: 37,
+      users: 462500,
+      description: "Strong urban presence",
+    },
+    {
+      name: "Zamtel",
+      percentage: 15,
+      users: 187500,
+      description: "State operator, rural reach",
+    },
+  ],
+  ageGroups: [
+    { range: "18-25", percentage: 28, users: 350000, label: "Young adults" },
+    { range: "26-35", percentage: 34, users: 425000, label: "Working age" },
+    { range: "36-45", percentage: 21, users: 262500, label: "Established" },
+    { range: "46-55", percentage: 11, users: 137500, label: "Mature" },
+    { range: "56+", percentage: 6, users: 75000, label: "Seniors" },
+  ],
+  genderData: [
+    { name: "Male", value: 58, users: 725000 },
+    { name: "Female", value: 42, users: 525000 },
+  ],
+  urbanRuralData: [
+    { name: "Urban", value: 62, users: 775000 },
+    { name: "Rural", value: 38, users: 475000 },
+  ],
+  deviceData: [
+    { name: "Feature Phone", value: 64, trend: "Stable" },
+    { name: "Smartphone", value: 31, trend: "+4% year over year" },
+    { name: "Other", value: 5, trend: "Declining" },
+  ],
+});
+
+export const fixtureRevenueTrends = (
+  range: DateRange,
+  now = new Date()
+): RevenuePoint[] => {
+  const random = createRandom(hashSeed(`revenue/${dateRangeKey(range)}`));
+  const buckets = timeBuckets(range, {
+    now,
+    utcOffsetMinutes: localOffset(now),
+    granularity: "day",
+  });
+
+  return buckets.map((bucket) => {
+    const date = new Date(bucket.start);
+    const weight = dateWeight(date) * (0.9 + random() * 0.2);
+    const electricity = Math.round(18000 * weight);
+    const mobileMoney = Math.round(26000 * weight);
+    const airtime = Math.round(14000 * weight);
+    const water = Math.round(5000 * weight);
+    return {
+      date: date.toISOString(),
+      electricity,
+      mobileMoney,
+      airtime,
+      water,
+      total: electricity + mobileMoney + airtime + water,
+    };
+  });
+};
+
+export const fixtureMenuFlow = (): MenuFlowResponse => {
+  const nodes = [
+    "*115#",
+    "Pay Bills",
+    "Buy Airtime",
+    "Send Money",
+    "Electricity",
+    "Water",
+    "Meter No",
+    "Confirm",
+    "Completed",
+    "Abandoned",
+  ].map((name) => ({ name }));
+  const index = (name: string) => nodes.findIndex((n) => n.name === name);
+  const link = (source: string, target: string, value: number) => ({
+    source: index(source),
+    target: index(target),
+    value,
+  });
+
+  return {
+    nodes,
+    links: [
+      link("*115#", "Pay Bills", 4200),
+      link("*115#", "Buy Airtime", 5100),
+      link("*115#", "Send Money", 3600),
+      link("*115#", "Abandoned", 900),
+      link("Pay Bills", "Electricity", 2900),
+      link("Pay Bills", "Water", 1000),
+      link("Pay Bills", "Abandoned", 300),
+      link("Electricity", "Meter No", 2700),
+      link("Electricity", "Abandoned", 200),
+      link("Meter No", "Confirm", 2400),
+      link("Meter No", "Abandoned", 300),
+      link("Water", "Confirm", 900),
+      link("Water", "Abandoned", 100),
+      link("Buy Airtime", "Confirm", 4800),
+      link("Buy Airtime", "Abandoned", 300),
+      link("Send Money", "Confirm", 3200),
+      link("Send Money", "Abandoned", 400),
+      link("Confirm", "Completed", 10600),
+      link("Confirm", "Abandoned", 700),
+    ],
+  };
+};
+
+// Generated once, a week of sessions is enough for the funnel fixture
+let funnelSessions: UssdSession[] | undefined;
+
+/**
+ * Menu funnel over a seeded week of generated sessions.
+ * Unlike the other fixtures it is computed from sessions, its counts do not add up to the menu flow fixture.
+ * @param steps menu nodes in order
+ */
+export const fixtureMenuFunnel = (steps: string[]): MenuFunnelResponse => {
+  if (!funnelSessions) {
+    funnelSessions = generateSessions({
+      seed: "funnel",
+      start: "2025-01-06",
+      days: 7,
+    });
+  }
+  return aggregateMenuFunnel(funnelSessions, steps);
+};
+
+// Created on first search, keeps the last generated days
+let explorerSimulator: ReturnType<typeof createSessionSimulator> | undefined;
+
+/**
+ * Session explorer over generated traffic, walked back a day at a time until there are enough matches
+ * @param period the window the sessions started in
+ * @param filter menu node, outcome and network, "all" for any
+ */
+export const fixtureSessionSearch = (
+  period: DateRange,
+  filter: SessionSearchFilter,
+  now = new Date()
+): UssdSession[] => {
+  if (!explorerSimulator) {
+    explorerSimulator = createSessionSimulator({ seed: "explorer" });
+  }
+  const options = { now, utcOffsetMinutes: localOffset(now) };
+  const { start, end } = resolveDateRange(period, options);
+
+  let matches: UssdSession[] = [];
+  for (
+    let to = Math.min(end, now.getTime());
+    to > start && matches.length < SESSION_SEARCH_LIMIT;
+    to -= DAY_MS
+  ) {
+    matches = matches.concat(
+      searchSessions(
+        explorerSimulator(to - DAY_MS, to),
+        period,
+        filter,
+        options
+      )
+    );
+  }
+  return matches
+    .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+    .slice(0, SESSION_SEARCH_LIMIT);
+};
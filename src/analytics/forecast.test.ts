@@ -0,0 +1,58 @@
+import { forecastSeries } from "./forecast";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Midnight of Jan 1 2025 in CAT
+const firstDay = Date.parse("2024-12-31T22:00:00Z");
+
+// Linear growth with quieter weekends and a salary week lift
+const seasonalSeries = (days: number) =>
+  Array.from({ length: days }, (_, i) => {
+    const local = new Date(Date.parse("2025-01-01T00:00:00Z") + i * DAY_MS);
+    const weekday = local.getUTCDay();
+    const dayOfMonth = local.getUTCDate();
+    return (
+      (1000 + 5 * i) *
+      (weekday === 0 ? 0.75 : weekday === 6 ? 0.85 : 1) *
+      (dayOfMonth >= 15 && dayOfMonth <= 20 ? 1.3 : 1)
+    );
+  });
+
+describe("forecastSeries", () => {
+  it("carries the trend, weekday cycle and salary week forward", () => {
+    const series = seasonalSeries(120);
+    const { values } = forecastSeries(series.slice(0, 90), firstDay, 30);
+
+    expect(values).toHaveLength(30);
+    values.forEach((value, i) => {
+      expect(Math.abs(value - series[90 + i]) / series[90 + i]).toBeLessThan(
+        0.03
+      );
+    });
+  });
+
+  it("widens the confidence band the further it projects", () => {
+    const series = seasonalSeries(60).map(
+      (value, i) => value * (i % 3 === 0 ? 1.05 : 0.97)
+    );
+    const { values, lower, upper } = forecastSeries(series, firstDay, 30);
+
+    values.forEach((value, i) => {
+      expect(lower[i]).toBeLessThanOrEqual(value);
+      expect(upper[i]).toBeGreaterThanOrEqual(value);
+    });
+    expect(upper[29] - lower[29]).toBeGreaterThan(upper[0] - lower[0]);
+  });
+
+  it("never projects below zero", () => {
+    const declining = Array.from({ length: 30 }, (_, i) => 300 - 10 * i);
+    const { values, lower } = forecastSeries(declining, firstDay, 30);
+    expect(Math.min(...values, ...lower)).toBe(0);
+  });
+
+  it("falls back to the trend alone on short histories", () => {
+    expect(forecastSeries([100, 110, 120], firstDay, 2).values).toEqual([
+      130, 140,
+    ]);
+    expect(forecastSeries([], firstDay, 7).values).toEqual([]);
+  });
+});
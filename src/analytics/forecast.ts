@@ -0,0 +1,179 @@
+import { CAT_UTC_OFFSET_MINUTES, isSalaryWeek } from "./patterns";
+
+/**
+ * Daily series forecasting by seasonal decomposition.
+ * A series is split into a linear trend, a day of week cycle and a salary week lift,
+ * the trend is extrapolated and the two cycles are applied back onto it.
+ */
+
+export const FORECAST_HORIZONS = [7, 30, 90];
+
+export interface ForecastOptions {
+  utcOffsetMinutes?: number; // local time the days follow, Zambia (CAT) by default
+  isSalaryDay?: (local: Date) => boolean; // read with the UTC getters, salary week (15th-20th) by default
+  z?: number; // width of the confidence band in standard errors, 1.96 (95%) by default
+}
+
+export interface SeriesForecast {
+  values: number[];
+  lower: number[];
+  upper: number[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Below two full weeks there is no day of week cycle to learn
+const MIN_SEASONAL_DAYS = 14;
+
+// Seasonal factors are estimated against a moving average first, then against the fitted trend
+const PASSES = 3;
+
+const mean = (values: readonly number[]) =>
+  values.length
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : NaN;
+
+/**
+ * Centered 7 day moving average, the series mean where the window does not fit
+ */
+const movingAverage = (values: readonly number[]): number[] => {
+  const overall = mean(values);
+  return values.map((_, i) =>
+    i >= 3 && i + 3 < values.length ? mean(values.slice(i - 3, i + 4)) : overall
+  );
+};
+
+/**
+ * Least squares line through a series
+ * @returns the line, and the spread of x the prediction interval needs
+ */
+const fitLine = (values: readonly number[]) => {
+  const xMean = (values.length - 1) / 2;
+  const yMean = mean(values);
+  let sxx = 0;
+  let sxy = 0;
+  values.forEach((y, x) => {
+    sxx += (x - xMean) ** 2;
+    sxy += (x - xMean) * (y - yMean);
+  });
+  const slope = sxx > 0 ? sxy / sxx : 0;
+  return { at: (x: number) => yMean + slope * (x - xMean), xMean, sxx };
+};
+
+/**
+ * Seasonal factors of a daily series
+ * @param trend the series without its cycles, to measure them against
+ * @returns a multiplier per weekday (averaging 1) and the salary week multiplier
+ */
+const seasonality = (
+  values: readonly number[],
+  trend: readonly number[],
+  weekdays: readonly number[],
+  salaryDays: readonly boolean[]
+) => {
+  if (values.length < MIN_SEASONAL_DAYS) {
+    return { weekday: new Array<number>(7).fill(1), salary: 1 };
+  }
+
+  const ratios = values.map((value, i) =>
+    trend[i] > 0 ? value / trend[i] : NaN
+  );
+
+  // Weekday cycle from ordinary days, so the salary lift does not leak into it
+  const byWeekday = Array.from({ length: 7 }, (_, day) =>
+    mean(
+      ratios.filter(
+        (ratio, i) => weekdays[i] === day && !salaryDays[i] && !isNaN(ratio)
+      )
+    )
+  );
+  const known = byWeekday.filter((factor) => !isNaN(factor));
+  const norm = mean(known) || 1;
+  const weekday = byWeekday.map((factor) =>
+    isNaN(factor) ? 1 : factor / norm
+  );
+
+  const adjusted = ratios.map((ratio, i) => ratio / weekday[weekdays[i]]);
+  const salaryLift = mean(
+    adjusted.filter((ratio, i) => salaryDays[i] && !isNaN(ratio))
+  );
+  const ordinary = mean(
+    adjusted.filter((ratio, i) => !salaryDays[i] && !isNaN(ratio))
+  );
+  const salary =
+    isNaN(salaryLift) || isNaN(ordinary) || ordinary === 0
+      ? 1
+      : salaryLift / ordinary;
+
+  return { weekday, salary };
+};
+
+/**
+ * Project a daily series ahead
+ * @param history one value per day, oldest first, without gaps
+ * @param firstDay start of the first day of `history`, epoch ms
+ * @param horizon how many days to project
+ * @param [options={}] timezone, salary days and band width
+ * @returns one projected value per day after the history, with a confidence band, never below 0
+ */
+export const forecastSeries = (
+  history: readonly number[],
+  firstDay: number,
+  horizon: number,
+  {
+    utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+    isSalaryDay = (local) => isSalaryWeek(local.getUTCDate()),
+    z = 1.96,
+  }: ForecastOptions = {}
+): SeriesForecast => {
+  const n = history.length;
+  if (n === 0 || horizon <= 0) return { values: [], lower: [], upper: [] };
+
+  // Shifted so the UTC getters read the local wall clock
+  const localDay = (i: number) =>
+    new Date(firstDay + i * DAY_MS + utcOffsetMinutes * 60 * 1000);
+  const days = Array.from({ length: n + horizon }, (_, i) => localDay(i));
+  const weekdays = days.map((day) => day.getUTCDay());
+  const salaryDays = days.map((day) => isSalaryDay(day));
+
+  let trend = movingAverage(history);
+  let factorOf: (i: number) => number = () => 1;
+  let line = fitLine(history);
+  for (let pass = 0; pass < PASSES; pass++) {
+    const { weekday, salary } = seasonality(
+      history,
+      trend,
+      weekdays,
+      salaryDays
+    );
+    const factor = (i: number) =>
+      weekday[weekdays[i]] * (salaryDays[i] ? salary : 1);
+    factorOf = factor;
+    // Trend of the history once both cycles are taken out
+    const fit = fitLine(history.map((value, i) => value / factor(i)));
+    trend = history.map((_, i) => fit.at(i));
+    line = fit;
+  }
+  const { xMean, sxx } = line;
+  const fitted = (i: number) => line.at(i) * factorOf(i);
+
+  // Standard error of the residuals, widening with the distance from the history
+  const residuals = history.map((value, i) => value - fitted(i));
+  const sigma =
+    n > 2
+      ? Math.sqrt(
+          residuals.reduce((sum, residual) => sum + residual ** 2, 0) / (n - 2)
+        )
+      : 0;
+
+  const result: SeriesForecast = { values: [], lower: [], upper: [] };
+  for (let i = n; i < n + horizon; i++) {
+    const value = Math.max(0, fitted(i));
+    const spread =
+      z * sigma * Math.sqrt(1 + 1 / n + (sxx > 0 ? (i - xMean) ** 2 / sxx : 0));
+    result.values.push(Math.round(value));
+    result.lower.push(Math.round(Math.max(0, value - spread)));
+    result.upper.push(Math.round(value + spread));
+  }
+  return result;
+};
@@ -0,0 +1,86 @@
+import { aggregateMenuFunnel, parseFunnelSteps } from "./funnel";
+import { UssdSession } from "./sessions";
+import { testSession } from "./testSessions";
+
+const session = (menuPath: string[], overrides: Partial<UssdSession> = {}) =>
+  testSession({
+    menuPath,
+    // 10 seconds per screen
+    endedAt: new Date(
+      Date.parse("2025-01-06T08:00:00.000Z") + menuPath.length * 10 * 1000
+    ).toISOString(),
+    amount: 50,
+    ...overrides,
+  });
+
+const steps = ["*115#", "Pay Bills", "Electricity", "Completed"];
+
+describe("parseFunnelSteps", () => {
+  it("splits menu nodes on the path separator", () => {
+    expect(parseFunnelSteps("*115# > Pay Bills>Completed")).toEqual({
+      steps: ["*115#", "Pay Bills", "Completed"],
+    });
+  });
+
+  it("rejects too few, empty or repeated steps", () => {
+    expect(parseFunnelSteps("*115#")).toHaveProperty("error");
+    expect(parseFunnelSteps(undefined)).toHaveProperty("error");
+    expect(parseFunnelSteps("*115#>>Confirm")).toHaveProperty("error");
+    expect(parseFunnelSteps("*115#>Confirm>*115#")).toHaveProperty("error");
+  });
+});
+
+describe("aggregateMenuFunnel", () => {
+  const sessions = [
+    session(["*115#", "Pay Bills", "Electricity", "Meter No", "Confirm"]),
+    session(["*115#", "Pay Bills", "Electricity", "Meter No", "Confirm"], {
+      outcome: "abandoned",
+      network: "Airtel",
+    }),
+    session(["*115#", "Pay Bills", "Water"], {
+      outcome: "abandoned",
+      network: "Airtel",
+      province: "Copperbelt",
+    }),
+    session(["*115#", "Buy Airtime", "Confirm"]),
+  ];
+
+  it("counts the sessions reaching each step in order", () => {
+    const { totalSessions, steps: funnel } = aggregateMenuFunnel(
+      sessions,
+      steps
+    );
+
+    expect(totalSessions).toBe(4);
+    expect(funnel.map((step) => step.sessions)).toEqual([4, 3, 2, 1]);
+    expect(funnel.map((step) => step.dropOff)).toEqual([0, 1, 1, 1]);
+    expect(funnel.map((step) => step.conversion)).toEqual([100, 75, 66.7, 50]);
+    expect(funnel[3].overallConversion).toBe(25);
+  });
+
+  it("breaks drop-offs down by network and province", () => {
+    const funnel = aggregateMenuFunnel(sessions, steps).steps;
+
+    expect(funnel[2].dropOffByNetwork).toEqual({ Airtel: 1 });
+    expect(funnel[2].dropOffByProvince).toEqual({ Copperbelt: 1 });
+    expect(funnel[3].dropOffByNetwork).toEqual({ Airtel: 1 });
+  });
+
+  it("times each step from the previous one, spreading sessions evenly over their screens", () => {
+    const funnel = aggregateMenuFunnel(sessions, steps).steps;
+
+    expect(funnel[0].medianSeconds).toBe(0);
+    expect(funnel[1].medianSeconds).toBe(10);
+    // Electricity to Completed goes through Meter No and Confirm
+    expect(funnel[3].medianSeconds).toBe(30);
+  });
+
+  it("leaves the time of unreached steps empty", () => {
+    const funnel = aggregateMenuFunnel([], steps).steps;
+    expect(funnel[1]).toMatchObject({
+      sessions: 0,
+      conversion: 0,
+      medianSeconds: null,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { MenuFunnelResponse, MenuFunnelStep } from "../services/types";
+import { median } from "./anomalies";
+import { MENU_FLOW_OUTCOME_NODES } from "./menuFlow";
+import { MENU_PATH_SEPARATOR, UssdSession } from "./sessions";
+
+/**
+ * Conversion funnels over chosen menu nodes, e.g. `*115#` > Pay Bills > Electricity > Meter No > Confirm > Completed.
+ * A session enters a step once it visited every step up to it in order, other menus in between are allowed.
+ */
+
+export const MIN_FUNNEL_STEPS = 2;
+export const MAX_FUNNEL_STEPS = 10;
+
+/**
+ * Read the `steps` query param of the funnel endpoint, menu nodes separated by `>`
+ * @param value the raw param
+ */
+export const parseFunnelSteps = (
+  value: unknown
+): { steps: string[] } | { error: string } => {
+  const steps =
+    typeof value === "string"
+      ? value.split(MENU_PATH_SEPARATOR).map((step) => step.trim())
+      : [];
+  if (steps.length < MIN_FUNNEL_STEPS || steps.length > MAX_FUNNEL_STEPS) {
+    return {
+      error: `steps must list ${MIN_FUNNEL_STEPS} to ${MAX_FUNNEL_STEPS} menu nodes separated by ${MENU_PATH_SEPARATOR}`,
+    };
+  }
+  if (steps.some((step) => !step)) {
+    return { error: "steps must not be empty" };
+  }
+  if (new Set(steps).size !== steps.length) {
+    return { error: "steps must not repeat a menu node" };
+  }
+  return { steps };
+};
+
+const increment = (counts: Record<string, number>, key: string) => {
+  counts[key] = (counts[key] ?? 0) + 1;
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Funnel of the sessions through the steps.
+ * Screens carry no timestamps, the time of a session is spread evenly over the screens it visited.
+ * @param sessions sessions in any order
+ * @param steps menu nodes in order, outcome nodes (Completed, Failed, Abandoned) are allowed as the sessions' last node
+ */
+export const aggregateMenuFunnel = (
+  sessions: readonly UssdSession[],
+  steps: string[]
+): MenuFunnelResponse => {
+  const reached = steps.map(() => 0);
+  const seconds: number[][] = steps.map(() => []);
+  const dropOffByNetwork: Record<string, number>[] = steps.map(() => ({}));
+  const dropOffByProvince: Record<string, number>[] = steps.map(() => ({}));
+
+  sessions.forEach((session) => {
+    // Same path as the menu flow: first visits only, ending in the outcome
+    const visited = new Set<string>();
+    const path = session.menuPath
+      .filter((node) => !visited.has(node) && visited.add(node))
+      .concat(MENU_FLOW_OUTCOME_NODES[session.outcome]);
+    const secondsPerScreen =
+      (Date.parse(session.endedAt) - Date.parse(session.startedAt)) /
+      1000 /
+      session.menuPath.length;
+
+    let position = -1;
+    for (let step = 0; step < steps.length; step++) {
+      const next = path.indexOf(steps[step], position + 1);
+      if (next === -1) {
+        if (step > 0) {
+          increment(dropOffByNetwork[step], session.network);
+          increment(dropOffByProvince[step], session.province);
+        }
+        return;
+      }
+      reached[step]++;
+      seconds[step].push((next - Math.max(position, 0)) * secondsPerScreen);
+      position = next;
+    }
+  });
+
+  return {
+    totalSessions: sessions.length,
+    steps: steps.map(
+      (node, step): MenuFunnelStep => ({
+        node,
+        sessions: reached[step],
+        conversion:
+          step === 0
+            ? 100
+            : reached[step - 1]
+            ? round1((reached[step] / reached[step - 1]) * 100)
+            : 0,
+        overallConversion: reached[0]
+          ? round1((reached[step] / reached[0]) * 100)
+          : 0,
+        dropOff: step === 0 ? 0 : reached[step - 1] - reached[step],
+        medianSeconds: seconds[step].length
+          ? round1(median(seconds[step]))
+          : null,
+        dropOffByNetwork: dropOffByNetwork[step],
+        dropOffByProvince: dropOffByProvince[step],
+      })
+    ),
+  };
+};
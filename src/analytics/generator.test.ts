@@ -0,0 +1,137 @@
+import {
+  createSessionSimulator,
+  generateSessions,
+  MENU_PATHS,
+} from "./generator";
+import { isSalaryWeek } from "./patterns";
+import { sessionsToCsv } from "./sessions";
+
+const options = {
+  seed: 42,
+  start: "2025-03-01",
+  days: 31,
+  sessionsPerDay: 200,
+};
+
+describe("generateSessions", () => {
+  it("produces identical output for the same seed", () => {
+    expect(sessionsToCsv(generateSessions(options))).toEqual(
+      sessionsToCsv(generateSessions(options))
+    );
+  });
+
+  it("produces different output for another seed", () => {
+    const a = generateSessions(options);
+    const b = generateSessions({ ...options, seed: 43 });
+    expect(sessionsToCsv(a)).not.toEqual(sessionsToCsv(b));
+  });
+
+  it("keeps sessions ordered, inside the window and well formed", () => {
+    const sessions = generateSessions(options);
+    // 00:00 CAT on the first day is 22:00 UTC the day before
+    const windowStart = Date.parse("2025-02-28T22:00:00Z");
+    const windowEnd = Date.parse("2025-03-31T22:00:00Z");
+
+    const starts = sessions.map((session) => Date.parse(session.startedAt));
+    expect(starts).toEqual([...starts].sort((a, b) => a - b));
+    expect(starts[0]).toBeGreaterThanOrEqual(windowStart);
+    expect(starts[starts.length - 1]).toBeLessThan(windowEnd);
+
+    sessions.forEach((session, i) => {
+      expect(Date.parse(session.endedAt)).toBeGreaterThan(starts[i]);
+      const fullPath = MENU_PATHS[session.service];
+      expect(fullPath.slice(0, session.menuPath.length)).toEqual(
+        session.menuPath
+      );
+      expect(session.amount > 0).toBe(session.outcome === "completed");
+      expect(session.failureReason !== undefined).toBe(
+        session.outcome === "failed"
+      );
+    });
+  });
+
+  it("logs a reply and a time for every screen", () => {
+    generateSessions(options).forEach((session) => {
+      const times = session.screenTimes!.map(Date.parse);
+      expect(times).toHaveLength(session.menuPath.length);
+      expect(times[0]).toBe(Date.parse(session.startedAt));
+      expect(times).toEqual([...times].sort((a, b) => a - b));
+      expect(times[times.length - 1]).toBeLessThan(Date.parse(session.endedAt));
+
+      expect(session.inputs?.length ?? 0).toBe(
+        session.outcome === "abandoned" && !session.inputs
+          ? 0
+          : session.menuPath.length
+      );
+    });
+
+    const completed = generateSessions(options).filter(
+      (session) => session.outcome === "completed"
+    );
+    // The confirmation of a completed session is answered with 1
+    expect(
+      new Set(completed.map(({ inputs }) => inputs![inputs!.length - 1]))
+    ).toEqual(new Set(["1"]));
+    completed
+      .filter((session) => session.service === "airtime")
+      .forEach((session) =>
+        expect(session.inputs![1]).toBe(String(session.amount))
+      );
+  });
+
+  it("peaks in the salary week and in the evening", () => {
+    const sessions = generateSessions(options);
+    const perDay: Record<number, number> = {};
+    const perHour: Record<number, number> = {};
+    sessions.forEach((session) => {
+      // Shift to CAT to read the local wall clock
+      const local = new Date(Date.parse(session.startedAt) + 2 * 3600 * 1000);
+      perDay[local.getUTCDate()] = (perDay[local.getUTCDate()] || 0) + 1;
+      perHour[local.getUTCHours()] = (perHour[local.getUTCHours()] || 0) + 1;
+    });
+
+    const average = (days: number[]) =>
+      days.reduce((sum, day) => sum + (perDay[day] || 0), 0) / days.length;
+    const weekdays = Object.keys(perDay).map(Number);
+    expect(average(weekdays.filter(isSalaryWeek))).toBeGreaterThan(
+      average(weekdays.filter((day) => !isSalaryWeek(day)))
+    );
+    expect(perHour[19]).toBeGreaterThan(perHour[3]);
+  });
+});
+
+describe("createSessionSimulator", () => {
+  it("returns the sessions that ended in the window, across midnight and without repeating ids", () => {
+    const simulate = createSessionSimulator({ seed: 7, sessionsPerDay: 500 });
+    // 23:30 to 00:30 CAT
+    const from = Date.parse("2025-03-03T21:30:00Z");
+    const to = Date.parse("2025-03-03T22:30:00Z");
+
+    const sessions = simulate(from, to);
+    expect(sessions.length).toBeGreaterThan(0);
+    sessions.forEach(({ endedAt }) => {
+      expect(Date.parse(endedAt)).toBeGreaterThan(from);
+      expect(Date.parse(endedAt)).toBeLessThanOrEqual(to);
+    });
+    expect(new Set(sessions.map(({ sessionId }) => sessionId)).size).toBe(
+      sessions.length
+    );
+    expect(
+      sessions.some(({ sessionId }) => sessionId.startsWith("S20250303"))
+    ).toBe(true);
+    expect(
+      sessions.some(({ sessionId }) => sessionId.startsWith("S20250304"))
+    ).toBe(true);
+  });
+
+  it("splits the same traffic over consecutive windows", () => {
+    const from = Date.parse("2025-03-03T06:00:00Z");
+    const to = Date.parse("2025-03-03T08:00:00Z");
+    const middle = Date.parse("2025-03-03T07:00:00Z");
+    const simulate = createSessionSimulator({ seed: 7, sessionsPerDay: 500 });
+
+    expect([...simulate(from, middle), ...simulate(middle, to)]).toEqual(
+      createSessionSimulator({ seed: 7, sessionsPerDay: 500 })(from, to)
+    );
+  });
+});
@@ -0,0 +1,362 @@
+import { MENU_SCREENS, ScreenEntry } from "./explorer";
+import {
+  CAT_UTC_OFFSET_MINUTES,
+  dayWeight,
+  hourWeight,
+  SERVICE_SHARE,
+} from "./patterns";
+import {
+  createRandom,
+  hashSeed,
+  randomInt,
+  randomNormal,
+  Random,
+  weightedPick,
+} from "./random";
+import {
+  FailureReason,
+  Network,
+  PROVINCES,
+  SessionOutcome,
+  UssdService,
+  UssdSession,
+} from "./sessions";
+
+/**
+ * Seeded generator of raw USSD session records for demos and tests.
+ * The same options always produce the same sessions, on any machine and in any timezone.
+ */
+
+export interface GeneratorOptions {
+  seed?: string | number;
+  start: Date | string; // first generated day, only the date part is used
+  days: number;
+  sessionsPerDay?: number; // average on an ordinary weekday
+  subscribers?: number; // size of the subscriber pool sessions are drawn from
+  utcOffsetMinutes?: number; // local time the traffic patterns follow, Zambia (CAT) by default
+}
+
+interface Subscriber {
+  msisdnHash: string;
+  network: Network;
+  province: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+export const SERVICE_CODE = "*115#";
+
+// Matches the market shares in the demographics fixtures
+const NETWORK_WEIGHTS: [Network, number][] = [
+  ["MTN", 48],
+  ["Airtel", 37],
+  ["Zamtel", 15],
+];
+
+// Lusaka, Copperbelt and Southern as in the demographics fixtures, the rest shared by the other provinces
+const PROVINCE_WEIGHTS: [string, number][] = PROVINCES.map((province) => [
+  province,
+  ({ Lusaka: 35, Copperbelt: 25, Southern: 15 } as Record<string, number>)[
+    province
+  ] ?? 25 / 7,
+]);
+
+const SERVICE_WEIGHTS = Object.entries(SERVICE_SHARE) as [
+  UssdService,
+  number
+][];
+
+// Menu nodes from the service code to the confirmation screen, same names as the menu flow
+export const MENU_PATHS: Record<UssdService, string[]> = {
+  electricity: [
+    SERVICE_CODE,
+    "Pay Bills",
+    "Electricity",
+    "Meter No",
+    "Confirm",
+  ],
+  water: [SERVICE_CODE, "Pay Bills", "Water", "Confirm"],
+  airtime: [SERVICE_CODE, "Buy Airtime", "Confirm"],
+  mobileMoney: [SERVICE_CODE, "Send Money", "Confirm"],
+  banking: [SERVICE_CODE, "Banking", "Account No", "Confirm"],
+};
+
+// Airtime is sold in fixed bundles, popular ones weighted higher
+const AIRTIME_BUNDLES: [number, number][] = [
+  [5, 30],
+  [10, 30],
+  [20, 20],
+  [50, 15],
+  [100, 5],
+];
+
+// Only bill payments go through an external biller
+const BILLERS: UssdService[] = ["electricity", "water"];
+
+const failureReasonFor = (
+  random: Random,
+  service: UssdService,
+  busy: boolean
+): FailureReason =>
+  weightedPick<FailureReason>(random, [
+    ["sessionTimeout", 20],
+    ["insufficientFunds", 25],
+    // The MNO gateway is what gives under evening load
+    ["gatewayError", busy ? 30 : 15],
+    ["billerUnavailable", BILLERS.includes(service) ? 20 : 0],
+    ["userCancel", 10],
+    ["invalidInput", 10],
+  ]);
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+const HOUR_WEIGHTS = HOURS.map((hour) => [hour, hourWeight(hour)] as const);
+
+const amountFor = (random: Random, service: UssdService): number => {
+  switch (service) {
+    case "airtime":
+      return weightedPick(random, AIRTIME_BUNDLES);
+    case "electricity":
+      return Math.max(20, Math.round(randomNormal(random, 150, 60)));
+    case "water":
+      return Math.max(20, Math.round(randomNormal(random, 80, 30)));
+    case "mobileMoney":
+      return Math.max(10, Math.round(randomNormal(random, 300, 150)));
+    case "banking":
+      return Math.max(50, Math.round(randomNormal(random, 500, 250)));
+  }
+};
+
+const digits = (random: Random, count: number) =>
+  Array.from({ length: count }, () => randomInt(random, 0, 9)).join("");
+
+const entryFor = (
+  random: Random,
+  entry: ScreenEntry,
+  service: UssdService,
+  amount: number
+): string => {
+  switch (entry) {
+    case "amount":
+      return String(amount || amountFor(random, service));
+    case "meterNumber":
+      return `0${digits(random, 10)}`;
+    case "accountNumber":
+      return digits(random, 10);
+    case "phoneNumber":
+      return `09${randomInt(random, 5, 7)}${digits(random, 7)}`;
+  }
+};
+
+/**
+ * What the user typed on each screen: the menu choice leading to the next one, the requested entry,
+ * or the reply to the confirmation. The screen an abandoned session ends on gets no reply.
+ */
+const inputsFor = (
+  random: Random,
+  session: Pick<
+    UssdSession,
+    "menuPath" | "outcome" | "service" | "amount" | "failureReason"
+  >
+): string[] =>
+  session.menuPath.map((node, i) => {
+    const screen = MENU_SCREENS[node];
+    const next = session.menuPath[i + 1];
+    if (next === undefined && session.outcome === "abandoned") return "";
+    if (screen?.entry) {
+      return entryFor(random, screen.entry, session.service, session.amount);
+    }
+    if (next !== undefined) {
+      return String((screen?.options ?? []).indexOf(next) + 1);
+    }
+    // Replies to the confirmation, timed out sessions never sent one
+    if (session.failureReason === "sessionTimeout") return "";
+    return session.failureReason === "userCancel" ? "2" : "1";
+  });
+
+const createSubscribers = (random: Random, count: number): Subscriber[] =>
+  Array.from({ length: count }, (_, i) => ({
+    msisdnHash: hashSeed(`2609${String(i).padStart(8, "0")}`)
+      .toString(16)
+      .padStart(8, "0"),
+    network: weightedPick(random, NETWORK_WEIGHTS),
+    province: weightedPick(random, PROVINCE_WEIGHTS),
+  }));
+
+/**
+ * Generate sessions day by day, sorted by start time
+ * @param options the seed, window and volume to generate
+ */
+export const generateSessions = ({
+  seed = "ussd",
+  start,
+  days,
+  sessionsPerDay = 1500,
+  subscribers = sessionsPerDay * 2,
+  utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+}: GeneratorOptions): UssdSession[] => {
+  const random = createRandom(hashSeed(String(seed)));
+  // Own stream so adding reasons did not change the sessions of a seed
+  const reasonRandom = createRandom(hashSeed(`${seed}/failure-reasons`));
+  const inputRandom = createRandom(hashSeed(`${seed}/inputs`));
+  const pool = createSubscribers(random, subscribers);
+  const offsetMs = utcOffsetMinutes * MINUTE_MS;
+
+  // Midnight of the first day on the local wall clock, expressed in UTC fields
+  const first = new Date(start);
+  const firstDay = Date.UTC(
+    first.getUTCFullYear(),
+    first.getUTCMonth(),
+    first.getUTCDate()
+  );
+
+  const sessions: UssdSession[] = [];
+
+  for (let d = 0; d < days; d++) {
+    const wallDay = new Date(firstDay + d * DAY_MS);
+    const weight = dayWeight(
+      wallDay.getUTCDate(),
+      wallDay.getUTCDay(),
+      wallDay.getUTCMonth(),
+      wallDay.getUTCFullYear()
+    );
+    const count = Math.round(sessionsPerDay * weight * (0.9 + random() * 0.2));
+
+    const startTimes = Array.from({ length: count }, () => {
+      const hour = weightedPick(random, HOUR_WEIGHTS);
+      return (
+        wallDay.getTime() +
+        hour * 60 * MINUTE_MS +
+        Math.floor(random() * 60 * MINUTE_MS) -
+        offsetMs
+      );
+    }).sort((a, b) => a - b);
+
+    startTimes.forEach((startedAt, i) => {
+      const subscriber = pool[Math.floor(random() * pool.length)];
+      const service = weightedPick(random, SERVICE_WEIGHTS);
+      const fullPath = MENU_PATHS[service];
+      const localHour = new Date(startedAt + offsetMs).getUTCHours();
+      const busy = hourWeight(localHour) > 1.2;
+
+      // The gateway declines a little more often under evening load
+      const outcome = weightedPick<SessionOutcome>(random, [
+        ["completed", busy ? 0.89 : 0.91],
+        ["failed", busy ? 0.05 : 0.03],
+        ["abandoned", 0.06],
+      ]);
+      const menuPath = fullPath.slice(
+        0,
+        outcome === "abandoned"
+          ? randomInt(random, 1, fullPath.length - 1)
+          : fullPath.length
+      );
+
+      // Every screen takes a few seconds to read and answer
+      const screenMs = menuPath.map(
+        () => Math.max(2, randomNormal(random, 9, 3)) * 1000
+      );
+      const durationMs = screenMs.reduce((sum, ms) => sum + ms, 0);
+      const amount = outcome === "completed" ? amountFor(random, service) : 0;
+      const failureReason =
+        outcome === "failed"
+          ? failureReasonFor(reasonRandom, service, busy)
+          : undefined;
+      const inputs = inputsFor(inputRandom, {
+        menuPath,
+        outcome,
+        service,
+        amount,
+        failureReason,
+      });
+      let shownAt = 0;
+      const screenTimes = screenMs.map((ms) => {
+        const time = new Date(startedAt + Math.round(shownAt)).toISOString();
+        shownAt += ms;
+        return time;
+      });
+
+      sessions.push({
+        sessionId: `S${String(d).padStart(4, "0")}${String(i).padStart(
+          6,
+          "0"
+        )}`,
+        msisdnHash: subscriber.msisdnHash,
+        network: subscriber.network,
+        province: subscriber.province,
+        serviceCode: SERVICE_CODE,
+        service,
+        menuPath,
+        startedAt: new Date(startedAt).toISOString(),
+        endedAt: new Date(startedAt + Math.round(durationMs)).toISOString(),
+        outcome,
+        amount,
+        ...(failureReason && { failureReason }),
+        // Same as read back from a log, see validateSession
+        ...(inputs.some(Boolean) && { inputs }),
+        screenTimes,
+      });
+    });
+  }
+
+  return sessions;
+};
+
+export interface SimulatorOptions {
+  seed?: string | number;
+  sessionsPerDay?: number;
+  utcOffsetMinutes?: number;
+}
+
+/**
+ * Generated traffic in real time, for demos of the live views without a gateway.
+ * Every local day is generated on first use from its own seed, ids are prefixed with the day so they never repeat.
+ * @returns the sessions that ended after `from` and up to `to` (ms since epoch), oldest first
+ */
+export const createSessionSimulator = ({
+  seed = "live",
+  sessionsPerDay = 1500,
+  utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+}: SimulatorOptions = {}) => {
+  const offsetMs = utcOffsetMinutes * MINUTE_MS;
+  const days = new Map<string, UssdSession[]>();
+
+  const sessionsOf = (day: string) => {
+    let sessions = days.get(day);
+    if (!sessions) {
+      const prefix = day.replace(/-/g, "");
+      sessions = generateSessions({
+        seed: `${seed}/${day}`,
+        start: day,
+        days: 1,
+        sessionsPerDay,
+        utcOffsetMinutes,
+      }).map((session) => ({
+        ...session,
+        sessionId: `S${prefix}${session.sessionId.slice(5)}`,
+      }));
+      // Only the current and previous day are ever asked for again
+      if (days.size >= 3) days.delete(days.keys().next().value as string);
+      days.set(day, sessions);
+    }
+    return sessions;
+  };
+
+  return (from: number, to: number): UssdSession[] => {
+    const ended: UssdSession[] = [];
+    // Sessions started late on the previous day can end after midnight
+    for (
+      let day = Math.floor((from + offsetMs) / DAY_MS) - 1;
+      day <= Math.floor((to + offsetMs) / DAY_MS);
+      day++
+    ) {
+      sessionsOf(new Date(day * DAY_MS).toISOString().slice(0, 10)).forEach(
+        (session) => {
+          const time = Date.parse(session.endedAt);
+          if (time > from && time <= to) ended.push(session);
+        }
+      );
+    }
+    return ended.sort((a, b) => a.endedAt.localeCompare(b.endedAt));
+  };
+};
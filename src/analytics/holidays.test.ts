@@ -0,0 +1,116 @@
+import {
+  createHolidayCalendar,
+  DEFAULT_CUSTOM_EVENTS,
+  easterSunday,
+  nationalHolidays,
+  zonedDayKey,
+} from "./holidays";
+
+describe("easterSunday", () => {
+  it("matches known dates", () => {
+    expect(easterSunday(2024)).toBe("2024-03-31");
+    expect(easterSunday(2025)).toBe("2025-04-20");
+    expect(easterSunday(2026)).toBe("2026-04-05");
+  });
+});
+
+describe("zonedDayKey", () => {
+  it("reads the date on the wall clock of the offset", () => {
+    // Midnight in Central Africa Time, still the day before in UTC
+    const midnight = new Date("2025-10-23T22:00:00Z");
+    expect(zonedDayKey(midnight, 120)).toBe("2025-10-24");
+    expect(zonedDayKey(midnight, 0)).toBe("2025-10-23");
+  });
+});
+
+describe("nationalHolidays", () => {
+  it("includes fixed, weekday based and moveable holidays", () => {
+    const holidays = nationalHolidays(2025);
+    const dateOf = (name: string) =>
+      holidays.find((holiday) => holiday.name === name)?.date;
+
+    expect(dateOf("Independence Day")).toBe("2025-10-24");
+    expect(dateOf("Africa Freedom Day")).toBe("2025-05-25");
+    expect(dateOf("Good Friday")).toBe("2025-04-18");
+    expect(dateOf("Easter Monday")).toBe("2025-04-21");
+    expect(dateOf("Heroes' Day")).toBe("2025-07-07");
+    expect(dateOf("Unity Day")).toBe("2025-07-08");
+    expect(dateOf("Farmers' Day")).toBe("2025-08-04");
+  });
+
+  it("observes Sunday holidays on the Monday after", () => {
+    // Africa Freedom Day 2025 is a Sunday
+    expect(
+      nationalHolidays(2025).find((holiday) => holiday.date === "2025-05-26")
+    ).toEqual({
+      date: "2025-05-26",
+      name: "Africa Freedom Day (observed)",
+      kind: "national",
+    });
+  });
+
+  it("only lists holidays in force that year", () => {
+    const names = (year: number) =>
+      nationalHolidays(year).map((holiday) => holiday.name);
+    expect(names(2021)).not.toContain("Kenneth Kaunda Day");
+    expect(names(2022)).toContain("Kenneth Kaunda Day");
+  });
+});
+
+describe("createHolidayCalendar", () => {
+  it("flags national holidays and custom events", () => {
+    const calendar = createHolidayCalendar([
+      {
+        id: "promo",
+        name: "Airtime promo",
+        start: "2025-10-23",
+        end: "2025-10-25",
+        recurring: false,
+      },
+    ]);
+
+    expect(calendar.holidaysOn("2025-10-24").map((h) => h.name)).toEqual([
+      "Independence Day",
+      "Airtime promo",
+    ]);
+    expect(calendar.isHoliday("2025-10-25")).toBe(true);
+    expect(calendar.isHoliday("2026-10-25")).toBe(false);
+    expect(calendar.isHoliday("2025-10-22")).toBe(false);
+  });
+
+  it("repeats recurring events every year, across the new year", () => {
+    const calendar = createHolidayCalendar([
+      ...DEFAULT_CUSTOM_EVENTS,
+      {
+        id: "shutdown",
+        name: "Year end freeze",
+        start: "2024-12-30",
+        end: "2025-01-02",
+        recurring: true,
+      },
+    ]);
+
+    expect(calendar.isHoliday("2030-12-28")).toBe(true);
+    expect(calendar.holidaysOn("2031-01-02")).toEqual([
+      { date: "2031-01-02", name: "Year end freeze", kind: "custom" },
+    ]);
+    expect(
+      calendar
+        .holidaysIn(2031)
+        .filter((holiday) => holiday.kind === "custom")
+        .map((holiday) => holiday.date)
+    ).toEqual([
+      "2031-01-01",
+      "2031-01-02",
+      "2031-12-26",
+      "2031-12-27",
+      "2031-12-28",
+      "2031-12-29",
+      // Both events cover the last two days
+      "2031-12-30",
+      "2031-12-30",
+      "2031-12-31",
+      "2031-12-31",
+    ]);
+  });
+});
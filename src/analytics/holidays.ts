@@ -0,0 +1,201 @@
+/**
+ * Zambian public holiday calendar, with custom events (promotions, outages, school holidays...)
+ * layered on top. Days are ISO dates (`2025-10-24`) on the local wall clock.
+ */
+
+export type HolidayKind = "national" | "custom";
+
+export interface Holiday {
+  date: string;
+  name: string;
+  kind: HolidayKind;
+}
+
+/**
+ * A custom event, both dates included
+ */
+export interface CustomEvent {
+  id: string;
+  name: string;
+  start: string;
+  end: string;
+  recurring: boolean; // repeats on the same dates every year
+}
+
+export interface HolidayCalendar {
+  holidaysOn: (date: string) => Holiday[];
+  isHoliday: (date: string) => boolean;
+  holidaysIn: (year: number) => Holiday[]; // sorted by date
+}
+
+// The week after Christmas, traffic stays low until the new year
+export const DEFAULT_CUSTOM_EVENTS: CustomEvent[] = [
+  {
+    id: "festive-season",
+    name: "Festive season",
+    start: "2024-12-26",
+    end: "2024-12-31",
+    recurring: true,
+  },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * ISO date of a day, months and days overflow into the next ones like `Date.UTC`
+ * @param month 0-11
+ */
+export const dayKey = (year: number, month: number, day: number): string =>
+  new Date(Date.UTC(year, month, day)).toISOString().slice(0, 10);
+
+/**
+ * ISO date of an instant on the wall clock of a fixed UTC offset
+ * @param utcOffsetMinutes e.g. 120 for Central Africa Time, the days the server buckets by
+ */
+export const zonedDayKey = (date: Date, utcOffsetMinutes: number): string =>
+  new Date(date.getTime() + utcOffsetMinutes * 60 * 1000)
+    .toISOString()
+    .slice(0, 10);
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Easter Sunday of a year (Gregorian calendar, anonymous algorithm)
+ */
+export const easterSunday = (year: number): string => {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31);
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return dayKey(year, month - 1, day);
+};
+
+// Date of the first given weekday (0 Sunday - 6 Saturday) of a month
+const firstWeekday = (year: number, month: number, weekday: number) => {
+  const first = new Date(Date.UTC(year, month, 1)).getUTCDay();
+  return dayKey(year, month, 1 + ((weekday - first + 7) % 7));
+};
+
+/**
+ * Public holidays of the Public Holidays Act for a year.
+ * A holiday falling on a Sunday is also observed on the Monday after.
+ */
+export const nationalHolidays = (year: number): Holiday[] => {
+  const easter = easterSunday(year);
+  const heroesDay = firstWeekday(year, 6, 1);
+
+  const fixed: [string, string][] = [
+    [dayKey(year, 0, 1), "New Year's Day"],
+    [dayKey(year, 2, 8), "International Women's Day"],
+    [dayKey(year, 2, 12), "Youth Day"],
+    [addDays(easter, -2), "Good Friday"],
+    [addDays(easter, -1), "Holy Saturday"],
+    [addDays(easter, 1), "Easter Monday"],
+    ...(year >= 2022
+      ? [[dayKey(year, 3, 28), "Kenneth Kaunda Day"] as [string, string]]
+      : []),
+    [dayKey(year, 4, 1), "Labour Day"],
+    [dayKey(year, 4, 25), "Africa Freedom Day"],
+    [heroesDay, "Heroes' Day"],
+    [addDays(heroesDay, 1), "Unity Day"],
+    [firstWeekday(year, 7, 1), "Farmers' Day"],
+    ...(year >= 2015
+      ? [[dayKey(year, 9, 18), "National Day of Prayer"] as [string, string]]
+      : []),
+    [dayKey(year, 9, 24), "Independence Day"],
+    [dayKey(year, 11, 25), "Christmas Day"],
+  ];
+
+  const holidays: Holiday[] = fixed.map(([date, name]) => ({
+    date,
+    name,
+    kind: "national",
+  }));
+  fixed.forEach(([date, name]) => {
+    if (new Date(date).getUTCDay() === 0) {
+      holidays.push({
+        date: addDays(date, 1),
+        name: `${name} (observed)`,
+        kind: "national",
+      });
+    }
+  });
+  return holidays.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/**
+ * Days a custom event covers in a year, recurring events are moved to that year
+ */
+const eventDays = (event: CustomEvent, year: number): Holiday[] => {
+  const startYear = Number(event.start.slice(0, 4));
+  // A recurring event may start the year before and run into this one
+  const shifts = event.recurring
+    ? [year - 1 - startYear, year - startYear]
+    : [0];
+
+  const shifted = (date: string, shift: number) => {
+    const [y, m, d] = date.split("-").map(Number);
+    // 29 February becomes 1 March outside leap years
+    return dayKey(y + shift, m - 1, d);
+  };
+
+  const days: Holiday[] = [];
+  shifts.forEach((shift) => {
+    const start = shifted(event.start, shift);
+    const end = shifted(event.end, shift);
+    for (let date = start; date <= end; date = addDays(date, 1)) {
+      if (Number(date.slice(0, 4)) === year) {
+        days.push({ date, name: event.name, kind: "custom" });
+      }
+    }
+  });
+  return days;
+};
+
+/**
+ * Calendar of national holidays plus custom events
+ * @param [events=[]] custom events to flag as well
+ */
+export const createHolidayCalendar = (
+  events: readonly CustomEvent[] = []
+): HolidayCalendar => {
+  const years = new Map<number, Map<string, Holiday[]>>();
+
+  const yearIndex = (year: number) => {
+    let index = years.get(year);
+    if (!index) {
+      index = new Map();
+      const all = nationalHolidays(year).concat(
+        events.flatMap((event) => eventDays(event, year))
+      );
+      all.forEach((holiday) =>
+        index!.set(holiday.date, [...(index!.get(holiday.date) || []), holiday])
+      );
+      years.set(year, index);
+    }
+    return index;
+  };
+
+  const holidaysOn = (date: string) =>
+    yearIndex(Number(date.slice(0, 4))).get(date.slice(0, 10)) || [];
+
+  return {
+    holidaysOn,
+    isHoliday: (date) => holidaysOn(date).length > 0,
+    holidaysIn: (year) =>
+      Array.from(yearIndex(year).values())
+        .flat()
+        .sort((a, b) => a.date.localeCompare(b.date)),
+  };
+};
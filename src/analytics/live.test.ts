@@ -0,0 +1,85 @@
+import {
+  applySuccessRateUpdate,
+  LIVE_RECONNECT_MAX_MS,
+  reconnectDelay,
+  successRateUpdate,
+} from "./live";
+import { GaugeApiResponse, SuccessRateBucket } from "../services/types";
+
+const bucket = (hour: number, rate: number | null): SuccessRateBucket => ({
+  fullDate: `2025-01-06T${String(hour).padStart(2, "0")}:00:00.000Z`,
+  minutes: 60,
+  rate,
+  networks: { MTN: rate },
+});
+
+const reading = (
+  timeline: SuccessRateBucket[],
+  successRate = 95
+): GaugeApiResponse => ({
+  metrics: {
+    successRate,
+    successfulTxns: 950,
+    failedTxns: 50,
+    avgResponseTime: 1.2,
+    activeSessions: 10,
+    topProvince: "Lusaka",
+    peakHour: "08:00",
+  },
+  networks: [
+    { name: "MTN", rate: 95, marketShare: 100, totalTransactions: 1000 },
+  ],
+  timeline,
+});
+
+describe("reconnectDelay", () => {
+  it("doubles from one second up to the cap", () => {
+    expect(reconnectDelay(1)).toBe(1000);
+    expect(reconnectDelay(2)).toBe(2000);
+    expect(reconnectDelay(4)).toBe(8000);
+    expect(reconnectDelay(10)).toBe(LIVE_RECONNECT_MAX_MS);
+  });
+});
+
+describe("successRateUpdate", () => {
+  it("returns null when nothing changed", () => {
+    const timeline = [bucket(8, 95), bucket(9, 96)];
+    expect(successRateUpdate(reading(timeline), reading([...timeline]))).toBe(
+      null
+    );
+  });
+
+  it("only carries what changed", () => {
+    const before = reading([bucket(8, 95), bucket(9, 96)]);
+    const after = reading([bucket(8, 95), bucket(9, 90), bucket(10, 99)], 94);
+
+    const update = successRateUpdate(before, after);
+
+    expect(update?.metrics?.successRate).toBe(94);
+    expect(update?.networks).toBeUndefined();
+    expect(update?.timeline).toEqual([bucket(9, 90), bucket(10, 99)]);
+    expect(update?.firstBucket).toBe(bucket(8, null).fullDate);
+  });
+
+  it("reports a window that moved on without new rates", () => {
+    const update = successRateUpdate(
+      reading([bucket(8, 95), bucket(9, 96)]),
+      reading([bucket(9, 96)])
+    );
+    expect(update).toEqual({
+      timeline: [],
+      firstBucket: bucket(9, null).fullDate,
+    });
+  });
+});
+
+describe("applySuccessRateUpdate", () => {
+  it("rebuilds the new reading from the old one", () => {
+    const before = reading([bucket(8, 95), bucket(9, 96)]);
+    const after = reading([bucket(9, 90), bucket(10, 99)], 94);
+
+    expect(
+      applySuccessRateUpdate(before, successRateUpdate(before, after)!)
+    ).toEqual(after);
+  });
+});
@@ -0,0 +1,103 @@
+import { GaugeApiResponse, SuccessRateBucket } from "../services/types";
+
+/**
+ * Incremental updates of the success rate gauge, pushed by the live feed instead of polling.
+ * The server diffs each reading against the last one it sent, the client applies the diff to its copy.
+ */
+
+/**
+ * What changed since the previous reading, metrics and networks only when they did
+ */
+export interface SuccessRateUpdate {
+  metrics?: GaugeApiResponse["metrics"];
+  networks?: GaugeApiResponse["networks"];
+  timeline: SuccessRateBucket[]; // new buckets and buckets whose rates changed
+  firstBucket: string | null; // start of the window, older buckets drop off
+}
+
+/**
+ * Connection state of a live feed
+ * connecting: first connection
+ * live: receiving updates
+ * reconnecting: the connection dropped, waiting to retry
+ * paused: live updates are turned off
+ */
+export type LiveStatus = "connecting" | "live" | "reconnecting" | "paused";
+
+// Backoff of reconnection attempts
+export const LIVE_RECONNECT_BASE_MS = 1000;
+export const LIVE_RECONNECT_MAX_MS = 30 * 1000;
+
+/**
+ * Wait before reconnection attempt `attempt` (1 based), doubling up to LIVE_RECONNECT_MAX_MS
+ */
+export const reconnectDelay = (attempt: number) =>
+  Math.min(
+    LIVE_RECONNECT_BASE_MS * 2 ** Math.max(0, attempt - 1),
+    LIVE_RECONNECT_MAX_MS
+  );
+
+const same = (a: unknown, b: unknown) =>
+  JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Diff two readings of the gauge
+ * @param before the last reading sent
+ * @param after the new reading
+ * @returns the update, or null when nothing changed
+ */
+export const successRateUpdate = (
+  before: GaugeApiResponse,
+  after: GaugeApiResponse
+): SuccessRateUpdate | null => {
+  const previous = new Map(
+    before.timeline.map((bucket) => [bucket.fullDate, bucket])
+  );
+  const timeline = after.timeline.filter(
+    (bucket) => !same(previous.get(bucket.fullDate), bucket)
+  );
+  const firstBucket = after.timeline[0]?.fullDate ?? null;
+  const metricsChanged = !same(before.metrics, after.metrics);
+  const networksChanged = !same(before.networks, after.networks);
+
+  if (
+    !metricsChanged &&
+    !networksChanged &&
+    timeline.length === 0 &&
+    firstBucket === (before.timeline[0]?.fullDate ?? null)
+  ) {
+    return null;
+  }
+  return {
+    ...(metricsChanged && { metrics: after.metrics }),
+    ...(networksChanged && { networks: after.networks }),
+    timeline,
+    firstBucket,
+  };
+};
+
+/**
+ * Apply an update to the reading it was computed against
+ * @param current the reading held by the client
+ * @param update the update received
+ */
+export const applySuccessRateUpdate = (
+  current: GaugeApiResponse,
+  { metrics, networks, timeline, firstBucket }: SuccessRateUpdate
+): GaugeApiResponse => {
+  const buckets = new Map(
+    current.timeline.map((bucket) => [bucket.fullDate, bucket])
+  );
+  timeline.forEach((bucket) => buckets.set(bucket.fullDate, bucket));
+
+  return {
+    metrics: metrics ?? current.metrics,
+    networks: networks ?? current.networks,
+    // ISO timestamps sort chronologically
+    timeline: Array.from(buckets.values())
+      .filter(
+        (bucket) => firstBucket !== null && bucket.fullDate >= firstBucket
+      )
+      .sort((a, b) => a.fullDate.localeCompare(b.fullDate)),
+  };
+};
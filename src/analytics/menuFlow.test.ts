@@ -0,0 +1,72 @@
+import {
+  acyclicMenuFlow,
+  menuFlowCompletion,
+  menuFlowPathsThrough,
+} from "./menuFlow";
+import { fixtureMenuFlow } from "./fixtures";
+import { MenuFlowResponse } from "../services/types";
+
+const flow = fixtureMenuFlow();
+const indexOf = (name: string) =>
+  flow.nodes.findIndex((node) => node.name === name);
+
+describe("acyclicMenuFlow", () => {
+  it("keeps a graph without cycles as it is", () => {
+    expect(acyclicMenuFlow(flow)).toEqual(flow);
+  });
+
+  it("drops the lighter direction of a cycle", () => {
+    const cyclic: MenuFlowResponse = {
+      nodes: [{ name: "A" }, { name: "B" }, { name: "C" }],
+      links: [
+        { source: 0, target: 1, value: 10 },
+        { source: 1, target: 2, value: 8 },
+        { source: 2, target: 1, value: 3 },
+      ],
+    };
+    expect(acyclicMenuFlow(cyclic).links).toEqual([
+      { source: 0, target: 1, value: 10 },
+      { source: 1, target: 2, value: 8 },
+    ]);
+  });
+});
+
+describe("menuFlowCompletion", () => {
+  it("follows the outgoing links down to the outcome nodes", () => {
+    const completion = menuFlowCompletion(flow);
+
+    expect(completion[indexOf("Completed")]).toBe(1);
+    expect(completion[indexOf("Abandoned")]).toBe(0);
+    // 10600 of the 11300 sessions confirming complete
+    expect(completion[indexOf("Confirm")]).toBeCloseTo(10600 / 11300);
+    expect(completion[indexOf("Water")]).toBeCloseTo(
+      (900 / 1000) * (10600 / 11300)
+    );
+  });
+});
+
+describe("menuFlowPathsThrough", () => {
+  it("returns the links leading to and from a node", () => {
+    const paths = menuFlowPathsThrough(flow, indexOf("Electricity"));
+    const names = Array.from(paths)
+      .map((index) => flow.links[index])
+      .map(
+        ({ source, target }) =>
+          `${flow.nodes[source].name}>${flow.nodes[target].name}`
+      )
+      .sort();
+
+    expect(names).toEqual(
+      [
+        "*115#>Pay Bills",
+        "Pay Bills>Electricity",
+        "Electricity>Meter No",
+        "Electricity>Abandoned",
+        "Meter No>Confirm",
+        "Meter No>Abandoned",
+        "Confirm>Completed",
+        "Confirm>Abandoned",
+      ].sort()
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { MenuFlowLink, MenuFlowResponse } from "../services/types";
+import { SessionOutcome } from "./sessions";
+
+/**
+ * Reading of the menu flow graph for the Sankey view: completion along each path and the paths through a node.
+ */
+
+// Nodes every path of the menu flow ends in
+export const MENU_FLOW_OUTCOME_NODES: Record<SessionOutcome, string> = {
+  completed: "Completed",
+  failed: "Failed",
+  abandoned: "Abandoned",
+};
+
+/**
+ * Drop the links that would close a cycle, which a Sankey cannot lay out.
+ * Sessions never revisit a node but two sessions can cross the same nodes in opposite orders, the heavier direction is kept.
+ * @param flow the graph as served
+ * @returns the same nodes, links in their original order
+ */
+export const acyclicMenuFlow = (flow: MenuFlowResponse): MenuFlowResponse => {
+  const outgoing = new Map<number, number[]>();
+  // Whether `to` can be reached from `from` through the links kept so far
+  const reaches = (from: number, to: number) => {
+    const seen = new Set<number>();
+    const stack = [from];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (node === to) return true;
+      if (seen.has(node)) continue;
+      seen.add(node);
+      stack.push(...(outgoing.get(node) ?? []));
+    }
+    return false;
+  };
+
+  const kept = new Set<MenuFlowLink>();
+  [...flow.links]
+    .sort((a, b) => b.value - a.value)
+    .forEach((link) => {
+      if (reaches(link.target, link.source)) return;
+      outgoing.set(link.source, [
+        ...(outgoing.get(link.source) ?? []),
+        link.target,
+      ]);
+      kept.add(link);
+    });
+
+  return { nodes: flow.nodes, links: flow.links.filter((l) => kept.has(l)) };
+};
+
+/**
+ * Share of the sessions through each node that go on to complete, 0 to 1.
+ * Sessions are assumed to leave a node like all its sessions do, which holds on a menu tree.
+ * @param flow an acyclic graph
+ * @returns the share of each node, by index
+ */
+export const menuFlowCompletion = (flow: MenuFlowResponse): number[] => {
+  const outgoing = flow.nodes.map((_, index) =>
+    flow.links.filter((link) => link.source === index)
+  );
+  const shares = new Map<number, number>();
+
+  const shareOf = (node: number): number => {
+    if (!shares.has(node)) {
+      const links = outgoing[node];
+      const total = links.reduce((sum, link) => sum + link.value, 0);
+      shares.set(
+        node,
+        total === 0
+          ? Number(flow.nodes[node].name === MENU_FLOW_OUTCOME_NODES.completed)
+          : links.reduce(
+              (sum, link) => sum + (link.value / total) * shareOf(link.target),
+              0
+            )
+      );
+    }
+    return shares.get(node)!;
+  };
+
+  return flow.nodes.map((_, index) => shareOf(index));
+};
+
+/**
+ * Links on any path through a node: the ones leading to it and the ones it leads to
+ * @param flow an acyclic graph
+ * @param node index of the focused node
+ * @returns indexes of the links
+ */
+export const menuFlowPathsThrough = (
+  flow: MenuFlowResponse,
+  node: number
+): Set<number> => {
+  const links = new Set<number>();
+  const walk = (from: number, upstream: boolean) =>
+    flow.links.forEach((link, index) => {
+      if ((upstream ? link.target : link.source) !== from) return;
+      if (links.has(index)) return;
+      links.add(index);
+      walk(upstream ? link.source : link.target, upstream);
+    });
+
+  walk(node, true);
+  walk(node, false);
+  return links;
+};
@@ -0,0 +1,168 @@
+import { AlertIncident } from "./alerts";
+import {
+  alertEvents,
+  backoffDelay,
+  buildNotification,
+  DEFAULT_CHANNELS,
+  DEFAULT_TEMPLATES,
+  parseNotificationChannel,
+  renderTemplate,
+  sampleIncident,
+} from "./notifications";
+
+const incident: AlertIncident = {
+  ...sampleIncident(new Date("2025-03-10T08:00:00Z")),
+  id: "incident-1",
+  rule: {
+    ...sampleIncident(new Date()).rule,
+    name: "MTN success rate",
+    network: "MTN",
+    province: "Lusaka",
+    channels: ["console"],
+  },
+};
+
+describe("renderTemplate", () => {
+  it("fills placeholders with the incident values", () => {
+    expect(
+      renderTemplate(
+        "{{rule}} {{ event }}: {{metric}} {{value}} (worst {{worstValue}}, {{operator}} {{threshold}}, {{scope}})",
+        incident,
+        "fired"
+      )
+    ).toBe(
+      "MTN success rate fired: Success rate (%) 82.4 (worst 81.9, < 85, MTN, Lusaka)"
+    );
+  });
+
+  it("leaves unknown placeholders as they are", () => {
+    expect(renderTemplate("{{nope}} {{resolvedAt}}", incident, "fired")).toBe(
+      "{{nope}} -"
+    );
+  });
+
+  it("keeps the default sms within one message", () => {
+    const notification = buildNotification(
+      { ...DEFAULT_CHANNELS[0], template: DEFAULT_TEMPLATES.sms },
+      incident,
+      "resolved"
+    );
+    expect(notification.subject).toBe("[USSD alert] MTN success rate resolved");
+    expect(notification.message.length).toBeLessThanOrEqual(160);
+  });
+});
+
+describe("alertEvents", () => {
+  it("reports incidents that opened or resolved", () => {
+    const resolved = {
+      ...incident,
+      status: "resolved" as const,
+      resolvedAt: "2025-03-10T08:30:00Z",
+    };
+    const opened = { ...incident, id: "incident-2" };
+
+    expect(alertEvents([incident], [opened, resolved])).toEqual([
+      { kind: "fired", incident: opened },
+      { kind: "resolved", incident: resolved },
+    ]);
+    expect(alertEvents([resolved, opened], [resolved, opened])).toEqual([]);
+  });
+});
+
+describe("backoffDelay", () => {
+  it("doubles with each attempt up to five minutes", () => {
+    expect([1, 2, 3, 4].map((attempt) => backoffDelay(attempt, 1000))).toEqual([
+      1000, 2000, 4000, 8000,
+    ]);
+    expect(backoffDelay(20, 1000)).toBe(5 * 60 * 1000);
+  });
+});
+
+describe("parseNotificationChannel", () => {
+  it("defaults the template of the type", () => {
+    expect(
+      parseNotificationChannel({
+        name: "NOC",
+        type: "email",
+        target: "noc@example.com, ops@example.com",
+      })
+    ).toEqual({
+      channel: {
+        name: "NOC",
+        type: "email",
+        target: "noc@example.com, ops@example.com",
+        template: DEFAULT_TEMPLATES.email,
+        enabled: true,
+      },
+    });
+  });
+
+  it("rejects bodies that are not a channel", () => {
+    expect(parseNotificationChannel(null)).toEqual({
+      error: "name is required",
+    });
+    expect(
+      parseNotificationChannel({
+        name: "Console",
+        type: "log",
+        target: "",
+        enabled: "no",
+      })
+    ).toEqual({ error: "enabled must be true or false" });
+  });
+
+  it("checks the target against the type", () => {
+    const channel = { name: "Ops", template: "{{rule}}" };
+    expect(
+      parseNotificationChannel({
+        ...channel,
+        type: "webhook",
+        target: "ftp://x",
+      })
+    ).toHaveProperty("error");
+    expect(
+      parseNotificationChannel({ ...channel, type: "sms", target: "+26097, x" })
+    ).toEqual({ error: 'Invalid phone number "+26097"' });
+    expect(
+      parseNotificationChannel({ ...channel, type: "log", target: "../alerts" })
+    ).toHaveProperty("error");
+    expect(
+      parseNotificationChannel({ ...channel, type: "log", target: "" })
+    ).toHaveProperty("channel");
+  });
+
+  it("only writes log channels to .log files", () => {
+    const channel = { name: "Ops", type: "log", template: "{{rule}}" };
+    for (const target of [
+      "alerts.json",
+      "sessions.ndjson",
+      "settings.json",
+      "reports.json",
+      "schedules.json",
+      "notifications",
+      ".log",
+      "logs/alerts.log",
+    ]) {
+      expect(parseNotificationChannel({ ...channel, target })).toEqual({
+        error:
+          "log target must be a .log file name without directories, or empty for the console",
+      });
+    }
+    expect(
+      parseNotificationChannel({ ...channel, target: "notifications.log" })
+    ).toMatchObject({ channel: { target: "notifications.log" } });
+  });
+
+  it("rejects unknown placeholders", () => {
+    expect(
+      parseNotificationChannel({
+        name: "Ops",
+        type: "log",
+        target: "",
+        template: "{{rule}} {{owner}}",
+      })
+    ).toEqual({
+      error: expect.stringContaining("Unknown placeholder {{owner}}"),
+    });
+  });
+});
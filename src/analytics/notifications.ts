@@ -0,0 +1,325 @@
+import { ArchivedReport } from "../services/types";
+import { AlertIncident, ALERT_METRIC_LABELS, ALL_SCOPE } from "./alerts";
+
+/**
+ * Notification channels alert incidents are delivered through.
+ * Each rule routes to its own channels, a channel renders its template for every incident that fires or resolves.
+ * Scheduled reports go out through the same channels, see `schedules.ts`.
+ */
+
+export type ChannelType = "webhook" | "email" | "sms" | "log";
+
+export const CHANNEL_TYPES: ChannelType[] = ["webhook", "email", "sms", "log"];
+
+export const CHANNEL_TYPE_LABELS: Record<ChannelType, string> = {
+  webhook: "Webhook",
+  email: "Email (SMTP)",
+  sms: "SMS gateway",
+  log: "Log file / console",
+};
+
+// What `target` holds for each type
+export const CHANNEL_TARGET_HINTS: Record<ChannelType, string> = {
+  webhook: "https://hooks.example.com/ussd-alerts",
+  email: "noc@example.com, ops@example.com",
+  sms: "+260971234567, +260961234567",
+  log: "notifications.log, empty for the server console",
+};
+
+export interface NotificationChannel {
+  id: string;
+  name: string;
+  type: ChannelType;
+  target: string; // url, addresses, phone numbers or log file name depending on the type
+  template: string; // message, with {{placeholders}}
+  enabled: boolean;
+}
+
+export type NotificationChannelInput = Omit<NotificationChannel, "id">;
+
+export type AlertEventKind = "fired" | "resolved";
+
+export interface AlertEvent {
+  kind: AlertEventKind;
+  incident: AlertIncident;
+}
+
+/**
+ * A file sent along with a notification, only email channels carry them
+ */
+export interface NotificationAttachment {
+  filename: string;
+  contentType: string;
+  content: string | Uint8Array;
+}
+
+/**
+ * A rendered message, as handed to a transport
+ */
+export interface Notification {
+  event: AlertEventKind | "test" | "report";
+  subject: string;
+  message: string;
+  incident?: AlertIncident; // unset for reports
+  report?: ArchivedReport; // the scheduled report delivered
+  attachments?: NotificationAttachment[];
+}
+
+export interface Delivery {
+  id: string;
+  channelId: string;
+  channelName: string;
+  incidentId?: string;
+  reportId?: string;
+  event: Notification["event"];
+  status: "sent" | "failed";
+  attempts: number;
+  at: string; // time of the last attempt
+  error?: string;
+}
+
+export const TEMPLATE_PLACEHOLDERS = [
+  "rule",
+  "event",
+  "metric",
+  "value",
+  "worstValue",
+  "operator",
+  "threshold",
+  "window",
+  "scope",
+  "openedAt",
+  "resolvedAt",
+] as const;
+
+export type TemplatePlaceholder = (typeof TEMPLATE_PLACEHOLDERS)[number];
+
+// SMS are kept within a single 160 character message
+export const DEFAULT_TEMPLATES: Record<ChannelType, string> = {
+  webhook:
+    "[{{event}}] {{rule}}: {{metric}} is {{value}} ({{operator}} {{threshold}} over {{window}} min, {{scope}})",
+  email:
+    "Alert {{rule}} {{event}}.\n\n{{metric}} is {{value}}, worst {{worstValue}}, against a threshold of {{operator}} {{threshold}} over {{window}} minutes ({{scope}}).\n\nOpened {{openedAt}}, resolved {{resolvedAt}}.",
+  sms: "USSD alert {{event}}: {{rule}} {{metric}} {{value}} ({{operator}} {{threshold}}, {{scope}})",
+  log: "[{{event}}] {{rule}}: {{metric}} {{value}}, worst {{worstValue}} ({{operator}} {{threshold}} over {{window}} min, {{scope}})",
+};
+
+export const DEFAULT_CHANNELS: NotificationChannel[] = [
+  {
+    id: "console",
+    name: "Server console",
+    type: "log",
+    target: "",
+    template: DEFAULT_TEMPLATES.log,
+    enabled: true,
+  },
+];
+
+export const MAX_DELIVERY_HISTORY = 100;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Values the placeholders of a template stand for
+ */
+export const templateValues = (
+  incident: AlertIncident,
+  event: Notification["event"]
+): Record<TemplatePlaceholder, string> => {
+  const { rule } = incident;
+  const scope =
+    [
+      rule.network !== ALL_SCOPE && rule.network,
+      rule.province !== ALL_SCOPE && rule.province,
+    ]
+      .filter(Boolean)
+      .join(", ") || "all networks";
+  return {
+    rule: rule.name,
+    event,
+    metric: ALERT_METRIC_LABELS[rule.metric],
+    value: String(incident.value),
+    worstValue: String(incident.worstValue),
+    operator: rule.operator,
+    threshold: String(rule.threshold),
+    window: String(rule.windowMinutes),
+    scope,
+    openedAt: incident.openedAt,
+    resolvedAt: incident.resolvedAt ?? "-",
+  };
+};
+
+/**
+ * Render a message for an incident
+ * @param template text with `{{placeholders}}`, see `TEMPLATE_PLACEHOLDERS`
+ */
+export const renderTemplate = (
+  template: string,
+  incident: AlertIncident,
+  event: Notification["event"]
+) => {
+  const values: Record<string, string> = templateValues(incident, event);
+  return template.replace(PLACEHOLDER, (match, name: string) =>
+    name in values ? values[name] : match
+  );
+};
+
+export const buildNotification = (
+  channel: NotificationChannel,
+  incident: AlertIncident,
+  event: Notification["event"]
+): Notification => ({
+  event,
+  subject: `[USSD alert] ${incident.rule.name} ${event}`,
+  message: renderTemplate(channel.template, incident, event),
+  incident,
+});
+
+/**
+ * A made up incident, what a channel test sends
+ * @param now opening time of the incident
+ */
+export const sampleIncident = (now: Date): AlertIncident => ({
+  id: "test",
+  ruleId: "test",
+  rule: {
+    name: "Test alert",
+    metric: "successRate",
+    network: ALL_SCOPE,
+    province: ALL_SCOPE,
+    operator: "<",
+    threshold: 85,
+    windowMinutes: 15,
+    enabled: true,
+    channels: [],
+  },
+  status: "active",
+  openedAt: now.toISOString(),
+  value: 82.4,
+  worstValue: 81.9,
+});
+
+/**
+ * Incidents that opened or resolved between two evaluation cycles
+ * @param before incidents before the cycle
+ * @param after incidents after it
+ */
+export const alertEvents = (
+  before: readonly AlertIncident[],
+  after: readonly AlertIncident[]
+): AlertEvent[] => {
+  const previous = new Map(before.map((incident) => [incident.id, incident]));
+  return after.flatMap((incident): AlertEvent[] => {
+    const was = previous.get(incident.id);
+    if (!was) return [{ kind: "fired", incident }];
+    if (was.status !== "resolved" && incident.status === "resolved") {
+      return [{ kind: "resolved", incident }];
+    }
+    return [];
+  });
+};
+
+/**
+ * Delay before retrying a failed delivery, doubling with each attempt
+ * @param attempt the attempt that failed, from 1
+ * @param baseMs delay after the first attempt
+ */
+export const backoffDelay = (attempt: number, baseMs: number) =>
+  Math.min(baseMs * 2 ** (attempt - 1), 5 * 60 * 1000);
+
+export const EMAIL = /^[^\s@,]+@[^\s@,]+\.[^\s@,]+$/;
+const PHONE = /^\+?\d{8,15}$/;
+const LOG_FILE = /^[\w.-]+\.log$/;
+
+// Comma separated recipients
+export const splitTargets = (target: string) =>
+  target
+    .split(",")
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+const targetError = (type: ChannelType, target: string): string | null => {
+  switch (type) {
+    case "webhook":
+      try {
+        const url = new URL(target);
+        return url.protocol === "http:" || url.protocol === "https:"
+          ? null
+          : "webhook target must be an http(s) url";
+      } catch {
+        return "webhook target must be an http(s) url";
+      }
+    case "email": {
+      const addresses = splitTargets(target);
+      const invalid = addresses.find((address) => !EMAIL.test(address));
+      if (addresses.length === 0) return "email target needs an address";
+      return invalid ? `Invalid email address "${invalid}"` : null;
+    }
+    case "sms": {
+      const numbers = splitTargets(target);
+      const invalid = numbers.find((number) => !PHONE.test(number));
+      if (numbers.length === 0) return "sms target needs a phone number";
+      return invalid ? `Invalid phone number "${invalid}"` : null;
+    }
+    case "log":
+      // A bare .log file name, so it can never name one of the server's data files
+      return target === "" || LOG_FILE.test(target)
+        ? null
+        : "log target must be a .log file name without directories, or empty for the console";
+  }
+};
+
+const isChannelType = (value: unknown): value is ChannelType =>
+  (CHANNEL_TYPES as readonly unknown[]).includes(value);
+
+/**
+ * Check a channel sent by a client
+ * @param body the parsed json body
+ */
+export const parseNotificationChannel = (
+  body: unknown
+): { channel: NotificationChannelInput } | { error: string } => {
+  const fields: Record<string, unknown> =
+    typeof body === "object" && body !== null ? { ...body } : {};
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  if (!name) return { error: "name is required" };
+  const { type } = fields;
+  if (!isChannelType(type)) {
+    return { error: `type must be one of: ${CHANNEL_TYPES.join(", ")}` };
+  }
+  const target = typeof fields.target === "string" ? fields.target.trim() : "";
+  const error = targetError(type, target);
+  if (error) return { error };
+  const enabled = fields.enabled ?? true;
+  if (typeof enabled !== "boolean") {
+    return { error: "enabled must be true or false" };
+  }
+
+  const template =
+    typeof fields.template === "string" && fields.template.trim()
+      ? fields.template
+      : DEFAULT_TEMPLATES[type];
+  const unknown = Array.from(template.matchAll(PLACEHOLDER))
+    .map((match) => match[1])
+    .find(
+      (placeholder) =>
+        !(TEMPLATE_PLACEHOLDERS as readonly string[]).includes(placeholder)
+    );
+  if (unknown) {
+    return {
+      error: `Unknown placeholder {{${unknown}}}, use one of: ${TEMPLATE_PLACEHOLDERS.join(
+        ", "
+      )}`,
+    };
+  }
+
+  return {
+    channel: {
+      name,
+      type,
+      target,
+      template,
+      enabled,
+    },
+  };
+};
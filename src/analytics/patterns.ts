@@ -0,0 +1,69 @@
+import {
+  createHolidayCalendar,
+  dayKey,
+  DEFAULT_CUSTOM_EVENTS,
+} from "./holidays";
+
+/**
+ * Traffic patterns shared by the fixtures and the session generator, so synthetic data has the same
+ * shape the dashboard insights assume (salary week peaks, holiday dips, morning/evening peaks).
+ */
+
+// Central Africa Time (UTC+2), the local time USSD traffic follows
+export const CAT_UTC_OFFSET_MINUTES = 120;
+
+// Relative share of sessions per service
+export const SERVICE_SHARE = {
+  electricity: 0.24,
+  water: 0.08,
+  airtime: 0.32,
+  mobileMoney: 0.28,
+  banking: 0.08,
+};
+
+// The window of `DEFAULT_PAY_DATES`, the peak days RevenueTrends flags until pay dates are configured
+export const isSalaryWeek = (dayOfMonth: number) =>
+  dayOfMonth >= 15 && dayOfMonth <= 20;
+
+// National holidays and the festive season, the default calendar of the dashboard
+const calendar = createHolidayCalendar(DEFAULT_CUSTOM_EVENTS);
+
+// month is 0 based
+export const isHoliday = (year: number, month: number, dayOfMonth: number) =>
+  calendar.isHoliday(dayKey(year, month, dayOfMonth));
+
+/**
+ * Diurnal multiplier: quiet overnight, morning and evening peaks
+ * @param hour 0-23
+ */
+export const hourWeight = (hour: number) => {
+  if (hour < 5) return 0.15;
+  if (hour < 8) return 0.6;
+  if (hour < 12) return 1.2;
+  if (hour < 14) return 1.0;
+  if (hour < 17) return 1.1;
+  if (hour < 21) return 1.35;
+  return 0.5;
+};
+
+/**
+ * Salary week (15th-20th) and month end bump, weekend and holiday dip
+ * @param dayOfMonth 1-31
+ * @param weekday 0 (Sunday) - 6
+ * @param month 0-11
+ * @param year holidays move from year to year
+ */
+export const dayWeight = (
+  dayOfMonth: number,
+  weekday: number,
+  month: number,
+  year: number
+) => {
+  let weight = 1;
+  if (isSalaryWeek(dayOfMonth)) weight *= 1.3;
+  if (dayOfMonth >= 25) weight *= 1.1;
+  if (weekday === 0) weight *= 0.75;
+  if (weekday === 6) weight *= 0.85;
+  if (isHoliday(year, month, dayOfMonth)) weight *= 0.7;
+  return weight;
+};
@@ -0,0 +1,112 @@
+import { createHolidayCalendar } from "./holidays";
+import {
+  createPayCycle,
+  DEFAULT_PAY_DATES,
+  ordinal,
+  PayDate,
+  payDayLift,
+} from "./payCycle";
+
+const calendar = createHolidayCalendar();
+
+const payDate = (overrides: Partial<PayDate>): PayDate => ({
+  id: "test",
+  name: "Test",
+  dayOfMonth: 25,
+  roll: "none",
+  windowDays: 3,
+  ...overrides,
+});
+
+describe("createPayCycle", () => {
+  it("keeps the 15th-20th salary week by default", () => {
+    const cycle = createPayCycle(DEFAULT_PAY_DATES, calendar);
+    expect(cycle.isPeak("2025-03-14")).toBe(false);
+    expect(cycle.isPeak("2025-03-15")).toBe(true);
+    expect(cycle.isPeak("2025-03-20")).toBe(true);
+    expect(cycle.isPeak("2025-03-21")).toBe(false);
+  });
+
+  it("rolls pay days off weekends and national holidays", () => {
+    const previous = payDate({ roll: "previous" });
+    const next = payDate({ roll: "next" });
+    const cycle = createPayCycle([previous, next], calendar);
+
+    // 25 May 2025 is Africa Freedom Day on a Sunday, observed on the Monday
+    expect(cycle.payDay(previous, 2025, 4)).toBe("2025-05-23");
+    expect(cycle.payDay(next, 2025, 4)).toBe("2025-05-27");
+    // Weekday pay days stay put
+    expect(cycle.payDay(next, 2025, 5)).toBe("2025-06-25");
+  });
+
+  it("pays on the last day of short months", () => {
+    const endOfMonth = payDate({ dayOfMonth: 31, roll: "previous" });
+    const cycle = createPayCycle([endOfMonth], calendar);
+    expect(cycle.payDay(endOfMonth, 2025, 1)).toBe("2025-02-28");
+    // 31 May 2025 is a Saturday
+    expect(cycle.payDay(endOfMonth, 2025, 4)).toBe("2025-05-30");
+  });
+
+  it("lists pay days across months and flags the window after each", () => {
+    const civil = payDate({ id: "civil", dayOfMonth: 1, roll: "previous" });
+    const mines = payDate({ id: "mines", dayOfMonth: 20 });
+    const cycle = createPayCycle([civil, mines], calendar);
+
+    // 1 May is Labour Day, paid in April. 1 June 2025 is a Sunday, paid on Friday 30 May
+    expect(cycle.payDaysBetween(civil, "2025-04-01", "2025-06-30")).toEqual([
+      "2025-04-01",
+      "2025-04-30",
+      "2025-05-30",
+    ]);
+    expect(cycle.payDatesOn("2025-06-01").map((p) => p.id)).toEqual(["civil"]);
+    expect(cycle.payDatesOn("2025-06-02")).toEqual([]);
+    expect(cycle.payDatesOn("2025-06-22").map((p) => p.id)).toEqual(["mines"]);
+  });
+});
+
+describe("payDayLift", () => {
+  it("averages the days around each pay day against the whole series", () => {
+    const series = Array.from({ length: 60 }, (_, i) => {
+      const date = new Date(Date.UTC(2025, 0, 1 + i))
+        .toISOString()
+        .slice(0, 10);
+      const dayOfMonth = Number(date.slice(8));
+      return { date, value: dayOfMonth === 15 ? 200 : 100 };
+    });
+    const lift = payDayLift(series, ["2025-01-15", "2025-02-15"], 1, 1);
+
+    // Two 200 days out of 60 put the average at 103.33
+    expect(lift).toEqual([
+      { offset: -1, lift: -3.2 },
+      { offset: 0, lift: 93.5 },
+      { offset: 1, lift: -3.2 },
+    ]);
+  });
+
+  it("leaves offsets outside the series empty", () => {
+    expect(
+      payDayLift([{ date: "2025-01-15", value: 10 }], ["2025-01-15"], 1, 0)
+    ).toEqual([
+      { offset: -1, lift: null },
+      { offset: 0, lift: 0 },
+    ]);
+  });
+});
+
+describe("ordinal", () => {
+  it("suffixes days of the month", () => {
+    expect([1, 2, 3, 4, 11, 12, 13, 21, 22, 23, 31].map(ordinal)).toEqual([
+      "1st",
+      "2nd",
+      "3rd",
+      "4th",
+      "11th",
+      "12th",
+      "13th",
+      "21st",
+      "22nd",
+      "23rd",
+      "31st",
+    ]);
+  });
+});
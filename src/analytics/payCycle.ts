@@ -0,0 +1,151 @@
+import { dayKey, HolidayCalendar } from "./holidays";
+
+/**
+ * Pay-cycle model: the days salaries land and the window of higher spending that follows.
+ * Civil servants, mines and private employers pay on different days, each moved off
+ * weekends and public holidays by its own rule. Days are ISO dates on the local wall clock.
+ */
+
+// Where a pay day falling on a weekend or public holiday moves to
+export type RollRule = "none" | "previous" | "next";
+
+export const ROLL_LABELS: Record<RollRule, string> = {
+  none: "Paid on the day",
+  previous: "Previous business day",
+  next: "Next business day",
+};
+
+export interface PayDate {
+  id: string;
+  name: string;
+  dayOfMonth: number; // 1-31, past the end of a short month means its last day
+  roll: RollRule;
+  windowDays: number; // days of higher spending, pay day included
+}
+
+export interface PayCycle {
+  payDay: (payDate: PayDate, year: number, month: number) => string; // month is 0 based
+  payDaysBetween: (payDate: PayDate, first: string, last: string) => string[];
+  payDatesOn: (date: string) => PayDate[]; // pay dates whose window covers the day
+  isPeak: (date: string) => boolean;
+}
+
+// The historic salary week, 15th to 20th, the pattern the synthetic data follows
+export const DEFAULT_PAY_DATES: PayDate[] = [
+  {
+    id: "salary-week",
+    name: "Salary week",
+    dayOfMonth: 15,
+    roll: "none",
+    windowDays: 6,
+  },
+];
+
+export const MAX_WINDOW_DAYS = 15;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+
+/**
+ * Ordinal of a day of the month, `1st`, `22nd`...
+ */
+export const ordinal = (day: number) => {
+  const suffix =
+    day % 100 >= 11 && day % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][day % 10] ?? "th";
+  return `${day}${suffix}`;
+};
+
+/**
+ * Pay cycle of some pay dates. Only national holidays move pay days, custom events do not.
+ * @param payDates the configured pay dates
+ * @param calendar the holiday calendar of the business days
+ */
+export const createPayCycle = (
+  payDates: readonly PayDate[],
+  calendar: HolidayCalendar
+): PayCycle => {
+  const isBusinessDay = (date: string) => {
+    const weekday = new Date(date).getUTCDay();
+    return (
+      weekday !== 0 &&
+      weekday !== 6 &&
+      !calendar.holidaysOn(date).some((holiday) => holiday.kind === "national")
+    );
+  };
+
+  const payDay = (payDate: PayDate, year: number, month: number) => {
+    const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+    let date = dayKey(year, month, Math.min(payDate.dayOfMonth, lastDay));
+    if (payDate.roll === "none") return date;
+
+    const step = payDate.roll === "previous" ? -1 : 1;
+    // A long weekend next to a holiday is at most a few days
+    for (let i = 0; i < 7 && !isBusinessDay(date); i++) {
+      date = addDays(date, step);
+    }
+    return date;
+  };
+
+  const payDaysBetween = (payDate: PayDate, first: string, last: string) => {
+    const days: string[] = [];
+    const [year, month] = first.split("-").map(Number);
+    // Rolling can move a pay day into the neighbouring month
+    for (let m = month - 2; dayKey(year, m, 1) <= addDays(last, 31); m++) {
+      const date = payDay(payDate, year, m);
+      if (date >= first && date <= last) days.push(date);
+    }
+    return days;
+  };
+
+  const payDatesOn = (date: string) =>
+    payDates.filter(
+      (payDate) =>
+        payDaysBetween(payDate, addDays(date, 1 - payDate.windowDays), date)
+          .length > 0
+    );
+
+  return {
+    payDay,
+    payDaysBetween,
+    payDatesOn,
+    isPeak: (date) => payDatesOn(date).length > 0,
+  };
+};
+
+export interface LiftPoint {
+  offset: number; // days from the pay day
+  lift: number | null; // % above the average day, null without data
+}
+
+/**
+ * Average lift of a daily series on the days around pay days
+ * @param series daily values keyed by ISO date
+ * @param payDays pay days to line up
+ * @param [before=3] days to show before the pay day
+ * @param [after=7] days to show after the pay day
+ */
+export const payDayLift = (
+  series: readonly { date: string; value: number }[],
+  payDays: readonly string[],
+  before = 3,
+  after = 7
+): LiftPoint[] => {
+  const byDate = new Map(series.map((point) => [point.date, point.value]));
+  const average =
+    series.reduce((sum, point) => sum + point.value, 0) / (series.length || 1);
+
+  return Array.from({ length: before + after + 1 }, (_, i) => {
+    const offset = i - before;
+    const values = payDays
+      .map((day) => byDate.get(addDays(day, offset)))
+      .filter((value): value is number => value !== undefined);
+    if (values.length === 0 || average === 0) return { offset, lift: null };
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    return { offset, lift: Math.round((mean / average - 1) * 1000) / 10 };
+  });
+};
@@ -0,0 +1,73 @@
+/**
+ * Small seeded pseudo random helpers so fixtures and generated data are reproducible.
+ * Framework free so it can be shared by the browser bundle and the local server.
+ */
+
+export type Random = () => number;
+
+/**
+ * Mulberry32 PRNG, returns floats in [0, 1)
+ * @param seed any 32 bit integer
+ */
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Hash a string into a 32 bit seed (FNV-1a)
+ * @param value the string to hash
+ */
+export const hashSeed = (value: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Integer in [min, max]
+ */
+export const randomInt = (random: Random, min: number, max: number): number =>
+  Math.floor(random() * (max - min + 1)) + min;
+
+/**
+ * Pick an item using relative weights
+ * @param random the random source
+ * @param items items paired with their weight
+ */
+export const weightedPick = <T>(
+  random: Random,
+  items: readonly (readonly [T, number])[]
+): T => {
+  const total = items.reduce((sum, [, weight]) => sum + weight, 0);
+  let roll = random() * total;
+  for (const [item, weight] of items) {
+    roll -= weight;
+    if (roll < 0) return item;
+  }
+  return items[items.length - 1][0];
+};
+
+/**
+ * Approximately normal value using the Box-Muller transform
+ */
+export const randomNormal = (
+  random: Random,
+  mean: number,
+  stdDev: number
+): number => {
+  const u = 1 - random();
+  const v = random();
+  return (
+    mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v)
+  );
+};
@@ -0,0 +1,174 @@
+import Papa from "papaparse";
+import { strToU8, zipSync } from "fflate";
+import { ReportResponse } from "../services/types";
+
+/**
+ * Downloadable files of a report. CSV and XLSX are written here, PDF in `reportPdf.ts` since it needs jsPDF.
+ * Pure functions, so the server can attach the same files to scheduled deliveries.
+ */
+
+export type ReportFormat = "pdf" | "csv" | "xlsx";
+
+export const REPORT_FORMATS: ReportFormat[] = ["pdf", "csv", "xlsx"];
+
+export const REPORT_MIME_TYPES: Record<ReportFormat, string> = {
+  pdf: "application/pdf",
+  csv: "text/csv;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * `ussd-network-sla-2025-01-06.csv`, dated by generation time
+ */
+export const reportFileName = (report: ReportResponse, format: ReportFormat) =>
+  `ussd-${report.type}-${report.generatedAt.slice(0, 10)}.${format}`;
+
+// Title, period and summary as label / value pairs, the first block of every file
+const headerRows = (report: ReportResponse): string[][] => [
+  [report.title],
+  ["Period", report.period ?? "Snapshot"],
+  ["Generated", report.generatedAt],
+  ...report.summary.map(({ label, value }) => [label, value]),
+];
+
+/**
+ * One CSV with the header block then every section, blocks separated by an empty line
+ * @param report the report to write
+ */
+export const reportToCsv = (report: ReportResponse): string =>
+  [
+    Papa.unparse(headerRows(report), { newline: "\n" }),
+    ...report.sections.map((section) =>
+      Papa.unparse(
+        [
+          [section.title],
+          section.columns.map((column) => column.label),
+          ...section.rows.map((row) =>
+            section.columns.map((column) => row[column.key] ?? "")
+          ),
+        ],
+        { newline: "\n" }
+      )
+    ),
+  ].join("\n\n") + "\n";
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// A, B, ..., Z, AA, AB, ...
+const columnName = (index: number): string =>
+  (index >= 26 ? columnName(Math.floor(index / 26) - 1) : "") +
+  String.fromCharCode(65 + (index % 26));
+
+const sheetXml = (rows: (string | number)[][]) =>
+  '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+  '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>' +
+  rows
+    .map(
+      (row, r) =>
+        `<row r="${r + 1}">` +
+        row
+          .map((value, c) => {
+            const ref = `${columnName(c)}${r + 1}`;
+            return typeof value === "number" && isFinite(value)
+              ? `<c r="${ref}"><v>${value}</v></c>`
+              : `<c r="${ref}" t="inlineStr"><is><t>${escapeXml(
+                  String(value)
+                )}</t></is></c>`;
+          })
+          .join("") +
+        "</row>"
+    )
+    .join("") +
+  "</sheetData></worksheet>";
+
+// Excel refuses names over 31 characters, with []:*?/\ or repeated
+const sheetName = (title: string, taken: Set<string>) => {
+  const base = title.replace(/[[\]:*?/\\]/g, " ").slice(0, 28) || "Sheet";
+  let name = base;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${base} ${n}`;
+  taken.add(name.toLowerCase());
+  return name;
+};
+
+/**
+ * An XLSX workbook: a Summary sheet with the header block, then one sheet per section
+ * @param report the report to write
+ */
+export const reportToXlsx = (report: ReportResponse): Uint8Array => {
+  const taken = new Set<string>();
+  const sheets = [
+    { name: sheetName("Summary", taken), rows: headerRows(report) },
+    ...report.sections.map((section) => ({
+      name: sheetName(section.title, taken),
+      rows: [
+        section.columns.map((column) => column.label),
+        ...section.rows.map((row) =>
+          section.columns.map((column) => row[column.key] ?? "")
+        ),
+      ],
+    })),
+  ];
+
+  const files: Record<string, Uint8Array> = {
+    "[Content_Types].xml": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Override PartName="/xl/worksheets/sheet${
+                i + 1
+              }.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+          )
+          .join("") +
+        "</Types>"
+    ),
+    "_rels/.rels": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+        "</Relationships>"
+    ),
+    "xl/workbook.xml": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>' +
+        sheets
+          .map(
+            (sheet, i) =>
+              `<sheet name="${escapeXml(sheet.name)}" sheetId="${
+                i + 1
+              }" r:id="rId${i + 1}"/>`
+          )
+          .join("") +
+        "</sheets></workbook>"
+    ),
+    "xl/_rels/workbook.xml.rels": strToU8(
+      '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+        '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+        sheets
+          .map(
+            (_, i) =>
+              `<Relationship Id="rId${
+                i + 1
+              }" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${
+                i + 1
+              }.xml"/>`
+          )
+          .join("") +
+        "</Relationships>"
+    ),
+  };
+  sheets.forEach((sheet, i) => {
+    files[`xl/worksheets/sheet${i + 1}.xml`] = strToU8(sheetXml(sheet.rows));
+  });
+
+  return zipSync(files);
+};
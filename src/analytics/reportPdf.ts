@@ -0,0 +1,111 @@
+import { jsPDF } from "jspdf";
+import { ReportResponse } from "../services/types";
+import { ReportFormat, reportToCsv, reportToXlsx } from "./reportFiles";
+
+const MARGIN = 14;
+const LINE = 6;
+
+/**
+ * A PDF of a report: title, summary figures, then every section as a table.
+ * Drawn as text rather than a screenshot so it stays searchable, and renders without a DOM.
+ * @param report the report to write
+ */
+export const reportToPdf = (report: ReportResponse): ArrayBuffer => {
+  const doc = new jsPDF({ unit: "mm", format: "a4", orientation: "portrait" });
+  const width = doc.internal.pageSize.getWidth() - MARGIN * 2;
+  const bottom = doc.internal.pageSize.getHeight() - MARGIN;
+  let y = MARGIN;
+
+  // Start a new page when the next `height` mm do not fit
+  const room = (height: number) => {
+    if (y + height <= bottom) return;
+    doc.addPage();
+    y = MARGIN;
+  };
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(report.title, MARGIN, y + 4);
+  y += LINE * 2;
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(9);
+  doc.text(
+    `${report.period ?? "Snapshot"} - generated ${new Date(
+      report.generatedAt
+    ).toUTCString()}`,
+    MARGIN,
+    y
+  );
+  y += LINE * 1.5;
+
+  doc.setFontSize(10);
+  report.summary.forEach(({ label, value }) => {
+    room(LINE);
+    doc.text(label, MARGIN, y);
+    doc.text(value, MARGIN + width / 2, y);
+    y += LINE;
+  });
+
+  report.sections.forEach((section) => {
+    const columnWidth = width / section.columns.length;
+    // Cells are cut to fit their column, labels wrap instead
+    const cell = (value: string | number) => {
+      let text = String(value);
+      while (text.length > 1 && doc.getTextWidth(text) > columnWidth - 2) {
+        text = text.slice(0, -1);
+      }
+      return text;
+    };
+    const header = () => {
+      doc.setFont("helvetica", "bold");
+      const labels = section.columns.map(
+        (column) =>
+          doc.splitTextToSize(column.label, columnWidth - 2) as string[]
+      );
+      labels.forEach((lines, i) =>
+        doc.text(lines, MARGIN + i * columnWidth, y)
+      );
+      const height = Math.max(...labels.map((lines) => lines.length)) * 3.5;
+      doc.setFont("helvetica", "normal");
+      doc.line(MARGIN, y + height - 2, MARGIN + width, y + height - 2);
+      y += height + 2.5;
+    };
+
+    y += LINE;
+    room(LINE * 3);
+    doc.setFont("helvetica", "bold");
+    doc.setFontSize(12);
+    doc.text(section.title, MARGIN, y);
+    y += LINE;
+    doc.setFontSize(8);
+    header();
+    section.rows.forEach((row) => {
+      if (y + LINE > bottom) {
+        room(LINE * 2);
+        header();
+      }
+      section.columns.forEach((column, i) =>
+        doc.text(cell(row[column.key] ?? ""), MARGIN + i * columnWidth, y)
+      );
+      y += LINE - 1;
+    });
+    doc.setFontSize(10);
+  });
+
+  return doc.output("arraybuffer");
+};
+
+/**
+ * The file of a report in any download format, what scheduled deliveries attach
+ * @param report the report to write
+ * @param format the file format
+ */
+export const reportFile = (
+  report: ReportResponse,
+  format: ReportFormat
+): string | Uint8Array =>
+  format === "pdf"
+    ? new Uint8Array(reportToPdf(report))
+    : format === "csv"
+    ? reportToCsv(report)
+    : reportToXlsx(report);
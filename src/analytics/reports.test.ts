@@ -0,0 +1,219 @@
+import { strFromU8, unzipSync } from "fflate";
+import {
+  fixtureDemographics,
+  fixtureFailureBreakdown,
+  fixtureRevenueTrends,
+  fixtureSuccessRate,
+  fixtureTransactionVolume,
+} from "./fixtures";
+import { reportToCsv, reportToXlsx } from "./reportFiles";
+import {
+  buildReport,
+  parseReportRequest,
+  REPORT_DEFINITIONS,
+  ReportSource,
+  ReportType,
+} from "./reports";
+import { DEFAULT_SLA_CONFIG } from "./sla";
+import { ReportResponse } from "../services/types";
+
+const now = new Date("2025-01-06T12:30:00Z");
+
+const source: ReportSource = {
+  getTransactionVolume: async (range, service) =>
+    fixtureTransactionVolume(range, service, now),
+  getSuccessRate: async (period) => fixtureSuccessRate(period, now),
+  getFailureBreakdown: async (period) => fixtureFailureBreakdown(period, now),
+  getRevenueTrends: async (range) => fixtureRevenueTrends(range, now),
+  getDemographics: async () => fixtureDemographics(),
+};
+
+const definition = (type: ReportType) =>
+  REPORT_DEFINITIONS.find((item) => item.type === type)!;
+
+describe("parseReportRequest", () => {
+  it("reads the type and period", () => {
+    expect(parseReportRequest("network-sla", "7d", {})).toEqual({
+      definition: definition("network-sla"),
+      period: "7d",
+    });
+    expect(
+      parseReportRequest("daily-ops", "custom", {
+        start: "2025-01-01",
+        end: "2025-01-03",
+      })
+    ).toEqual({
+      definition: definition("daily-ops"),
+      period: { start: "2025-01-01", end: "2025-01-03" },
+    });
+    expect(parseReportRequest("demographics", undefined, {})).toEqual({
+      definition: definition("demographics"),
+      period: null,
+    });
+  });
+
+  it("rejects unknown types and misplaced periods", () => {
+    expect(parseReportRequest("weekly", "7d", {})).toHaveProperty("error");
+    expect(parseReportRequest("demographics", "7d", {})).toEqual({
+      error: "The Demographics snapshot report takes no period",
+    });
+    expect(parseReportRequest("monthly-revenue", undefined, {})).toEqual({
+      error: "The Monthly revenue report needs a period",
+    });
+    expect(parseReportRequest("daily-ops", "2w", {})).toHaveProperty("error");
+  });
+});
+
+describe("buildReport", () => {
+  it("labels the period and keeps a row per bucket", async () => {
+    const report = await buildReport(
+      source,
+      definition("daily-ops"),
+      "24h",
+      DEFAULT_SLA_CONFIG,
+      { now }
+    );
+    expect(report).toMatchObject({
+      type: "daily-ops",
+      title: "Daily ops summary",
+      generatedAt: now.toISOString(),
+      period: "Last 24 Hours",
+    });
+    expect(report.sections.map((section) => section.title)).toEqual([
+      "Traffic",
+      "Failure reasons",
+    ]);
+    expect(report.sections[0].rows).toHaveLength(
+      fixtureTransactionVolume("24h", "all", now).length
+    );
+  });
+
+  it("labels revenue days in the report timezone", async () => {
+    const report = await buildReport(
+      source,
+      definition("monthly-revenue"),
+      "7d",
+      DEFAULT_SLA_CONFIG,
+      { now, utcOffsetMinutes: 120 }
+    );
+    const points = fixtureRevenueTrends("7d", now);
+    const rows = report.sections[0].rows;
+    expect(rows).toHaveLength(points.length);
+    // Each bucket starts at local midnight, labelled with its own day
+    rows.forEach((row, i) =>
+      expect(row.date).toBe(
+        new Date(Date.parse(points[i].date) + 120 * 60 * 1000)
+          .toISOString()
+          .slice(0, 10)
+      )
+    );
+    expect(report.summary[0]).toEqual({
+      label: "Total revenue",
+      value: `ZMW ${Math.round(
+        points.reduce((total, point) => total + point.total, 0)
+      ).toLocaleString("en-US")}`,
+    });
+  });
+
+  it("measures every network against its own SLA floor", async () => {
+    const sla = {
+      ...DEFAULT_SLA_CONFIG,
+      networks: { Zamtel: { excellent: 90, good: 80, fair: 70 } },
+    };
+    const report = await buildReport(
+      source,
+      definition("network-sla"),
+      "7d",
+      sla,
+      { now }
+    );
+    const rows = report.sections[0].rows;
+    expect(rows.map((row) => row.network)).toEqual([
+      "All networks",
+      ...fixtureSuccessRate("7d", now).networks.map((network) => network.name),
+    ]);
+    expect(rows.find((row) => row.network === "Zamtel")?.floor).toBe(70);
+    expect(rows.find((row) => row.network === "MTN")?.floor).toBe(85);
+  });
+
+  it("takes no period for snapshots", async () => {
+    const report = await buildReport(
+      source,
+      definition("demographics"),
+      null,
+      DEFAULT_SLA_CONFIG,
+      { now }
+    );
+    expect(report.period).toBeNull();
+    expect(report.sections).toHaveLength(5);
+    expect(report.sections[0].rows[0]).toEqual({
+      name: "Lusaka",
+      users: 437500,
+      percentage: 35,
+    });
+  });
+});
+
+const report: ReportResponse = {
+  type: "network-sla",
+  title: "Network SLA",
+  generatedAt: "2025-01-06T12:30:00.000Z",
+  period: "Last 7 Days",
+  summary: [{ label: "Status", value: "Good" }],
+  sections: [
+    {
+      title: "Networks: <all>",
+      columns: [
+        { key: "network", label: "Network" },
+        { key: "rate", label: "Success rate (%)" },
+      ],
+      rows: [
+        { network: "MTN", rate: 93.4 },
+        { network: "Airtel, Zambia", rate: 88 },
+      ],
+    },
+  ],
+};
+
+describe("reportToCsv", () => {
+  it("writes the summary then each section", () => {
+    expect(reportToCsv(report)).toBe(
+      [
+        "Network SLA",
+        "Period,Last 7 Days",
+        "Generated,2025-01-06T12:30:00.000Z",
+        "Status,Good",
+        "",
+        "Networks: <all>",
+        "Network,Success rate (%)",
+        "MTN,93.4",
+        '"Airtel, Zambia",88',
+        "",
+      ].join("\n")
+    );
+  });
+});
+
+describe("reportToXlsx", () => {
+  it("writes a summary sheet and a sheet per section", () => {
+    const files = unzipSync(reportToXlsx(report));
+    expect(Object.keys(files)).toEqual(
+      expect.arrayContaining([
+        "[Content_Types].xml",
+        "xl/workbook.xml",
+        "xl/worksheets/sheet1.xml",
+        "xl/worksheets/sheet2.xml",
+      ])
+    );
+    const workbook = strFromU8(files["xl/workbook.xml"]);
+    expect(workbook).toContain('<sheet name="Summary"');
+    // Excel rejects : in sheet names
+    expect(workbook).toContain('<sheet name="Networks  &lt;all&gt;"');
+
+    const sheet = strFromU8(files["xl/worksheets/sheet2.xml"]);
+    expect(sheet).toContain('<c r="B2"><v>93.4</v></c>');
+    expect(sheet).toContain(
+      '<c r="A3" t="inlineStr"><is><t>Airtel, Zambia</t></is></c>'
+    );
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  ChartDataPoint,
+  DateRange,
+  DateRangePreset,
+  DemographicsResponse,
+  FailureBreakdownResponse,
+  GaugeApiResponse,
+  ReportResponse,
+  ReportSection,
+  RevenuePoint,
+} from "../services/types";
+import { dateRangeLabel, parseDateRange } from "./dateRange";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+import { FAILURE_REASON_LABELS, FailureReason } from "./sessions";
+import {
+  formatDuration,
+  SlaConfig,
+  slaBandsFor,
+  slaCompliance,
+  slaStatus,
+} from "./sla";
+
+/**
+ * Reports built on demand from the same data as the dashboards, exported as PDF, CSV or XLSX.
+ */
+
+export type ReportType =
+  | "daily-ops"
+  | "monthly-revenue"
+  | "network-sla"
+  | "demographics";
+
+export interface ReportDefinition {
+  type: ReportType;
+  title: string;
+  description: string;
+  defaultPeriod: DateRangePreset | null; // null for snapshots, which take no period
+}
+
+export const REPORT_DEFINITIONS: ReportDefinition[] = [
+  {
+    type: "daily-ops",
+    title: "Daily ops summary",
+    description: "Traffic, success rate and failures hour by hour",
+    defaultPeriod: "24h",
+  },
+  {
+    type: "monthly-revenue",
+    title: "Monthly revenue",
+    description: "Revenue per day and service",
+    defaultPeriod: "30d",
+  },
+  {
+    type: "network-sla",
+    title: "Network SLA",
+    description: "Success rate and time below SLA by network",
+    defaultPeriod: "7d",
+  },
+  {
+    type: "demographics",
+    title: "Demographics snapshot",
+    description: "Subscribers by province, network, age and device",
+    defaultPeriod: null,
+  },
+];
+
+// Generated reports kept in the history, oldest dropped first
+export const MAX_REPORT_HISTORY = 50;
+
+/**
+ * The dashboard data a report is built from, every analytics store provides it
+ */
+export interface ReportSource {
+  getTransactionVolume(
+    range: DateRange,
+    service: string
+  ): Promise<ChartDataPoint[]>;
+  getSuccessRate(period: DateRange): Promise<GaugeApiResponse>;
+  getFailureBreakdown(period: DateRange): Promise<FailureBreakdownResponse>;
+  getRevenueTrends(range: DateRange): Promise<RevenuePoint[]>;
+  getDemographics(): Promise<DemographicsResponse>;
+}
+
+/**
+ * Read the report type and period of a generation request
+ * @param type the requested type
+ * @param segment the period preset or `custom`, undefined for snapshots
+ * @param query `start` and `end` of a custom period
+ */
+export const parseReportRequest = (
+  type: string,
+  segment: string | undefined,
+  query: { start?: unknown; end?: unknown }
+):
+  | { definition: ReportDefinition; period: DateRange | null }
+  | { error: string } => {
+  const definition = REPORT_DEFINITIONS.find((item) => item.type === type);
+  if (!definition) {
+    return {
+      error: `Unknown report "${type}", expected one of: ${REPORT_DEFINITIONS.map(
+        (item) => item.type
+      ).join(", ")}`,
+    };
+  }
+  if (definition.defaultPeriod === null) {
+    return segment === undefined
+      ? { definition, period: null }
+      : { error: `The ${definition.title} report takes no period` };
+  }
+  if (segment === undefined) {
+    return { error: `The ${definition.title} report needs a period` };
+  }
+  const result = parseDateRange(segment, query);
+  return "error" in result ? result : { definition, period: result.range };
+};
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+const formatNumber = (value: number) => value.toLocaleString("en-US");
+
+const formatZmw = (value: number) => `ZMW ${formatNumber(Math.round(value))}`;
+
+const dailyOps = async (
+  source: ReportSource,
+  period: DateRange
+): Promise<Pick<ReportResponse, "summary" | "sections">> => {
+  const [volume, gauge, failures] = await Promise.all([
+    source.getTransactionVolume(period, "all"),
+    source.getSuccessRate(period),
+    source.getFailureBreakdown(period),
+  ]);
+  const { metrics } = gauge;
+
+  return {
+    summary: [
+      {
+        label: "Sessions",
+        value: formatNumber(sum(volume.map((p) => p.total))),
+      },
+      { label: "Success rate", value: `${metrics.successRate}%` },
+      { label: "Failed transactions", value: formatNumber(metrics.failedTxns) },
+      { label: "Avg response", value: `${metrics.avgResponseTime}s` },
+      { label: "Peak hours", value: metrics.peakHour },
+      { label: "Top province", value: metrics.topProvince },
+    ],
+    sections: [
+      {
+        title: "Traffic",
+        columns: [
+          { key: "date", label: "Time" },
+          { key: "total", label: "Sessions" },
+          { key: "successRate", label: "Success rate (%)" },
+          { key: "failedTransactions", label: "Failed" },
+          { key: "avgSessionTime", label: "Avg session (s)" },
+          { key: "revenue", label: "Revenue (ZMW)" },
+          { key: "peakConcurrentUsers", label: "Peak concurrent" },
+        ],
+        rows: volume.map((point) => ({
+          date: point.date,
+          total: point.total,
+          successRate: point.successRate,
+          failedTransactions: point.failedTransactions,
+          avgSessionTime: point.avgSessionTime,
+          revenue: point.revenue,
+          peakConcurrentUsers: point.peakConcurrentUsers,
+        })),
+      },
+      {
+        title: "Failure reasons",
+        columns: [
+          { key: "reason", label: "Reason" },
+          { key: "count", label: "Failed" },
+          { key: "share", label: "Share (%)" },
+        ],
+        rows: failures.reasons.map((summary) => ({
+          reason:
+            FAILURE_REASON_LABELS[summary.reason as FailureReason] ??
+            "Unreported",
+          count: summary.count,
+          share: summary.share,
+        })),
+      },
+    ],
+  };
+};
+
+const monthlyRevenue = async (
+  source: ReportSource,
+  period: DateRange,
+  utcOffsetMinutes: number
+): Promise<Pick<ReportResponse, "summary" | "sections">> => {
+  const points = await source.getRevenueTrends(period);
+  // Days start at local midnight, which is still the previous day in UTC east of Greenwich
+  const day = (iso: string) =>
+    new Date(Date.parse(iso) + utcOffsetMinutes * 60 * 1000)
+      .toISOString()
+      .slice(0, 10);
+  const total = sum(points.map((point) => point.total));
+  const best = points.reduce<RevenuePoint | undefined>(
+    (top, point) => (!top || point.total > top.total ? point : top),
+    undefined
+  );
+  const services = [
+    { key: "electricity", label: "Electricity" },
+    { key: "water", label: "Water" },
+    { key: "airtime", label: "Airtime" },
+    { key: "mobileMoney", label: "Mobile Money" },
+  ] as const;
+  const topService = services.reduce((top, service) =>
+    sum(points.map((p) => p[service.key])) > sum(points.map((p) => p[top.key]))
+      ? service
+      : top
+  );
+
+  return {
+    summary: [
+      { label: "Total revenue", value: formatZmw(total) },
+      {
+        label: "Daily average",
+        value: formatZmw(points.length ? total / points.length : 0),
+      },
+      {
+        label: "Best day",
+        value: best ? `${day(best.date)} (${formatZmw(best.total)})` : "-",
+      },
+      { label: "Top service", value: topService.label },
+    ],
+    sections: [
+      {
+        title: "Revenue by day",
+        columns: [
+          { key: "date", label: "Date" },
+          ...services.map(({ key, label }) => ({
+            key,
+            label: `${label} (ZMW)`,
+          })),
+          { key: "total", label: "Total (ZMW)" },
+        ],
+        rows: points.map((point) => ({
+          date: day(point.date),
+          electricity: point.electricity,
+          water: point.water,
+          airtime: point.airtime,
+          mobileMoney: point.mobileMoney,
+          total: point.total,
+        })),
+      },
+    ],
+  };
+};
+
+const networkSla = async (
+  source: ReportSource,
+  period: DateRange,
+  sla: SlaConfig
+): Promise<Pick<ReportResponse, "summary" | "sections">> => {
+  const gauge = await source.getSuccessRate(period);
+  const compliance = slaCompliance(gauge.timeline, sla);
+  const overallStatus = slaStatus(gauge.metrics.successRate, sla.global);
+  const compliant = ({
+    minutesBelow,
+    minutesMeasured,
+  }: typeof compliance.overall) =>
+    minutesMeasured
+      ? round1(100 - (minutesBelow / minutesMeasured) * 100)
+      : 100;
+
+  return {
+    summary: [
+      { label: "Success rate", value: `${gauge.metrics.successRate}%` },
+      { label: "Status", value: overallStatus },
+      { label: "SLA floor", value: `${sla.global.fair}%` },
+      {
+        label: "Time below SLA",
+        value: formatDuration(compliance.overall.minutesBelow),
+      },
+    ],
+    sections: [
+      {
+        title: "Networks",
+        columns: [
+          { key: "network", label: "Network" },
+          { key: "transactions", label: "Transactions" },
+          { key: "rate", label: "Success rate (%)" },
+          { key: "floor", label: "SLA floor (%)" },
+          { key: "status", label: "Status" },
+          { key: "below", label: "Time below SLA" },
+          { key: "compliance", label: "Time within SLA (%)" },
+        ],
+        rows: [
+          {
+            network: "All networks",
+            transactions:
+              gauge.metrics.successfulTxns + gauge.metrics.failedTxns,
+            rate: gauge.metrics.successRate,
+            floor: sla.global.fair,
+            status: overallStatus,
+            below: formatDuration(compliance.overall.minutesBelow),
+            compliance: compliant(compliance.overall),
+          },
+          ...gauge.networks.map((network) => {
+            const bands = slaBandsFor(sla, network.name);
+            const measured = compliance.networks[network.name] ?? {
+              minutesBelow: 0,
+              minutesMeasured: 0,
+            };
+            return {
+              network: network.name,
+              transactions: network.totalTransactions,
+              rate: network.rate,
+              floor: bands.fair,
+              status: slaStatus(network.rate, bands),
+              below: formatDuration(measured.minutesBelow),
+              compliance: compliant(measured),
+            };
+          }),
+        ],
+      },
+    ],
+  };
+};
+
+const demographics = async (
+  source: ReportSource
+): Promise<Pick<ReportResponse, "summary" | "sections">> => {
+  const data = await source.getDemographics();
+  const shares = (
+    title: string,
+    label: string,
+    items: { name: string; users?: number; percentage: number }[]
+  ): ReportSection => ({
+    title,
+    columns: [
+      { key: "name", label },
+      { key: "users", label: "Users" },
+      { key: "percentage", label: "Share (%)" },
+    ],
+    rows: items.map(({ name, users, percentage }) => ({
+      name,
+      users: users ?? Math.round((data.totalUsers * percentage) / 100),
+      percentage,
+    })),
+  });
+  const top = (items: { name: string; percentage: number }[]) =>
+    [...items].sort((a, b) => b.percentage - a.percentage)[0]?.name ?? "-";
+
+  return {
+    summary: [
+      { label: "Total users", value: formatNumber(data.totalUsers) },
+      { label: "Top province", value: top(data.provinceData) },
+      { label: "Top network", value: top(data.networkData) },
+    ],
+    sections: [
+      shares("Provinces", "Province", data.provinceData),
+      shares("Networks", "Network", data.networkData),
+      shares(
+        "Age groups",
+        "Age",
+        data.ageGroups.map((group) => ({ ...group, name: group.range }))
+      ),
+      shares(
+        "Gender",
+        "Gender",
+        data.genderData.map((item) => ({ ...item, percentage: item.value }))
+      ),
+      shares(
+        "Devices",
+        "Device",
+        data.deviceData.map((item) => ({ ...item, percentage: item.value }))
+      ),
+    ],
+  };
+};
+
+/**
+ * Build a report from the dashboard data
+ * @param source the store the dashboards read
+ * @param definition which report
+ * @param period the period covered, null for snapshots
+ * @param sla the configured SLA bands
+ * @param [options={}] generation time, and the UTC offset days are labelled in
+ */
+export const buildReport = async (
+  source: ReportSource,
+  definition: ReportDefinition,
+  period: DateRange | null,
+  sla: SlaConfig,
+  {
+    now = new Date(),
+    utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES,
+  }: { now?: Date; utcOffsetMinutes?: number } = {}
+): Promise<ReportResponse> => {
+  const range = period ?? definition.defaultPeriod ?? "24h";
+  const content = await (() => {
+    switch (definition.type) {
+      case "daily-ops":
+        return dailyOps(source, range);
+      case "monthly-revenue":
+        return monthlyRevenue(source, range, utcOffsetMinutes);
+      case "network-sla":
+        return networkSla(source, range, sla);
+      case "demographics":
+        return demographics(source);
+    }
+  })();
+
+  return {
+    type: definition.type,
+    title: definition.title,
+    generatedAt: now.toISOString(),
+    period: period === null ? null : dateRangeLabel(period),
+    ...content,
+  };
+};
@@ -0,0 +1,221 @@
+import { NotificationChannel } from "./notifications";
+import {
+  buildReportNotification,
+  CronExpression,
+  nextCronRun,
+  parseCron,
+  parseReportSchedule,
+} from "./schedules";
+import { ArchivedReport } from "../services/types";
+
+const cron = (expression: string): CronExpression => {
+  const result = parseCron(expression);
+  if ("error" in result) throw new Error(result.error);
+  return result.cron;
+};
+
+const channel = (type: NotificationChannel["type"]): NotificationChannel => ({
+  id: type,
+  name: type,
+  type,
+  target: "",
+  template: "",
+  enabled: true,
+});
+
+const report: ArchivedReport = {
+  id: "report-1",
+  type: "network-sla",
+  title: "Network SLA",
+  generatedAt: "2025-01-06T05:00:00.000Z",
+  period: "Last 7 Days",
+  summary: [
+    { label: "Sessions", value: "120,000" },
+    { label: "Success rate", value: "93.4%" },
+    { label: "Networks meeting SLA", value: "2 of 3" },
+    { label: "Worst network", value: "Zamtel, 89.1% success" },
+    { label: "Peak hour", value: "18:00 to 19:00, 11,204 sessions" },
+  ],
+  sections: [],
+};
+
+describe("parseCron", () => {
+  it("reads values, ranges, steps, lists and names", () => {
+    expect(parseCron("*/15 6-8 1,15 JAN-MAR MON,fri")).toEqual({
+      cron: {
+        minutes: [0, 15, 30, 45],
+        hours: [6, 7, 8],
+        daysOfMonth: [1, 15],
+        months: [1, 2, 3],
+        daysOfWeek: [1, 5],
+        anyDayOfMonth: false,
+        anyDayOfWeek: false,
+      },
+    });
+    expect(cron("0 0 * * 7").daysOfWeek).toEqual([0]);
+    expect(cron("5/20 * * * *").minutes).toEqual([5, 25, 45]);
+  });
+
+  it("rejects malformed expressions", () => {
+    expect(parseCron("0 7 * *")).toEqual({
+      error:
+        "cron must have five fields: minute, hour, day of month, month and day of week",
+    });
+    expect(parseCron("0 24 * * *")).toEqual({
+      error: 'Invalid hour "24", expected values between 0 and 23',
+    });
+    expect(parseCron("0 7 * * MON-SUN")).toHaveProperty("error");
+    expect(parseCron("*/0 * * * *")).toHaveProperty("error");
+    expect(parseCron("a * * * *")).toHaveProperty("error");
+  });
+});
+
+describe("nextCronRun", () => {
+  // A Monday
+  const monday = new Date("2025-01-06T12:30:00Z");
+
+  it("reads the expression in Central Africa Time", () => {
+    expect(nextCronRun(cron("0 7 * * 1"), monday)?.toISOString()).toBe(
+      "2025-01-13T05:00:00.000Z"
+    );
+    expect(
+      nextCronRun(
+        cron("0 7 * * 1"),
+        new Date("2025-01-06T04:59:30Z")
+      )?.toISOString()
+    ).toBe("2025-01-06T05:00:00.000Z");
+  });
+
+  it("skips the minute it is looked from", () => {
+    expect(
+      nextCronRun(cron("0 7 * * 1"), new Date("2025-01-06T05:00:00Z"))
+    ).toEqual(new Date("2025-01-13T05:00:00Z"));
+  });
+
+  it("runs on either day field when both are restricted", () => {
+    // The 15th, or the next Friday, whichever comes first
+    expect(nextCronRun(cron("0 8 15 * 5"), monday)).toEqual(
+      new Date("2025-01-10T06:00:00Z")
+    );
+    expect(nextCronRun(cron("0 8 1 * *"), monday)).toEqual(
+      new Date("2025-02-01T06:00:00Z")
+    );
+  });
+
+  it("crosses months and years", () => {
+    expect(nextCronRun(cron("30 23 31 12 *"), monday, 0)?.toISOString()).toBe(
+      "2025-12-31T23:30:00.000Z"
+    );
+    expect(nextCronRun(cron("0 0 29 2 *"), monday, 0)).toEqual(
+      new Date("2028-02-29T00:00:00Z")
+    );
+  });
+
+  it("finds no run for dates that never happen", () => {
+    expect(nextCronRun(cron("0 0 30 2 *"), monday)).toBeNull();
+  });
+});
+
+describe("parseReportSchedule", () => {
+  const body = {
+    name: " Weekly SLA ",
+    report: "network-sla",
+    period: "7d",
+    cron: " 0  7 * * 1 ",
+    channels: ["noc", "noc"],
+    recipients: "ops@example.com ,cto@example.com",
+    formats: ["xlsx", "pdf"],
+  };
+
+  it("normalises a valid schedule", () => {
+    expect(parseReportSchedule(body)).toEqual({
+      schedule: {
+        name: "Weekly SLA",
+        report: "network-sla",
+        period: "7d",
+        cron: "0 7 * * 1",
+        channels: ["noc"],
+        recipients: "ops@example.com, cto@example.com",
+        formats: ["pdf", "xlsx"],
+        enabled: true,
+      },
+    });
+  });
+
+  it("defaults the period of the report and the pdf format", () => {
+    const result = parseReportSchedule({
+      name: "Demographics",
+      report: "demographics",
+      cron: "0 8 1 * *",
+      channels: ["noc"],
+    });
+    expect(result).toMatchObject({
+      schedule: { period: null, formats: ["pdf"] },
+    });
+  });
+
+  it("rejects invalid schedules", () => {
+    expect(parseReportSchedule({ ...body, name: " " })).toEqual({
+      error: "name is required",
+    });
+    expect(parseReportSchedule({ ...body, report: "weekly" })).toHaveProperty(
+      "error"
+    );
+    expect(
+      parseReportSchedule({ ...body, report: "demographics", period: "7d" })
+    ).toEqual({ error: "The Demographics snapshot report takes no period" });
+    expect(parseReportSchedule({ ...body, cron: "0 0 30 2 *" })).toEqual({
+      error: 'cron "0 0 30 2 *" never runs',
+    });
+    expect(
+      parseReportSchedule({ ...body, recipients: "ops@example.com, ops" })
+    ).toEqual({ error: 'Invalid email address "ops"' });
+    expect(
+      parseReportSchedule({ ...body, channels: [], recipients: "" })
+    ).toEqual({ error: "Pick a channel or add a recipient to deliver to" });
+    expect(parseReportSchedule({ ...body, formats: [] })).toHaveProperty(
+      "error"
+    );
+    expect(parseReportSchedule({ ...body, enabled: "false" })).toEqual({
+      error: "enabled must be true or false",
+    });
+    expect(parseReportSchedule(null)).toEqual({ error: "name is required" });
+  });
+});
+
+describe("buildReportNotification", () => {
+  const attachments = [
+    {
+      filename: "network-sla.pdf",
+      contentType: "application/pdf",
+      content: "%PDF",
+    },
+  ];
+
+  it("keeps SMS within a single message", () => {
+    const notification = buildReportNotification(
+      channel("sms"),
+      report,
+      attachments
+    );
+    expect(notification.message).toHaveLength(160);
+    expect(notification.message.endsWith("...")).toBe(true);
+    expect(notification.attachments).toBeUndefined();
+  });
+
+  it("attaches the files on email", () => {
+    const notification = buildReportNotification(
+      channel("email"),
+      report,
+      attachments
+    );
+    expect(notification).toMatchObject({
+      event: "report",
+      subject: "[USSD report] Network SLA, Last 7 Days",
+      report,
+      attachments,
+    });
+    expect(notification.message).toContain("Success rate: 93.4%");
+    expect(notification.message).toContain("Attached: network-sla.pdf");
+  });
+});
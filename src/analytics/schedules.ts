@@ -0,0 +1,375 @@
+import { ArchivedReport, DateRangePreset } from "../services/types";
+import { DATE_RANGE_PRESETS } from "./dateRange";
+import {
+  EMAIL,
+  Notification,
+  NotificationAttachment,
+  NotificationChannel,
+  splitTargets,
+} from "./notifications";
+import { CAT_UTC_OFFSET_MINUTES } from "./patterns";
+import { REPORT_FORMATS, ReportFormat } from "./reportFiles";
+import { REPORT_DEFINITIONS, ReportType } from "./reports";
+
+/**
+ * Report schedules: a report generated on a cron expression and delivered through notification channels.
+ * Expressions are read in Africa/Lusaka time, Central Africa Time all year round (UTC+2, no daylight saving).
+ */
+
+export const SCHEDULE_TIMEZONE = "Africa/Lusaka";
+
+export interface ScheduleRun {
+  at: string; // ISO timestamp
+  reportId: string | null; // null when the report could not be generated
+  status: "delivering" | "sent" | "failed";
+  error?: string;
+}
+
+export interface ReportSchedule {
+  id: string;
+  name: string;
+  report: ReportType;
+  period: DateRangePreset | null; // counted back from the run, null for snapshots
+  cron: string; // minute hour day-of-month month day-of-week
+  channels: string[]; // ids of the notification channels it is delivered through
+  recipients: string; // extra email addresses, comma separated
+  formats: ReportFormat[]; // files attached to emails
+  enabled: boolean;
+  nextRunAt: string | null; // null while disabled
+  lastRun?: ScheduleRun;
+}
+
+export type ReportScheduleInput = Omit<
+  ReportSchedule,
+  "id" | "nextRunAt" | "lastRun"
+>;
+
+export const CRON_PRESETS = [
+  { label: "Every Monday at 07:00", cron: "0 7 * * 1" },
+  { label: "Every weekday at 06:00", cron: "0 6 * * 1-5" },
+  { label: "Every day at 06:00", cron: "0 6 * * *" },
+  { label: "First of the month at 08:00", cron: "0 8 1 * *" },
+];
+
+/**
+ * Values each field of a cron expression matches
+ */
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  daysOfWeek: number[]; // 0 is Sunday
+  // Cron runs on either day field when both are restricted, on the other one when one is `*`
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const CRON_FIELDS = [
+  { label: "minute", min: 0, max: 59, names: [] },
+  { label: "hour", min: 0, max: 23, names: [] },
+  { label: "day of month", min: 1, max: 31, names: [] },
+  {
+    label: "month",
+    min: 1,
+    max: 12,
+    names: "JAN FEB MAR APR MAY JUN JUL AUG SEP OCT NOV DEC".split(" "),
+  },
+  // 7 is Sunday too
+  {
+    label: "day of week",
+    min: 0,
+    max: 7,
+    names: "SUN MON TUE WED THU FRI SAT".split(" "),
+  },
+];
+
+// How far ahead the next run is looked for, expressions like `0 0 30 2 *` never run
+const CRON_HORIZON_MS = 5 * 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * Read one field: `*`, values, names, ranges and steps separated by commas, e.g. `1-5`, `*\/15`, `MON,FRI`
+ */
+const parseCronField = (
+  field: string,
+  { label, min, max, names }: (typeof CRON_FIELDS)[number]
+): number[] | string => {
+  const value = (part: string) => {
+    const index = names.indexOf(part.toUpperCase());
+    const number = index === -1 ? Number(part) : index + min;
+    return /^\d+$/.test(part) || index !== -1 ? number : NaN;
+  };
+  const values = new Set<number>();
+  for (const part of field.split(",")) {
+    const [range, step = "1"] = part.split("/");
+    const [from, to] =
+      range === "*"
+        ? [min, max]
+        : range.includes("-")
+        ? range.split("-").map(value)
+        : // `5/10` runs from 5 to the end of the field
+          [value(range), part.includes("/") ? max : value(range)];
+    const every = Number(step);
+    if (
+      !Number.isInteger(from) ||
+      !Number.isInteger(to) ||
+      from < min ||
+      to > max ||
+      from > to ||
+      !/^\d+$/.test(step) ||
+      every < 1
+    ) {
+      return `Invalid ${label} "${part}", expected values between ${min} and ${max}`;
+    }
+    for (let v = from; v <= to; v += every) values.add(v);
+  }
+  return Array.from(values).sort((a, b) => a - b);
+};
+
+/**
+ * Read a five field cron expression: minute, hour, day of month, month and day of week
+ * @param expression e.g. `0 7 * * 1` for Mondays at 07:00
+ */
+export const parseCron = (
+  expression: string
+): { cron: CronExpression } | { error: string } => {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== 5) {
+    return {
+      error:
+        "cron must have five fields: minute, hour, day of month, month and day of week",
+    };
+  }
+  const parsed: number[][] = [];
+  for (let i = 0; i < fields.length; i++) {
+    const result = parseCronField(fields[i], CRON_FIELDS[i]);
+    if (typeof result === "string") return { error: result };
+    parsed.push(result);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parsed;
+  return {
+    cron: {
+      minutes,
+      hours,
+      daysOfMonth,
+      months,
+      daysOfWeek: Array.from(new Set(daysOfWeek.map((day) => day % 7))),
+      anyDayOfMonth: fields[2].startsWith("*"),
+      anyDayOfWeek: fields[4].startsWith("*"),
+    },
+  };
+};
+
+/**
+ * The first time after `after` an expression matches, null if it does not within five years
+ * @param cron the parsed expression
+ * @param after runs at this exact minute are skipped
+ * @param [utcOffsetMinutes] the timezone the expression is read in, Central Africa Time by default
+ */
+export const nextCronRun = (
+  cron: CronExpression,
+  after: Date,
+  utcOffsetMinutes = CAT_UTC_OFFSET_MINUTES
+): Date | null => {
+  const offset = utcOffsetMinutes * 60 * 1000;
+  // Wall clock time held in the UTC fields, from the next whole minute
+  const time = new Date(
+    Math.floor((after.getTime() + offset) / 60000) * 60000 + 60000
+  );
+  const horizon = time.getTime() + CRON_HORIZON_MS;
+
+  while (time.getTime() < horizon) {
+    const dayOfMonth = cron.daysOfMonth.includes(time.getUTCDate());
+    const dayOfWeek = cron.daysOfWeek.includes(time.getUTCDay());
+    const day =
+      cron.anyDayOfMonth || cron.anyDayOfWeek
+        ? dayOfMonth && dayOfWeek
+        : dayOfMonth || dayOfWeek;
+
+    if (!cron.months.includes(time.getUTCMonth() + 1)) {
+      time.setUTCMonth(time.getUTCMonth() + 1, 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!day) {
+      time.setUTCDate(time.getUTCDate() + 1);
+      time.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.includes(time.getUTCHours())) {
+      time.setUTCHours(time.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.includes(time.getUTCMinutes())) {
+      time.setUTCMinutes(time.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return new Date(time.getTime() - offset);
+    }
+  }
+  return null;
+};
+
+/**
+ * Next run of a schedule, null while it is disabled
+ * @param schedule the schedule, its cron already validated
+ * @param after the time to look from
+ */
+export const nextScheduleRun = (
+  schedule: Pick<ReportSchedule, "cron" | "enabled">,
+  after: Date
+): string | null => {
+  const result = parseCron(schedule.cron);
+  if (!schedule.enabled || "error" in result) return null;
+  return nextCronRun(result.cron, after)?.toISOString() ?? null;
+};
+
+const isPreset = (value: unknown): value is DateRangePreset =>
+  (DATE_RANGE_PRESETS as readonly unknown[]).includes(value);
+
+const isReportFormat = (value: unknown): value is ReportFormat =>
+  (REPORT_FORMATS as readonly unknown[]).includes(value);
+
+/**
+ * Check a schedule sent by a client, the channels it lists are checked by the caller
+ * @param body the parsed json body
+ */
+export const parseReportSchedule = (
+  body: unknown
+): { schedule: ReportScheduleInput } | { error: string } => {
+  const fields: Record<string, unknown> =
+    typeof body === "object" && body !== null ? { ...body } : {};
+  const name = typeof fields.name === "string" ? fields.name.trim() : "";
+  if (!name) return { error: "name is required" };
+  const definition = REPORT_DEFINITIONS.find(
+    (item) => item.type === fields.report
+  );
+  if (!definition) {
+    return {
+      error: `report must be one of: ${REPORT_DEFINITIONS.map(
+        (item) => item.type
+      ).join(", ")}`,
+    };
+  }
+  const period = fields.period ?? definition.defaultPeriod;
+  if (definition.defaultPeriod === null && period !== null) {
+    return { error: `The ${definition.title} report takes no period` };
+  }
+  if (period !== null && !isPreset(period)) {
+    return { error: `period must be one of: ${DATE_RANGE_PRESETS.join(", ")}` };
+  }
+  const cron = typeof fields.cron === "string" ? fields.cron.trim() : "";
+  const parsed = parseCron(cron);
+  if ("error" in parsed) return parsed;
+  if (!nextCronRun(parsed.cron, new Date())) {
+    return { error: `cron "${cron}" never runs` };
+  }
+  const channels = fields.channels ?? [];
+  if (
+    !Array.isArray(channels) ||
+    !channels.every((channel): channel is string => typeof channel === "string")
+  ) {
+    return { error: "channels must be a list of channel ids" };
+  }
+  const recipients =
+    typeof fields.recipients === "string" ? fields.recipients.trim() : "";
+  const invalid = splitTargets(recipients).find(
+    (address) => !EMAIL.test(address)
+  );
+  if (invalid) return { error: `Invalid email address "${invalid}"` };
+  if (channels.length === 0 && !recipients) {
+    return { error: "Pick a channel or add a recipient to deliver to" };
+  }
+  const formats = fields.formats ?? ["pdf"];
+  if (
+    !Array.isArray(formats) ||
+    formats.length === 0 ||
+    !formats.every(isReportFormat)
+  ) {
+    return {
+      error: `formats must list at least one of: ${REPORT_FORMATS.join(", ")}`,
+    };
+  }
+  const enabled = fields.enabled ?? true;
+  if (typeof enabled !== "boolean") {
+    return { error: "enabled must be true or false" };
+  }
+
+  return {
+    schedule: {
+      name,
+      report: definition.type,
+      period,
+      cron: cron.split(/\s+/).join(" "),
+      channels: Array.from(new Set(channels)),
+      recipients: splitTargets(recipients).join(", "),
+      formats: REPORT_FORMATS.filter((format) => formats.includes(format)),
+      enabled,
+    },
+  };
+};
+
+/**
+ * The channel a schedule's own recipients are emailed through, next to its notification channels
+ */
+export const recipientsChannel = (
+  schedule: ReportSchedule
+): NotificationChannel => ({
+  id: `schedule-${schedule.id}`,
+  name: `${schedule.name} recipients`,
+  type: "email",
+  target: schedule.recipients,
+  template: "",
+  enabled: true,
+});
+
+// SMS are kept within a single 160 character message
+const SMS_LENGTH = 160;
+
+/**
+ * Render a report for a channel: its summary figures, with the files attached on email.
+ * Channel templates only apply to alerts.
+ * @param channel the channel delivered through
+ * @param report the generated report
+ * @param attachments the report files
+ */
+export const buildReportNotification = (
+  channel: NotificationChannel,
+  report: ArchivedReport,
+  attachments: NotificationAttachment[]
+): Notification => {
+  const period = report.period ?? "Snapshot";
+  const subject = `[USSD report] ${report.title}, ${period}`;
+  const figures = report.summary.map(
+    ({ label, value }) => `${label}: ${value}`
+  );
+
+  switch (channel.type) {
+    case "sms": {
+      const message = `USSD ${report.title} (${period}): ${figures.join(", ")}`;
+      return {
+        event: "report",
+        subject,
+        message:
+          message.length > SMS_LENGTH
+            ? `${message.slice(0, SMS_LENGTH - 3)}...`
+            : message,
+        report,
+      };
+    }
+    case "email":
+      return {
+        event: "report",
+        subject,
+        message: [
+          `${report.title}, ${period}, generated ${report.generatedAt}.`,
+          figures.join("\n"),
+          `Attached: ${attachments
+            .map((attachment) => attachment.filename)
+            .join(", ")}`,
+        ].join("\n\n"),
+        report,
+        attachments,
+      };
+    default:
+      return {
+        event: "report",
+        subject,
+        message: `${report.title}, ${period}: ${figures.join(", ")}`,
+        report,
+      };
+  }
+};
@@ -0,0 +1,175 @@
+import { generateSessions } from "./generator";
+import {
+  parseFailureFilter,
+  parseSessionLog,
+  sessionsToCsv,
+  sessionsToNdjson,
+  validateSession,
+} from "./sessions";
+
+const sessions = generateSessions({
+  seed: "sessions",
+  start: "2025-06-01",
+  days: 1,
+  sessionsPerDay: 20,
+});
+
+describe("parseSessionLog", () => {
+  it("reads back what the writers produce", () => {
+    expect(parseSessionLog(sessionsToCsv(sessions), "csv")).toEqual({
+      sessions,
+      rejected: [],
+    });
+    expect(parseSessionLog(sessionsToNdjson(sessions), "ndjson")).toEqual({
+      sessions,
+      rejected: [],
+    });
+  });
+
+  it("reports invalid rows by line number with every reason", () => {
+    const csv = [
+      sessionsToCsv(sessions.slice(0, 1)).trim(),
+      "S2,260971234567,Vodacom,Lusaka,*115#,airtime,*115#,2025-06-01T10:00:00Z,2025-06-01T09:00:00Z,completed,10,,,",
+      "S3,abc,MTN",
+    ].join("\n");
+
+    const { sessions: accepted, rejected } = parseSessionLog(csv, "csv");
+    expect(accepted).toHaveLength(1);
+    expect(rejected).toEqual([
+      {
+        row: 3,
+        reasons: [
+          "msisdnHash looks like an unhashed phone number",
+          "network must be one of MTN, Airtel, Zamtel",
+          "endedAt is before startedAt",
+        ],
+      },
+      { row: 4, reasons: [expect.stringMatching(/Too few fields/)] },
+    ]);
+  });
+
+  it("rejects lines that are not JSON objects", () => {
+    const ndjson = `${JSON.stringify(sessions[0])}\n\n[1]\n{"sessionId":`;
+    expect(parseSessionLog(ndjson, "ndjson").rejected).toEqual([
+      { row: 3, reasons: ["line is not a JSON object"] },
+      { row: 4, reasons: ["line is not valid JSON"] },
+    ]);
+  });
+});
+
+describe("validateSession", () => {
+  it("normalizes enum casing and timestamps", () => {
+    const result = validateSession({
+      ...sessions[0],
+      network: "mtn",
+      outcome: "COMPLETED",
+      startedAt: "2025-06-01 10:00:00Z",
+      endedAt: "2025-06-01 10:00:30Z",
+      screenTimes: undefined,
+    });
+    expect(result).toMatchObject({
+      session: {
+        network: "MTN",
+        outcome: "completed",
+        startedAt: "2025-06-01T10:00:00.000Z",
+      },
+    });
+  });
+
+  it("keeps the failure reason of failed sessions only", () => {
+    const failed = { ...sessions[0], outcome: "failed" };
+    expect(
+      validateSession({ ...failed, failureReason: "GATEWAYERROR" })
+    ).toMatchObject({ session: { failureReason: "gatewayError" } });
+    expect(validateSession({ ...failed, failureReason: "" })).toEqual({
+      session: expect.not.objectContaining({
+        failureReason: expect.anything(),
+      }),
+    });
+    expect(
+      validateSession({ ...failed, failureReason: "network" })
+    ).toMatchObject({
+      errors: [expect.stringMatching(/^failureReason must be one of/)],
+    });
+    expect(
+      validateSession({
+        ...sessions[0],
+        outcome: "completed",
+        failureReason: "userCancel",
+      })
+    ).toEqual({ errors: ["failureReason is only set on failed sessions"] });
+  });
+});
+
+describe("validateSession per screen fields", () => {
+  const unlogged = {
+    ...sessions[0],
+    menuPath: ["*115#", "Buy Airtime", "Confirm"],
+    startedAt: "2025-06-01T10:00:00.000Z",
+    endedAt: "2025-06-01T10:00:30.000Z",
+    inputs: undefined,
+    screenTimes: undefined,
+  };
+
+  it("reads replies and screen times separated like the menu path", () => {
+    expect(
+      validateSession({
+        ...unlogged,
+        inputs: "2>20>1",
+        screenTimes:
+          "2025-06-01T10:00:00Z>2025-06-01T10:00:08Z>2025-06-01T10:00:20Z",
+      })
+    ).toMatchObject({
+      session: {
+        inputs: ["2", "20", "1"],
+        screenTimes: [
+          "2025-06-01T10:00:00.000Z",
+          "2025-06-01T10:00:08.000Z",
+          "2025-06-01T10:00:20.000Z",
+        ],
+      },
+    });
+    expect(validateSession({ ...unlogged, inputs: ">>" })).toEqual({
+      session: expect.not.objectContaining({ inputs: expect.anything() }),
+    });
+  });
+
+  it("rejects replies and times that do not fit the screens", () => {
+    expect(validateSession({ ...unlogged, inputs: ["2", "20"] })).toEqual({
+      errors: ["inputs must have one entry per menuPath screen"],
+    });
+    expect(validateSession({ ...unlogged, inputs: ["2", "abc", "1"] })).toEqual(
+      { errors: ["inputs may only hold digits, *, # and +"] }
+    );
+    expect(
+      validateSession({
+        ...unlogged,
+        screenTimes: [
+          "2025-06-01T10:00:00Z",
+          "2025-06-01T10:00:20Z",
+          "2025-06-01T10:00:08Z",
+        ],
+      })
+    ).toEqual({
+      errors: ["screenTimes must be in order between startedAt and endedAt"],
+    });
+  });
+});
+
+describe("parseFailureFilter", () => {
+  it("defaults to every reason and network", () => {
+    expect(parseFailureFilter({})).toEqual({
+      filter: { reason: "all", network: "all" },
+    });
+    expect(
+      parseFailureFilter({ reason: "unreported", network: "Zamtel" })
+    ).toEqual({ filter: { reason: "unreported", network: "Zamtel" } });
+  });
+
+  it("rejects unknown reasons and networks", () => {
+    expect(parseFailureFilter({ reason: "timeout" })).toHaveProperty("error");
+    expect(parseFailureFilter({ network: "Vodacom" })).toEqual({
+      error: "network must be one of all, MTN, Airtel, Zamtel",
+    });
+  });
+});
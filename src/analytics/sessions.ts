@@ -0,0 +1,457 @@
+import Papa from "papaparse";
+import { FailureSessionFilter } from "../services/types";
+
+/**
+ * Raw USSD session records, the unit every aggregate on the dashboard is computed from.
+ * Shared by the generator, the server and any tooling that reads or writes session logs.
+ */
+
+export type Network = "MTN" | "Airtel" | "Zamtel";
+
+export type UssdService =
+  | "electricity"
+  | "water"
+  | "airtime"
+  | "mobileMoney"
+  | "banking";
+
+/**
+ * completed: transaction went through
+ * failed: reached confirmation but the transaction was declined or errored
+ * abandoned: the user left (or timed out) before confirming
+ */
+export type SessionOutcome = "completed" | "failed" | "abandoned";
+
+/**
+ * Why a failed session was declined, as reported by the gateway.
+ * sessionTimeout and userCancel happen on the confirmation or PIN prompt, earlier ones are abandoned sessions.
+ */
+export type FailureReason =
+  | "sessionTimeout"
+  | "insufficientFunds"
+  | "gatewayError"
+  | "billerUnavailable"
+  | "userCancel"
+  | "invalidInput";
+
+export interface UssdSession {
+  sessionId: string;
+  msisdnHash: string; // subscriber number, hashed before it leaves the gateway
+  network: Network;
+  province: string;
+  serviceCode: string; // dialled short code, e.g. "*115#"
+  service: UssdService;
+  menuPath: string[]; // menu nodes visited in order, starting at the service code
+  startedAt: string; // ISO timestamp
+  endedAt: string; // ISO timestamp
+  outcome: SessionOutcome;
+  amount: number; // ZMW, 0 when nothing was transacted
+  failureReason?: FailureReason; // failed sessions only, missing from older logs
+  // Per screen of `menuPath`, only logged by gateways that record the dialogue
+  inputs?: string[]; // what the user replied to each screen, "" for no reply
+  screenTimes?: string[]; // ISO timestamp each screen was shown at
+}
+
+export const NETWORKS: Network[] = ["MTN", "Airtel", "Zamtel"];
+
+export const USSD_SERVICES: UssdService[] = [
+  "electricity",
+  "water",
+  "airtime",
+  "mobileMoney",
+  "banking",
+];
+
+export const SESSION_OUTCOMES: SessionOutcome[] = [
+  "completed",
+  "failed",
+  "abandoned",
+];
+
+export const FAILURE_REASONS: FailureReason[] = [
+  "sessionTimeout",
+  "insufficientFunds",
+  "gatewayError",
+  "billerUnavailable",
+  "userCancel",
+  "invalidInput",
+];
+
+export const FAILURE_REASON_LABELS: Record<FailureReason, string> = {
+  sessionTimeout: "Session timeout",
+  insufficientFunds: "Insufficient funds",
+  gatewayError: "MNO gateway error",
+  billerUnavailable: "Biller unavailable",
+  userCancel: "User cancel",
+  invalidInput: "Invalid input",
+};
+
+// Most failed sessions a drill down returns, the latest ones
+export const FAILURE_SAMPLE_LIMIT = 20;
+
+export const PROVINCES = [
+  "Lusaka",
+  "Copperbelt",
+  "Southern",
+  "Central",
+  "Eastern",
+  "Northern",
+  "Luapula",
+  "Muchinga",
+  "North-Western",
+  "Western",
+];
+
+// Column order of exported CSV files
+export const SESSION_CSV_COLUMNS: (keyof UssdSession)[] = [
+  "sessionId",
+  "msisdnHash",
+  "network",
+  "province",
+  "serviceCode",
+  "service",
+  "menuPath",
+  "startedAt",
+  "endedAt",
+  "outcome",
+  "amount",
+  "failureReason",
+  "inputs",
+  "screenTimes",
+];
+
+// Separator of menu nodes inside the `menuPath` CSV column, and of the per screen columns
+export const MENU_PATH_SEPARATOR = ">";
+
+/**
+ * Serialize sessions as CSV with a header row
+ * @param sessions the sessions to write
+ */
+export const sessionsToCsv = (sessions: UssdSession[]): string =>
+  Papa.unparse(
+    {
+      fields: SESSION_CSV_COLUMNS,
+      data: sessions.map((session) =>
+        SESSION_CSV_COLUMNS.map((column) => {
+          const value = session[column];
+          return Array.isArray(value) ? value.join(MENU_PATH_SEPARATOR) : value;
+        })
+      ),
+    },
+    { newline: "\n" }
+  ) + "\n";
+
+/**
+ * Serialize sessions as newline delimited JSON, one session per line
+ * @param sessions the sessions to write
+ */
+export const sessionsToNdjson = (sessions: UssdSession[]): string =>
+  sessions.map((session) => JSON.stringify(session)).join("\n") + "\n";
+
+/**
+ * Read the `reason` and `network` query params of the failed sessions endpoint
+ * @param query the parsed query, "all" for a missing param
+ */
+export const parseFailureFilter = (
+  query: Record<string, unknown>
+): { filter: FailureSessionFilter } | { error: string } => {
+  const reason = query.reason === undefined ? "all" : query.reason;
+  const network = query.network === undefined ? "all" : query.network;
+  const reasons = ["all", ...FAILURE_REASONS, "unreported"];
+  if (typeof reason !== "string" || !reasons.includes(reason)) {
+    return { error: `reason must be one of ${reasons.join(", ")}` };
+  }
+  if (
+    typeof network !== "string" ||
+    (network !== "all" && !NETWORKS.includes(network as Network))
+  ) {
+    return { error: `network must be one of all, ${NETWORKS.join(", ")}` };
+  }
+  return {
+    filter: { reason: reason as FailureSessionFilter["reason"], network },
+  };
+};
+
+// --- Ingestion ---
+
+export type SessionLogFormat = "csv" | "ndjson";
+
+/**
+ * A row of an uploaded log that failed validation
+ */
+export interface RejectedRow {
+  row: number; // 1 based line number in the uploaded file
+  reasons: string[];
+}
+
+export interface ParsedSessionLog {
+  sessions: UssdSession[];
+  rejected: RejectedRow[];
+}
+
+export interface SessionSummary {
+  count: number;
+  firstStartedAt: string | null;
+  lastStartedAt: string | null;
+}
+
+/**
+ * Outcome of an upload, returned by the ingest endpoint
+ */
+export interface IngestReport {
+  format: SessionLogFormat;
+  received: number; // data rows in the upload
+  accepted: number; // new sessions stored
+  duplicates: number; // valid rows whose sessionId was already stored
+  rejectedCount: number;
+  rejected: RejectedRow[]; // only the first MAX_REPORTED_REJECTIONS rows
+  summary: SessionSummary; // everything stored after this upload
+}
+
+// Enough to spot a systematic problem without sending back a copy of a broken file
+export const MAX_REPORTED_REJECTIONS = 100;
+
+const SERVICE_CODE_PATTERN = /^\*\d+(\*\d+)*#$/;
+// Hashes are hex or base64, a bare 9-12 digit value is a phone number that slipped through
+const RAW_MSISDN_PATTERN = /^\+?\d{9,12}$/;
+// What a handset keypad can send
+const USSD_INPUT_PATTERN = /^[\d*#+]*$/;
+
+const text = (value: unknown) =>
+  value === undefined || value === null ? "" : String(value).trim();
+
+const matchIgnoringCase = <T extends string>(
+  value: string,
+  allowed: readonly T[]
+): T | undefined =>
+  allowed.find((item) => item.toLowerCase() === value.toLowerCase());
+
+const parseTimestamp = (value: string): string | undefined => {
+  const time = Date.parse(value);
+  return value && !isNaN(time) ? new Date(time).toISOString() : undefined;
+};
+
+/**
+ * Check a raw record against the session schema and normalize it
+ * (case of enums, ISO timestamps, menu path as an array)
+ * @param raw one parsed CSV row or NDJSON object
+ * @returns the session, or every reason it was rejected
+ */
+export const validateSession = (
+  raw: Record<string, unknown>
+): { session: UssdSession } | { errors: string[] } => {
+  const errors: string[] = [];
+
+  const sessionId = text(raw.sessionId);
+  if (!sessionId) errors.push("sessionId is required");
+
+  const msisdnHash = text(raw.msisdnHash);
+  if (!msisdnHash) errors.push("msisdnHash is required");
+  else if (RAW_MSISDN_PATTERN.test(msisdnHash))
+    errors.push("msisdnHash looks like an unhashed phone number");
+
+  const network = matchIgnoringCase(text(raw.network), NETWORKS);
+  if (!network) errors.push(`network must be one of ${NETWORKS.join(", ")}`);
+
+  const province = matchIgnoringCase(text(raw.province), PROVINCES);
+  if (!province) errors.push(`unknown province "${text(raw.province)}"`);
+
+  const serviceCode = text(raw.serviceCode);
+  if (!SERVICE_CODE_PATTERN.test(serviceCode))
+    errors.push(`invalid serviceCode "${serviceCode}"`);
+
+  const service = matchIgnoringCase(text(raw.service), USSD_SERVICES);
+  if (!service)
+    errors.push(`service must be one of ${USSD_SERVICES.join(", ")}`);
+
+  const menuPath = (
+    Array.isArray(raw.menuPath)
+      ? raw.menuPath.map(text)
+      : text(raw.menuPath).split(MENU_PATH_SEPARATOR).map(text)
+  ).filter(Boolean);
+  if (menuPath.length === 0) errors.push("menuPath is empty");
+
+  const startedAt = parseTimestamp(text(raw.startedAt));
+  const endedAt = parseTimestamp(text(raw.endedAt));
+  if (!startedAt) errors.push("startedAt is not a valid timestamp");
+  if (!endedAt) errors.push("endedAt is not a valid timestamp");
+  if (startedAt && endedAt && endedAt < startedAt)
+    errors.push("endedAt is before startedAt");
+
+  const outcome = matchIgnoringCase(text(raw.outcome), SESSION_OUTCOMES);
+  if (!outcome)
+    errors.push(`outcome must be one of ${SESSION_OUTCOMES.join(", ")}`);
+
+  const amount = text(raw.amount) === "" ? 0 : Number(raw.amount);
+  if (!isFinite(amount) || amount < 0)
+    errors.push("amount must be zero or more");
+
+  // Optional, logs exported before gateways reported reasons have none
+  const failureReason = text(raw.failureReason)
+    ? matchIgnoringCase(text(raw.failureReason), FAILURE_REASONS)
+    : undefined;
+  if (text(raw.failureReason) && !failureReason)
+    errors.push(`failureReason must be one of ${FAILURE_REASONS.join(", ")}`);
+  else if (failureReason && outcome && outcome !== "failed")
+    errors.push("failureReason is only set on failed sessions");
+
+  // Optional, one entry per screen when present
+  const perScreen = (value: unknown) =>
+    Array.isArray(value)
+      ? value.map(text)
+      : text(value)
+      ? text(value).split(MENU_PATH_SEPARATOR).map(text)
+      : undefined;
+
+  // A log without a single reply reads the same as one without inputs in CSV
+  const replies = perScreen(raw.inputs);
+  const inputs = replies?.some(Boolean) ? replies : undefined;
+  if (inputs && inputs.length !== menuPath.length)
+    errors.push("inputs must have one entry per menuPath screen");
+  else if (inputs?.some((input) => !USSD_INPUT_PATTERN.test(input)))
+    errors.push("inputs may only hold digits, *, # and +");
+
+  const screenTimes = perScreen(raw.screenTimes)?.map(parseTimestamp);
+  if (screenTimes && screenTimes.length !== menuPath.length)
+    errors.push("screenTimes must have one entry per menuPath screen");
+  else if (screenTimes?.some((time) => !time))
+    errors.push("screenTimes must be valid timestamps");
+  else if (
+    screenTimes &&
+    startedAt &&
+    endedAt &&
+    screenTimes.some(
+      (time, i) =>
+        time! < (i === 0 ? startedAt : screenTimes[i - 1]!) || time! > endedAt
+    )
+  )
+    errors.push("screenTimes must be in order between startedAt and endedAt");
+
+  if (errors.length > 0) return { errors };
+
+  return {
+    session: {
+      sessionId,
+      msisdnHash,
+      network: network!,
+      province: province!,
+      serviceCode,
+      service: service!,
+      menuPath,
+      startedAt: startedAt!,
+      endedAt: endedAt!,
+      outcome: outcome!,
+      amount,
+      ...(failureReason && { failureReason }),
+      ...(inputs && { inputs }),
+      ...(screenTimes && { screenTimes: screenTimes as string[] }),
+    },
+  };
+};
+
+/**
+ * Guess the format of an uploaded log from its file name, then its first character
+ * @param content the file content
+ * @param [fileName] the uploaded file name
+ */
+export const detectSessionLogFormat = (
+  content: string,
+  fileName = ""
+): SessionLogFormat => {
+  if (/\.csv$/i.test(fileName)) return "csv";
+  if (/\.(nd)?jsonl?$/i.test(fileName)) return "ndjson";
+  return content.trimStart().startsWith("{") ? "ndjson" : "csv";
+};
+
+/**
+ * Parse and validate an uploaded session log, invalid rows are reported instead of failing the upload
+ * @param content the file content
+ * @param format csv with a header row, or one JSON object per line
+ */
+export const parseSessionLog = (
+  content: string,
+  format: SessionLogFormat
+): ParsedSessionLog => {
+  const sessions: UssdSession[] = [];
+  const rejected: RejectedRow[] = [];
+
+  const accept = (raw: Record<string, unknown>, row: number) => {
+    const result = validateSession(raw);
+    if ("session" in result) sessions.push(result.session);
+    else rejected.push({ row, reasons: result.errors });
+  };
+
+  if (format === "csv") {
+    const { data, errors } = Papa.parse<Record<string, string>>(content, {
+      header: true,
+      skipEmptyLines: true,
+      transformHeader: (header) => header.trim(),
+    });
+    // Papa reports malformed rows (wrong column count, bad quotes) by data index
+    const malformed = new Map<number, string>();
+    errors.forEach((error) => {
+      if (error.row !== undefined) malformed.set(error.row, error.message);
+    });
+
+    data.forEach((raw, index) => {
+      // + 2 for the header row and 1 based lines
+      const row = index + 2;
+      const parseError = malformed.get(index);
+      if (parseError) rejected.push({ row, reasons: [parseError] });
+      else accept(raw, row);
+    });
+  } else {
+    content.split(/\r?\n/).forEach((line, index) => {
+      if (!line.trim()) return;
+      const row = index + 1;
+      try {
+        const raw = JSON.parse(line);
+        if (raw && typeof raw === "object" && !Array.isArray(raw)) {
+          accept(raw, row);
+        } else {
+          rejected.push({ row, reasons: ["line is not a JSON object"] });
+        }
+      } catch {
+        rejected.push({ row, reasons: ["line is not valid JSON"] });
+      }
+    });
+  }
+
+  return { sessions, rejected };
+};
+
+/**
+ * Count and time span of a set of sessions
+ * @param sessions the sessions, in any order
+ */
+export const summarizeSessions = (sessions: UssdSession[]): SessionSummary => {
+  let first: string | null = null;
+  let last: string | null = null;
+  sessions.forEach(({ startedAt }) => {
+    if (first === null || startedAt < first) first = startedAt;
+    if (last === null || startedAt > last) last = startedAt;
+  });
+  return { count: sessions.length, firstStartedAt: first, lastStartedAt: last };
+};
+
+/**
+ * Build the report returned for an upload
+ * @param format the format the upload was parsed as
+ * @param parsed the parse result
+ * @param stored how many sessions were added and skipped as duplicates
+ * @param summary the stored sessions after the upload
+ */
+export const buildIngestReport = (
+  format: SessionLogFormat,
+  { sessions, rejected }: ParsedSessionLog,
+  stored: { added: number; duplicates: number },
+  summary: SessionSummary
+): IngestReport => ({
+  format,
+  received: sessions.length + rejected.length,
+  accepted: stored.added,
+  duplicates: stored.duplicates,
+  rejectedCount: rejected.length,
+  rejected: rejected.slice(0, MAX_REPORTED_REJECTIONS),
+  summary,
+});
@@ -0,0 +1,111 @@
+import {
+  DEFAULT_SLA_BANDS,
+  formatDuration,
+  parseSlaConfig,
+  SlaConfig,
+  slaBandsFor,
+  slaCompliance,
+  slaStatus,
+} from "./sla";
+import { SuccessRateBucket } from "../services/types";
+
+const config: SlaConfig = {
+  global: DEFAULT_SLA_BANDS,
+  networks: { Zamtel: { excellent: 90, good: 85, fair: 80 } },
+};
+
+const bucket = (
+  rate: number | null,
+  networks: Record<string, number | null>
+): SuccessRateBucket => ({
+  fullDate: "2025-01-06T08:00:00.000Z",
+  minutes: 60,
+  rate,
+  networks,
+});
+
+describe("slaStatus", () => {
+  it("puts each rate in the band whose cutoff it reaches", () => {
+    expect(slaStatus(95, DEFAULT_SLA_BANDS)).toBe("Excellent");
+    expect(slaStatus(94.9, DEFAULT_SLA_BANDS)).toBe("Good");
+    expect(slaStatus(85, DEFAULT_SLA_BANDS)).toBe("Fair");
+    expect(slaStatus(84.9, DEFAULT_SLA_BANDS)).toBe("Poor");
+  });
+});
+
+describe("slaBandsFor", () => {
+  it("falls back to the global bands for networks without an override", () => {
+    expect(slaBandsFor(config, "Zamtel").fair).toBe(80);
+    expect(slaBandsFor(config, "MTN")).toBe(DEFAULT_SLA_BANDS);
+    expect(slaBandsFor(config)).toBe(DEFAULT_SLA_BANDS);
+  });
+});
+
+describe("slaCompliance", () => {
+  it("counts the minutes below each floor, skipping unmeasured buckets", () => {
+    const { overall, networks } = slaCompliance(
+      [
+        bucket(90, { MTN: 92, Airtel: 84, Zamtel: 82 }),
+        bucket(80, { MTN: 70, Airtel: null, Zamtel: 79 }),
+        bucket(null, { MTN: null, Airtel: null, Zamtel: null }),
+      ],
+      config
+    );
+
+    expect(overall).toEqual({ minutesBelow: 60, minutesMeasured: 120 });
+    expect(networks.MTN).toEqual({ minutesBelow: 60, minutesMeasured: 120 });
+    expect(networks.Airtel).toEqual({ minutesBelow: 60, minutesMeasured: 60 });
+    expect(networks.Zamtel).toEqual({ minutesBelow: 60, minutesMeasured: 120 });
+  });
+});
+
+describe("formatDuration", () => {
+  it("keeps the two largest units", () => {
+    expect(formatDuration(0)).toBe("0m");
+    expect(formatDuration(45)).toBe("45m");
+    expect(formatDuration(330)).toBe("5h 30m");
+    expect(formatDuration(120)).toBe("2h");
+    expect(formatDuration(3 * 24 * 60 + 4 * 60 + 15)).toBe("3d 4h");
+  });
+});
+
+describe("parseSlaConfig", () => {
+  it("accepts bands and defaults the network overrides", () => {
+    expect(
+      parseSlaConfig({ global: { excellent: 97, good: 93, fair: 88 } })
+    ).toEqual({
+      config: {
+        global: { excellent: 97, good: 93, fair: 88 },
+        networks: {},
+      },
+    });
+    expect(parseSlaConfig(config)).toEqual({ config });
+  });
+
+  it("rejects cutoffs out of range or out of order and unknown networks", () => {
+    expect(
+      parseSlaConfig({ global: { excellent: 101, good: 90, fair: 85 } })
+    ).toHaveProperty("error");
+    expect(
+      parseSlaConfig({ global: { excellent: 90, good: 95, fair: 85 } })
+    ).toEqual({
+      error: "global: cutoffs must not increase from excellent to good to fair",
+    });
+    expect(
+      parseSlaConfig({
+        global: DEFAULT_SLA_BANDS,
+        networks: { Vodafone: DEFAULT_SLA_BANDS },
+      })
+    ).toEqual({ error: 'networks: unknown network "Vodafone"' });
+  });
+
+  it("rejects bodies and bands that are not objects", () => {
+    expect(parseSlaConfig(null)).toHaveProperty("error");
+    expect(
+      parseSlaConfig({ global: DEFAULT_SLA_BANDS, networks: { MTN: 95 } })
+    ).toEqual({
+      error:
+        "MTN: excellent, good and fair must be percentages between 0 and 100",
+    });
+  });
+});
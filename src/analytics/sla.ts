@@ -0,0 +1,160 @@
+import { NETWORKS } from "./sessions";
+import { SuccessRateBucket } from "../services/types";
+
+/**
+ * Success rate SLA bands: Excellent, Good and Fair from their cutoff up, Poor below the Fair cutoff.
+ * The Fair cutoff is the contractual minimum, time spent Poor is time below SLA.
+ * Each network can have its own bands, the global ones apply to the overall rate and networks without any.
+ */
+
+export interface SlaBands {
+  excellent: number;
+  good: number;
+  fair: number; // the SLA floor
+}
+
+export interface SlaConfig {
+  global: SlaBands;
+  networks: Record<string, SlaBands>; // overrides by network name
+}
+
+export type SlaStatus = "Excellent" | "Good" | "Fair" | "Poor";
+
+export const DEFAULT_SLA_BANDS: SlaBands = {
+  excellent: 95,
+  good: 90,
+  fair: 85,
+};
+
+export const DEFAULT_SLA_CONFIG: SlaConfig = {
+  global: DEFAULT_SLA_BANDS,
+  networks: {},
+};
+
+/**
+ * Bands a network is held to, the global ones when it has no override
+ * @param config the configured bands
+ * @param [network] a network name, the global bands when omitted
+ */
+export const slaBandsFor = (config: SlaConfig, network?: string): SlaBands =>
+  (network !== undefined && config.networks[network]) || config.global;
+
+export const slaStatus = (rate: number, bands: SlaBands): SlaStatus => {
+  if (rate >= bands.excellent) return "Excellent";
+  if (rate >= bands.good) return "Good";
+  if (rate >= bands.fair) return "Fair";
+  return "Poor";
+};
+
+export interface SlaCompliance {
+  minutesBelow: number; // in buckets under the SLA floor
+  minutesMeasured: number; // in buckets with at least one concluded transaction
+}
+
+/**
+ * Time spent below SLA over a success rate timeline, overall and per network
+ * @param timeline the buckets of the success rate response
+ * @param config the configured bands
+ */
+export const slaCompliance = (
+  timeline: readonly SuccessRateBucket[],
+  config: SlaConfig
+): { overall: SlaCompliance; networks: Record<string, SlaCompliance> } => {
+  const tally = (
+    rateOf: (bucket: SuccessRateBucket) => number | null | undefined,
+    bands: SlaBands
+  ) =>
+    timeline.reduce(
+      (compliance, bucket) => {
+        const rate = rateOf(bucket);
+        if (rate === null || rate === undefined) return compliance;
+        return {
+          minutesBelow:
+            compliance.minutesBelow + (rate < bands.fair ? bucket.minutes : 0),
+          minutesMeasured: compliance.minutesMeasured + bucket.minutes,
+        };
+      },
+      { minutesBelow: 0, minutesMeasured: 0 }
+    );
+
+  return {
+    overall: tally((bucket) => bucket.rate, config.global),
+    networks: Object.fromEntries(
+      NETWORKS.map((network) => [
+        network,
+        tally(
+          (bucket) => bucket.networks[network],
+          slaBandsFor(config, network)
+        ),
+      ])
+    ),
+  };
+};
+
+/**
+ * `3d 4h`, `5h 30m` or `45m`
+ */
+export const formatDuration = (minutes: number) => {
+  const days = Math.floor(minutes / (24 * 60));
+  const hours = Math.floor((minutes % (24 * 60)) / 60);
+  const rest = Math.round(minutes % 60);
+  if (days > 0) return hours ? `${days}d ${hours}h` : `${days}d`;
+  if (hours > 0) return rest ? `${hours}h ${rest}m` : `${hours}h`;
+  return `${rest}m`;
+};
+
+const isPercentage = (value: unknown): value is number =>
+  typeof value === "number" && value >= 0 && value <= 100;
+
+/**
+ * Read the cutoffs of one set of bands
+ * @param value the bands sent
+ * @param label where they were sent, for the error
+ */
+const parseBands = (
+  value: unknown,
+  label: string
+): { bands: SlaBands } | { error: string } => {
+  const { excellent, good, fair }: Record<string, unknown> =
+    typeof value === "object" && value !== null ? { ...value } : {};
+  if (!isPercentage(excellent) || !isPercentage(good) || !isPercentage(fair)) {
+    return {
+      error: `${label}: excellent, good and fair must be percentages between 0 and 100`,
+    };
+  }
+  if (!(excellent >= good && good >= fair)) {
+    return {
+      error: `${label}: cutoffs must not increase from excellent to good to fair`,
+    };
+  }
+  return { bands: { excellent, good, fair } };
+};
+
+/**
+ * Check an SLA configuration sent by a client
+ * @param body the parsed json body
+ */
+export const parseSlaConfig = (
+  body: unknown
+): { config: SlaConfig } | { error: string } => {
+  const fields: Record<string, unknown> =
+    typeof body === "object" && body !== null ? { ...body } : {};
+  const globalBands = parseBands(fields.global, "global");
+  if ("error" in globalBands) return globalBands;
+
+  const networks = fields.networks ?? {};
+  if (typeof networks !== "object" || Array.isArray(networks)) {
+    return { error: "networks must map network names to bands" };
+  }
+  const overrides: Record<string, SlaBands> = {};
+  for (const [network, bands] of Object.entries(networks)) {
+    if (!(NETWORKS as readonly string[]).includes(network)) {
+      return { error: `networks: unknown network "${network}"` };
+    }
+    const result = parseBands(bands, network);
+    if ("error" in result) return result;
+    overrides[network] = result.bands;
+  }
+
+  return { config: { global: globalBands.bands, networks: overrides } };
+};
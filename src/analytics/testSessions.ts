@@ -0,0 +1,21 @@
+import { UssdSession } from "./sessions";
+
+/**
+ * A completed electricity payment for the tests, with the fields a test cares about overridden
+ */
+export const testSession = (
+  overrides: Partial<UssdSession> = {}
+): UssdSession => ({
+  sessionId: "S1",
+  msisdnHash: "a1b2c3d4",
+  network: "MTN",
+  province: "Lusaka",
+  serviceCode: "*115#",
+  service: "electricity",
+  menuPath: ["*115#", "Pay Bills", "Electricity", "Meter No", "Confirm"],
+  startedAt: "2025-01-06T08:00:00.000Z",
+  endedAt: "2025-01-06T08:00:50.000Z",
+  outcome: "completed",
+  amount: 150,
+  ...overrides,
+});
@@ -0,0 +1,105 @@
+import {
+  maskMsisdn,
+  matchesTickerFilter,
+  mergeTickerSessions,
+  sessionsPerMinute,
+  TICKER_HISTORY,
+  TickerSession,
+  toTickerSession,
+} from "./ticker";
+import { testSession } from "./testSessions";
+
+const session = testSession({
+  service: "airtime",
+  menuPath: ["*115#", "Airtime", "Confirm"],
+  endedAt: "2025-01-06T08:00:30.000Z",
+  amount: 10,
+});
+
+const ticker = (sessionId: string, endedAt: string): TickerSession => ({
+  ...toTickerSession(session),
+  sessionId,
+  endedAt,
+});
+
+describe("toTickerSession", () => {
+  it("masks the subscriber and reports seconds per screen", () => {
+    expect(toTickerSession(session)).toEqual({
+      sessionId: "S1",
+      msisdn: "a1b•••d4",
+      network: "MTN",
+      province: "Lusaka",
+      service: "airtime",
+      menuDepth: 3,
+      outcome: "completed",
+      latency: 10,
+      endedAt: "2025-01-06T08:00:30.000Z",
+    });
+  });
+
+  it("hides short hashes entirely", () => {
+    expect(maskMsisdn("abc")).toBe("•••");
+  });
+});
+
+describe("mergeTickerSessions", () => {
+  it("keeps the newest sessions first without repeating any", () => {
+    const current = [ticker("S2", "2025-01-06T08:02:00.000Z")];
+    const merged = mergeTickerSessions(current, [
+      ticker("S3", "2025-01-06T08:03:00.000Z"),
+      ticker("S2", "2025-01-06T08:02:00.000Z"),
+      ticker("S1", "2025-01-06T08:01:00.000Z"),
+    ]);
+    expect(merged.map(({ sessionId }) => sessionId)).toEqual([
+      "S3",
+      "S2",
+      "S1",
+    ]);
+  });
+
+  it("drops the oldest beyond the history", () => {
+    const incoming = Array.from({ length: TICKER_HISTORY + 5 }, (_, i) =>
+      ticker(`S${i}`, new Date(Date.UTC(2025, 0, 6, 8, 0, i)).toISOString())
+    );
+    const merged = mergeTickerSessions([], incoming);
+    expect(merged).toHaveLength(TICKER_HISTORY);
+    expect(merged[0].sessionId).toBe(`S${TICKER_HISTORY + 4}`);
+  });
+});
+
+describe("sessionsPerMinute", () => {
+  it("counts the sessions of each network that ended in the last minute", () => {
+    const now = Date.parse("2025-01-06T08:01:00.000Z");
+    expect(
+      sessionsPerMinute(
+        [
+          { network: "MTN", endedAt: "2025-01-06T08:00:30.000Z" },
+          { network: "MTN", endedAt: "2025-01-06T08:01:00.000Z" },
+          { network: "Airtel", endedAt: "2025-01-06T08:00:00.000Z" },
+          { network: "Zamtel", endedAt: "2025-01-06T08:01:30.000Z" },
+        ],
+        now
+      )
+    ).toEqual({ MTN: 2, Airtel: 0, Zamtel: 0 });
+  });
+});
+
+describe("matchesTickerFilter", () => {
+  it("matches every dimension that is not all", () => {
+    const shown = toTickerSession(session);
+    expect(
+      matchesTickerFilter(shown, {
+        network: "all",
+        service: "all",
+        outcome: "all",
+      })
+    ).toBe(true);
+    expect(
+      matchesTickerFilter(shown, {
+        network: "MTN",
+        service: "airtime",
+        outcome: "failed",
+      })
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,126 @@
+import {
+  Network,
+  NETWORKS,
+  SessionOutcome,
+  UssdService,
+  UssdSession,
+} from "./sessions";
+
+/**
+ * Rolling stream of the latest sessions for the live ticker, with their rate per network.
+ * Only what ops need to watch traffic leaves the server, subscriber hashes are masked.
+ */
+
+export interface TickerSession {
+  sessionId: string;
+  msisdn: string; // masked hash
+  network: Network;
+  province: string;
+  service: UssdService;
+  menuDepth: number; // menu screens visited
+  outcome: SessionOutcome;
+  latency: number; // seconds per menu screen
+  endedAt: string; // ISO timestamp
+}
+
+/**
+ * Sessions that arrived since the previous event, newest first, and the current rates
+ */
+export interface TickerUpdate {
+  sessions: TickerSession[];
+  rates: Record<Network, number>; // sessions per minute
+}
+
+/**
+ * Sessions shown on the ticker, any dimension can be "all"
+ */
+export interface TickerFilter {
+  network: Network | "all";
+  service: UssdService | "all";
+  outcome: SessionOutcome | "all";
+}
+
+// Sessions kept by the ticker, and most sent for one upload so bulk imports do not flood it
+export const TICKER_HISTORY = 100;
+
+// Rates count the sessions that ended in this trailing window
+export const TICKER_RATE_WINDOW_MS = 60 * 1000;
+
+/**
+ * Keep the first 3 and last 2 characters of a subscriber hash
+ */
+export const maskMsisdn = (hash: string) =>
+  hash.length > 6 ? `${hash.slice(0, 3)}•••${hash.slice(-2)}` : "•••";
+
+/**
+ * Reduce a session to what the ticker shows
+ */
+export const toTickerSession = (session: UssdSession): TickerSession => ({
+  sessionId: session.sessionId,
+  msisdn: maskMsisdn(session.msisdnHash),
+  network: session.network,
+  province: session.province,
+  service: session.service,
+  menuDepth: session.menuPath.length,
+  outcome: session.outcome,
+  latency:
+    Math.round(
+      (Date.parse(session.endedAt) - Date.parse(session.startedAt)) /
+        session.menuPath.length /
+        100
+    ) / 10,
+  endedAt: session.endedAt,
+});
+
+/**
+ * Merge sessions into the ticker, newest first and at most TICKER_HISTORY
+ * @param current sessions shown so far
+ * @param incoming new sessions, in any order
+ */
+export const mergeTickerSessions = (
+  current: TickerSession[],
+  incoming: TickerSession[]
+): TickerSession[] => {
+  const known = new Set(current.map((session) => session.sessionId));
+  return [
+    ...incoming.filter((session) => !known.has(session.sessionId)),
+    ...current,
+  ]
+    .sort((a, b) => b.endedAt.localeCompare(a.endedAt))
+    .slice(0, TICKER_HISTORY);
+};
+
+/**
+ * Sessions per minute of each network, over the TICKER_RATE_WINDOW_MS before `now`
+ * @param sessions sessions to count, older ones are ignored
+ * @param now end of the window, ms since epoch
+ */
+export const sessionsPerMinute = (
+  sessions: Pick<UssdSession, "network" | "endedAt">[],
+  now: number
+): Record<Network, number> => {
+  const rates = Object.fromEntries(
+    NETWORKS.map((network) => [network, 0])
+  ) as Record<Network, number>;
+  sessions.forEach(({ network, endedAt }) => {
+    const ended = Date.parse(endedAt);
+    if (ended > now - TICKER_RATE_WINDOW_MS && ended <= now) rates[network]++;
+  });
+  NETWORKS.forEach((network) => {
+    rates[network] =
+      Math.round((rates[network] * 60 * 1000 * 10) / TICKER_RATE_WINDOW_MS) /
+      10;
+  });
+  return rates;
+};
+
+/**
+ * Whether a session passes the filter of the ticker
+ */
+export const matchesTickerFilter = (
+  session: TickerSession,
+  { network, service, outcome }: TickerFilter
+) =>
+  (network === "all" || session.network === network) &&
+  (service === "all" || session.service === service) &&
+  (outcome === "all" || session.outcome === outcome);
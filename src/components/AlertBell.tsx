@@ -0,0 +1,156 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Bell, Check, Settings } from "lucide-react";
+import { useDashboardNavigation } from "./DashboardLayout";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import { describeRule } from "../analytics/alerts";
+
+// The server evaluates every minute, polling more often shows nothing new
+const POLL_INTERVAL_MS = 30 * 1000;
+
+export const formatIncidentTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-US", {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * Header bell listing the open alert incidents, the badge counts the ones nobody acknowledged yet
+ */
+const AlertBell: React.FC = () => {
+  const { name: profile } = useApiProfile();
+  const navigate = useDashboardNavigation();
+  const { data: incidents = [], refresh } = useQuery(
+    "alerts/incidents/open",
+    (signal) => api.getAlertIncidents("open", { signal })
+  );
+  const [isOpen, setIsOpen] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const interval = setInterval(refresh, POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [refresh]);
+
+  // Close when clicking anywhere outside the panel
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!panelRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const active = incidents.filter((incident) => incident.status === "active");
+
+  const handleAcknowledge = async (id: string) => {
+    setActionError(null);
+    try {
+      await api.acknowledgeIncident(id);
+      // The open list here and the history on the alerts tab
+      queryCache.invalidate(`${profile}:alerts/`);
+    } catch (error) {
+      setActionError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        title="Alerts"
+        className="relative p-2 rounded-lg text-gray-600 hover:bg-gray-100 transition-colors"
+      >
+        <Bell className="w-5 h-5" />
+        {active.length > 0 && (
+          <span className="absolute -top-0.5 -right-0.5 min-w-[18px] h-[18px] px-1 flex items-center justify-center rounded-full bg-red-600 text-white text-[10px] font-bold">
+            {active.length}
+          </span>
+        )}
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute right-0 mt-2 w-96 bg-white rounded-xl shadow-xl border border-gray-200 p-4 z-50"
+          >
+            <h3 className="font-bold text-gray-900 mb-1">Alerts</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              {incidents.length === 0
+                ? "No open incidents"
+                : `${active.length} active, ${
+                    incidents.length - active.length
+                  } acknowledged`}
+            </p>
+
+            <div className="space-y-2 max-h-96 overflow-auto">
+              {incidents.map((incident) => (
+                <div
+                  key={incident.id}
+                  className={`p-3 rounded-lg border ${
+                    incident.status === "active"
+                      ? "border-red-200 bg-red-50"
+                      : "border-gray-200 bg-gray-50"
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900">
+                        {incident.rule.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {describeRule(incident.rule)}
+                      </div>
+                    </div>
+                    {incident.status === "active" ? (
+                      <button
+                        onClick={() => handleAcknowledge(incident.id)}
+                        className="flex-shrink-0 px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+                      >
+                        Acknowledge
+                      </button>
+                    ) : (
+                      <Check className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                    )}
+                  </div>
+                  <div className="mt-1 text-xs text-gray-600">
+                    Now {incident.value}, worst {incident.worstValue}, since{" "}
+                    {formatIncidentTime(incident.openedAt)}
+                  </div>
+                </div>
+              ))}
+            </div>
+            {actionError && (
+              <p className="mt-2 text-xs text-red-600">{actionError}</p>
+            )}
+
+            <button
+              onClick={() => {
+                navigate("alerts");
+                setIsOpen(false);
+              }}
+              className="mt-3 w-full flex items-center justify-center gap-2 px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors"
+            >
+              <Settings className="w-4 h-4" />
+              Manage alert rules
+            </button>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default AlertBell;
@@ -0,0 +1,395 @@
+import React, { useState } from "react";
+import { BellRing, Plus, Trash2 } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import NotificationChannels from "./NotificationChannels";
+import { formatIncidentTime } from "./AlertBell";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import {
+  ALERT_METRICS,
+  ALERT_METRIC_LABELS,
+  ALERT_OPERATORS,
+  AlertMetric,
+  AlertOperator,
+  AlertRule,
+  AlertRuleInput,
+  ALL_SCOPE,
+  describeRule,
+  IncidentStatus,
+  MAX_WINDOW_MINUTES,
+} from "../analytics/alerts";
+import { DEFAULT_SLA_BANDS } from "../analytics/sla";
+import { NETWORKS, PROVINCES } from "../analytics/sessions";
+
+const STATUS_STYLES: Record<IncidentStatus, string> = {
+  active: "bg-red-100 text-red-700",
+  acknowledged: "bg-amber-100 text-amber-700",
+  resolved: "bg-green-100 text-green-700",
+};
+
+/**
+ * Alert rules evaluated by the server on every aggregation cycle, and the incidents they opened
+ */
+const AlertRules: React.FC = () => {
+  const { name: profile } = useApiProfile();
+  const {
+    data: rules = [],
+    error: rulesError,
+    refresh: refreshRules,
+  } = useQuery("alerts/rules", (signal) => api.getAlertRules({ signal }));
+  const { data: channels = [] } = useQuery("alerts/channels", (signal) =>
+    api.getNotificationChannels({ signal })
+  );
+  const {
+    data: incidents = [],
+    error: incidentsError,
+    isFetching,
+    updatedAt,
+    refresh: refreshIncidents,
+  } = useQuery("alerts/incidents/all", (signal) =>
+    api.getAlertIncidents("all", { signal })
+  );
+
+  const [name, setName] = useState("");
+  const [metric, setMetric] = useState<AlertMetric>("successRate");
+  const [operator, setOperator] = useState<AlertOperator>("<");
+  const [threshold, setThreshold] = useState(DEFAULT_SLA_BANDS.good);
+  const [windowMinutes, setWindowMinutes] = useState(15);
+  const [network, setNetwork] = useState(ALL_SCOPE);
+  const [province, setProvince] = useState(ALL_SCOPE);
+  const [ruleChannels, setRuleChannels] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<unknown>();
+
+  // Rule changes are evaluated straight away, so incidents may have opened or resolved too
+  const mutate = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setActionError(undefined);
+    try {
+      await action();
+      queryCache.invalidate(`${profile}:alerts/`);
+      return true;
+    } catch (error) {
+      setActionError(error);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const rule: AlertRuleInput = {
+      name,
+      metric,
+      operator,
+      threshold,
+      windowMinutes,
+      network,
+      province,
+      enabled: true,
+      channels: ruleChannels,
+    };
+    if (await mutate(() => api.saveAlertRule(rule))) setName("");
+  };
+
+  const channelNames = (ids: string[]) =>
+    ids
+      .map((id) => channels.find((channel) => channel.id === id)?.name)
+      .filter(Boolean)
+      .join(", ");
+
+  const toggleRule = ({ id, ...rule }: AlertRule) =>
+    mutate(() => api.saveAlertRule({ ...rule, enabled: !rule.enabled }, id));
+
+  const loadError = rulesError ?? incidentsError;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {loadError !== undefined && (
+          <ErrorBanner
+            error={loadError}
+            onRetry={() => {
+              refreshRules();
+              refreshIncidents();
+            }}
+          />
+        )}
+        {actionError !== undefined && <ErrorBanner error={actionError} />}
+
+        {/* Header */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+          <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl">
+                  <BellRing className="w-6 h-6 text-white" />
+                </div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+                  Alerts
+                </h1>
+              </div>
+              <p className="text-gray-600">
+                Rules checked by the server every aggregation cycle over their
+                trailing window
+              </p>
+            </div>
+            <RefreshButton
+              isFetching={isFetching}
+              updatedAt={updatedAt}
+              onRefresh={() => {
+                refreshRules();
+                refreshIncidents();
+              }}
+            />
+          </div>
+        </div>
+
+        {/* Rules */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+          <h2 className="text-lg font-bold text-gray-900">Rules</h2>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Rule name, e.g. MTN success rate"
+              className="sm:col-span-2 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            />
+            <label className="text-sm text-gray-600">
+              Metric
+              <select
+                value={metric}
+                onChange={(e) => setMetric(e.target.value as AlertMetric)}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              >
+                {ALERT_METRICS.map((value) => (
+                  <option key={value} value={value}>
+                    {ALERT_METRIC_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <div className="grid grid-cols-2 gap-2">
+              <label className="text-sm text-gray-600">
+                When
+                <select
+                  value={operator}
+                  onChange={(e) => setOperator(e.target.value as AlertOperator)}
+                  className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+                >
+                  {ALERT_OPERATORS.map((value) => (
+                    <option key={value} value={value}>
+                      {value}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="text-sm text-gray-600">
+                Threshold
+                <input
+                  type="number"
+                  value={threshold}
+                  onChange={(e) => setThreshold(Number(e.target.value))}
+                  className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+                />
+              </label>
+            </div>
+            <label className="text-sm text-gray-600">
+              Window (minutes)
+              <input
+                type="number"
+                min={1}
+                max={MAX_WINDOW_MINUTES}
+                value={windowMinutes}
+                onChange={(e) => setWindowMinutes(Number(e.target.value))}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              Network
+              <select
+                value={network}
+                onChange={(e) => setNetwork(e.target.value)}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              >
+                <option value={ALL_SCOPE}>All networks</option>
+                {NETWORKS.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Province
+              <select
+                value={province}
+                onChange={(e) => setProvince(e.target.value)}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              >
+                <option value={ALL_SCOPE}>All provinces</option>
+                {PROVINCES.map((value) => (
+                  <option key={value} value={value}>
+                    {value}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={handleAdd}
+              disabled={isSaving || !name.trim()}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              <Plus className="w-4 h-4" />
+              Add rule
+            </button>
+          </div>
+          {channels.length > 0 && (
+            <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+              <span>Notify</span>
+              {channels.map((channel) => (
+                <label key={channel.id} className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={ruleChannels.includes(channel.id)}
+                    onChange={(e) =>
+                      setRuleChannels(
+                        e.target.checked
+                          ? [...ruleChannels, channel.id]
+                          : ruleChannels.filter((id) => id !== channel.id)
+                      )
+                    }
+                  />
+                  {channel.name}
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            {rules.length === 0 && (
+              <p className="text-sm text-gray-500">No alert rules yet.</p>
+            )}
+            {rules.map((rule) => (
+              <div
+                key={rule.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-xl border border-gray-200"
+              >
+                <div className={rule.enabled ? "" : "opacity-50"}>
+                  <div className="font-medium text-gray-900">{rule.name}</div>
+                  <div className="text-xs text-gray-500">
+                    {describeRule(rule)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    {rule.channels.length > 0
+                      ? `Notifies ${channelNames(rule.channels)}`
+                      : "No notifications"}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      disabled={isSaving}
+                      onChange={() => toggleRule(rule)}
+                    />
+                    Enabled
+                  </label>
+                  <button
+                    onClick={() => mutate(() => api.deleteAlertRule(rule.id))}
+                    disabled={isSaving}
+                    title="Delete rule"
+                    className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <NotificationChannels />
+
+        {/* Incident history */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+          <h2 className="text-lg font-bold text-gray-900 mb-4">
+            Incident history
+          </h2>
+          {incidents.length === 0 ? (
+            <p className="text-sm text-gray-500">No incidents so far.</p>
+          ) : (
+            <div className="max-h-[600px] overflow-auto rounded-xl border border-gray-200">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Rule</th>
+                    <th className="px-4 py-2 font-medium">Opened</th>
+                    <th className="px-4 py-2 font-medium">Resolved</th>
+                    <th className="px-4 py-2 font-medium text-right">
+                      Latest / worst
+                    </th>
+                    <th className="px-4 py-2 font-medium text-right">Status</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {incidents.map((incident) => (
+                    <tr key={incident.id} className="border-t border-gray-100">
+                      <td className="px-4 py-2">
+                        <div className="font-medium text-gray-900">
+                          {incident.rule.name}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {describeRule(incident.rule)}
+                        </div>
+                      </td>
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {formatIncidentTime(incident.openedAt)}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {incident.resolvedAt
+                          ? formatIncidentTime(incident.resolvedAt)
+                          : "-"}
+                      </td>
+                      <td className="px-4 py-2 text-right text-gray-900">
+                        {incident.value} / {incident.worstValue}
+                      </td>
+                      <td className="px-4 py-2 text-right whitespace-nowrap">
+                        {incident.status === "active" ? (
+                          <button
+                            onClick={() =>
+                              mutate(() => api.acknowledgeIncident(incident.id))
+                            }
+                            disabled={isSaving}
+                            className="px-2 py-1 text-xs font-medium rounded-lg border border-gray-300 bg-white hover:bg-gray-50"
+                          >
+                            Acknowledge
+                          </button>
+                        ) : (
+                          <span
+                            className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${
+                              STATUS_STYLES[incident.status]
+                            }`}
+                          >
+                            {incident.status}
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AlertRules;
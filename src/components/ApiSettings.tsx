@@ -0,0 +1,92 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Check, Server, Settings } from "lucide-react";
+import {
+  getProfiles,
+  setActiveProfile,
+  useApiProfile,
+} from "../services/config";
+
+/**
+ * Header settings panel for choosing which analytics backend the dashboard talks to
+ */
+const ApiSettings: React.FC = () => {
+  const activeProfile = useApiProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const panelRef = useRef<HTMLDivElement>(null);
+
+  // Close when clicking anywhere outside the panel
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!panelRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  return (
+    <div ref={panelRef} className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 rounded-lg text-sm text-gray-600 hover:bg-gray-100 transition-colors"
+      >
+        <Server className="w-4 h-4" />
+        <span className="font-medium">{activeProfile.label}</span>
+        <Settings className="w-4 h-4 text-gray-400" />
+      </button>
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute right-0 mt-2 w-80 bg-white rounded-xl shadow-xl border border-gray-200 p-4 z-50"
+          >
+            <h3 className="font-bold text-gray-900 mb-1">API Environment</h3>
+            <p className="text-xs text-gray-500 mb-3">
+              Saved in this browser only
+            </p>
+
+            <div className="space-y-2">
+              {getProfiles().map((profile) => {
+                const isActive = profile.name === activeProfile.name;
+                return (
+                  <button
+                    key={profile.name}
+                    onClick={() => {
+                      setActiveProfile(profile.name);
+                      setIsOpen(false);
+                    }}
+                    className={`w-full flex items-start gap-3 p-3 rounded-lg border text-left transition-all ${
+                      isActive
+                        ? "border-blue-300 bg-blue-50"
+                        : "border-gray-200 hover:bg-gray-50"
+                    }`}
+                  >
+                    <div className="w-4 h-4 mt-0.5 flex-shrink-0">
+                      {isActive && <Check className="w-4 h-4 text-blue-600" />}
+                    </div>
+                    <div className="min-w-0">
+                      <div className="text-sm font-medium text-gray-900">
+                        {profile.label}
+                      </div>
+                      <div className="text-xs text-gray-500 truncate">
+                        {profile.baseUrl || "Not configured"}
+                      </div>
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default ApiSettings;
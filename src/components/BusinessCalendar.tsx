@@ -0,0 +1,368 @@
+import React, { useState } from "react";
+import {
+  CalendarDays,
+  ChevronLeft,
+  ChevronRight,
+  Plus,
+  Trash2,
+  Wallet,
+} from "lucide-react";
+import { Holiday } from "../analytics/holidays";
+import {
+  MAX_WINDOW_DAYS,
+  ordinal,
+  RollRule,
+  ROLL_LABELS,
+} from "../analytics/payCycle";
+import {
+  addCustomEvent,
+  removeCustomEvent,
+  useCustomEvents,
+  useHolidayCalendar,
+} from "../services/calendar";
+import {
+  addPayDate,
+  removePayDate,
+  usePayCycle,
+  usePayDates,
+} from "../services/payCycle";
+
+const formatDay = (date: string, withWeekday = true) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString("en-US", {
+    ...(withWeekday && { weekday: "short" }),
+    month: "short",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+/**
+ * Public holidays and custom events flagged on the revenue, volume and peak hours charts,
+ * and the pay dates driving the revenue peak days
+ */
+const BusinessCalendar: React.FC = () => {
+  const calendar = useHolidayCalendar();
+  const events = useCustomEvents();
+  const payDates = usePayDates();
+  const payCycle = usePayCycle();
+  const [year, setYear] = useState(() => new Date().getFullYear());
+  const [name, setName] = useState("");
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [recurring, setRecurring] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+  const [payName, setPayName] = useState("");
+  const [payDay, setPayDay] = useState(25);
+  const [roll, setRoll] = useState<RollRule>("previous");
+  const [windowDays, setWindowDays] = useState(5);
+  const [payError, setPayError] = useState<string | null>(null);
+
+  const holidays = calendar.holidaysIn(year);
+
+  const handleAdd = () => {
+    const error = addCustomEvent({ name, start, end: end || start, recurring });
+    setFormError(error);
+    if (!error) {
+      setName("");
+      setStart("");
+      setEnd("");
+      setRecurring(false);
+    }
+  };
+
+  const handleAddPayDate = () => {
+    const error = addPayDate({
+      name: payName,
+      dayOfMonth: payDay,
+      roll,
+      windowDays,
+    });
+    setPayError(error);
+    if (!error) setPayName("");
+  };
+
+  const kindBadge = (holiday: Holiday) =>
+    holiday.kind === "national" ? (
+      <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full font-medium">
+        National
+      </span>
+    ) : (
+      <span className="text-xs px-2 py-1 bg-amber-100 text-amber-700 rounded-full font-medium">
+        Custom
+      </span>
+    );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+          <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl">
+                  <CalendarDays className="w-6 h-6 text-white" />
+                </div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+                  Business Calendar
+                </h1>
+              </div>
+              <p className="text-gray-600">
+                Zambian public holidays and custom events flagged on the charts
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <button
+                onClick={() => setYear(year - 1)}
+                title="Previous year"
+                className="p-2 rounded-xl border border-gray-300 hover:bg-gray-50"
+              >
+                <ChevronLeft className="w-4 h-4" />
+              </button>
+              <span className="px-4 py-2 font-bold text-gray-900">{year}</span>
+              <button
+                onClick={() => setYear(year + 1)}
+                title="Next year"
+                className="p-2 rounded-xl border border-gray-300 hover:bg-gray-50"
+              >
+                <ChevronRight className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Holidays of the year */}
+          <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+            <h2 className="text-lg font-bold text-gray-900 mb-4">
+              Holidays in {year}
+            </h2>
+            <div className="max-h-[600px] overflow-auto rounded-xl border border-gray-200">
+              <table className="w-full text-sm">
+                <tbody>
+                  {holidays.map((holiday) => (
+                    <tr
+                      key={`${holiday.date}-${holiday.name}`}
+                      className="border-t border-gray-100 first:border-t-0"
+                    >
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {formatDay(holiday.date)}
+                      </td>
+                      <td className="px-4 py-2 font-medium text-gray-900">
+                        {holiday.name}
+                      </td>
+                      <td className="px-4 py-2 text-right">
+                        {kindBadge(holiday)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          {/* Custom events */}
+          <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+            <h2 className="text-lg font-bold text-gray-900">Custom events</h2>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Event name, e.g. Airtime promo"
+                className="sm:col-span-2 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              />
+              <label className="text-sm text-gray-600">
+                From
+                <input
+                  type="date"
+                  value={start}
+                  onChange={(e) => setStart(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+                />
+              </label>
+              <label className="text-sm text-gray-600">
+                To (optional)
+                <input
+                  type="date"
+                  value={end}
+                  min={start}
+                  onChange={(e) => setEnd(e.target.value)}
+                  className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+                />
+              </label>
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={recurring}
+                  onChange={(e) => setRecurring(e.target.checked)}
+                />
+                Repeats every year
+              </label>
+              <button
+                onClick={handleAdd}
+                disabled={!start}
+                className="flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Add event
+              </button>
+            </div>
+            {formError && <p className="text-xs text-red-600">{formError}</p>}
+
+            <div className="space-y-2">
+              {events.length === 0 && (
+                <p className="text-sm text-gray-500">No custom events yet.</p>
+              )}
+              {events.map((event) => (
+                <div
+                  key={event.id}
+                  className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-xl border border-gray-200"
+                >
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {event.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {event.start === event.end
+                        ? formatDay(event.start, false)
+                        : `${formatDay(event.start, false)} - ${formatDay(
+                            event.end,
+                            false
+                          )}`}
+                      {event.recurring && ", every year"}
+                    </div>
+                  </div>
+                  <button
+                    onClick={() => removeCustomEvent(event.id)}
+                    title="Remove event"
+                    className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Pay cycle */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+          <div>
+            <h2 className="text-lg font-bold text-gray-900 flex items-center gap-2">
+              <Wallet className="w-5 h-5 text-purple-600" />
+              Pay cycle
+            </h2>
+            <p className="text-sm text-gray-600">
+              Days salaries land, flagged as peak days on the revenue trends and
+              forecasts
+            </p>
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3 items-end">
+            <input
+              value={payName}
+              onChange={(e) => setPayName(e.target.value)}
+              placeholder="Pay date name, e.g. Civil servants"
+              className="sm:col-span-2 lg:col-span-1 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            />
+            <label className="text-sm text-gray-600">
+              Day of month
+              <input
+                type="number"
+                min={1}
+                max={31}
+                value={payDay}
+                onChange={(e) => setPayDay(Number(e.target.value))}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              />
+            </label>
+            <label className="text-sm text-gray-600">
+              On weekends and holidays
+              <select
+                value={roll}
+                onChange={(e) => setRoll(e.target.value as RollRule)}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              >
+                {Object.entries(ROLL_LABELS).map(([value, label]) => (
+                  <option key={value} value={value}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="text-sm text-gray-600">
+              Peak window (days)
+              <input
+                type="number"
+                min={1}
+                max={MAX_WINDOW_DAYS}
+                value={windowDays}
+                onChange={(e) => setWindowDays(Number(e.target.value))}
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              />
+            </label>
+            <button
+              onClick={handleAddPayDate}
+              className="flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all"
+            >
+              <Plus className="w-4 h-4" />
+              Add pay date
+            </button>
+          </div>
+          {payError && <p className="text-xs text-red-600">{payError}</p>}
+
+          <div className="space-y-2">
+            {payDates.length === 0 && (
+              <p className="text-sm text-gray-500">
+                No pay dates, no day is flagged as a peak.
+              </p>
+            )}
+            {payDates.map((payDate) => (
+              <div
+                key={payDate.id}
+                className="flex items-start justify-between gap-4 p-3 bg-gray-50 rounded-xl border border-gray-200"
+              >
+                <div className="space-y-2">
+                  <div>
+                    <div className="font-medium text-gray-900">
+                      {payDate.name}
+                    </div>
+                    <div className="text-xs text-gray-500">
+                      {ordinal(payDate.dayOfMonth)} of the month,{" "}
+                      {ROLL_LABELS[payDate.roll].toLowerCase()},{" "}
+                      {payDate.windowDays} day window
+                    </div>
+                  </div>
+                  {/* Pay days of the year, after rolling */}
+                  <div className="flex flex-wrap gap-1">
+                    {payCycle
+                      .payDaysBetween(payDate, `${year}-01-01`, `${year}-12-31`)
+                      .map((day) => (
+                        <span
+                          key={day}
+                          className="text-xs px-2 py-1 bg-purple-100 text-purple-700 rounded-full font-medium"
+                        >
+                          {formatDay(day).replace(`, ${year}`, "")}
+                        </span>
+                      ))}
+                  </div>
+                </div>
+                <button
+                  onClick={() => removePayDate(payDate.id)}
+                  title="Remove pay date"
+                  className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BusinessCalendar;
@@ -34,6 +34,11 @@ const useDashboard = () => {
   return context;
 };
 
+/**
+ * Open another item of the enclosing Dashboard, e.g. from a header action
+ */
+export const useDashboardNavigation = () => useDashboard().setActiveId;
+
 // --- Types ---
 
 export type DashboardItemProps = {
@@ -261,6 +266,7 @@ export type DashboardProps = {
   children: ReactNode;
   defaultActiveId?: string;
   onSetActive?: (id: string) => Promise<void> | void;
+  headerActions?: ReactNode; // rendered on the right of the top bar
 };
 
 export default function Dashboard({
@@ -268,6 +274,7 @@ export default function Dashboard({
   children,
   defaultActiveId,
   onSetActive,
+  headerActions,
 }: DashboardProps) {
   const getFirstId = (nodes: ReactNode): string | null => {
     let foundId: string | null = null;
@@ -349,11 +356,14 @@ export default function Dashboard({
         {/* Main Area */}
         <div className="flex-1 flex flex-col min-w-0 overflow-hidden">
           {/* Header / Top Bar */}
-          <header className="h-16 bg-white shadow-sm border-b border-gray-200 flex items-center px-6 z-10">
+          <header className="h-16 bg-white shadow-sm border-b border-gray-200 flex items-center justify-between px-6 z-10">
             <div className="text-sm text-gray-500">
               Dashboard /{" "}
               <span className="font-medium text-gray-800">{activeId}</span>
             </div>
+            {headerActions && (
+              <div className="flex items-center gap-2">{headerActions}</div>
+            )}
           </header>
 
           {/* Main Content Scrollable Area */}
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import { AnimatePresence, motion } from "framer-motion";
+import { Calendar } from "lucide-react";
+import {
+  DATE_RANGE_PRESETS,
+  dateRangeLabel,
+  isCustomRange,
+  MAX_RANGE_DAYS,
+  parseDateRange,
+  PRESET_LABELS,
+} from "../analytics/dateRange";
+import { DateRange, DateRangePreset } from "../services/types";
+
+type DateRangePickerProps = {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  presets?: DateRangePreset[]; // shortcuts offered before "Custom range"
+  className?: string; // styling of the select, to match the surrounding controls
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// yyyy-mm-dd in the browser's timezone, the format of <input type="date">
+const toIsoDate = (date: Date) =>
+  [
+    date.getFullYear(),
+    String(date.getMonth() + 1).padStart(2, "0"),
+    String(date.getDate()).padStart(2, "0"),
+  ].join("-");
+
+/**
+ * Preset shortcuts plus a custom from/to window, shared by every chart with a time filter
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  value,
+  onChange,
+  presets = DATE_RANGE_PRESETS,
+  className = "bg-gray-50 border border-gray-300 rounded-xl px-4 py-2.5 text-sm font-medium focus:ring-2 focus:ring-blue-500",
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [start, setStart] = useState("");
+  const [end, setEnd] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const panelRef = useRef<HTMLDivElement>(null);
+  const today = toIsoDate(new Date());
+
+  // Close when clicking anywhere outside the picker
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const handleClick = (event: MouseEvent) => {
+      if (!panelRef.current?.contains(event.target as Node)) setIsOpen(false);
+    };
+
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, [isOpen]);
+
+  const openCustom = () => {
+    // Start from the current custom window, or the last 7 days
+    setStart(
+      isCustomRange(value)
+        ? value.start.slice(0, 10)
+        : toIsoDate(new Date(Date.now() - 6 * DAY_MS))
+    );
+    setEnd(isCustomRange(value) ? value.end.slice(0, 10) : today);
+    setError(null);
+    setIsOpen(true);
+  };
+
+  const applyCustom = () => {
+    if (start > end) {
+      setError("The start date must be on or before the end date");
+      return;
+    }
+    const result = parseDateRange("custom", { start, end });
+    if ("error" in result) {
+      setError(result.error);
+      return;
+    }
+    onChange(result.range);
+    setIsOpen(false);
+  };
+
+  return (
+    <div ref={panelRef} className="relative">
+      <select
+        value={isCustomRange(value) ? "custom" : value}
+        onChange={(e) => {
+          if (e.target.value === "custom") openCustom();
+          else onChange(e.target.value as DateRangePreset);
+        }}
+        className={className}
+      >
+        {presets.map((preset) => (
+          <option key={preset} value={preset}>
+            {PRESET_LABELS[preset]}
+          </option>
+        ))}
+        <option value="custom">
+          {isCustomRange(value) ? dateRangeLabel(value) : "Custom range..."}
+        </option>
+      </select>
+
+      {/* Re-open the panel to edit the current custom window */}
+      {isCustomRange(value) && !isOpen && (
+        <button
+          onClick={openCustom}
+          title="Edit custom range"
+          className="absolute -right-2 -top-2 p-1 bg-white border border-gray-300 rounded-full shadow-sm hover:bg-gray-50"
+        >
+          <Calendar className="w-3 h-3 text-gray-600" />
+        </button>
+      )}
+
+      <AnimatePresence>
+        {isOpen && (
+          <motion.div
+            initial={{ opacity: 0, y: -5 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: -5 }}
+            className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-xl border border-gray-200 p-4 z-50"
+          >
+            <h3 className="font-bold text-gray-900 mb-3 flex items-center gap-2">
+              <Calendar className="w-4 h-4 text-blue-600" />
+              Custom range
+            </h3>
+
+            <div className="space-y-3">
+              <label className="block text-sm text-gray-600">
+                From
+                <input
+                  type="date"
+                  value={start}
+                  max={end || today}
+                  onChange={(e) => setStart(e.target.value)}
+                  className="mt-1 w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </label>
+              <label className="block text-sm text-gray-600">
+                To
+                <input
+                  type="date"
+                  value={end}
+                  min={start}
+                  max={today}
+                  onChange={(e) => setEnd(e.target.value)}
+                  className="mt-1 w-full bg-gray-50 border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                />
+              </label>
+            </div>
+
+            {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+            <p className="text-xs text-gray-500 mt-2">
+              Both days are included, up to {MAX_RANGE_DAYS} days. Ranges of two
+              days or less are shown hour by hour.
+            </p>
+
+            <div className="flex justify-end gap-2 mt-4">
+              <button
+                onClick={() => setIsOpen(false)}
+                className="px-3 py-1.5 rounded-lg text-sm text-gray-600 hover:bg-gray-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={applyCustom}
+                disabled={!start || !end}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+              >
+                Apply
+              </button>
+            </div>
+          </motion.div>
+        )}
+      </AnimatePresence>
+    </div>
+  );
+};
+
+export default DateRangePicker;
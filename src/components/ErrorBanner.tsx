@@ -0,0 +1,57 @@
+import React from "react";
+import { AlertTriangle, RefreshCw } from "lucide-react";
+import {
+  ApiError,
+  ApiHttpError,
+  ApiNetworkError,
+  ApiResponseError,
+} from "../services/api";
+
+type ErrorBannerProps = {
+  error: unknown;
+  onRetry?: () => void;
+};
+
+/**
+ * Human readable title for the different api failure modes
+ * @param error the error thrown by the api client
+ */
+const describeError = (error: unknown): { title: string; detail: string } => {
+  if (error instanceof ApiNetworkError)
+    return { title: "Server unreachable", detail: error.message };
+  if (error instanceof ApiHttpError)
+    return { title: `Server error (${error.status})`, detail: error.message };
+  if (error instanceof ApiResponseError)
+    return { title: "Request rejected", detail: error.message };
+  if (error instanceof ApiError)
+    return { title: "Request failed", detail: error.message };
+  return {
+    title: "Something went wrong",
+    detail: error instanceof Error ? error.message : String(error),
+  };
+};
+
+const ErrorBanner: React.FC<ErrorBannerProps> = ({ error, onRetry }) => {
+  const { title, detail } = describeError(error);
+
+  return (
+    <div className="flex items-start gap-3 p-4 bg-gradient-to-r from-red-50 to-orange-50 rounded-xl border border-red-200">
+      <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5 flex-shrink-0" />
+      <div className="flex-1">
+        <div className="font-bold text-red-700">{title}</div>
+        <div className="text-sm text-red-600">{detail}</div>
+      </div>
+      {onRetry && (
+        <button
+          onClick={onRetry}
+          className="flex items-center gap-2 px-3 py-1.5 bg-white text-red-700 rounded-lg border border-red-200 hover:bg-red-100 transition-all text-sm font-medium"
+        >
+          <RefreshCw className="w-4 h-4" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorBanner;
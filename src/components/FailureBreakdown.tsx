@@ -0,0 +1,308 @@
+import React, { useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  Legend,
+  Line,
+  LineChart,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { AlertTriangle, X } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import {
+  DateRange,
+  FailureReasonKey,
+  FailureSessionFilter,
+} from "../services/types";
+import { dateRangeKey } from "../analytics/dateRange";
+import { FAILURE_REASON_LABELS, NETWORKS } from "../analytics/sessions";
+import { formatIncidentTime } from "./AlertBell";
+
+type FailureBreakdownProps = {
+  period: DateRange;
+};
+
+const REASON_COLORS: Record<FailureReasonKey, string> = {
+  sessionTimeout: "#F59E0B",
+  insufficientFunds: "#8B5CF6",
+  gatewayError: "#EF4444",
+  billerUnavailable: "#EC4899",
+  userCancel: "#6366F1",
+  invalidInput: "#14B8A6",
+  unreported: "#9CA3AF",
+};
+
+const reasonLabel = (reason: FailureReasonKey | "all") =>
+  reason === "all"
+    ? "All reasons"
+    : reason === "unreported"
+    ? "Not reported"
+    : FAILURE_REASON_LABELS[reason];
+
+/**
+ * Failed transactions of a period by reason: totals, per network and over time,
+ * with the latest sessions behind any reason and network
+ */
+const FailureBreakdown: React.FC<FailureBreakdownProps> = ({ period }) => {
+  const [drill, setDrill] = useState<FailureSessionFilter | null>(null);
+  const key = dateRangeKey(period);
+
+  const { data, error, refresh } = useQuery(`failures/${key}`, (signal) =>
+    api.getFailureBreakdown(period, { signal })
+  );
+  const {
+    data: samples,
+    error: samplesError,
+    isLoading: samplesLoading,
+  } = useQuery(
+    `failures/${key}/sessions/${drill?.reason}/${drill?.network}`,
+    (signal) => api.getFailedSessions(period, drill!, { signal }),
+    { enabled: drill !== null }
+  );
+
+  const reasons = data?.reasons ?? [];
+  const isSelected = (reason: FailureReasonKey, network: string) =>
+    drill?.reason === reason && drill.network === network;
+
+  return (
+    <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Failure Reasons</h2>
+          <p className="text-sm text-gray-600">
+            Why transactions failed in the selected period, click a reason or a
+            network count to see sample sessions
+          </p>
+        </div>
+        <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-red-50 border border-red-200">
+          <AlertTriangle className="w-5 h-5 text-red-600" />
+          <span className="font-bold text-red-600">
+            {(data?.totalFailed ?? 0).toLocaleString()} failed
+          </span>
+        </div>
+      </div>
+      {error !== undefined && <ErrorBanner error={error} onRetry={refresh} />}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Totals by reason */}
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart
+              data={reasons.map((summary) => ({
+                ...summary,
+                label: reasonLabel(summary.reason),
+              }))}
+              layout="vertical"
+              margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+            >
+              <CartesianGrid
+                strokeDasharray="3 3"
+                stroke="#e5e7eb"
+                opacity={0.5}
+              />
+              <XAxis
+                type="number"
+                stroke="#9ca3af"
+                tick={{ fill: "#6b7280", fontSize: 12 }}
+              />
+              <YAxis
+                type="category"
+                dataKey="label"
+                width={130}
+                stroke="#9ca3af"
+                tick={{ fill: "#6b7280", fontSize: 12 }}
+              />
+              <Tooltip
+                formatter={(value, name, item) => [
+                  `${Number(value).toLocaleString()} (${item.payload.share}%)`,
+                  "Failed",
+                ]}
+              />
+              <Bar dataKey="count" radius={[0, 8, 8, 0]}>
+                {reasons.map((summary) => (
+                  <Cell
+                    key={summary.reason}
+                    fill={REASON_COLORS[summary.reason]}
+                    cursor="pointer"
+                    opacity={drill && drill.reason !== summary.reason ? 0.4 : 1}
+                    onClick={() =>
+                      setDrill({ reason: summary.reason, network: "all" })
+                    }
+                  />
+                ))}
+              </Bar>
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Reasons per network */}
+        <div className="overflow-auto rounded-xl border border-gray-200 self-start">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600">
+              <tr>
+                <th className="px-4 py-2 font-medium">Reason</th>
+                {NETWORKS.map((network) => (
+                  <th
+                    key={network}
+                    className="px-4 py-2 font-medium text-right"
+                  >
+                    {network}
+                  </th>
+                ))}
+                <th className="px-4 py-2 font-medium text-right">Share</th>
+              </tr>
+            </thead>
+            <tbody>
+              {reasons.map((summary) => (
+                <tr key={summary.reason} className="border-t border-gray-100">
+                  <td className="px-4 py-2 font-medium text-gray-900">
+                    <span className="flex items-center gap-2">
+                      <span
+                        className="w-3 h-3 rounded-full"
+                        style={{
+                          backgroundColor: REASON_COLORS[summary.reason],
+                        }}
+                      />
+                      {reasonLabel(summary.reason)}
+                    </span>
+                  </td>
+                  {NETWORKS.map((network) => (
+                    <td key={network} className="px-2 py-1 text-right">
+                      <button
+                        onClick={() =>
+                          setDrill({ reason: summary.reason, network })
+                        }
+                        disabled={!summary.networks[network]}
+                        className={`px-2 py-1 rounded-lg text-gray-900 hover:bg-blue-50 disabled:text-gray-400 disabled:hover:bg-transparent ${
+                          isSelected(summary.reason, network)
+                            ? "bg-blue-100 font-bold"
+                            : ""
+                        }`}
+                      >
+                        {(summary.networks[network] ?? 0).toLocaleString()}
+                      </button>
+                    </td>
+                  ))}
+                  <td className="px-4 py-2 text-right text-gray-600">
+                    {summary.share}%
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {/* Trend per reason */}
+      <div className="h-72">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data?.trend}
+            margin={{ top: 5, right: 30, left: 0, bottom: 5 }}
+          >
+            <CartesianGrid
+              strokeDasharray="3 3"
+              stroke="#e5e7eb"
+              opacity={0.3}
+            />
+            <XAxis
+              dataKey="date"
+              stroke="#9ca3af"
+              tick={{ fill: "#6b7280", fontSize: 12 }}
+            />
+            <YAxis stroke="#9ca3af" tick={{ fill: "#6b7280", fontSize: 12 }} />
+            <Tooltip />
+            <Legend iconType="line" />
+            {reasons.map(({ reason }) => (
+              <Line
+                key={reason}
+                type="monotone"
+                dataKey={reason}
+                name={reasonLabel(reason)}
+                stroke={REASON_COLORS[reason]}
+                strokeWidth={2}
+                dot={false}
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      {/* Drill down */}
+      {drill && (
+        <div className="space-y-3 pt-4 border-t border-gray-200">
+          <div className="flex items-center justify-between gap-4">
+            <h3 className="font-bold text-gray-900">
+              Latest sessions: {reasonLabel(drill.reason)},{" "}
+              {drill.network === "all" ? "all networks" : drill.network}
+            </h3>
+            <button
+              onClick={() => setDrill(null)}
+              title="Close"
+              className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {samplesError !== undefined && <ErrorBanner error={samplesError} />}
+          {samplesLoading ? (
+            <p className="text-sm text-gray-500">Loading sessions...</p>
+          ) : samples?.length === 0 ? (
+            <p className="text-sm text-gray-500">No matching sessions.</p>
+          ) : (
+            <div className="max-h-[400px] overflow-auto rounded-xl border border-gray-200">
+              <table className="w-full text-sm">
+                <thead className="bg-gray-50 text-left text-gray-600">
+                  <tr>
+                    <th className="px-4 py-2 font-medium">Started</th>
+                    <th className="px-4 py-2 font-medium">Session</th>
+                    <th className="px-4 py-2 font-medium">Network</th>
+                    <th className="px-4 py-2 font-medium">Province</th>
+                    <th className="px-4 py-2 font-medium">Menu path</th>
+                    <th className="px-4 py-2 font-medium">Reason</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {samples?.map((session) => (
+                    <tr
+                      key={session.sessionId}
+                      className="border-t border-gray-100"
+                    >
+                      <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                        {formatIncidentTime(session.startedAt)}
+                      </td>
+                      <td className="px-4 py-2 font-mono text-xs text-gray-900">
+                        {session.sessionId}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {session.network}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {session.province}
+                      </td>
+                      <td className="px-4 py-2 text-gray-600">
+                        {session.menuPath.join(" > ")}
+                      </td>
+                      <td className="px-4 py-2 text-gray-900">
+                        {reasonLabel(session.failureReason ?? "unreported")}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FailureBreakdown;
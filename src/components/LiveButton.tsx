@@ -0,0 +1,54 @@
+import React from "react";
+import { LiveStatus } from "../analytics/live";
+
+type LiveButtonProps = {
+  status: LiveStatus;
+  onToggle: () => void; // pauses, or resumes when paused
+};
+
+// Connection status of a live feed
+const LIVE_INDICATORS: Record<
+  LiveStatus,
+  { label: string; button: string; dot: string }
+> = {
+  live: {
+    label: "Live",
+    button: "bg-green-100 text-green-700 hover:bg-green-200",
+    dot: "bg-green-500 animate-pulse",
+  },
+  connecting: {
+    label: "Connecting",
+    button: "bg-yellow-100 text-yellow-700 hover:bg-yellow-200",
+    dot: "bg-yellow-500",
+  },
+  reconnecting: {
+    label: "Reconnecting",
+    button: "bg-orange-100 text-orange-700 hover:bg-orange-200",
+    dot: "bg-orange-500 animate-pulse",
+  },
+  paused: {
+    label: "Paused",
+    button: "bg-gray-100 text-gray-700 hover:bg-gray-200",
+    dot: "bg-gray-400",
+  },
+};
+
+/**
+ * Pause and resume a live view, showing the status of its feed
+ */
+const LiveButton: React.FC<LiveButtonProps> = ({ status, onToggle }) => {
+  const indicator = LIVE_INDICATORS[status];
+
+  return (
+    <button
+      onClick={onToggle}
+      title={status === "paused" ? "Resume live updates" : "Pause live updates"}
+      className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all ${indicator.button}`}
+    >
+      <div className={`w-2 h-2 rounded-full ${indicator.dot}`} />
+      {indicator.label}
+    </button>
+  );
+};
+
+export default LiveButton;
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from "react";
+import { ResponsiveContainer, Sankey, Tooltip } from "recharts";
+import type { LinkProps, NodeProps } from "recharts/types/chart/Sankey";
+import { GitBranch, X } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import LoaderOverlay from "./LoaderOverlay";
+import MenuFunnel from "./MenuFunnel";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import {
+  acyclicMenuFlow,
+  MENU_FLOW_OUTCOME_NODES,
+  menuFlowCompletion,
+  menuFlowPathsThrough,
+} from "../analytics/menuFlow";
+
+const NODE_COLORS: Record<string, string> = {
+  [MENU_FLOW_OUTCOME_NODES.completed]: "#10B981",
+  [MENU_FLOW_OUTCOME_NODES.failed]: "#F97316",
+  [MENU_FLOW_OUTCOME_NODES.abandoned]: "#EF4444",
+};
+const MENU_NODE_COLOR = "#3B82F6";
+
+// Red when no session goes on to complete, green when all do
+const completionColor = (share: number) =>
+  `hsl(${Math.round(share * 120)}, 70%, 45%)`;
+
+const percent = (share: number) => `${Math.round(share * 1000) / 10}%`;
+
+/**
+ * Sankey diagram of the menu transitions of every session, links coloured by how many of their sessions complete.
+ * Clicking a node focuses the paths leading to and from it, funnels over chosen nodes follow.
+ */
+const MenuFlow: React.FC = () => {
+  const [focus, setFocus] = useState<number | null>(null);
+  const { data, error, isLoading, isFetching, updatedAt, refresh } = useQuery(
+    "menu-flow",
+    (signal) => api.getMenuNavigationFlow({ signal })
+  );
+
+  const flow = useMemo(() => data && acyclicMenuFlow(data), [data]);
+  const completion = useMemo(
+    () => (flow ? menuFlowCompletion(flow) : []),
+    [flow]
+  );
+  const focused = useMemo(
+    () => (flow && focus !== null ? menuFlowPathsThrough(flow, focus) : null),
+    [flow, focus]
+  );
+
+  const links = flow?.links ?? [];
+  // Sessions start at nodes nothing links to
+  const totalSessions = links
+    .filter((link) => !links.some(({ target }) => target === link.source))
+    .reduce((sum, link) => sum + link.value, 0);
+
+  const renderNode = ({ x, y, width, height, index, payload }: NodeProps) => (
+    <g
+      cursor="pointer"
+      onClick={() => setFocus(focus === index ? null : index)}
+    >
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={height}
+        rx={2}
+        fill={NODE_COLORS[payload.name] ?? MENU_NODE_COLOR}
+        fillOpacity={focus === null || focus === index ? 1 : 0.5}
+        stroke={focus === index ? "#111827" : "none"}
+      />
+      <text
+        x={x + width + 6}
+        y={y + height / 2}
+        dominantBaseline="middle"
+        fontSize={12}
+        fill="#374151"
+      >
+        {payload.name}
+      </text>
+    </g>
+  );
+
+  const renderLink = ({
+    sourceX,
+    sourceY,
+    sourceControlX,
+    targetX,
+    targetY,
+    targetControlX,
+    linkWidth,
+    index,
+  }: LinkProps) => (
+    <path
+      d={`M${sourceX},${sourceY} C${sourceControlX},${sourceY} ${targetControlX},${targetY} ${targetX},${targetY}`}
+      fill="none"
+      stroke={completionColor(completion[links[index].target] ?? 0)}
+      strokeWidth={Math.max(1, linkWidth)}
+      strokeOpacity={focused && !focused.has(index) ? 0.06 : 0.45}
+    />
+  );
+
+  const inbound = links.filter((link) => link.target === focus);
+  const outbound = links.filter((link) => link.source === focus);
+  const through = Math.max(
+    inbound.reduce((sum, link) => sum + link.value, 0),
+    outbound.reduce((sum, link) => sum + link.value, 0)
+  );
+  const nodeName = (index: number) => flow?.nodes[index].name ?? "";
+
+  const pathTable = (
+    title: string,
+    rows: typeof links,
+    end: (link: (typeof links)[number]) => number
+  ) => (
+    <div>
+      <h4 className="text-sm font-semibold text-gray-700 mb-2">{title}</h4>
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <table className="w-full text-sm">
+          <tbody>
+            {[...rows]
+              .sort((a, b) => b.value - a.value)
+              .map((link) => (
+                <tr
+                  key={`${link.source}>${link.target}`}
+                  className="border-t border-gray-100"
+                >
+                  <td className="py-1 pr-2">
+                    <button
+                      onClick={() => setFocus(end(link))}
+                      className="text-blue-700 hover:underline text-left"
+                    >
+                      {nodeName(end(link))}
+                    </button>
+                  </td>
+                  <td className="py-1 text-right text-gray-900">
+                    {link.value.toLocaleString()}
+                  </td>
+                  <td className="py-1 pl-2 text-right text-gray-500">
+                    {through ? percent(link.value / through) : "-"}
+                  </td>
+                </tr>
+              ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6 relative">
+        <LoaderOverlay isLoading={isLoading} />
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Menu Flow</h2>
+            <p className="text-sm text-gray-600">
+              How sessions move through the USSD menus, click a step to follow
+              its paths
+            </p>
+          </div>
+          <div className="flex items-center gap-3">
+            <div className="flex items-center gap-2 px-4 py-2 rounded-xl bg-blue-50 border border-blue-200">
+              <GitBranch className="w-4 h-4 text-blue-700" />
+              <span className="font-medium text-blue-700">
+                {totalSessions.toLocaleString()} sessions
+              </span>
+            </div>
+            <RefreshButton
+              onRefresh={refresh}
+              isFetching={isFetching}
+              updatedAt={updatedAt}
+            />
+          </div>
+        </div>
+        {error !== undefined && <ErrorBanner error={error} onRetry={refresh} />}
+
+        <div className="flex items-center gap-3 text-xs text-gray-600">
+          <span>Link colour: sessions that go on to complete</span>
+          <span>0%</span>
+          <span
+            className="w-32 h-2 rounded-full"
+            style={{
+              background: `linear-gradient(to right, ${completionColor(
+                0
+              )}, ${completionColor(0.5)}, ${completionColor(1)})`,
+            }}
+          />
+          <span>100%</span>
+        </div>
+
+        <div className="grid grid-cols-1 xl:grid-cols-4 gap-6">
+          <div
+            className={`h-[520px] ${
+              focus === null ? "xl:col-span-4" : "xl:col-span-3"
+            }`}
+          >
+            {flow && flow.links.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <Sankey
+                  data={flow}
+                  node={renderNode}
+                  link={renderLink}
+                  nodePadding={24}
+                  nodeWidth={12}
+                  margin={{ top: 10, right: 120, bottom: 10, left: 10 }}
+                >
+                  <Tooltip
+                    formatter={(value) => Number(value).toLocaleString()}
+                  />
+                </Sankey>
+              </ResponsiveContainer>
+            ) : (
+              !isLoading && (
+                <p className="text-sm text-gray-500">
+                  No menu transitions yet.
+                </p>
+              )
+            )}
+          </div>
+
+          {/* Focused node */}
+          {focus !== null && flow && (
+            <div className="space-y-4 p-4 rounded-xl border border-gray-200 self-start">
+              <div className="flex items-start justify-between gap-2">
+                <div>
+                  <h3 className="font-bold text-gray-900">{nodeName(focus)}</h3>
+                  <p className="text-sm text-gray-600">
+                    {through.toLocaleString()} sessions,{" "}
+                    {percent(completion[focus] ?? 0)} go on to complete
+                  </p>
+                </div>
+                <button
+                  onClick={() => setFocus(null)}
+                  title="Close"
+                  className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {pathTable("Comes from", inbound, (link) => link.source)}
+              {pathTable("Goes to", outbound, (link) => link.target)}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <MenuFunnel nodes={data?.nodes.map((node) => node.name) ?? []} />
+    </div>
+  );
+};
+
+export default MenuFlow;
@@ -0,0 +1,305 @@
+import React, { useState } from "react";
+import {
+  Bar,
+  BarChart,
+  CartesianGrid,
+  Cell,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis,
+} from "recharts";
+import { Filter, Plus, X } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { MAX_FUNNEL_STEPS, MIN_FUNNEL_STEPS } from "../analytics/funnel";
+import { MENU_PATH_SEPARATOR } from "../analytics/sessions";
+
+type MenuFunnelProps = {
+  nodes: string[]; // nodes of the menu flow to pick steps from
+};
+
+// Journeys product owners ask about, offered when the flow has their nodes
+const PRESETS: { name: string; steps: string[] }[] = [
+  {
+    name: "Buy ZESCO token",
+    steps: [
+      "*115#",
+      "Pay Bills",
+      "Electricity",
+      "Meter No",
+      "Confirm",
+      "Completed",
+    ],
+  },
+  {
+    name: "Buy airtime",
+    steps: ["*115#", "Buy Airtime", "Confirm", "Completed"],
+  },
+  {
+    name: "Send money",
+    steps: ["*115#", "Send Money", "Confirm", "Completed"],
+  },
+];
+
+const formatSeconds = (seconds: number | null) =>
+  seconds === null ? "-" : `${seconds}s`;
+
+const breakdown = (counts: Record<string, number>) =>
+  Object.entries(counts).sort(([, a], [, b]) => b - a);
+
+/**
+ * Conversion funnel over menu nodes picked in order, with where and from whom sessions drop off
+ */
+const MenuFunnel: React.FC<MenuFunnelProps> = ({ nodes }) => {
+  const [steps, setSteps] = useState<string[]>([]);
+  const [selected, setSelected] = useState<number | null>(null);
+  const ready = steps.length >= MIN_FUNNEL_STEPS;
+
+  const { data, error, isLoading, refresh } = useQuery(
+    `menu-flow/funnel/${steps.join(MENU_PATH_SEPARATOR)}`,
+    (signal) => api.getMenuFunnel(steps, { signal }),
+    { enabled: ready }
+  );
+
+  const funnel = ready ? data?.steps : undefined;
+  // The step losing the most sessions until another one is picked
+  const worst = funnel?.reduce(
+    (best, step, index) =>
+      step.dropOff > (funnel[best]?.dropOff ?? 0) ? index : best,
+    1
+  );
+  const focused = funnel?.[selected ?? worst ?? 1];
+
+  const choose = (next: string[]) => {
+    setSteps(next);
+    setSelected(null);
+  };
+  const presets = PRESETS.filter((preset) =>
+    preset.steps.every((step) => nodes.includes(step))
+  );
+
+  return (
+    <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6">
+      <div>
+        <h2 className="text-xl font-bold text-gray-900">Funnel</h2>
+        <p className="text-sm text-gray-600">
+          Pick menu steps in order to see how many sessions get through each one
+          and who drops off
+        </p>
+      </div>
+
+      {/* Builder */}
+      <div className="flex flex-wrap items-center gap-2">
+        {steps.map((step, index) => (
+          <React.Fragment key={step}>
+            {index > 0 && <span className="text-gray-400">&gt;</span>}
+            <span className="flex items-center gap-1 pl-3 pr-1 py-1 rounded-xl bg-blue-50 border border-blue-200 text-sm text-blue-700">
+              {step}
+              <button
+                onClick={() => choose(steps.filter((s) => s !== step))}
+                title="Remove step"
+                className="p-1 rounded-lg hover:bg-blue-100"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          </React.Fragment>
+        ))}
+        {steps.length < MAX_FUNNEL_STEPS && (
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            <Plus className="w-4 h-4" />
+            <select
+              value=""
+              onChange={(e) => choose([...steps, e.target.value])}
+              className="px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            >
+              <option value="" disabled>
+                {steps.length === 0 ? "First step" : "Next step"}
+              </option>
+              {nodes
+                .filter((node) => !steps.includes(node))
+                .map((node) => (
+                  <option key={node} value={node}>
+                    {node}
+                  </option>
+                ))}
+            </select>
+          </label>
+        )}
+        {steps.length > 0 && (
+          <button
+            onClick={() => choose([])}
+            className="px-3 py-2 rounded-xl text-sm text-gray-600 hover:bg-gray-100"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+      {presets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-600">
+          <Filter className="w-4 h-4" />
+          {presets.map((preset) => (
+            <button
+              key={preset.name}
+              onClick={() => choose(preset.steps)}
+              className="px-3 py-1 rounded-xl border border-gray-300 hover:bg-gray-100"
+            >
+              {preset.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {!ready ? (
+        <p className="text-sm text-gray-500">
+          Pick at least {MIN_FUNNEL_STEPS} steps.
+        </p>
+      ) : error !== undefined ? (
+        <ErrorBanner error={error} onRetry={refresh} />
+      ) : isLoading || !funnel ? (
+        <p className="text-sm text-gray-500">Loading funnel...</p>
+      ) : (
+        <>
+          <div className="h-72">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart
+                data={funnel}
+                layout="vertical"
+                margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
+              >
+                <CartesianGrid
+                  strokeDasharray="3 3"
+                  stroke="#e5e7eb"
+                  opacity={0.5}
+                />
+                <XAxis
+                  type="number"
+                  stroke="#9ca3af"
+                  tick={{ fill: "#6b7280", fontSize: 12 }}
+                />
+                <YAxis
+                  type="category"
+                  dataKey="node"
+                  width={110}
+                  stroke="#9ca3af"
+                  tick={{ fill: "#6b7280", fontSize: 12 }}
+                />
+                <Tooltip
+                  formatter={(value, name, item) => [
+                    `${Number(value).toLocaleString()} (${
+                      item.payload.overallConversion
+                    }%)`,
+                    "Sessions",
+                  ]}
+                />
+                <Bar dataKey="sessions" radius={[0, 8, 8, 0]}>
+                  {funnel.map((step, index) => (
+                    <Cell
+                      key={step.node}
+                      fill="#3B82F6"
+                      fillOpacity={1 - (index / funnel.length) * 0.6}
+                      cursor={index > 0 ? "pointer" : undefined}
+                      onClick={() => index > 0 && setSelected(index)}
+                    />
+                  ))}
+                </Bar>
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="overflow-auto rounded-xl border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Step</th>
+                  <th className="px-4 py-2 font-medium text-right">Sessions</th>
+                  <th className="px-4 py-2 font-medium text-right">
+                    Conversion
+                  </th>
+                  <th className="px-4 py-2 font-medium text-right">Overall</th>
+                  <th className="px-4 py-2 font-medium text-right">Drop-off</th>
+                  <th className="px-4 py-2 font-medium text-right">
+                    Median time
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {funnel.map((step, index) => (
+                  <tr
+                    key={step.node}
+                    onClick={() => index > 0 && setSelected(index)}
+                    className={`border-t border-gray-100 ${
+                      index > 0 ? "cursor-pointer hover:bg-gray-50" : ""
+                    } ${step === focused ? "bg-blue-50" : ""}`}
+                  >
+                    <td className="px-4 py-2 font-medium text-gray-900">
+                      {index + 1}. {step.node}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {step.sessions.toLocaleString()}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {step.conversion}%
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {step.overallConversion}%
+                    </td>
+                    <td className="px-4 py-2 text-right text-red-600">
+                      {index > 0 ? step.dropOff.toLocaleString() : "-"}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-600">
+                      {formatSeconds(step.medianSeconds)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Drop-off breakdown */}
+          {focused && (
+            <div className="space-y-3">
+              <h3 className="font-bold text-gray-900">
+                {focused.dropOff.toLocaleString()} sessions dropped before{" "}
+                {focused.node}
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {[
+                  { title: "By network", counts: focused.dropOffByNetwork },
+                  { title: "By province", counts: focused.dropOffByProvince },
+                ].map(({ title, counts }) => (
+                  <div key={title}>
+                    <h4 className="text-sm font-semibold text-gray-700 mb-2">
+                      {title}
+                    </h4>
+                    <table className="w-full text-sm">
+                      <tbody>
+                        {breakdown(counts).map(([name, count]) => (
+                          <tr key={name} className="border-t border-gray-100">
+                            <td className="py-1 text-gray-900">{name}</td>
+                            <td className="py-1 text-right text-gray-900">
+                              {count.toLocaleString()}
+                            </td>
+                            <td className="py-1 pl-2 text-right text-gray-500">
+                              {Math.round((count / focused.dropOff) * 1000) /
+                                10}
+                              %
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default MenuFunnel;
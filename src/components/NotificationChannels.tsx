@@ -0,0 +1,277 @@
+import React, { useState } from "react";
+import { Plus, Send, Trash2 } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import { formatIncidentTime } from "./AlertBell";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import {
+  CHANNEL_TARGET_HINTS,
+  CHANNEL_TYPES,
+  CHANNEL_TYPE_LABELS,
+  ChannelType,
+  DEFAULT_TEMPLATES,
+  Delivery,
+  NotificationChannel,
+  TEMPLATE_PLACEHOLDERS,
+} from "../analytics/notifications";
+
+/**
+ * Channels alert incidents are delivered through, and the latest deliveries
+ */
+const NotificationChannels: React.FC = () => {
+  const { name: profile } = useApiProfile();
+  const { data: channels = [], error: channelsError } = useQuery(
+    "alerts/channels",
+    (signal) => api.getNotificationChannels({ signal })
+  );
+  const { data: deliveries = [] } = useQuery("alerts/deliveries", (signal) =>
+    api.getDeliveries({ signal })
+  );
+
+  const [name, setName] = useState("");
+  const [type, setType] = useState<ChannelType>("webhook");
+  const [target, setTarget] = useState("");
+  const [template, setTemplate] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<unknown>();
+  const [testResults, setTestResults] = useState<Record<string, Delivery>>({});
+
+  const mutate = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setActionError(undefined);
+    try {
+      await action();
+      // Deleting a channel also takes it off the rules routing to it
+      queryCache.invalidate(`${profile}:alerts/`);
+      return true;
+    } catch (error) {
+      setActionError(error);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleAdd = async () => {
+    const saved = await mutate(() =>
+      api.saveNotificationChannel({
+        name,
+        type,
+        target,
+        // Empty uses the default template of the type
+        template,
+        enabled: true,
+      })
+    );
+    if (saved) {
+      setName("");
+      setTarget("");
+      setTemplate("");
+    }
+  };
+
+  const toggleChannel = ({ id, ...channel }: NotificationChannel) =>
+    mutate(() =>
+      api.saveNotificationChannel({ ...channel, enabled: !channel.enabled }, id)
+    );
+
+  const handleTest = (channel: NotificationChannel) =>
+    mutate(async () => {
+      const delivery = await api.testNotificationChannel(channel.id);
+      setTestResults((results) => ({ ...results, [channel.id]: delivery }));
+    });
+
+  return (
+    <>
+      <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">
+            Notification channels
+          </h2>
+          <p className="text-sm text-gray-600">
+            Incidents are sent to the channels of their rule when they fire and
+            when they resolve, failed deliveries are retried with backoff
+          </p>
+        </div>
+        {channelsError !== undefined && <ErrorBanner error={channelsError} />}
+        {actionError !== undefined && <ErrorBanner error={actionError} />}
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Channel name, e.g. NOC email"
+            className="px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+          />
+          <label className="text-sm text-gray-600">
+            Type
+            <select
+              value={type}
+              onChange={(e) => setType(e.target.value as ChannelType)}
+              className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            >
+              {CHANNEL_TYPES.map((value) => (
+                <option key={value} value={value}>
+                  {CHANNEL_TYPE_LABELS[value]}
+                </option>
+              ))}
+            </select>
+          </label>
+          <input
+            value={target}
+            onChange={(e) => setTarget(e.target.value)}
+            placeholder={CHANNEL_TARGET_HINTS[type]}
+            className="sm:col-span-2 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+          />
+          <textarea
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            placeholder={DEFAULT_TEMPLATES[type]}
+            rows={3}
+            className="sm:col-span-2 lg:col-span-3 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm font-mono"
+          />
+          <button
+            onClick={handleAdd}
+            disabled={isSaving || !name.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            Add channel
+          </button>
+        </div>
+        <p className="text-xs text-gray-500">
+          Placeholders:{" "}
+          {TEMPLATE_PLACEHOLDERS.map(
+            (placeholder) => `{{${placeholder}}}`
+          ).join(" ")}
+        </p>
+
+        <div className="space-y-2">
+          {channels.length === 0 && (
+            <p className="text-sm text-gray-500">No notification channels.</p>
+          )}
+          {channels.map((channel) => {
+            const test = testResults[channel.id];
+            return (
+              <div
+                key={channel.id}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-50 rounded-xl border border-gray-200"
+              >
+                <div
+                  className={`min-w-0 ${channel.enabled ? "" : "opacity-50"}`}
+                >
+                  <div className="font-medium text-gray-900">
+                    {channel.name}
+                  </div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {CHANNEL_TYPE_LABELS[channel.type]},{" "}
+                    {channel.target || "server console"}
+                  </div>
+                  {test && (
+                    <div
+                      className={`text-xs ${
+                        test.status === "sent"
+                          ? "text-green-600"
+                          : "text-red-600"
+                      }`}
+                    >
+                      Test {test.status}
+                      {test.error && `: ${test.error}`}
+                    </div>
+                  )}
+                </div>
+                <div className="flex items-center gap-2 flex-shrink-0">
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={channel.enabled}
+                      disabled={isSaving}
+                      onChange={() => toggleChannel(channel)}
+                    />
+                    Enabled
+                  </label>
+                  <button
+                    onClick={() => handleTest(channel)}
+                    disabled={isSaving}
+                    title="Send a test notification"
+                    className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                  <button
+                    onClick={() =>
+                      mutate(() => api.deleteNotificationChannel(channel.id))
+                    }
+                    disabled={isSaving}
+                    title="Delete channel"
+                    className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Latest deliveries */}
+      <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+        <h2 className="text-lg font-bold text-gray-900 mb-4">
+          Recent deliveries
+        </h2>
+        {deliveries.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing sent yet.</p>
+        ) : (
+          <div className="max-h-[400px] overflow-auto rounded-xl border border-gray-200">
+            <table className="w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Time</th>
+                  <th className="px-4 py-2 font-medium">Channel</th>
+                  <th className="px-4 py-2 font-medium">Event</th>
+                  <th className="px-4 py-2 font-medium text-right">Attempts</th>
+                  <th className="px-4 py-2 font-medium text-right">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {deliveries.map((delivery) => (
+                  <tr key={delivery.id} className="border-t border-gray-100">
+                    <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                      {formatIncidentTime(delivery.at)}
+                    </td>
+                    <td className="px-4 py-2 font-medium text-gray-900">
+                      {delivery.channelName}
+                    </td>
+                    <td className="px-4 py-2 text-gray-600 capitalize">
+                      {delivery.event}
+                    </td>
+                    <td className="px-4 py-2 text-right text-gray-900">
+                      {delivery.attempts}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <span
+                        title={delivery.error}
+                        className={`text-xs px-2 py-1 rounded-full font-medium capitalize ${
+                          delivery.status === "sent"
+                            ? "bg-green-100 text-green-700"
+                            : "bg-red-100 text-red-700"
+                        }`}
+                      >
+                        {delivery.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
+
+export default NotificationChannels;
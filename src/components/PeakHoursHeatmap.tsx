@@ -36,15 +36,14 @@ import {
   showExportDialog,
 } from "./utils";
 import { api } from "../services/api";
+import { HeatmapCell } from "../services/types";
 import LoaderOverlay from "./LoaderOverlay";
-
-interface HeatmapCell {
-  day: string;
-  hour: string;
-  value: number;
-  intensity: number;
-  isPeak: boolean;
-}
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
+import { zonedDayKey } from "../analytics/holidays";
+import { CAT_UTC_OFFSET_MINUTES } from "../analytics/patterns";
+import { useHolidayCalendar } from "../services/calendar";
 
 interface HourlyData {
   hour: string;
@@ -182,13 +181,23 @@ const generateDynamicRecommendations = (data: HeatmapCell[]): InsightItem[] => {
   ];
 };
 
+// Stable fallback while the first response is loading
+const EMPTY_HEATMAP: HeatmapCell[] = [];
+
 const USSDPeakHoursHeatmap: React.FC = () => {
-  const [heatmapData, setHeatmapData] = useState<HeatmapCell[]>([]);
+  const {
+    data: heatmapData = EMPTY_HEATMAP,
+    error,
+    isLoading: loading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery("peak-hours", (signal) => api.getPeakHours({ signal }));
   const [hourlyData, setHourlyData] = useState<HourlyData[]>([]);
   const [dayStats, setDayStats] = useState<DayStats[]>([]);
   const [hoveredCell, setHoveredCell] = useState<HeatmapCell | null>(null);
-  const [loading, setLoading] = useState(true);
   const componentRef = useRef<HTMLDivElement>(null);
+  const calendar = useHolidayCalendar();
 
   const days = [
     "Monday",
@@ -214,16 +223,22 @@ const USSDPeakHoursHeatmap: React.FC = () => {
     "22-00",
   ];
 
-  const fetchHeatmapData = async () => {
-    try {
-      const result = await api.getPeakHours();
-      if (result) setHeatmapData(result);
-    } catch (error) {
-      console.error("Failed to load heatmap", error);
-    } finally {
-      setLoading(false);
+  // The heatmap covers the last 7 days, so each row is a single date that may be a holiday
+  // Dates and weekdays are the server's (Central Africa Time), not the browser's
+  const rowHolidays = new Map<string, string>();
+  for (let back = 0; back < 7; back++) {
+    const day = zonedDayKey(
+      new Date(Date.now() - back * 24 * 60 * 60 * 1000),
+      CAT_UTC_OFFSET_MINUTES
+    );
+    const names = calendar.holidaysOn(day).map((holiday) => holiday.name);
+    if (names.length > 0) {
+      rowHolidays.set(
+        days[(new Date(day).getUTCDay() + 6) % 7],
+        names.join(", ")
+      );
     }
-  };
+  }
 
   // Generate hourly comparison data
   const generateHourlyData = (): HourlyData[] => {
@@ -239,10 +254,6 @@ const USSDPeakHoursHeatmap: React.FC = () => {
     return hours.map((hour) => hourlyMap[hour]);
   };
 
-  useEffect(() => {
-    fetchHeatmapData();
-  }, []);
-
   useEffect(() => {
     if (heatmapData.length > 0) {
       setHourlyData(generateHourlyData());
@@ -346,6 +357,10 @@ const USSDPeakHoursHeatmap: React.FC = () => {
     >
       <LoaderOverlay isLoading={loading} />
       <div className="max-w-7xl mx-auto space-y-6">
+        {error !== undefined && (
+          <ErrorBanner error={error} onRetry={refresh} />
+        )}
+
         {/* Header */}
         <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
@@ -370,6 +385,11 @@ const USSDPeakHoursHeatmap: React.FC = () => {
                   <span>Peak: {avgPerHour}</span>
                 </div>
               </div>
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
               <button
                 onClick={() =>
                   showExportDialog(
@@ -453,20 +473,30 @@ const USSDPeakHoursHeatmap: React.FC = () => {
               {/* Heatmap Rows */}
               {days.map((day, dayIndex) => {
                 const isWeekend = dayIndex >= 5;
+                const holidayName = rowHolidays.get(day);
                 return (
                   <div key={day} className="flex items-center mb-1">
                     {/* Day Label */}
                     <div
                       className={`w-32 pr-4 ${
-                        isWeekend ? "bg-blue-50 " : ""
+                        isWeekend || holidayName ? "bg-blue-50 " : ""
                       } rounded-l-lg`}
                     >
                       <div className="text-sm font-bold text-gray-900 ">
                         {day}
                       </div>
-                      <div className="text-xs text-gray-500 ">
-                        {isWeekend ? "Weekend" : "Work Day"}
-                      </div>
+                      {holidayName ? (
+                        <div
+                          className="text-xs font-medium text-blue-700 truncate"
+                          title={holidayName}
+                        >
+                          {holidayName}
+                        </div>
+                      ) : (
+                        <div className="text-xs text-gray-500 ">
+                          {isWeekend ? "Weekend" : "Work Day"}
+                        </div>
+                      )}
                     </div>
 
                     {/* Cells */}
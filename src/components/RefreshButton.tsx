@@ -0,0 +1,38 @@
+import React from "react";
+import { RefreshCw } from "lucide-react";
+
+type RefreshButtonProps = {
+  onRefresh: () => void;
+  isFetching: boolean;
+  updatedAt: number; // epoch ms of the data currently shown, 0 if none
+};
+
+/**
+ * Manual refresh for cached queries, shows when the data on screen was fetched
+ */
+const RefreshButton: React.FC<RefreshButtonProps> = ({
+  onRefresh,
+  isFetching,
+  updatedAt,
+}) => {
+  const updatedLabel = updatedAt
+    ? `Updated ${new Date(updatedAt).toLocaleTimeString("en-US", {
+        hour: "2-digit",
+        minute: "2-digit",
+      })}`
+    : "Not loaded yet";
+
+  return (
+    <button
+      onClick={onRefresh}
+      disabled={isFetching}
+      title={updatedLabel}
+      className="flex items-center gap-2 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm font-medium text-gray-700 hover:bg-gray-100 transition-all disabled:opacity-60"
+    >
+      <RefreshCw className={`w-4 h-4 ${isFetching ? "animate-spin" : ""}`} />
+      <span className="hidden sm:inline">{updatedLabel}</span>
+    </button>
+  );
+};
+
+export default RefreshButton;
@@ -0,0 +1,391 @@
+import React, { useState } from "react";
+import { CalendarClock, Pencil, Play, Plus, Trash2 } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import { ArchivedReport, DateRangePreset } from "../services/types";
+import { DATE_RANGE_PRESETS, PRESET_LABELS } from "../analytics/dateRange";
+import { REPORT_DEFINITIONS, ReportType } from "../analytics/reports";
+import { REPORT_FORMATS } from "../analytics/reportFiles";
+import {
+  CRON_PRESETS,
+  nextCronRun,
+  parseCron,
+  ReportSchedule,
+  ReportScheduleInput,
+  SCHEDULE_TIMEZONE,
+} from "../analytics/schedules";
+
+const EMPTY_SCHEDULE: ReportScheduleInput = {
+  name: "",
+  report: "daily-ops",
+  period: "24h",
+  cron: CRON_PRESETS[0].cron,
+  channels: [],
+  recipients: "",
+  formats: ["pdf"],
+  enabled: true,
+};
+
+const TITLES: Record<string, string> = Object.fromEntries(
+  REPORT_DEFINITIONS.map((definition) => [definition.type, definition.title])
+);
+
+// Schedules run on Lusaka time, shown as such wherever the browser is
+const formatScheduleTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-GB", {
+    timeZone: SCHEDULE_TIMEZONE,
+    weekday: "short",
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const RUN_STATUS_STYLES = {
+  delivering: "text-blue-600",
+  sent: "text-green-600",
+  failed: "text-red-600",
+};
+
+/**
+ * Reports generated on a schedule and delivered through notification channels and email recipients
+ * @param onRun shows a report generated with "Run now"
+ */
+const ReportSchedules: React.FC<{
+  onRun: (report: ArchivedReport) => void;
+}> = ({ onRun }) => {
+  const { name: profile } = useApiProfile();
+  const { data: schedules = [], error: schedulesError } = useQuery(
+    "reports/schedules",
+    (signal) => api.getReportSchedules({ signal })
+  );
+  const { data: channels = [] } = useQuery("alerts/channels", (signal) =>
+    api.getNotificationChannels({ signal })
+  );
+
+  const [draft, setDraft] = useState(EMPTY_SCHEDULE);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<unknown>();
+
+  const update = (changes: Partial<ReportScheduleInput>) =>
+    setDraft((current) => ({ ...current, ...changes }));
+
+  const parsedCron = parseCron(draft.cron);
+  const nextRun =
+    "error" in parsedCron ? null : nextCronRun(parsedCron.cron, new Date());
+
+  // Runs archive a report, so the history is refreshed with the schedules
+  const mutate = async (action: () => Promise<unknown>) => {
+    setIsSaving(true);
+    setActionError(undefined);
+    try {
+      await action();
+      queryCache.invalidate(`${profile}:reports/`);
+      return true;
+    } catch (error) {
+      setActionError(error);
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const reset = () => {
+    setDraft(EMPTY_SCHEDULE);
+    setEditingId(null);
+  };
+
+  const handleSave = async () => {
+    const saved = await mutate(() =>
+      api.saveReportSchedule(draft, editingId ?? undefined)
+    );
+    if (saved) reset();
+  };
+
+  const edit = ({ id, nextRunAt, lastRun, ...schedule }: ReportSchedule) => {
+    setDraft(schedule);
+    setEditingId(id);
+  };
+
+  const toggleSchedule = ({
+    id,
+    nextRunAt,
+    lastRun,
+    ...schedule
+  }: ReportSchedule) =>
+    mutate(() =>
+      api.saveReportSchedule({ ...schedule, enabled: !schedule.enabled }, id)
+    );
+
+  const handleRun = (schedule: ReportSchedule) =>
+    mutate(async () => onRun(await api.runReportSchedule(schedule.id)));
+
+  const handleDelete = async (schedule: ReportSchedule) => {
+    if (await mutate(() => api.deleteReportSchedule(schedule.id))) {
+      if (editingId === schedule.id) reset();
+    }
+  };
+
+  const selectReport = (report: ReportType) => {
+    const definition = REPORT_DEFINITIONS.find((item) => item.type === report)!;
+    update({ report, period: definition.defaultPeriod });
+  };
+
+  const channelNames = (ids: string[]) =>
+    ids
+      .map((id) => channels.find((channel) => channel.id === id)?.name)
+      .filter(Boolean)
+      .join(", ");
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="font-semibold text-gray-900">Scheduled reports</h3>
+        <p className="text-sm text-gray-600">
+          Generated by the server on {SCHEDULE_TIMEZONE} time (UTC+2), emails
+          carry the report files
+        </p>
+      </div>
+      {schedulesError !== undefined && <ErrorBanner error={schedulesError} />}
+      {actionError !== undefined && <ErrorBanner error={actionError} />}
+
+      <div className="space-y-3 p-4 rounded-xl border border-gray-200">
+        <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3 items-end">
+          <input
+            value={draft.name}
+            onChange={(e) => update({ name: e.target.value })}
+            placeholder="Schedule name, e.g. Weekly SLA"
+            className="px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+          />
+          <label className="text-sm text-gray-600">
+            Report
+            <select
+              value={draft.report}
+              onChange={(e) => selectReport(e.target.value as ReportType)}
+              className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            >
+              {REPORT_DEFINITIONS.map((definition) => (
+                <option key={definition.type} value={definition.type}>
+                  {definition.title}
+                </option>
+              ))}
+            </select>
+          </label>
+          {draft.period === null ? (
+            <p className="text-sm text-gray-500 pb-2">A snapshot at each run</p>
+          ) : (
+            <label className="text-sm text-gray-600">
+              Period, up to the run
+              <select
+                value={draft.period}
+                onChange={(e) =>
+                  update({ period: e.target.value as DateRangePreset })
+                }
+                className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+              >
+                {DATE_RANGE_PRESETS.map((preset) => (
+                  <option key={preset} value={preset}>
+                    {PRESET_LABELS[preset]}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="text-sm text-gray-600">
+            Runs
+            <select
+              value={
+                CRON_PRESETS.some((preset) => preset.cron === draft.cron)
+                  ? draft.cron
+                  : ""
+              }
+              onChange={(e) =>
+                e.target.value && update({ cron: e.target.value })
+              }
+              className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            >
+              {CRON_PRESETS.map((preset) => (
+                <option key={preset.cron} value={preset.cron}>
+                  {preset.label}
+                </option>
+              ))}
+              <option value="">Custom</option>
+            </select>
+          </label>
+          <label className="text-sm text-gray-600">
+            Cron expression
+            <input
+              value={draft.cron}
+              onChange={(e) => update({ cron: e.target.value })}
+              placeholder="minute hour day month weekday"
+              className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm font-mono"
+            />
+          </label>
+          <p
+            className={`text-sm pb-2 ${
+              "error" in parsedCron ? "text-red-600" : "text-gray-500"
+            }`}
+          >
+            {"error" in parsedCron
+              ? parsedCron.error
+              : nextRun
+              ? `Next run ${formatScheduleTime(nextRun.toISOString())}`
+              : "Never runs"}
+          </p>
+          <input
+            value={draft.recipients}
+            onChange={(e) => update({ recipients: e.target.value })}
+            placeholder="Email recipients, comma separated"
+            className="sm:col-span-2 px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+          />
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 text-sm text-gray-600">
+          {channels.length > 0 && <span>Deliver to</span>}
+          {channels.map((channel) => (
+            <label key={channel.id} className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={draft.channels.includes(channel.id)}
+                onChange={(e) =>
+                  update({
+                    channels: e.target.checked
+                      ? [...draft.channels, channel.id]
+                      : draft.channels.filter((id) => id !== channel.id),
+                  })
+                }
+              />
+              {channel.name}
+            </label>
+          ))}
+          <span>Attach</span>
+          {REPORT_FORMATS.map((format) => (
+            <label key={format} className="flex items-center gap-2 uppercase">
+              <input
+                type="checkbox"
+                checked={draft.formats.includes(format)}
+                onChange={(e) =>
+                  update({
+                    formats: e.target.checked
+                      ? [...draft.formats, format]
+                      : draft.formats.filter((item) => item !== format),
+                  })
+                }
+              />
+              {format}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex justify-end gap-2">
+          {editingId && (
+            <button
+              onClick={reset}
+              disabled={isSaving}
+              className="px-4 py-2.5 rounded-xl text-sm font-medium text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !draft.name.trim()}
+            className="flex items-center justify-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+          >
+            <Plus className="w-4 h-4" />
+            {editingId ? "Save schedule" : "Add schedule"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {schedules.length === 0 && (
+          <p className="flex items-center gap-2 text-sm text-gray-500">
+            <CalendarClock className="w-4 h-4" />
+            No scheduled reports.
+          </p>
+        )}
+        {schedules.map((schedule) => (
+          <div
+            key={schedule.id}
+            className={`flex items-center justify-between gap-4 p-3 rounded-xl border ${
+              schedule.id === editingId
+                ? "bg-blue-50 border-blue-200"
+                : "bg-gray-50 border-gray-200"
+            }`}
+          >
+            <div className={`min-w-0 ${schedule.enabled ? "" : "opacity-50"}`}>
+              <div className="font-medium text-gray-900">{schedule.name}</div>
+              <div className="text-xs text-gray-500 truncate">
+                {TITLES[schedule.report]}
+                {schedule.period && `, ${PRESET_LABELS[schedule.period]}`},{" "}
+                <span className="font-mono">{schedule.cron}</span>, to{" "}
+                {[channelNames(schedule.channels), schedule.recipients]
+                  .filter(Boolean)
+                  .join(", ") || "nobody"}
+              </div>
+              <div className="text-xs text-gray-500">
+                {schedule.nextRunAt
+                  ? `Next run ${formatScheduleTime(schedule.nextRunAt)}`
+                  : "Not scheduled"}
+                {schedule.lastRun && (
+                  <>
+                    {", last run "}
+                    {formatScheduleTime(schedule.lastRun.at)}{" "}
+                    <span
+                      className={RUN_STATUS_STYLES[schedule.lastRun.status]}
+                    >
+                      {schedule.lastRun.status}
+                      {schedule.lastRun.error && `: ${schedule.lastRun.error}`}
+                    </span>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="flex items-center gap-2 flex-shrink-0">
+              <label className="flex items-center gap-2 text-sm text-gray-600">
+                <input
+                  type="checkbox"
+                  checked={schedule.enabled}
+                  disabled={isSaving}
+                  onChange={() => toggleSchedule(schedule)}
+                />
+                Enabled
+              </label>
+              <button
+                onClick={() => handleRun(schedule)}
+                disabled={isSaving}
+                title="Run now"
+                className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+              >
+                <Play className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => edit(schedule)}
+                disabled={isSaving}
+                title="Edit schedule"
+                className="p-2 rounded-lg text-gray-500 hover:text-blue-600 hover:bg-blue-50"
+              >
+                <Pencil className="w-4 h-4" />
+              </button>
+              <button
+                onClick={() => handleDelete(schedule)}
+                disabled={isSaving}
+                title="Delete schedule"
+                className="p-2 rounded-lg text-gray-500 hover:text-red-600 hover:bg-red-50"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ReportSchedules;
@@ -0,0 +1,346 @@
+import React, { useState } from "react";
+import { CalendarClock, Download, Eye, FileText, X } from "lucide-react";
+import DateRangePicker from "./DateRangePicker";
+import ErrorBanner from "./ErrorBanner";
+import LoaderOverlay from "./LoaderOverlay";
+import RefreshButton from "./RefreshButton";
+import ReportSchedules from "./ReportSchedules";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import { ArchivedReport, DateRange } from "../services/types";
+import { REPORT_DEFINITIONS, ReportType } from "../analytics/reports";
+import {
+  REPORT_FORMATS,
+  REPORT_MIME_TYPES,
+  reportFileName,
+  ReportFormat,
+  reportToCsv,
+  reportToXlsx,
+} from "../analytics/reportFiles";
+
+const DEFAULT_PERIODS = Object.fromEntries(
+  REPORT_DEFINITIONS.map((definition) => [
+    definition.type,
+    definition.defaultPeriod ?? "24h",
+  ])
+) as Record<ReportType, DateRange>;
+
+const TITLES: Record<string, string> = Object.fromEntries(
+  REPORT_DEFINITIONS.map((definition) => [definition.type, definition.title])
+);
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+/**
+ * Save a report in one of the download formats, PDF is drawn by jsPDF so it is loaded on first use
+ * @param report the report to save
+ * @param format the file format
+ */
+const downloadReport = async (report: ArchivedReport, format: ReportFormat) => {
+  const content =
+    format === "pdf"
+      ? (await import("../analytics/reportPdf")).reportToPdf(report)
+      : format === "csv"
+      ? reportToCsv(report)
+      : reportToXlsx(report);
+  const url = URL.createObjectURL(
+    new Blob([content], { type: REPORT_MIME_TYPES[format] })
+  );
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = reportFileName(report, format);
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const DownloadButtons: React.FC<{
+  onDownload: (format: ReportFormat) => void;
+  disabled?: boolean;
+}> = ({ onDownload, disabled }) => (
+  <div className="flex gap-1">
+    {REPORT_FORMATS.map((format) => (
+      <button
+        key={format}
+        onClick={() => onDownload(format)}
+        disabled={disabled}
+        title={`Download as ${format.toUpperCase()}`}
+        className="flex items-center gap-1 px-2 py-1 rounded-lg text-xs font-medium uppercase text-gray-700 bg-gray-100 hover:bg-gray-200 disabled:opacity-50"
+      >
+        <Download className="w-3 h-3" />
+        {format}
+      </button>
+    ))}
+  </div>
+);
+
+/**
+ * Summary and tables of a generated report, as they go into the downloads
+ */
+const ReportPreview: React.FC<{
+  report: ArchivedReport;
+  onClose: () => void;
+}> = ({ report, onClose }) => (
+  <div className="space-y-4 p-4 rounded-xl border border-gray-200">
+    <div className="flex flex-wrap items-start justify-between gap-2">
+      <div>
+        <h3 className="font-bold text-gray-900">{report.title}</h3>
+        <p className="text-sm text-gray-600">
+          {report.period ?? "Snapshot"}, generated{" "}
+          {formatTime(report.generatedAt)}
+        </p>
+      </div>
+      <div className="flex items-center gap-2">
+        <DownloadButtons
+          onDownload={(format) => downloadReport(report, format)}
+        />
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+
+    <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-3">
+      {report.summary.map(({ label, value }) => (
+        <div key={label} className="p-3 rounded-xl bg-gray-50">
+          <p className="text-xs text-gray-500">{label}</p>
+          <p className="font-semibold text-gray-900">{value}</p>
+        </div>
+      ))}
+    </div>
+
+    {report.sections.map((section) => (
+      <div key={section.title}>
+        <h4 className="mb-2 font-semibold text-gray-900">{section.title}</h4>
+        <div className="max-h-80 overflow-auto rounded-xl border border-gray-200">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+              <tr>
+                {section.columns.map((column) => (
+                  <th key={column.key} className="px-4 py-2 font-medium">
+                    {column.label}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {section.rows.map((row, index) => (
+                <tr key={index} className="border-t border-gray-100">
+                  {section.columns.map((column) => (
+                    <td key={column.key} className="px-4 py-2 text-gray-900">
+                      {row[column.key] ?? ""}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * Reports generated on demand or on a schedule from the dashboard data, kept in a history and downloadable as PDF, CSV or XLSX
+ */
+const ReportsCentre: React.FC = () => {
+  const { name: profile } = useApiProfile();
+  const [periods, setPeriods] = useState(DEFAULT_PERIODS);
+  const [generating, setGenerating] = useState<ReportType | null>(null);
+  const [isOpening, setIsOpening] = useState(false);
+  const [selected, setSelected] = useState<ArchivedReport | null>(null);
+  const [actionError, setActionError] = useState<unknown>();
+
+  const { data, error, isLoading, isFetching, updatedAt, refresh } = useQuery(
+    "reports/history",
+    (signal) => api.getReportHistory({ signal })
+  );
+  const history = data ?? [];
+
+  const generate = async (type: ReportType, withPeriod: boolean) => {
+    setGenerating(type);
+    setActionError(undefined);
+    try {
+      setSelected(
+        await api.generateReport(type, withPeriod ? periods[type] : null)
+      );
+      queryCache.invalidate(`${profile}:reports/`);
+    } catch (error) {
+      setActionError(error);
+    } finally {
+      setGenerating(null);
+    }
+  };
+
+  // The history lists reports without their content, fetched when opened
+  const open = async (id: string, format?: ReportFormat) => {
+    setIsOpening(true);
+    setActionError(undefined);
+    try {
+      const report = selected?.id === id ? selected : await api.getReport(id);
+      if (format) await downloadReport(report, format);
+      else setSelected(report);
+    } catch (error) {
+      setActionError(error);
+    } finally {
+      setIsOpening(false);
+    }
+  };
+
+  return (
+    <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6 relative">
+      <LoaderOverlay isLoading={isLoading} />
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Reports</h2>
+          <p className="text-sm text-gray-600">
+            Built from the same data as the dashboards, every report is kept in
+            the history below
+          </p>
+        </div>
+        <RefreshButton
+          onRefresh={refresh}
+          isFetching={isFetching}
+          updatedAt={updatedAt}
+        />
+      </div>
+      {error !== undefined && <ErrorBanner error={error} onRetry={refresh} />}
+      {actionError !== undefined && <ErrorBanner error={actionError} />}
+
+      {/* Catalogue */}
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {REPORT_DEFINITIONS.map((definition) => (
+          <div
+            key={definition.type}
+            className="flex flex-col gap-3 p-4 rounded-xl border border-gray-200"
+          >
+            <div className="flex items-start gap-3">
+              <div className="p-2 bg-blue-50 rounded-lg">
+                <FileText className="w-5 h-5 text-blue-600" />
+              </div>
+              <div>
+                <h3 className="font-semibold text-gray-900">
+                  {definition.title}
+                </h3>
+                <p className="text-sm text-gray-600">
+                  {definition.description}
+                </p>
+              </div>
+            </div>
+            {definition.defaultPeriod === null ? (
+              <p className="text-sm text-gray-500">
+                A snapshot of the current subscriber base
+              </p>
+            ) : (
+              <DateRangePicker
+                value={periods[definition.type]}
+                onChange={(range) =>
+                  setPeriods({ ...periods, [definition.type]: range })
+                }
+              />
+            )}
+            <button
+              onClick={() =>
+                generate(definition.type, definition.defaultPeriod !== null)
+              }
+              disabled={generating !== null}
+              className="mt-auto px-4 py-2 rounded-xl text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 disabled:opacity-50"
+            >
+              {generating === definition.type ? "Generating..." : "Generate"}
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {selected && (
+        <ReportPreview
+          key={selected.id}
+          report={selected}
+          onClose={() => setSelected(null)}
+        />
+      )}
+
+      <ReportSchedules onRun={setSelected} />
+
+      {/* History */}
+      <div>
+        <h3 className="mb-2 font-semibold text-gray-900">History</h3>
+        <div className="max-h-[480px] overflow-auto rounded-xl border border-gray-200">
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-medium">Generated</th>
+                <th className="px-4 py-2 font-medium">Report</th>
+                <th className="px-4 py-2 font-medium">Period</th>
+                <th className="px-4 py-2 font-medium text-right">Download</th>
+              </tr>
+            </thead>
+            <tbody>
+              {history.map((record) => (
+                <tr
+                  key={record.id}
+                  className={`border-t border-gray-100 ${
+                    record.id === selected?.id ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                    {formatTime(record.generatedAt)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">
+                    {TITLES[record.type] ?? record.title}
+                    {record.schedule && (
+                      <span className="flex items-center gap-1 text-xs text-gray-500">
+                        <CalendarClock className="w-3 h-3" />
+                        {record.schedule.name}
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {record.period ?? "Snapshot"}
+                  </td>
+                  <td className="px-4 py-2">
+                    <div className="flex justify-end items-center gap-2">
+                      <button
+                        onClick={() => open(record.id)}
+                        disabled={isOpening}
+                        title="View"
+                        className="p-1 rounded-lg text-gray-500 hover:bg-gray-100 disabled:opacity-50"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                      <DownloadButtons
+                        onDownload={(format) => open(record.id, format)}
+                        disabled={isOpening}
+                      />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!isLoading && history.length === 0 && (
+            <p className="flex items-center gap-2 p-4 text-sm text-gray-500">
+              <FileText className="w-4 h-4" />
+              No reports yet, generate one above.
+            </p>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReportsCentre;
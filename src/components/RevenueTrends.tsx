@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useRef } from "react";
 import {
   BarChart,
   Bar,
@@ -10,8 +10,10 @@ import {
   ResponsiveContainer,
   ComposedChart,
   Line,
+  LineChart,
   Area,
   AreaChart,
+  ReferenceLine,
 } from "recharts";
 import {
   TrendingUp,
@@ -31,25 +33,47 @@ import {
   exportAsCSV,
   exportAsPDF,
   showExportDialog,
-  TimeRange,
 } from "./utils";
 import { api } from "../services/api";
+import { DateRange, RevenuePoint } from "../services/types";
+import { dateRangeKey, dateRangeLabel } from "../analytics/dateRange";
+import {
+  FORECAST_HORIZONS,
+  forecastSeries,
+  SeriesForecast,
+} from "../analytics/forecast";
+import { HolidayCalendar, zonedDayKey } from "../analytics/holidays";
+import { ordinal, PayCycle, PayDate, payDayLift } from "../analytics/payCycle";
+import { CAT_UTC_OFFSET_MINUTES } from "../analytics/patterns";
+import { useHolidayCalendar } from "../services/calendar";
+import { usePayCycle, usePayDates } from "../services/payCycle";
+import DateRangePicker from "./DateRangePicker";
 import LoaderOverlay from "./LoaderOverlay";
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
 
-interface RevenueDataPoint {
-  date: string; // ISO String from backend
+interface RevenueDataPoint extends RevenuePoint {
   dateLabel: string; // Generated in Frontend
-  electricity: number;
-  mobileMoney: number;
-  airtime: number;
-  water: number;
-  total: number;
   isPeak: boolean; // Calculated in Frontend
+  payDateName?: string; // from the pay cycle
   isHoliday: boolean; // Calculated in Frontend
+  holidayName?: string; // from the holiday calendar
   isProjected: boolean;
   growth?: number; // Calculated in Frontend
 }
 
+type RevenueService = "electricity" | "mobileMoney" | "airtime" | "water";
+
+// A row of the chart. Projected days keep their values in `projected` instead of the service keys,
+// so every chart type draws them as separate, dashed series
+interface RevenueChartPoint
+  extends Omit<RevenueDataPoint, RevenueService>,
+    Partial<Pick<RevenueDataPoint, RevenueService>> {
+  projected?: Record<RevenueService, number>;
+  bands?: Record<RevenueService | "total", [number, number]>; // 95% confidence, projected days only
+}
+
 interface ServiceRevenue {
   name: string;
   value: number;
@@ -64,6 +88,20 @@ interface ServiceRevenue {
 
 type ChartType = "stacked" | "grouped" | "line" | "area";
 
+const REVENUE_SERIES: { key: RevenueService; name: string; color: string }[] = [
+  { key: "electricity", name: "Electricity", color: "#3B82F6" },
+  { key: "mobileMoney", name: "Mobile Money", color: "#10B981" },
+  { key: "airtime", name: "Airtime", color: "#8B5CF6" },
+  { key: "water", name: "Water", color: "#F59E0B" },
+];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const PAY_DATE_COLORS = ["#8B5CF6", "#3B82F6", "#10B981", "#F59E0B", "#EF4444"];
+
+const liftLabel = (offset: number) =>
+  offset === 0 ? "Pay day" : `D${offset > 0 ? "+" : ""}${offset}`;
+
 // Define the shape of our dynamic insight cards
 interface InsightCard {
   title: string;
@@ -115,7 +153,8 @@ const calculateServiceStats = (data: RevenueDataPoint[]): ServiceRevenue[] => {
 // 2. Helper to generate Text Insights dynamically
 const generateRevenueInsights = (
   data: RevenueDataPoint[],
-  services: ServiceRevenue[]
+  services: ServiceRevenue[],
+  payDates: PayDate[]
 ): InsightCard[] => {
   if (data.length === 0 || services.length === 0) return [];
 
@@ -125,13 +164,15 @@ const generateRevenueInsights = (
   // Insight B: Growth Star (Highest positive trend)
   const growthStar = [...services].sort((a, b) => b.trend - a.trend)[0];
 
-  // Insight C: Salary Week Impact
-  // Calculate total revenue during "Peak" days (15th-20th) vs Total
-  const salaryWeekRev = data
-    .filter((d) => d.isPeak)
-    .reduce((sum, d) => sum + d.total, 0);
+  // Insight C: Pay Cycle Impact
+  // Calculate total revenue during "Peak" days (pay windows) vs Total
+  const peakDays = data.filter((d) => d.isPeak);
+  const salaryWeekRev = peakDays.reduce((sum, d) => sum + d.total, 0);
   const totalRev = data.reduce((sum, d) => sum + d.total, 0);
   const salaryWeekShare = Math.round((salaryWeekRev / totalRev) * 100);
+  const payDateList = payDates
+    .map((payDate) => `${payDate.name} (${ordinal(payDate.dayOfMonth)})`)
+    .join(", ");
 
   return [
     {
@@ -152,9 +193,12 @@ const generateRevenueInsights = (
       iconBgClass: "bg-green-500",
     },
     {
-      title: "Salary Week Impact",
+      title: "Pay Cycle Impact",
       value: `${salaryWeekShare}% of Volume`,
-      description: `Days 15-20 (Salary Week) account for ${salaryWeekShare}% of total monthly revenue flows.`,
+      description:
+        payDates.length > 0
+          ? `Pay windows of ${payDateList} cover ${peakDays.length} of ${data.length} days and account for ${salaryWeekShare}% of revenue flows.`
+          : "No pay dates configured, add them in the Calendar tab to track salary peaks.",
       icon: Signal,
       colorClass:
         "bg-gradient-to-br from-purple-50 to-pink-50 border-purple-200",
@@ -163,73 +207,148 @@ const generateRevenueInsights = (
   ];
 };
 
-const USSDRevenueTrends: React.FC = () => {
-  const [timeRange, setTimeRange] = useState<TimeRange>("90d");
-  const [chartType, setChartType] = useState<ChartType>("stacked");
-  const [revenueData, setRevenueData] = useState<RevenueDataPoint[]>([]);
-  const [loading, setLoading] = useState(false); // Add loading state if desired
-  const componentRef = useRef<HTMLDivElement>(null);
+// 3. Helper to detect specific business days (Moved from generate function)
+const enhanceDataPoint = (
+  data: RevenuePoint,
+  prevTotal: number,
+  calendar: HolidayCalendar,
+  payCycle: PayCycle,
+  isProjected = false
+): RevenueDataPoint => {
+  const dateObj = new Date(data.date);
+  // Days as the server buckets them, whatever the timezone of the browser
+  const day = zonedDayKey(dateObj, CAT_UTC_OFFSET_MINUTES);
 
-  // Helper to detect specific business days (Moved from generate function)
-  const enhanceDataPoint = (data: any, prevTotal: number) => {
-    const dateObj = new Date(data.date);
-    const dayOfMonth = dateObj.getDate();
-    const month = dateObj.getMonth();
+  // Logic: Peak is inside the window after a configured pay date
+  const payDates = payCycle.payDatesOn(day);
 
-    // Logic: Peak is 15th-20th (Salary week)
-    const isPeak = dayOfMonth >= 15 && dayOfMonth <= 20;
+  // Logic: National holidays and custom events
+  const holidays = calendar.holidaysOn(day);
 
-    // Logic: Holidays (Xmas or New Year)
-    const isHoliday =
-      (month === 11 && dayOfMonth >= 25 && dayOfMonth <= 31) ||
-      (month === 0 && dayOfMonth === 1);
+  // Logic: Growth % vs previous day
+  const growth =
+    prevTotal > 0 ? ((data.total - prevTotal) / prevTotal) * 100 : 0;
 
-    // Logic: Growth % vs previous day
-    const growth =
-      prevTotal > 0 ? ((data.total - prevTotal) / prevTotal) * 100 : 0;
+  return {
+    ...data,
+    dateLabel: dateObj.toLocaleDateString("en-US", {
+      month: "short",
+      day: "numeric",
+    }),
+    isPeak: payDates.length > 0,
+    payDateName:
+      payDates.map((payDate) => payDate.name).join(", ") || undefined,
+    isHoliday: holidays.length > 0,
+    holidayName:
+      holidays.map((holiday) => holiday.name).join(", ") || undefined,
+    isProjected,
+    growth: Math.round(growth * 10) / 10,
+  };
+};
 
-    return {
-      ...data,
-      dateLabel: dateObj.toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-      }),
-      isPeak,
-      isHoliday,
-      isProjected: false,
-      growth: Math.round(growth * 10) / 10,
-    };
+// 4. Helper to extend the series with projected days, one forecast per service
+const projectRevenue = (
+  data: RevenueDataPoint[],
+  days: number,
+  calendar: HolidayCalendar,
+  payCycle: PayCycle
+): RevenueChartPoint[] => {
+  if (days === 0 || data.length === 0) return [];
+
+  const firstDay = Date.parse(data[0].date);
+  // Same calendar, pay cycle and Central Africa Time days as the flags above
+  const options = {
+    utcOffsetMinutes: CAT_UTC_OFFSET_MINUTES,
+    isSalaryDay: (local: Date) =>
+      payCycle.isPeak(local.toISOString().slice(0, 10)),
   };
+  const forecastOf = (values: number[]) =>
+    forecastSeries(values, firstDay, days, options);
+  const forecasts = Object.fromEntries(
+    REVENUE_SERIES.map(({ key }) => [key, forecastOf(data.map((d) => d[key]))])
+  ) as Record<RevenueService, SeriesForecast>;
+  const totals = forecastOf(data.map((d) => d.total));
+
+  let prevTotal = data[data.length - 1].total;
+  return totals.values.map((_, i) => {
+    const projected = Object.fromEntries(
+      REVENUE_SERIES.map(({ key }) => [key, forecasts[key].values[i]])
+    ) as Record<RevenueService, number>;
+    const point = enhanceDataPoint(
+      {
+        date: new Date(firstDay + (data.length + i) * DAY_MS).toISOString(),
+        ...projected,
+        total: Object.values(projected).reduce((sum, v) => sum + v, 0),
+      },
+      prevTotal,
+      calendar,
+      payCycle,
+      true
+    );
+    prevTotal = point.total;
 
-  useEffect(() => {
-    const fetchRevenueData = async () => {
-      setLoading(true);
-      try {
-        const result = await api.getRevenueTrends(timeRange);
-
-        if (result) {
-          // Process the raw data to add UI flags (Growth, Peak, etc.)
-          const processedData: RevenueDataPoint[] = result.map(
-            (item: any, index: number) => {
-              const prevTotal =
-                index > 0 ? result[index - 1].total : item.total;
-              return enhanceDataPoint(item, prevTotal);
-            }
-          );
-
-          setRevenueData(processedData);
-        } else {
-          alert("Error fetching");
-        }
-      } catch (error) {
-        console.error("Failed to fetch revenue data", error);
-      } finally {
-        setLoading(false);
-      }
+    const { electricity, mobileMoney, airtime, water, ...rest } = point;
+    return {
+      ...rest,
+      projected,
+      bands: {
+        ...(Object.fromEntries(
+          REVENUE_SERIES.map(({ key }) => [
+            key,
+            [forecasts[key].lower[i], forecasts[key].upper[i]],
+          ])
+        ) as Record<RevenueService, [number, number]>),
+        total: [totals.lower[i], totals.upper[i]],
+      },
     };
+  });
+};
 
-    fetchRevenueData();
-  }, [timeRange]);
+const USSDRevenueTrends: React.FC = () => {
+  const [timeRange, setTimeRange] = useState<DateRange>("90d");
+  const [chartType, setChartType] = useState<ChartType>("stacked");
+  const [forecastDays, setForecastDays] = useState(0);
+  const calendar = useHolidayCalendar();
+  const payCycle = usePayCycle();
+  const payDates = usePayDates();
+  const {
+    data: result,
+    error,
+    isLoading: loading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery(`revenue/${dateRangeKey(timeRange)}`, (signal) =>
+    api.getRevenueTrends(timeRange, { signal })
+  );
+  const componentRef = useRef<HTMLDivElement>(null);
+
+  // Process the raw data to add UI flags (Growth, Peak, etc.)
+  const revenueData: RevenueDataPoint[] = React.useMemo(
+    () =>
+      (result ?? []).map((item, index, points) => {
+        const prevTotal = index > 0 ? points[index - 1].total : item.total;
+        return enhanceDataPoint(item, prevTotal, calendar, payCycle);
+      }),
+    [result, calendar, payCycle]
+  );
+
+  // Projections only extend the chart, every total and insight is computed from actual days
+  const projectedData = React.useMemo(
+    () => projectRevenue(revenueData, forecastDays, calendar, payCycle),
+    [revenueData, forecastDays, calendar, payCycle]
+  );
+  const chartData: RevenueChartPoint[] = [...revenueData, ...projectedData];
+  const projectedTotal = projectedData.reduce((sum, d) => sum + d.total, 0);
+
+  // Projected rows are exported with their values in the service columns, told apart by type and bounds
+  const csvRows = chartData.map(({ projected, bands, ...row }) => ({
+    ...row,
+    ...projected,
+    type: row.isProjected ? "Projected" : "Actual",
+    lower: bands?.total[0],
+    upper: bands?.total[1],
+  }));
 
   const totalRevenue = revenueData.reduce((sum, d) => sum + d.total, 0);
   const avgDailyRevenue = Math.round(totalRevenue / (revenueData.length || 1));
@@ -245,13 +364,13 @@ const USSDRevenueTrends: React.FC = () => {
         100
       : 0;
 
-  const CustomTooltip: React.FC<CustomTooltipProps<RevenueDataPoint>> = ({
+  const CustomTooltip: React.FC<CustomTooltipProps<RevenueChartPoint>> = ({
     active,
     payload,
     label,
   }) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload as RevenueDataPoint;
+      const data = payload[0].payload as RevenueChartPoint;
 
       return (
         <div className="bg-white  p-4 rounded-xl shadow-2xl border border-gray-200 ">
@@ -259,12 +378,12 @@ const USSDRevenueTrends: React.FC = () => {
             <p className="font-bold text-gray-900 ">{label}</p>
             {data.isPeak && (
               <span className="text-xs px-2 py-1 bg-red-100 text-red-700 rounded-full font-medium">
-                Peak Week
+                {data.payDateName ?? "Peak Week"}
               </span>
             )}
             {data.isHoliday && (
               <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full font-medium">
-                Holiday
+                {data.holidayName ?? "Holiday"}
               </span>
             )}
             {data.isProjected && (
@@ -282,20 +401,38 @@ const USSDRevenueTrends: React.FC = () => {
               </span>
             </div>
 
-            {payload.map((entry: any, index: number) => (
-              <div key={index} className="flex items-center justify-between">
-                <div className="flex items-center gap-2">
-                  <div
-                    className="w-3 h-3 rounded-full"
-                    style={{ backgroundColor: entry.color }}
-                  />
-                  <span className="text-sm text-gray-600 ">{entry.name}:</span>
-                </div>
-                <span className="text-sm font-semibold text-gray-900 ">
-                  ZMW {entry.value.toLocaleString()}
+            {data.bands && (
+              <div className="flex justify-between items-center text-xs text-gray-500">
+                <span>95% range:</span>
+                <span>
+                  ZMW {data.bands.total[0].toLocaleString()} -{" "}
+                  {data.bands.total[1].toLocaleString()}
                 </span>
               </div>
-            ))}
+            )}
+
+            {/* Series without a value on this day (actual vs projected) and the bands are left out */}
+            {payload
+              .filter(
+                (entry): entry is typeof entry & { value: number } =>
+                  typeof entry.value === "number"
+              )
+              .map((entry, index) => (
+                <div key={index} className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <div
+                      className="w-3 h-3 rounded-full"
+                      style={{ backgroundColor: entry.color }}
+                    />
+                    <span className="text-sm text-gray-600 ">
+                      {entry.name}:
+                    </span>
+                  </div>
+                  <span className="text-sm font-semibold text-gray-900 ">
+                    ZMW {entry.value.toLocaleString()}
+                  </span>
+                </div>
+              ))}
 
             {data.growth !== undefined && (
               <div className="flex items-center justify-between pt-2 border-t border-gray-200 ">
@@ -330,10 +467,54 @@ const USSDRevenueTrends: React.FC = () => {
 
   const renderChart = () => {
     const commonProps = {
-      data: revenueData,
+      data: chartData,
       margin: { top: 20, right: 30, left: 20, bottom: 20 },
     };
 
+    // Forecast overlays, only drawn when a horizon is selected
+    const isForecasting = projectedData.length > 0;
+    const forecastStart = isForecasting && (
+      <ReferenceLine
+        x={projectedData[0].dateLabel}
+        stroke="#94a3b8"
+        strokeDasharray="3 3"
+        label={{
+          value: "Forecast",
+          position: "insideTopLeft",
+          fill: "#64748b",
+          fontSize: 12,
+        }}
+      />
+    );
+    const confidenceBand = (key: RevenueService | "total", color: string) =>
+      isForecasting && (
+        <Area
+          key={`band-${key}`}
+          type="monotone"
+          dataKey={`bands.${key}`}
+          stroke="none"
+          fill={color}
+          fillOpacity={0.15}
+          legendType="none"
+          isAnimationActive={false}
+        />
+      );
+    const projectedBars = (stacked: boolean) =>
+      isForecasting &&
+      REVENUE_SERIES.map(({ key, name, color }) => (
+        <Bar
+          key={`projected-${key}`}
+          dataKey={`projected.${key}`}
+          stackId={stacked ? "a" : key}
+          fill={color}
+          fillOpacity={0.35}
+          stroke={color}
+          strokeDasharray="4 2"
+          name={`${name} (projected)`}
+          legendType="none"
+        />
+      ));
+
     switch (chartType) {
       case "stacked":
         return (
@@ -375,6 +556,9 @@ const USSDRevenueTrends: React.FC = () => {
               name="Water"
               radius={[4, 4, 0, 0]}
             />
+            {projectedBars(true)}
+            {confidenceBand("total", "#94a3b8")}
+            {forecastStart}
           </BarChart>
         );
 
@@ -400,28 +584,35 @@ const USSDRevenueTrends: React.FC = () => {
             <Legend />
             <Bar
               dataKey="electricity"
+              stackId="electricity"
               fill="#3B82F6"
               name="Electricity"
               radius={[4, 4, 0, 0]}
             />
             <Bar
               dataKey="mobileMoney"
+              stackId="mobileMoney"
               fill="#10B981"
               name="Mobile Money"
               radius={[4, 4, 0, 0]}
             />
             <Bar
               dataKey="airtime"
+              stackId="airtime"
               fill="#8B5CF6"
               name="Airtime"
               radius={[4, 4, 0, 0]}
             />
             <Bar
               dataKey="water"
+              stackId="water"
               fill="#F59E0B"
               name="Water"
               radius={[4, 4, 0, 0]}
             />
+            {projectedBars(false)}
+            {REVENUE_SERIES.map(({ key, color }) => confidenceBand(key, color))}
+            {forecastStart}
           </BarChart>
         );
 
@@ -477,6 +668,22 @@ const USSDRevenueTrends: React.FC = () => {
               dot={{ r: 3 }}
               name="Water"
             />
+            {isForecasting &&
+              REVENUE_SERIES.map(({ key, name, color }) => (
+                <Line
+                  key={`projected-${key}`}
+                  type="monotone"
+                  dataKey={`projected.${key}`}
+                  stroke={color}
+                  strokeWidth={2.5}
+                  strokeDasharray="6 4"
+                  dot={false}
+                  name={`${name} (projected)`}
+                  legendType="none"
+                />
+              ))}
+            {REVENUE_SERIES.map(({ key, color }) => confidenceBand(key, color))}
+            {forecastStart}
           </ComposedChart>
         );
 
@@ -560,6 +767,24 @@ const USSDRevenueTrends: React.FC = () => {
               strokeWidth={2}
               name="Water"
             />
+            {isForecasting &&
+              REVENUE_SERIES.map(({ key, name, color }) => (
+                <Area
+                  key={`projected-${key}`}
+                  type="monotone"
+                  dataKey={`projected.${key}`}
+                  stackId="2"
+                  stroke={color}
+                  strokeDasharray="6 4"
+                  fill={color}
+                  fillOpacity={0.15}
+                  strokeWidth={2}
+                  name={`${name} (projected)`}
+                  legendType="none"
+                />
+              ))}
+            {confidenceBand("total", "#94a3b8")}
+            {forecastStart}
           </AreaChart>
         );
     }
@@ -570,10 +795,31 @@ const USSDRevenueTrends: React.FC = () => {
     [revenueData]
   );
   const insights = React.useMemo(
-    () => generateRevenueInsights(revenueData, serviceRevenues),
-    [revenueData, serviceRevenues]
+    () => generateRevenueInsights(revenueData, serviceRevenues, payDates),
+    [revenueData, serviceRevenues, payDates]
   );
 
+  // Revenue around each pay date, its pay days in the range lined up on day 0
+  const payDayLifts = React.useMemo(() => {
+    const series = revenueData.map((d) => ({
+      date: zonedDayKey(new Date(d.date), CAT_UTC_OFFSET_MINUTES),
+      value: d.total,
+    }));
+    if (series.length === 0) return [];
+
+    const first = series[0].date;
+    const last = series[series.length - 1].date;
+    const lifts = payDates.map((payDate) =>
+      payDayLift(series, payCycle.payDaysBetween(payDate, first, last))
+    );
+    return (lifts[0] ?? []).map(({ offset }, i) => ({
+      label: liftLabel(offset),
+      ...Object.fromEntries(
+        payDates.map((payDate, j) => [payDate.id, lifts[j][i].lift])
+      ),
+    }));
+  }, [revenueData, payDates, payCycle]);
+
   return (
     <div
       ref={componentRef}
@@ -582,6 +828,10 @@ const USSDRevenueTrends: React.FC = () => {
       <LoaderOverlay isLoading={loading} />
 
       <div className="max-w-7xl mx-auto space-y-6">
+        {error !== undefined && (
+          <ErrorBanner error={error} onRetry={refresh} />
+        )}
+
         <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
             <div>
@@ -605,14 +855,21 @@ const USSDRevenueTrends: React.FC = () => {
                 growth
               </div>
 
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
+
               <button
                 onClick={() =>
                   showExportDialog(
                     () => exportAsPDF("transaction-volumes", componentRef),
                     () =>
-                      exportAsCSV(revenueData, "ussd-revenue-trends", [
+                      exportAsCSV(csvRows, "ussd-revenue-trends", [
                         { key: "date", label: "Date" },
                         { key: "dateLabel", label: "Date Label" },
+                        { key: "type", label: "Type" },
                         {
                           key: "electricity",
                           label: "Electricity Revenue (ZMW)",
@@ -625,6 +882,8 @@ const USSDRevenueTrends: React.FC = () => {
                         { key: "water", label: "Water Revenue (ZMW)" },
                         { key: "total", label: "Total Revenue (ZMW)" },
                         { key: "growth", label: "Growth (%)" },
+                        { key: "lower", label: "Lower Bound 95% (ZMW)" },
+                        { key: "upper", label: "Upper Bound 95% (ZMW)" },
                       ])
                   )
                 }
@@ -643,14 +902,11 @@ const USSDRevenueTrends: React.FC = () => {
                 ZMW {formatYAxis(totalRevenue)}
               </div>
               <div className="text-xs text-blue-600  mt-1">
-                Last{" "}
-                {timeRange === "7d"
-                  ? "7 days"
-                  : timeRange === "30d"
-                  ? "30 days"
-                  : timeRange === "90d"
-                  ? "90 days"
-                  : "year"}
+                {dateRangeLabel(timeRange)}
+                {projectedData.length > 0 &&
+                  `, ZMW ${formatYAxis(
+                    projectedTotal
+                  )} projected over the next ${projectedData.length} days`}
               </div>
             </div>
 
@@ -670,7 +926,8 @@ const USSDRevenueTrends: React.FC = () => {
                 ZMW {peakDay.total.toLocaleString()}
               </div>
               <div className="text-xs text-purple-600  mt-1">
-                {peakDay.dateLabel} (Salary week)
+                {peakDay.dateLabel}
+                {peakDay.payDateName ? ` (${peakDay.payDateName})` : ""}
               </div>
             </div>
           </div>
@@ -688,16 +945,12 @@ const USSDRevenueTrends: React.FC = () => {
             </div>
 
             <div className="flex flex-wrap items-center gap-3">
-              <select
+              <DateRangePicker
                 value={timeRange}
-                onChange={(e) => setTimeRange(e.target.value as TimeRange)}
+                onChange={setTimeRange}
+                presets={["7d", "30d", "90d", "ytd"]}
                 className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-blue-500 "
-              >
-                <option value="7d">Last 7 Days</option>
-                <option value="30d">Last 30 Days</option>
-                <option value="90d">Last 90 Days</option>
-                <option value="ytd">Year to Date</option>
-              </select>
+              />
 
               <select
                 value={chartType}
@@ -709,6 +962,19 @@ const USSDRevenueTrends: React.FC = () => {
                 <option value="line">Line Chart</option>
                 <option value="area">Area Chart</option>
               </select>
+
+              <select
+                value={forecastDays}
+                onChange={(e) => setForecastDays(Number(e.target.value))}
+                className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-blue-500 "
+              >
+                <option value={0}>No Forecast</option>
+                {FORECAST_HORIZONS.map((days) => (
+                  <option key={days} value={days}>
+                    Forecast {days} Days
+                  </option>
+                ))}
+              </select>
             </div>
           </div>
 
@@ -719,6 +985,67 @@ const USSDRevenueTrends: React.FC = () => {
           </div>
         </div>
 
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+          <h2 className="text-xl font-bold text-gray-900 mb-1 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-purple-600" />
+            Pay Day Lift
+          </h2>
+          <p className="text-sm text-gray-600 mb-6">
+            Revenue in the days around each pay date, compared with the average
+            day of the period
+          </p>
+
+          {payDayLifts.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              No pay dates configured, add them in the Calendar tab.
+            </p>
+          ) : (
+            <div className="h-[300px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart
+                  data={payDayLifts}
+                  margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
+                >
+                  <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                  <XAxis
+                    dataKey="label"
+                    tick={{ fill: "#6b7280", fontSize: 12 }}
+                  />
+                  <YAxis
+                    tick={{ fill: "#6b7280", fontSize: 12 }}
+                    tickFormatter={(value) => `${value}%`}
+                  />
+                  <Tooltip
+                    formatter={(value) =>
+                      typeof value === "number"
+                        ? `${value > 0 ? "+" : ""}${value}%`
+                        : "No data"
+                    }
+                  />
+                  <Legend iconType="circle" />
+                  <ReferenceLine y={0} stroke="#94a3b8" />
+                  <ReferenceLine
+                    x={liftLabel(0)}
+                    stroke="#94a3b8"
+                    strokeDasharray="5 5"
+                  />
+                  {payDates.map((payDate, i) => (
+                    <Line
+                      key={payDate.id}
+                      type="monotone"
+                      dataKey={payDate.id}
+                      name={payDate.name}
+                      stroke={PAY_DATE_COLORS[i % PAY_DATE_COLORS.length]}
+                      strokeWidth={2}
+                      connectNulls
+                    />
+                  ))}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </div>
+
         <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <h2 className="text-xl font-bold text-gray-900  mb-6 flex items-center gap-2">
             <Activity className="w-5 h-5 text-blue-600" />
@@ -0,0 +1,362 @@
+import React, { useEffect, useMemo, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  Smartphone,
+  X,
+} from "lucide-react";
+import DateRangePicker from "./DateRangePicker";
+import ErrorBanner from "./ErrorBanner";
+import LoaderOverlay from "./LoaderOverlay";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { DateRange, SessionSearchFilter } from "../services/types";
+import { dateRangeKey } from "../analytics/dateRange";
+import { replaySession, SESSION_SEARCH_LIMIT } from "../analytics/explorer";
+import { MENU_FLOW_OUTCOME_NODES } from "../analytics/menuFlow";
+import {
+  MENU_PATH_SEPARATOR,
+  NETWORKS,
+  SESSION_OUTCOMES,
+  SessionOutcome,
+  UssdSession,
+} from "../analytics/sessions";
+import { maskMsisdn } from "../analytics/ticker";
+
+const OUTCOME_STYLES: Record<SessionOutcome, string> = {
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  abandoned: "bg-yellow-100 text-yellow-700",
+};
+
+const ALL: SessionSearchFilter = {
+  node: "all",
+  outcome: "all",
+  network: "all",
+};
+
+// Pace of the replay, screens do not wait their real latency
+const PLAYBACK_MS = 1500;
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+const durationSeconds = (session: UssdSession) =>
+  Math.round(
+    (Date.parse(session.endedAt) - Date.parse(session.startedAt)) / 1000
+  );
+
+/**
+ * Screens of one session as the handset showed them, stepped through by hand or played back
+ */
+const SessionReplayPanel: React.FC<{
+  session: UssdSession;
+  onClose: () => void;
+}> = ({ session, onClose }) => {
+  const replay = useMemo(() => replaySession(session), [session]);
+  // The screen shown, one past the last for the closing message
+  const [step, setStep] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const last = replay.screens.length;
+  const screen = replay.screens[step];
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (step >= last) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStep(step + 1), PLAYBACK_MS);
+    return () => clearTimeout(timer);
+  }, [isPlaying, step, last]);
+
+  const play = () => {
+    if (step >= last) setStep(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  return (
+    <div className="space-y-4 p-4 rounded-xl border border-gray-200 self-start">
+      <div className="flex items-start justify-between gap-2">
+        <div>
+          <h3 className="font-bold text-gray-900">{session.sessionId}</h3>
+          <p className="text-sm text-gray-600">
+            {maskMsisdn(session.msisdnHash)} on {session.network},{" "}
+            {session.province}
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Handset */}
+      <div className="mx-auto w-64 rounded-3xl bg-gray-900 p-3 shadow-lg">
+        <div className="min-h-[180px] rounded-xl bg-green-50 p-3 font-mono text-sm text-gray-900">
+          {screen ? (
+            <>
+              <p className="whitespace-pre-line">{screen.text}</p>
+              {screen.options.map((option, index) => (
+                <p key={option}>
+                  {index + 1}. {option}
+                </p>
+              ))}
+              <p className="mt-3 border-t border-gray-300 pt-2 text-gray-600">
+                &gt;{" "}
+                {screen.input ?? (
+                  <span className="italic text-gray-400">no reply</span>
+                )}
+              </p>
+            </>
+          ) : (
+            <p className="whitespace-pre-line">{replay.ending.text}</p>
+          )}
+        </div>
+        <div className="mt-3 flex items-center justify-center gap-2">
+          <button
+            onClick={() => setStep(Math.max(0, step - 1))}
+            disabled={step === 0}
+            title="Previous screen"
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-30"
+          >
+            <ChevronLeft className="w-4 h-4" />
+          </button>
+          <button
+            onClick={play}
+            title={isPlaying ? "Pause" : "Play"}
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-700"
+          >
+            {isPlaying ? (
+              <Pause className="w-4 h-4" />
+            ) : (
+              <Play className="w-4 h-4" />
+            )}
+          </button>
+          <button
+            onClick={() => setStep(Math.min(last, step + 1))}
+            disabled={step === last}
+            title="Next screen"
+            className="p-2 rounded-lg text-gray-300 hover:bg-gray-700 disabled:opacity-30"
+          >
+            <ChevronRight className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      {/* Timeline */}
+      <table className="w-full text-sm">
+        <tbody>
+          {replay.screens.map((item, index) => (
+            <tr
+              key={index}
+              onClick={() => setStep(index)}
+              className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                index === step ? "bg-blue-50" : ""
+              }`}
+            >
+              <td className="py-1 pr-2 text-gray-900">
+                {index + 1}. {item.node}
+              </td>
+              <td className="py-1 font-mono text-xs text-gray-600">
+                {item.input ?? "-"}
+              </td>
+              <td className="py-1 text-right text-gray-600">{item.seconds}s</td>
+            </tr>
+          ))}
+          <tr
+            onClick={() => setStep(last)}
+            className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${
+              step === last ? "bg-blue-50" : ""
+            }`}
+          >
+            <td className="py-1 pr-2 font-medium text-gray-900" colSpan={3}>
+              {replay.ending.node}
+            </td>
+          </tr>
+        </tbody>
+      </table>
+      {(!replay.timed || !replay.inputsLogged) && (
+        <p className="text-xs text-gray-500">
+          {!replay.timed &&
+            "The log has no screen times, the session is spread evenly over its screens. "}
+          {!replay.inputsLogged &&
+            "The log has no replies, only menu choices are shown."}
+        </p>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Individual sessions matching a menu node, outcome and network, replayed screen by screen.
+ * Replies typed by subscribers are masked by the server, menu choices stay readable.
+ */
+const SessionExplorer: React.FC = () => {
+  const [period, setPeriod] = useState<DateRange>("24h");
+  const [filter, setFilter] = useState<SessionSearchFilter>(ALL);
+  const [selected, setSelected] = useState<UssdSession | null>(null);
+
+  const { data: flow } = useQuery("menu-flow", (signal) =>
+    api.getMenuNavigationFlow({ signal })
+  );
+  const { data, error, isLoading, isFetching, updatedAt, refresh } = useQuery(
+    `sessions/explore/${dateRangeKey(period)}/${filter.node}/${
+      filter.outcome
+    }/${filter.network}`,
+    (signal) => api.searchSessions(period, filter, { signal })
+  );
+
+  const outcomeNodes = Object.values(MENU_FLOW_OUTCOME_NODES);
+  const nodes = (flow?.nodes ?? [])
+    .map((node) => node.name)
+    .filter((name) => !outcomeNodes.includes(name));
+  const sessions = data ?? [];
+
+  const select = <K extends keyof SessionSearchFilter>(
+    key: K,
+    label: string,
+    options: readonly string[]
+  ) => (
+    <label className="text-sm text-gray-600">
+      {label}
+      <select
+        value={filter[key]}
+        onChange={(e) => {
+          setFilter({
+            ...filter,
+            [key]: e.target.value as SessionSearchFilter[K],
+          });
+          setSelected(null);
+        }}
+        className="ml-2 px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+      >
+        <option value="all">All</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {option}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6 relative">
+      <LoaderOverlay isLoading={isLoading} />
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Session Explorer</h2>
+          <p className="text-sm text-gray-600">
+            The latest {SESSION_SEARCH_LIMIT} matching sessions, click one to
+            replay its screens
+          </p>
+        </div>
+        <RefreshButton
+          onRefresh={refresh}
+          isFetching={isFetching}
+          updatedAt={updatedAt}
+        />
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <DateRangePicker
+          value={period}
+          onChange={(range) => {
+            setPeriod(range);
+            setSelected(null);
+          }}
+        />
+        {select("node", "Menu node", nodes)}
+        {select("outcome", "Outcome", SESSION_OUTCOMES)}
+        {select("network", "Network", NETWORKS)}
+      </div>
+      {error !== undefined && <ErrorBanner error={error} onRetry={refresh} />}
+
+      <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+        <div
+          className={`max-h-[640px] overflow-auto rounded-xl border border-gray-200 ${
+            selected ? "xl:col-span-2" : "xl:col-span-3"
+          }`}
+        >
+          <table className="w-full text-sm">
+            <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 font-medium">Started</th>
+                <th className="px-4 py-2 font-medium">MSISDN</th>
+                <th className="px-4 py-2 font-medium">Network</th>
+                <th className="px-4 py-2 font-medium">Path</th>
+                <th className="px-4 py-2 font-medium">Outcome</th>
+                <th className="px-4 py-2 font-medium text-right">Duration</th>
+              </tr>
+            </thead>
+            <tbody>
+              {sessions.map((session) => (
+                <tr
+                  key={session.sessionId}
+                  onClick={() => setSelected(session)}
+                  className={`border-t border-gray-100 cursor-pointer hover:bg-gray-50 ${
+                    session.sessionId === selected?.sessionId
+                      ? "bg-blue-50"
+                      : ""
+                  }`}
+                >
+                  <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                    {formatTime(session.startedAt)}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-900">
+                    {maskMsisdn(session.msisdnHash)}
+                  </td>
+                  <td className="px-4 py-2 text-gray-900">{session.network}</td>
+                  <td className="px-4 py-2 text-gray-600">
+                    {session.menuPath.join(` ${MENU_PATH_SEPARATOR} `)}
+                  </td>
+                  <td className="px-4 py-2">
+                    <span
+                      className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                        OUTCOME_STYLES[session.outcome]
+                      }`}
+                    >
+                      {session.outcome}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 text-right text-gray-600">
+                    {durationSeconds(session)}s
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {!isLoading && sessions.length === 0 && (
+            <p className="flex items-center gap-2 p-4 text-sm text-gray-500">
+              <Smartphone className="w-4 h-4" />
+              No sessions match, try a longer period or fewer filters.
+            </p>
+          )}
+        </div>
+
+        {selected && (
+          <SessionReplayPanel
+            key={selected.sessionId}
+            session={selected}
+            onClose={() => setSelected(null)}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionExplorer;
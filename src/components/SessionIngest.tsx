@@ -0,0 +1,290 @@
+import React, { useState } from "react";
+import {
+  CheckCircle,
+  Copy,
+  Database,
+  FileText,
+  Upload,
+  XCircle,
+} from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
+import { api } from "../services/api";
+import { queryCache } from "../services/queryCache";
+import {
+  detectSessionLogFormat,
+  IngestReport,
+  SESSION_CSV_COLUMNS,
+  SessionLogFormat,
+} from "../analytics/sessions";
+
+const formatDate = (iso: string | null) =>
+  iso
+    ? new Date(iso).toLocaleDateString("en-US", {
+        month: "short",
+        day: "numeric",
+        year: "numeric",
+      })
+    : "-";
+
+/**
+ * Upload raw session exports from the USSD gateway so the dashboard can be computed from them
+ */
+const SessionIngest: React.FC = () => {
+  const {
+    data: summary,
+    error: summaryError,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery("sessions/summary", (signal) =>
+    api.getSessionSummary({ signal })
+  );
+
+  const [file, setFile] = useState<File | null>(null);
+  const [format, setFormat] = useState<SessionLogFormat | "auto">("auto");
+  const [isDragging, setIsDragging] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<unknown>();
+  const [report, setReport] = useState<IngestReport | null>(null);
+
+  const selectFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    setReport(null);
+    setUploadError(undefined);
+  };
+
+  const handleUpload = async () => {
+    if (!file) return;
+    setIsUploading(true);
+    setUploadError(undefined);
+    try {
+      const content = await file.text();
+      const result = await api.ingestSessions(
+        content,
+        format === "auto" ? detectSessionLogFormat(content, file.name) : format
+      );
+      setReport(result);
+      // Everything computed from the stored sessions (summary included) refetches on next use
+      queryCache.invalidate();
+    } catch (error) {
+      setUploadError(error);
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const reportStats = report
+    ? [
+        {
+          label: "Rows received",
+          value: report.received,
+          icon: FileText,
+          color: "text-gray-700",
+        },
+        {
+          label: "Accepted",
+          value: report.accepted,
+          icon: CheckCircle,
+          color: "text-green-600",
+        },
+        {
+          label: "Duplicates skipped",
+          value: report.duplicates,
+          icon: Copy,
+          color: "text-amber-600",
+        },
+        {
+          label: "Rejected",
+          value: report.rejectedCount,
+          icon: XCircle,
+          color: "text-red-600",
+        },
+      ]
+    : [];
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-50 p-6">
+      <div className="max-w-7xl mx-auto space-y-6">
+        {summaryError !== undefined && (
+          <ErrorBanner error={summaryError} onRetry={refresh} />
+        )}
+
+        {/* Header */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200">
+          <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
+            <div>
+              <div className="flex items-center gap-3 mb-2">
+                <div className="p-2 bg-gradient-to-br from-blue-500 to-indigo-600 rounded-xl">
+                  <Database className="w-6 h-6 text-white" />
+                </div>
+                <h1 className="text-3xl font-bold bg-gradient-to-r from-blue-600 to-indigo-600 bg-clip-text text-transparent">
+                  Session Logs
+                </h1>
+              </div>
+              <p className="text-gray-600">
+                Upload raw session exports from the USSD gateway (CSV or NDJSON)
+              </p>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3">
+              <div className="px-4 py-2 bg-gradient-to-r from-blue-50 to-indigo-50 text-blue-700 rounded-xl font-medium border border-blue-200">
+                <div className="flex items-center gap-2">
+                  <Database className="w-4 h-4" />
+                  <span>
+                    {(summary?.count ?? 0).toLocaleString()} sessions stored
+                    {summary?.count
+                      ? ` (${formatDate(summary.firstStartedAt)} - ${formatDate(
+                          summary.lastStartedAt
+                        )})`
+                      : ""}
+                  </span>
+                </div>
+              </div>
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
+            </div>
+          </div>
+        </div>
+
+        {/* Upload */}
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+          <label
+            onDragOver={(e) => {
+              e.preventDefault();
+              setIsDragging(true);
+            }}
+            onDragLeave={() => setIsDragging(false)}
+            onDrop={(e) => {
+              e.preventDefault();
+              setIsDragging(false);
+              selectFile(e.dataTransfer.files[0]);
+            }}
+            className={`flex flex-col items-center justify-center gap-2 p-10 rounded-xl border-2 border-dashed cursor-pointer transition-all ${
+              isDragging
+                ? "border-blue-400 bg-blue-50"
+                : "border-gray-300 hover:bg-gray-50"
+            }`}
+          >
+            <Upload className="w-8 h-8 text-blue-600" />
+            <span className="font-medium text-gray-900">
+              {file ? file.name : "Drop a session log here or click to browse"}
+            </span>
+            <span className="text-sm text-gray-500">
+              {file
+                ? `${(file.size / 1024).toFixed(1)} KB`
+                : ".csv with a header row, or .ndjson with one session per line"}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.ndjson,.jsonl,.json,text/csv"
+              className="hidden"
+              onChange={(e) => selectFile(e.target.files?.[0])}
+            />
+          </label>
+
+          <div className="flex flex-wrap items-center gap-3">
+            <select
+              value={format}
+              onChange={(e) =>
+                setFormat(e.target.value as SessionLogFormat | "auto")
+              }
+              className="px-4 py-2.5 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+            >
+              <option value="auto">Detect format</option>
+              <option value="csv">CSV</option>
+              <option value="ndjson">NDJSON</option>
+            </select>
+            <button
+              onClick={handleUpload}
+              disabled={!file || isUploading}
+              className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+            >
+              <Upload className="w-4 h-4" />
+              {isUploading ? "Uploading..." : "Upload"}
+            </button>
+          </div>
+
+          <p className="text-xs text-gray-500">
+            Columns:{" "}
+            <code className="text-gray-700">
+              {SESSION_CSV_COLUMNS.join(", ")}
+            </code>
+            . Separate menu nodes with <code>&gt;</code> in CSV files. Sessions
+            already stored are skipped.
+          </p>
+        </div>
+
+        {uploadError !== undefined && <ErrorBanner error={uploadError} />}
+
+        {/* Report */}
+        {report && (
+          <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+            <h2 className="text-lg font-bold text-gray-900">
+              Upload report ({report.format.toUpperCase()})
+            </h2>
+            <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+              {reportStats.map((stat) => (
+                <div
+                  key={stat.label}
+                  className="p-4 bg-gray-50 rounded-xl border border-gray-200"
+                >
+                  <div className="flex items-center gap-2 text-sm text-gray-600 mb-1">
+                    <stat.icon className={`w-4 h-4 ${stat.color}`} />
+                    {stat.label}
+                  </div>
+                  <div className={`text-2xl font-bold ${stat.color}`}>
+                    {stat.value.toLocaleString()}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {report.rejected.length > 0 && (
+              <div>
+                <h3 className="font-semibold text-gray-900 mb-2">
+                  Rejected rows
+                  {report.rejectedCount > report.rejected.length &&
+                    ` (first ${report.rejected.length} of ${report.rejectedCount})`}
+                </h3>
+                <div className="max-h-96 overflow-auto rounded-xl border border-gray-200">
+                  <table className="w-full text-sm">
+                    <thead className="bg-gray-50 sticky top-0">
+                      <tr>
+                        <th className="text-left px-4 py-2 font-medium text-gray-600 w-24">
+                          Line
+                        </th>
+                        <th className="text-left px-4 py-2 font-medium text-gray-600">
+                          Reasons
+                        </th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {report.rejected.map((row) => (
+                        <tr key={row.row} className="border-t border-gray-100">
+                          <td className="px-4 py-2 font-mono text-gray-700">
+                            {row.row}
+                          </td>
+                          <td className="px-4 py-2 text-red-600">
+                            {row.reasons.join("; ")}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionIngest;
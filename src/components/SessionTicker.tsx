@@ -0,0 +1,221 @@
+import React, { useState } from "react";
+import { Activity } from "lucide-react";
+import LiveButton from "./LiveButton";
+import { useSessionTicker } from "../hooks/useSessionTicker";
+import {
+  Network,
+  NETWORKS,
+  SESSION_OUTCOMES,
+  SessionOutcome,
+  USSD_SERVICES,
+  UssdService,
+} from "../analytics/sessions";
+import {
+  matchesTickerFilter,
+  TICKER_HISTORY,
+  TickerFilter,
+  TickerSession,
+} from "../analytics/ticker";
+
+const NETWORK_COLORS: Record<Network, string> = {
+  MTN: "#3B82F6",
+  Airtel: "#EF4444",
+  Zamtel: "#10B981",
+};
+
+const SERVICE_LABELS: Record<UssdService, string> = {
+  electricity: "Electricity",
+  water: "Water",
+  airtime: "Airtime",
+  mobileMoney: "Mobile Money",
+  banking: "Banking",
+};
+
+const OUTCOME_STYLES: Record<SessionOutcome, string> = {
+  completed: "bg-green-100 text-green-700",
+  failed: "bg-red-100 text-red-700",
+  abandoned: "bg-yellow-100 text-yellow-700",
+};
+
+const ALL: TickerFilter = { network: "all", service: "all", outcome: "all" };
+
+const formatTime = (iso: string) =>
+  new Date(iso).toLocaleTimeString("en-GB", {
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+
+/**
+ * Rolling stream of the latest sessions ingested by the server, with sessions per minute by network.
+ * Pausing freezes the list while the counters keep running.
+ */
+const SessionTicker: React.FC = () => {
+  const { sessions = [], rates, status } = useSessionTicker();
+  const [filter, setFilter] = useState<TickerFilter>(ALL);
+  // The list shown while paused
+  const [frozen, setFrozen] = useState<TickerSession[] | null>(null);
+
+  const shown = (frozen ?? sessions).filter((session) =>
+    matchesTickerFilter(session, filter)
+  );
+  const newSince = frozen
+    ? sessions.filter((session) => session.endedAt > (frozen[0]?.endedAt ?? ""))
+        .length
+    : 0;
+  const total = NETWORKS.reduce(
+    (sum, network) => sum + (rates?.[network] ?? 0),
+    0
+  );
+
+  const select = <K extends keyof TickerFilter>(
+    key: K,
+    label: string,
+    options: readonly string[],
+    format: (option: string) => string = (option) => option
+  ) => (
+    <label className="text-sm text-gray-600">
+      {label}
+      <select
+        value={filter[key]}
+        onChange={(e) =>
+          setFilter({ ...filter, [key]: e.target.value as TickerFilter[K] })
+        }
+        className="ml-2 px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+      >
+        <option value="all">All</option>
+        {options.map((option) => (
+          <option key={option} value={option}>
+            {format(option)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div>
+          <h2 className="text-xl font-bold text-gray-900">Live Sessions</h2>
+          <p className="text-sm text-gray-600">
+            The latest {TICKER_HISTORY} sessions as the gateway reports them
+          </p>
+        </div>
+        <LiveButton
+          status={frozen ? "paused" : status}
+          onToggle={() => setFrozen(frozen ? null : sessions)}
+        />
+      </div>
+
+      {/* Sessions per minute */}
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div className="p-4 rounded-xl bg-gray-50 border border-gray-200">
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Activity className="w-4 h-4" />
+            All networks
+          </div>
+          <div className="text-2xl font-bold text-gray-900">
+            {Math.round(total * 10) / 10}
+            <span className="ml-1 text-sm font-normal text-gray-500">/min</span>
+          </div>
+        </div>
+        {NETWORKS.map((network) => (
+          <div
+            key={network}
+            className="p-4 rounded-xl bg-gray-50 border border-gray-200"
+          >
+            <div className="flex items-center gap-2 text-sm text-gray-600">
+              <span
+                className="w-3 h-3 rounded-full"
+                style={{ backgroundColor: NETWORK_COLORS[network] }}
+              />
+              {network}
+            </div>
+            <div className="text-2xl font-bold text-gray-900">
+              {rates?.[network] ?? 0}
+              <span className="ml-1 text-sm font-normal text-gray-500">
+                /min
+              </span>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        {select("network", "Network", NETWORKS)}
+        {select(
+          "service",
+          "Service",
+          USSD_SERVICES,
+          (service) => SERVICE_LABELS[service as UssdService]
+        )}
+        {select("outcome", "Outcome", SESSION_OUTCOMES)}
+        {frozen && newSince > 0 && (
+          <button
+            onClick={() => setFrozen(null)}
+            className="px-3 py-2 rounded-xl text-sm font-medium text-blue-700 bg-blue-50 hover:bg-blue-100"
+          >
+            {newSince} new, resume
+          </button>
+        )}
+      </div>
+
+      <div className="max-h-[600px] overflow-auto rounded-xl border border-gray-200">
+        <table className="w-full text-sm">
+          <thead className="bg-gray-50 text-left text-gray-600 sticky top-0">
+            <tr>
+              <th className="px-4 py-2 font-medium">Ended</th>
+              <th className="px-4 py-2 font-medium">MSISDN</th>
+              <th className="px-4 py-2 font-medium">Network</th>
+              <th className="px-4 py-2 font-medium">Service</th>
+              <th className="px-4 py-2 font-medium text-right">Menu depth</th>
+              <th className="px-4 py-2 font-medium">Outcome</th>
+              <th className="px-4 py-2 font-medium text-right">Latency</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map((session) => (
+              <tr key={session.sessionId} className="border-t border-gray-100">
+                <td className="px-4 py-2 text-gray-600 whitespace-nowrap">
+                  {formatTime(session.endedAt)}
+                </td>
+                <td className="px-4 py-2 font-mono text-xs text-gray-900">
+                  {session.msisdn}
+                </td>
+                <td className="px-4 py-2 text-gray-900">{session.network}</td>
+                <td className="px-4 py-2 text-gray-900">
+                  {SERVICE_LABELS[session.service]}
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600">
+                  {session.menuDepth}
+                </td>
+                <td className="px-4 py-2">
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs font-medium capitalize ${
+                      OUTCOME_STYLES[session.outcome]
+                    }`}
+                  >
+                    {session.outcome}
+                  </span>
+                </td>
+                <td className="px-4 py-2 text-right text-gray-600">
+                  {session.latency}s
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {shown.length === 0 && (
+          <p className="p-4 text-sm text-gray-500">
+            {status === "live"
+              ? "No matching sessions yet."
+              : "Waiting for the feed..."}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionTicker;
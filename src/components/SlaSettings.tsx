@@ -0,0 +1,154 @@
+import React, { useState } from "react";
+import { Save, X } from "lucide-react";
+import ErrorBanner from "./ErrorBanner";
+import { api } from "../services/api";
+import { useApiProfile } from "../services/config";
+import { queryCache } from "../services/queryCache";
+import { SlaBands, SlaConfig } from "../analytics/sla";
+import { NETWORKS } from "../analytics/sessions";
+
+type SlaSettingsProps = {
+  config: SlaConfig;
+  onClose: () => void;
+};
+
+const CUTOFFS: { key: keyof SlaBands; label: string }[] = [
+  { key: "excellent", label: "Excellent from" },
+  { key: "good", label: "Good from" },
+  { key: "fair", label: "Fair from (SLA)" },
+];
+
+/**
+ * Editor for the global and per network SLA bands, saved on the server for every user
+ */
+const SlaSettings: React.FC<SlaSettingsProps> = ({ config, onClose }) => {
+  const { name: profile } = useApiProfile();
+  const [draft, setDraft] = useState<SlaConfig>(config);
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<unknown>();
+
+  const setCutoff = (
+    network: string | null,
+    key: keyof SlaBands,
+    value: number
+  ) =>
+    setDraft((current) =>
+      network === null
+        ? { ...current, global: { ...current.global, [key]: value } }
+        : {
+            ...current,
+            networks: {
+              ...current.networks,
+              [network]: { ...current.networks[network], [key]: value },
+            },
+          }
+    );
+
+  // Networks without their own bands follow the global ones
+  const setOverride = (network: string, enabled: boolean) =>
+    setDraft((current) => {
+      const { [network]: removed, ...networks } = current.networks;
+      return {
+        ...current,
+        networks: enabled
+          ? { ...networks, [network]: current.global }
+          : networks,
+      };
+    });
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    setSaveError(undefined);
+    try {
+      await api.saveSlaConfig(draft);
+      queryCache.invalidate(`${profile}:settings/sla`);
+      onClose();
+    } catch (error) {
+      setSaveError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const bandInputs = (bands: SlaBands, network: string | null) =>
+    CUTOFFS.map(({ key, label }) => (
+      <label key={key} className="text-sm text-gray-600">
+        {label}
+        <input
+          type="number"
+          min={0}
+          max={100}
+          step={0.1}
+          value={bands[key]}
+          onChange={(e) => setCutoff(network, key, Number(e.target.value))}
+          className="mt-1 w-full px-3 py-2 bg-gray-50 border border-gray-300 rounded-xl text-sm"
+        />
+      </label>
+    ));
+
+  return (
+    <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h2 className="text-lg font-bold text-gray-900">SLA thresholds</h2>
+          <p className="text-sm text-gray-600">
+            Success rate cutoffs of each status, below Fair is below SLA.
+            Networks without their own bands use the global ones.
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          title="Close"
+          className="p-2 rounded-lg text-gray-500 hover:bg-gray-100"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+      {saveError !== undefined && <ErrorBanner error={saveError} />}
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+        <div className="font-medium text-gray-900 pb-2">Global</div>
+        {bandInputs(draft.global, null)}
+      </div>
+
+      {NETWORKS.map((network) => {
+        const bands = draft.networks[network];
+        return (
+          <div
+            key={network}
+            className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end pt-4 border-t border-gray-100"
+          >
+            <label className="flex items-center gap-2 font-medium text-gray-900 pb-2">
+              <input
+                type="checkbox"
+                checked={bands !== undefined}
+                onChange={(e) => setOverride(network, e.target.checked)}
+              />
+              {network}
+            </label>
+            {bands ? (
+              bandInputs(bands, network)
+            ) : (
+              <p className="md:col-span-3 text-sm text-gray-500 pb-2">
+                Uses the global bands
+              </p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end">
+        <button
+          onClick={handleSave}
+          disabled={isSaving}
+          className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-blue-600 to-indigo-600 text-white rounded-xl text-sm font-medium hover:shadow-lg transition-all disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          Save thresholds
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SlaSettings;
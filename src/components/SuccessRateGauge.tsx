@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from "react";
+import React, { useState, useMemo, useRef } from "react";
 import {
   Activity,
   Signal,
@@ -16,8 +16,28 @@ import {
 } from "lucide-react";
 import { api } from "../services/api";
 import { LoaderCircle } from "lucide-react";
-import { exportAsCSV, exportAsPDF, showExportDialog, TimeRange } from "./utils";
+import { exportAsCSV, exportAsPDF, showExportDialog } from "./utils";
+import { DateRange } from "../services/types";
+import { dateRangeKey } from "../analytics/dateRange";
+import {
+  DEFAULT_SLA_CONFIG,
+  formatDuration,
+  SlaBands,
+  slaBandsFor,
+  slaCompliance,
+  SlaCompliance,
+  SlaStatus,
+  slaStatus,
+} from "../analytics/sla";
+import DateRangePicker from "./DateRangePicker";
 import LoaderOverlay from "./LoaderOverlay";
+import ErrorBanner from "./ErrorBanner";
+import FailureBreakdown from "./FailureBreakdown";
+import LiveButton from "./LiveButton";
+import RefreshButton from "./RefreshButton";
+import SlaSettings from "./SlaSettings";
+import { useQuery } from "../hooks/useQuery";
+import { useSuccessRateFeed } from "../hooks/useSuccessRateFeed";
 
 interface NetworkStats {
   name: string;
@@ -37,37 +57,46 @@ interface MetricData {
   peakHour: string;
 }
 
-export interface GaugeApiResponse {
-  metrics: {
-    successRate: number;
-    successfulTxns: number;
-    failedTxns: number;
-    avgResponseTime: number;
-    activeSessions: number;
-    topProvince: string;
-    peakHour: string;
-  };
-  networks: {
-    name: string;
-    rate: number;
-    marketShare: number;
-    totalTransactions: number;
-  }[];
+// Light shades drawn on the gauge track for each band, lowest first
+const BAND_TRACK: { status: SlaStatus; color: string }[] = [
+  { status: "Poor", color: "#FECACA" },
+  { status: "Fair", color: "#FEF08A" },
+  { status: "Good", color: "#BFDBFE" },
+  { status: "Excellent", color: "#BBF7D0" },
+];
+
+interface SlaExportRow {
+  scope: string;
+  successRate: number;
+  status: SlaStatus;
+  excellent: number;
+  good: number;
+  fair: number;
+  minutesBelow: number;
+  minutesMeasured: number;
 }
 
+// Share of the measured time spent below SLA
+const belowShare = ({ minutesBelow, minutesMeasured }: SlaCompliance) =>
+  minutesMeasured
+    ? Math.round((minutesBelow / minutesMeasured) * 1000) / 10
+    : 0;
+
+const EMPTY_METRICS: MetricData = {
+  successRate: 0,
+  successfulTxns: 0,
+  failedTxns: 0,
+  avgResponseTime: 0,
+  activeSessions: 0,
+  topProvince: "NA",
+  peakHour: "NA",
+};
+
 const SuccessRageGauge: React.FC = () => {
-  const [metrics, setMetrics] = useState<MetricData>({
-    successRate: 0,
-    successfulTxns: 0,
-    failedTxns: 0,
-    avgResponseTime: 0,
-    activeSessions: 0,
-    topProvince: "NA",
-    peakHour: "NA",
-  });
-  const [isLoading, setIsLoading] = useState(true);
+  const [isLive, setIsLive] = useState(true);
+  const [selectedPeriod, setSelectedPeriod] = useState<DateRange>("90d");
+  const [showSlaSettings, setShowSlaSettings] = useState(false);
   const componentRef = useRef<HTMLDivElement>(null);
-  const [networks, setNetworks] = useState<NetworkStats[]>();
 
   const networkColors: Record<string, string> = {
     MTN: "#3B82F6", // Blue
@@ -75,85 +104,72 @@ const SuccessRageGauge: React.FC = () => {
     Zamtel: "#10B981", // Green (Zamtel brand color)
   };
 
-  const fetchGaugeData = async () => {
-    setIsLoading(true);
-
-    try {
-      const result = await api.getSuccessRate(selectedPeriod);
-
-      if (result) {
-        const data: GaugeApiResponse = result as any;
-
-        setMetrics(data.metrics);
-
-        // Map backend data to frontend structure with colors
-        const formattedNetworks = data.networks.map((n) => ({
-          ...n,
-          color: networkColors[n.name] || "#6B7280", // Default gray
-        }));
-
-        setNetworks(formattedNetworks);
-      } else {
-        alert("Error fetching");
-      }
-    } catch (error) {
-      console.error("Failed to fetch gauge stats", error);
-    } finally {
-      setIsLoading(false);
-    }
-  };
-
-  const [isLive, setIsLive] = useState(true);
-  const [selectedPeriod, setSelectedPeriod] = useState<TimeRange>("90d");
-
-  // Replaces the simulation useEffect
-  useEffect(() => {
-    // Initial fetch
-    fetchGaugeData();
+  const { data, error, isLoading, isFetching, updatedAt, refresh } = useQuery(
+    `success-rate/${dateRangeKey(selectedPeriod)}`,
+    (signal) => api.getSuccessRate(selectedPeriod, { signal })
+  );
+  // Live mode streams readings into the same cache entry
+  const liveStatus = useSuccessRateFeed(selectedPeriod, isLive);
 
-    if (!isLive) return;
+  // Bands configured on the server, the defaults until they load
+  const { data: sla = DEFAULT_SLA_CONFIG } = useQuery(
+    "settings/sla",
+    (signal) => api.getSlaConfig({ signal })
+  );
 
-    // Poll every 5 seconds if live
-    const interval = setInterval(fetchGaugeData, 5000);
+  const metrics: MetricData = data?.metrics ?? EMPTY_METRICS;
+  const compliance = useMemo(
+    () => slaCompliance(data?.timeline ?? [], sla),
+    [data, sla]
+  );
 
-    return () => clearInterval(interval);
-  }, [isLive, selectedPeriod]);
+  // Map backend data to frontend structure with colors
+  const networks: NetworkStats[] | undefined = data?.networks.map((n) => ({
+    ...n,
+    color: networkColors[n.name] || "#6B7280", // Default gray
+  }));
 
-  const getStatusInfo = (rate: number) => {
-    if (rate >= 95)
+  const getStatusInfo = (rate: number, bands: SlaBands) => {
+    const status = slaStatus(rate, bands);
+    if (status === "Excellent")
       return {
-        status: "Excellent",
+        status,
         color: "text-green-600",
         bgColor: "bg-green-50",
         borderColor: "border-green-200",
+        stroke: "#22C55E",
         icon: CheckCircle,
       };
-    if (rate >= 90)
+    if (status === "Good")
       return {
-        status: "Good",
+        status,
         color: "text-blue-600",
         bgColor: "bg-blue-50",
         borderColor: "border-blue-200",
+        stroke: "#3B82F6",
         icon: Activity,
       };
-    if (rate >= 85)
+    if (status === "Fair")
       return {
-        status: "Fair",
+        status,
         color: "text-yellow-600",
         bgColor: "bg-yellow-50",
         borderColor: "border-yellow-200",
+        stroke: "#EAB308",
         icon: AlertTriangle,
       };
     return {
-      status: "Poor",
+      status,
       color: "text-red-600",
       bgColor: "bg-red-50",
       borderColor: "border-red-200",
+      stroke: "#EF4444",
       icon: XCircle,
     };
   };
 
-  const statusInfo = getStatusInfo(metrics.successRate);
+  const globalBands = slaBandsFor(sla);
+  const statusInfo = getStatusInfo(metrics.successRate, globalBands);
   const StatusIcon = statusInfo.icon;
 
   // Calculate gauge rotation (0% = -135deg, 100% = 135deg)
@@ -178,6 +194,43 @@ const SuccessRageGauge: React.FC = () => {
   // -135deg is start (0%), +135deg is end (100%)
   const needleRotation = -40 + (metrics.successRate / 100) * 270;
 
+  // Band segments of the track, from 0% to the Fair cutoff, then up to Good, Excellent and 100%
+  const bandEdges = [
+    0,
+    globalBands.fair,
+    globalBands.good,
+    globalBands.excellent,
+    100,
+  ];
+  const bandSegments = BAND_TRACK.map((band, i) => ({
+    ...band,
+    start: (bandEdges[i] / 100) * maxOffset,
+    length: ((bandEdges[i + 1] - bandEdges[i]) / 100) * maxOffset,
+  })).filter((segment) => segment.length > 0);
+
+  const exportRows: SlaExportRow[] = [
+    {
+      scope: "All networks",
+      successRate: metrics.successRate,
+      status: slaStatus(metrics.successRate, globalBands),
+      ...globalBands,
+      ...compliance.overall,
+    },
+    ...(networks ?? []).map((network) => {
+      const bands = slaBandsFor(sla, network.name);
+      return {
+        scope: network.name,
+        successRate: network.rate,
+        status: slaStatus(network.rate, bands),
+        ...bands,
+        ...(compliance.networks[network.name] ?? {
+          minutesBelow: 0,
+          minutesMeasured: 0,
+        }),
+      };
+    }),
+  ];
+
   return (
     <div
       ref={componentRef}
@@ -185,6 +238,10 @@ const SuccessRageGauge: React.FC = () => {
     >
       <LoaderOverlay isLoading={isLoading} />
       <div className="max-w-7xl mx-auto space-y-6">
+        {error !== undefined && (
+          <ErrorBanner error={error} onRetry={refresh} />
+        )}
+
         {/* Header */}
         <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
@@ -203,39 +260,41 @@ const SuccessRageGauge: React.FC = () => {
             </div>
 
             <div className="flex items-center gap-3">
-              <select
+              <DateRangePicker
                 value={selectedPeriod}
-                onChange={(e) =>
-                  setSelectedPeriod(e.target.value as "24h" | "7d" | "30d")
-                }
+                onChange={setSelectedPeriod}
                 className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-blue-500 "
-              >
-                <option value="24h">Last 24 Hours</option>
-                <option value="7d">Last 7 Days</option>
-                <option value="30d">Last 30 Days</option>
-              </select>
+              />
+
+              <LiveButton
+                status={liveStatus}
+                onToggle={() => setIsLive(!isLive)}
+              />
+
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
 
               <button
-                onClick={() => setIsLive(!isLive)}
+                onClick={() => setShowSlaSettings(!showSlaSettings)}
+                title="SLA thresholds"
                 className={`flex items-center gap-2 px-4 py-2 rounded-xl font-medium transition-all ${
-                  isLive
-                    ? "bg-green-100 text-green-700 hover:bg-green-200"
+                  showSlaSettings
+                    ? "bg-blue-100 text-blue-700 hover:bg-blue-200"
                     : "bg-gray-100 text-gray-700 hover:bg-gray-200"
                 }`}
               >
-                <div
-                  className={`w-2 h-2 rounded-full ${
-                    isLive ? "bg-green-500 animate-pulse" : "bg-gray-400"
-                  }`}
-                />
-                {isLive ? "Live" : "Paused"}
+                <Settings className="w-4 h-4" />
+                SLA
               </button>
 
               <button
                 onClick={() => {
                   showExportDialog(
                     () => exportAsPDF("transaction-volumes", componentRef),
-                    () =>
+                    () => {
                       exportAsCSV<MetricData>([metrics], "ussd-success-rate", [
                         { key: "successRate", label: "Success Rate (%)" },
                         {
@@ -249,7 +308,22 @@ const SuccessRageGauge: React.FC = () => {
                         { key: "activeSessions", label: "Active Sessions" },
                         { key: "topProvince", label: "Top Province" },
                         { key: "peakHour", label: "Peak Hour" },
-                      ])
+                      ]);
+                      exportAsCSV<SlaExportRow>(
+                        exportRows,
+                        "ussd-success-rate-sla",
+                        [
+                          { key: "scope", label: "Scope" },
+                          { key: "successRate", label: "Success Rate (%)" },
+                          { key: "status", label: "Status" },
+                          { key: "excellent", label: "Excellent From (%)" },
+                          { key: "good", label: "Good From (%)" },
+                          { key: "fair", label: "SLA Floor (%)" },
+                          { key: "minutesBelow", label: "Minutes Below SLA" },
+                          { key: "minutesMeasured", label: "Minutes Measured" },
+                        ]
+                      );
+                    }
                   );
                 }}
                 className="flex items-center gap-2 px-4 py-2.5 bg-gradient-to-r from-purple-600 to-blue-600 text-white rounded-xl hover:from-purple-700 hover:to-blue-700 transition-all shadow-lg hover:shadow-xl font-medium"
@@ -261,6 +335,10 @@ const SuccessRageGauge: React.FC = () => {
           </div>
         </div>
 
+        {showSlaSettings && (
+          <SlaSettings config={sla} onClose={() => setShowSlaSettings(false)} />
+        )}
+
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           {/* Main Gauge Card */}
           <div className="lg:col-span-2 bg-white  rounded-2xl shadow-xl p-8 border border-gray-200 ">
@@ -296,23 +374,22 @@ const SuccessRageGauge: React.FC = () => {
                   strokeDasharray={`${maxOffset} ${circumference}`} // Draw 75%, Skip 25%
                 />
 
-                {/* Gradient Definition */}
-                <defs>
-                  <linearGradient
-                    id="gaugeGradient"
-                    x1="0%"
-                    y1="0%"
-                    x2="100%"
-                    y2="0%"
+                {/* SLA bands over the track, each dash starting at its lower cutoff */}
+                {bandSegments.map((segment) => (
+                  <circle
+                    key={segment.status}
+                    cx="50"
+                    cy="50"
+                    r={radius}
+                    fill="none"
+                    stroke={segment.color}
+                    strokeWidth="8"
+                    strokeDasharray={`${segment.length} ${circumference}`}
+                    strokeDashoffset={-segment.start}
                   >
-                    <stop offset="0%" stopColor="#ef4444" />{" "}
-                    {/* Red at start */}
-                    <stop offset="50%" stopColor="#eab308" />{" "}
-                    {/* Yellow middle */}
-                    <stop offset="100%" stopColor="#22c55e" />{" "}
-                    {/* Green at end */}
-                  </linearGradient>
-                </defs>
+                    <title>{segment.status}</title>
+                  </circle>
+                ))}
 
                 {/* Coloured Progress Arc */}
                 <circle
@@ -320,7 +397,7 @@ const SuccessRageGauge: React.FC = () => {
                   cy="50"
                   r={radius}
                   fill="none"
-                  stroke="url(#gaugeGradient)"
+                  stroke={statusInfo.stroke}
                   strokeWidth="8"
                   strokeLinecap="round"
                   // This makes the stroke dashed: [length of dash, length of gap]
@@ -342,6 +419,10 @@ const SuccessRageGauge: React.FC = () => {
                   <div className="text-gray-500 font-medium text-sm">
                     Success Rate
                   </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    SLA {globalBands.fair}%, below for{" "}
+                    {formatDuration(compliance.overall.minutesBelow)}
+                  </div>
                 </div>
               </div>
 
@@ -524,67 +605,107 @@ const SuccessRageGauge: React.FC = () => {
 
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             {networks &&
-              networks.map((network, index) => (
-                <div
-                  key={index}
-                  className="relative overflow-hidden bg-gradient-to-br from-gray-50 to-white   p-6 rounded-xl border border-gray-200  hover:shadow-lg transition-all duration-300"
-                >
-                  <div className="flex items-center justify-between mb-4">
-                    <div className="flex items-center gap-3">
-                      <div
-                        className="w-4 h-4 rounded-full"
-                        style={{ backgroundColor: network.color }}
-                      />
-                      <h3 className="font-bold text-gray-900 ">
-                        {network.name}
-                      </h3>
-                    </div>
-                    <Signal className="w-5 h-5 text-gray-400" />
-                  </div>
-
-                  <div className="mb-4">
-                    <div className="flex items-baseline gap-2 mb-2">
-                      <span className="text-4xl font-bold text-gray-900 ">
-                        {network.rate}%
-                      </span>
-                      <span className="text-sm text-gray-500">
-                        success rate
-                      </span>
-                    </div>
-                    <div className="w-full bg-gray-200  rounded-full h-3">
-                      <div
-                        className="h-3 rounded-full transition-all duration-500"
-                        style={{
-                          width: `${network.rate}%`,
-                          backgroundColor: network.color,
-                        }}
-                      />
+              networks.map((network, index) => {
+                const bands = slaBandsFor(sla, network.name);
+                const networkStatus = getStatusInfo(network.rate, bands);
+                const networkCompliance = compliance.networks[network.name] ?? {
+                  minutesBelow: 0,
+                  minutesMeasured: 0,
+                };
+                return (
+                  <div
+                    key={index}
+                    className="relative overflow-hidden bg-gradient-to-br from-gray-50 to-white   p-6 rounded-xl border border-gray-200  hover:shadow-lg transition-all duration-300"
+                  >
+                    <div className="flex items-center justify-between mb-4">
+                      <div className="flex items-center gap-3">
+                        <div
+                          className="w-4 h-4 rounded-full"
+                          style={{ backgroundColor: network.color }}
+                        />
+                        <h3 className="font-bold text-gray-900 ">
+                          {network.name}
+                        </h3>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <span
+                          className={`text-xs font-medium px-2 py-1 rounded-full border ${networkStatus.bgColor} ${networkStatus.borderColor} ${networkStatus.color}`}
+                        >
+                          {networkStatus.status}
+                        </span>
+                        <Signal className="w-5 h-5 text-gray-400" />
+                      </div>
                     </div>
-                  </div>
 
-                  <div className="grid grid-cols-2 gap-4 pt-4 border-t border-gray-200 ">
-                    <div>
-                      <div className="text-xs text-gray-500  mb-1">
-                        Market Share
+                    <div className="mb-4">
+                      <div className="flex items-baseline gap-2 mb-2">
+                        <span className="text-4xl font-bold text-gray-900 ">
+                          {network.rate}%
+                        </span>
+                        <span className="text-sm text-gray-500">
+                          success rate
+                        </span>
                       </div>
-                      <div className="text-lg font-bold text-gray-900 ">
-                        {network.marketShare}%
+                      <div className="relative w-full bg-gray-200  rounded-full h-3">
+                        <div
+                          className="h-3 rounded-full transition-all duration-500"
+                          style={{
+                            width: `${network.rate}%`,
+                            backgroundColor: network.color,
+                          }}
+                        />
+                        {/* SLA floor of the network */}
+                        <div
+                          title={`SLA ${bands.fair}%`}
+                          className="absolute -top-1 w-0.5 h-5 bg-gray-800"
+                          style={{ left: `${bands.fair}%` }}
+                        />
                       </div>
                     </div>
-                    <div>
-                      <div className="text-xs text-gray-500  mb-1">
-                        Transactions
+
+                    <div className="grid grid-cols-3 gap-4 pt-4 border-t border-gray-200 ">
+                      <div>
+                        <div className="text-xs text-gray-500  mb-1">
+                          Market Share
+                        </div>
+                        <div className="text-lg font-bold text-gray-900 ">
+                          {network.marketShare}%
+                        </div>
+                      </div>
+                      <div>
+                        <div className="text-xs text-gray-500  mb-1">
+                          Transactions
+                        </div>
+                        <div className="text-lg font-bold text-gray-900 ">
+                          {network.totalTransactions?.toLocaleString()}
+                        </div>
                       </div>
-                      <div className="text-lg font-bold text-gray-900 ">
-                        {network.totalTransactions?.toLocaleString()}
+                      <div>
+                        <div className="text-xs text-gray-500  mb-1">
+                          Below SLA
+                        </div>
+                        <div
+                          className={`text-lg font-bold ${
+                            networkCompliance.minutesBelow
+                              ? "text-red-600"
+                              : "text-gray-900"
+                          }`}
+                          title={`${belowShare(
+                            networkCompliance
+                          )}% of the period`}
+                        >
+                          {formatDuration(networkCompliance.minutesBelow)}
+                        </div>
                       </div>
                     </div>
                   </div>
-                </div>
-              ))}
+                );
+              })}
           </div>
         </div>
 
+        <FailureBreakdown period={selectedPeriod} />
+
         {/* Footer */}
         <div className="text-center text-gray-500  text-sm space-y-1 pb-4">
           <p>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, RefObject, useRef } from "react";
+import React, { useState, RefObject, useRef, useMemo } from "react";
 import {
   LineChart,
   Line,
@@ -9,6 +9,7 @@ import {
   ResponsiveContainer,
   Legend,
   ReferenceLine,
+  ReferenceDot,
   Area,
   AreaChart,
   BarChart,
@@ -29,42 +30,38 @@ import {
   FileText,
   File,
   X,
+  AlertTriangle,
 } from "lucide-react";
 import { api } from "../services/api";
+import { ChartDataPoint, DateRange } from "../services/types";
+import { dateRangeKey } from "../analytics/dateRange";
+import {
+  COMPARISON_LABELS,
+  ComparisonMode,
+  comparisonRange,
+  percentChange,
+  seriesBounds,
+} from "../analytics/compare";
+import { UssdService } from "../analytics/sessions";
+import {
+  Anomaly,
+  ANOMALY_METRIC_LABELS,
+  detectAnomalies,
+} from "../analytics/anomalies";
+import { zonedDayKey } from "../analytics/holidays";
+import { CAT_UTC_OFFSET_MINUTES } from "../analytics/patterns";
 import {
   CustomTooltipProps,
   exportAsCSV,
   exportAsPDF,
   showExportDialog,
-  TimeRange,
 } from "./utils";
+import DateRangePicker from "./DateRangePicker";
 import LoaderOverlay from "./LoaderOverlay";
-
-// Type definitions
-export interface ChartDataPoint {
-  date: string; // formatted label (e.g., "10:00" or "Oct 24")
-  fullDate: string; // ISO string for sorting/logic
-  dayOfWeek: string; // "Mon", "Tue", etc.
-  hour?: number; // 0-23 (only needed for 24h view)
-
-  // Service Breakdowns (Counts)
-  total: number;
-  electricity: number;
-  water: number;
-  airtime: number;
-  mobileMoney: number;
-  banking: number;
-
-  // Performance Metrics
-  avgSessionTime: number; // in seconds
-  successRate: number; // percentage (0-100)
-  revenue: number; // total transaction volume or commission
-  failedTransactions: number;
-  peakConcurrentUsers: number;
-}
-
-// Your fetch function return type
-export type DashboardResponse = ChartDataPoint[];
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
+import { useHolidayCalendar } from "../services/calendar";
 
 interface SummaryMetrics {
   totalTransactions: number;
@@ -78,21 +75,76 @@ interface SummaryMetrics {
 
 type ChartType = "area" | "line" | "bar" | "composed";
 
+// A bucket with the bucket at the same offset in the comparison window
+interface ComparedPoint extends ChartDataPoint {
+  prior?: ChartDataPoint;
+  priorValue?: number; // what the ghost series plots, the total or the selected service
+  holidayName?: string; // daily buckets only
+  anomalies?: Anomaly[];
+}
+
+// Stable fallback while the first response is loading
+const EMPTY_DATA: ChartDataPoint[] = [];
+
 const TransactionVolumeChart: React.FC = () => {
-  const [timeRange, setTimeRange] = useState<TimeRange>("90d");
+  const [timeRange, setTimeRange] = useState<DateRange>("90d");
   const [chartType, setChartType] = useState<ChartType>("area");
   const [selectedService, setSelectedService] = useState<string>("all");
-  const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-  const [summaryMetrics, setSummaryMetrics] = useState<SummaryMetrics>({
-    totalTransactions: 0,
-    avgTransactions: 0,
-    peakDay: { date: "", value: 0 },
-    revenueTotal: 0,
-    trend: 0,
-    successRate: 0,
-    growthRate: 0,
+  const [comparison, setComparison] = useState<ComparisonMode | "none">(
+    "none"
+  );
+  const {
+    data: chartData = EMPTY_DATA,
+    error,
+    isLoading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery(
+    `volume/${dateRangeKey(timeRange)}/${selectedService}`,
+    (signal) => api.getTransactionVolume(timeRange, selectedService, { signal })
+  );
+
+  // The comparison window is derived from the buckets served, so it waits for them
+  const bounds = seriesBounds(chartData);
+  const priorRange =
+    comparison !== "none" && bounds
+      ? comparisonRange(bounds, comparison)
+      : null;
+  const { data: priorData = EMPTY_DATA } = useQuery(
+    `volume/${priorRange ? dateRangeKey(priorRange) : "none"}/${selectedService}`,
+    (signal) =>
+      api.getTransactionVolume(priorRange!, selectedService, { signal }),
+    { enabled: priorRange !== null }
+  );
+
+  const valueOf = (point: ChartDataPoint) =>
+    selectedService === "all"
+      ? point.total
+      : point[selectedService as UssdService];
+
+  const calendar = useHolidayCalendar();
+  // Same detector as the `/anomalies` endpoint, run on the buckets already loaded
+  const anomalies = useMemo(() => detectAnomalies(chartData), [chartData]);
+  const comparedData: ComparedPoint[] = chartData.map((point, i) => {
+    const prior = priorRange ? priorData[i] : undefined;
+    const holidays =
+      point.hour === undefined
+        ? calendar.holidaysOn(
+            zonedDayKey(new Date(point.fullDate), CAT_UTC_OFFSET_MINUTES)
+          )
+        : [];
+    return {
+      ...point,
+      prior,
+      priorValue: prior && valueOf(prior),
+      holidayName:
+        holidays.map((holiday) => holiday.name).join(", ") || undefined,
+      anomalies: anomalies.filter((a) => a.fullDate === point.fullDate),
+    };
   });
-  const [isLoading, setIsLoading] = useState(true);
+  const priorLabel =
+    comparison === "none" ? "" : COMPARISON_LABELS[comparison];
 
   const componentRef = useRef<HTMLDivElement>(null);
 
@@ -191,42 +243,66 @@ const TransactionVolumeChart: React.FC = () => {
     };
   };
 
-  useEffect(() => {
-    const fetchData = async () => {
-      setIsLoading(true);
-
-      try {
-        const response = await api.getTransactionVolume(
-          timeRange,
-          selectedService
-        );
-        const rawData: ChartDataPoint[] = response;
+  // Recalculate metrics using existing client-side function
+  const summaryMetrics = calculateMetrics(chartData);
 
-        setChartData(rawData);
+  // With a comparison the volume card shows the change over the whole prior window instead of the half over half trend
+  const periodChange =
+    priorRange && priorData.length > 0
+      ? percentChange(
+          summaryMetrics.totalTransactions,
+          priorData.reduce((sum, d) => sum + d.total, 0)
+        )
+      : null;
+  const volumeChange = periodChange ?? summaryMetrics.trend;
 
-        // Recalculate metrics using existing client-side function
-        setSummaryMetrics(calculateMetrics(rawData));
-      } catch (error) {
-        console.error("Failed to fetch dashboard data", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
+  const renderDelta = (current: number, previous: number | undefined) => {
+    const change = percentChange(current, previous);
+    if (change === null) return null;
+    return (
+      <span
+        className={`text-xs font-semibold ${
+          change >= 0 ? "text-green-600" : "text-red-600"
+        }`}
+      >
+        {change > 0 ? "+" : ""}
+        {change}%
+      </span>
+    );
+  };
 
-    fetchData();
-  }, [timeRange, selectedService]);
+  const formatDeviation = (anomaly: Anomaly) =>
+    `${anomaly.deviation > 0 ? "+" : ""}${anomaly.deviation}%`;
 
-  const CustomTooltip: React.FC<CustomTooltipProps<ChartDataPoint>> = ({
+  const CustomTooltip: React.FC<CustomTooltipProps<ComparedPoint>> = ({
     active,
     payload,
     label,
   }) => {
     if (active && payload && payload.length > 0) {
-      const data = payload[0].payload as ChartDataPoint;
+      const data = payload[0].payload as ComparedPoint;
+      const prior = data.prior;
 
       return (
         <div className="bg-gradient-to-br from-white to-gray-50   p-4 rounded-xl shadow-2xl border border-gray-200  backdrop-blur-sm">
-          <p className="font-bold text-gray-900  text-base mb-3">{label}</p>
+          <p className="font-bold text-gray-900  text-base mb-3 flex items-center gap-2">
+            {label}
+            {data.holidayName && (
+              <span className="text-xs px-2 py-1 bg-blue-100 text-blue-700 rounded-full font-medium">
+                {data.holidayName}
+              </span>
+            )}
+          </p>
+          {data.anomalies?.map((anomaly) => (
+            <p
+              key={anomaly.metric}
+              className="flex items-center gap-1 text-xs font-medium text-red-600 mb-2"
+            >
+              <AlertTriangle className="w-3.5 h-3.5" />
+              {ANOMALY_METRIC_LABELS[anomaly.metric]} {formatDeviation(anomaly)}{" "}
+              vs expected
+            </p>
+          ))}
           <div className="space-y-2">
             <div className="flex justify-between items-center gap-8 pb-2 border-b border-gray-200 ">
               <span className="text-gray-600 font-medium">Total:</span>
@@ -235,6 +311,18 @@ const TransactionVolumeChart: React.FC = () => {
               </span>
             </div>
 
+            {prior && (
+              <div className="flex justify-between items-center gap-8 pb-2 border-b border-gray-200 ">
+                <span className="text-xs text-gray-500">
+                  {priorLabel} ({prior.date}):
+                </span>
+                <span className="text-xs text-gray-700 flex items-center gap-2">
+                  {prior.total.toLocaleString()}
+                  {renderDelta(data.total, prior.total)}
+                </span>
+              </div>
+            )}
+
             <div className="grid grid-cols-2 gap-2 py-2">
               <div className="flex items-center gap-2">
                 <div className="w-2.5 h-2.5 rounded-full bg-blue-500" />
@@ -242,6 +330,7 @@ const TransactionVolumeChart: React.FC = () => {
                 <span className="text-xs font-semibold text-gray-900  ml-auto">
                   {data.electricity?.toLocaleString()}
                 </span>
+                {prior && renderDelta(data.electricity, prior.electricity)}
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-2.5 h-2.5 rounded-full bg-green-500" />
@@ -249,6 +338,7 @@ const TransactionVolumeChart: React.FC = () => {
                 <span className="text-xs font-semibold text-gray-900  ml-auto">
                   {data.mobileMoney?.toLocaleString()}
                 </span>
+                {prior && renderDelta(data.mobileMoney, prior.mobileMoney)}
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-2.5 h-2.5 rounded-full bg-purple-500" />
@@ -256,6 +346,7 @@ const TransactionVolumeChart: React.FC = () => {
                 <span className="text-xs font-semibold text-gray-900  ml-auto">
                   {data.airtime?.toLocaleString()}
                 </span>
+                {prior && renderDelta(data.airtime, prior.airtime)}
               </div>
               <div className="flex items-center gap-2">
                 <div className="w-2.5 h-2.5 rounded-full bg-yellow-500" />
@@ -263,6 +354,7 @@ const TransactionVolumeChart: React.FC = () => {
                 <span className="text-xs font-semibold text-gray-900  ml-auto">
                   {data.water?.toLocaleString()}
                 </span>
+                {prior && renderDelta(data.water, prior.water)}
               </div>
             </div>
 
@@ -300,9 +392,42 @@ const TransactionVolumeChart: React.FC = () => {
     return value.toString();
   };
 
+  // Dashed lines on the days flagged in the business calendar, dots on anomalous buckets
+  const renderMarkers = (yAxisId?: string) => [
+    ...comparedData
+      .filter((point) => point.holidayName)
+      .map((point) => (
+        <ReferenceLine
+          key={`holiday-${point.fullDate}`}
+          x={point.date}
+          yAxisId={yAxisId}
+          stroke="#93c5fd"
+          strokeDasharray="3 3"
+        />
+      )),
+    ...comparedData
+      .filter((point) => point.anomalies?.length)
+      .map((point) => (
+        <ReferenceDot
+          key={`anomaly-${point.fullDate}`}
+          x={point.date}
+          y={valueOf(point)}
+          yAxisId={yAxisId}
+          r={7}
+          fill={
+            point.anomalies!.some((a) => a.direction === "spike")
+              ? "#ef4444"
+              : "#f59e0b"
+          }
+          stroke="#fff"
+          strokeWidth={2}
+        />
+      )),
+  ];
+
   const renderChart = () => {
     const commonProps = {
-      data: chartData,
+      data: comparedData,
       margin: { top: 20, right: 30, left: 0, bottom: 20 },
     };
 
@@ -347,6 +472,7 @@ const TransactionVolumeChart: React.FC = () => {
               tickLine={{ stroke: "#e5e7eb" }}
             />
             <Tooltip content={<CustomTooltip />} />
+            {renderMarkers()}
             {selectedService === "all" ? (
               <>
                 <Legend
@@ -377,6 +503,17 @@ const TransactionVolumeChart: React.FC = () => {
                 strokeWidth={3}
               />
             )}
+            {priorRange && (
+              <Area
+                type="monotone"
+                dataKey="priorValue"
+                stroke="#9ca3af"
+                strokeDasharray="5 5"
+                fill="none"
+                strokeWidth={2}
+                name={priorLabel}
+              />
+            )}
             {chartData.length > 30 && (
               <Brush dataKey="date" height={30} stroke="#8B5CF6" />
             )}
@@ -402,6 +539,7 @@ const TransactionVolumeChart: React.FC = () => {
               tickFormatter={formatYAxis}
             />
             <Tooltip content={<CustomTooltip />} />
+            {renderMarkers()}
             {selectedService === "all" ? (
               <>
                 <Legend iconType="line" />
@@ -430,6 +568,17 @@ const TransactionVolumeChart: React.FC = () => {
                 activeDot={{ r: 7 }}
               />
             )}
+            {priorRange && (
+              <Line
+                type="monotone"
+                dataKey="priorValue"
+                stroke="#9ca3af"
+                strokeDasharray="5 5"
+                strokeWidth={2}
+                dot={false}
+                name={priorLabel}
+              />
+            )}
             <ReferenceLine
               y={summaryMetrics.avgTransactions}
               stroke="#94a3b8"
@@ -465,6 +614,7 @@ const TransactionVolumeChart: React.FC = () => {
               tickFormatter={formatYAxis}
             />
             <Tooltip content={<CustomTooltip />} />
+            {renderMarkers()}
             {selectedService === "all" ? (
               <>
                 <Legend />
@@ -495,6 +645,14 @@ const TransactionVolumeChart: React.FC = () => {
                 ))}
               </Bar>
             )}
+            {priorRange && (
+              <Bar
+                dataKey="priorValue"
+                fill="#d1d5db"
+                name={priorLabel}
+                radius={[4, 4, 0, 0]}
+              />
+            )}
           </BarChart>
         );
 
@@ -526,6 +684,7 @@ const TransactionVolumeChart: React.FC = () => {
               domain={[80, 100]}
             />
             <Tooltip content={<CustomTooltip />} />
+            {renderMarkers("left")}
             <Legend />
             <Area
               yAxisId="left"
@@ -537,6 +696,18 @@ const TransactionVolumeChart: React.FC = () => {
               strokeWidth={2}
               name="Total Transactions"
             />
+            {priorRange && (
+              <Line
+                yAxisId="left"
+                type="monotone"
+                dataKey="priorValue"
+                stroke="#9ca3af"
+                strokeDasharray="5 5"
+                strokeWidth={2}
+                dot={false}
+                name={priorLabel}
+              />
+            )}
             <Line
               yAxisId="right"
               type="monotone"
@@ -567,6 +738,10 @@ const TransactionVolumeChart: React.FC = () => {
       <LoaderOverlay isLoading={isLoading} />
 
       <div className="max-w-7xl mx-auto space-y-6">
+        {error !== undefined && (
+          <ErrorBanner error={error} onRetry={refresh} />
+        )}
+
         {/* Header */}
         <div className="bg-white  rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <div className="flex flex-col lg:flex-row lg:items-center justify-between gap-4">
@@ -585,16 +760,11 @@ const TransactionVolumeChart: React.FC = () => {
             </div>
 
             <div className="flex flex-wrap items-center gap-3">
-              <select
+              <DateRangePicker
                 value={timeRange}
-                onChange={(e) => setTimeRange(e.target.value as TimeRange)}
+                onChange={setTimeRange}
                 className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2.5 text-sm font-medium focus:ring-2 focus:ring-purple-500 focus:border-purple-500  transition-all"
-              >
-                <option value="24h">Last 24 Hours</option>
-                <option value="7d">Last 7 Days</option>
-                <option value="30d">Last 30 Days</option>
-                <option value="90d">Last 90 Days</option>
-              </select>
+              />
 
               <select
                 value={chartType}
@@ -607,6 +777,12 @@ const TransactionVolumeChart: React.FC = () => {
                 <option value="composed">Composed</option>
               </select>
 
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
+
               <button
                 onClick={() =>
                   showExportDialog(
@@ -649,15 +825,20 @@ const TransactionVolumeChart: React.FC = () => {
                   {formatYAxis(summaryMetrics.totalTransactions)}
                 </p>
                 <div className="flex items-center gap-2">
-                  {summaryMetrics.trend > 0 ? (
+                  {volumeChange > 0 ? (
                     <TrendingUp className="w-4 h-4" />
                   ) : (
                     <TrendingDown className="w-4 h-4" />
                   )}
                   <span className="text-sm font-semibold">
-                    {summaryMetrics.trend > 0 ? "+" : ""}
-                    {summaryMetrics.trend}%
+                    {volumeChange > 0 ? "+" : ""}
+                    {volumeChange}%
                   </span>
+                  {periodChange !== null && (
+                    <span className="text-xs text-purple-100">
+                      vs {priorLabel.toLowerCase()}
+                    </span>
+                  )}
                 </div>
               </div>
               <div className="p-3 bg-white/20 rounded-xl backdrop-blur-sm">
@@ -734,23 +915,92 @@ const TransactionVolumeChart: React.FC = () => {
               Transaction Volume Trends
             </h2>
 
-            <select
-              value={selectedService}
-              onChange={(e) => setSelectedService(e.target.value)}
-              className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-purple-500 focus:border-purple-500 "
-            >
-              {ussdServices.map((service) => (
-                <option key={service.value} value={service.value}>
-                  {service.label}
+            <div className="flex flex-wrap items-center gap-3">
+              <select
+                value={comparison}
+                onChange={(e) =>
+                  setComparison(e.target.value as ComparisonMode | "none")
+                }
+                className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-purple-500 focus:border-purple-500 "
+              >
+                <option value="none">No comparison</option>
+                <option value="previous">Compare to previous period</option>
+                <option value="lastYear">
+                  Compare to same period last year
                 </option>
-              ))}
-            </select>
+              </select>
+
+              <select
+                value={selectedService}
+                onChange={(e) => setSelectedService(e.target.value)}
+                className="bg-gray-50  border border-gray-300  rounded-xl px-4 py-2 text-sm font-medium focus:ring-2 focus:ring-purple-500 focus:border-purple-500 "
+              >
+                {ussdServices.map((service) => (
+                  <option key={service.value} value={service.value}>
+                    {service.label}
+                  </option>
+                ))}
+              </select>
+            </div>
           </div>
 
-          <div className="h-[500px]">
-            <ResponsiveContainer width="100%" height="100%">
-              {renderChart()}
-            </ResponsiveContainer>
+          <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+            <div className="h-[500px] lg:col-span-3">
+              <ResponsiveContainer width="100%" height="100%">
+                {renderChart()}
+              </ResponsiveContainer>
+            </div>
+
+            {/* Anomalies */}
+            <div className="lg:h-[500px] flex flex-col">
+              <h3 className="font-bold text-gray-900 mb-3 flex items-center gap-2">
+                <AlertTriangle className="w-5 h-5 text-red-500" />
+                Anomalies
+                <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full">
+                  {anomalies.length}
+                </span>
+              </h3>
+              <div className="flex-1 overflow-auto space-y-2 pr-1">
+                {anomalies.length === 0 && (
+                  <p className="text-sm text-gray-500">
+                    No unusual buckets in this range.
+                  </p>
+                )}
+                {[...anomalies].reverse().map((anomaly) => (
+                  <div
+                    key={`${anomaly.fullDate}-${anomaly.metric}`}
+                    className="p-3 bg-gray-50 rounded-xl border border-gray-200"
+                  >
+                    <div className="flex items-center justify-between gap-2">
+                      <span className="text-sm font-semibold text-gray-900">
+                        {anomaly.date}
+                      </span>
+                      <span
+                        className={`flex items-center gap-1 text-xs font-bold ${
+                          anomaly.direction === "spike"
+                            ? "text-red-600"
+                            : "text-amber-600"
+                        }`}
+                      >
+                        {anomaly.direction === "spike" ? (
+                          <TrendingUp className="w-3.5 h-3.5" />
+                        ) : (
+                          <TrendingDown className="w-3.5 h-3.5" />
+                        )}
+                        {formatDeviation(anomaly)}
+                      </span>
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {ANOMALY_METRIC_LABELS[anomaly.metric]}:{" "}
+                      {anomaly.value.toLocaleString()}, expected{" "}
+                      {anomaly.expected.toLocaleString()} (z{" "}
+                      {anomaly.score > 0 ? "+" : ""}
+                      {anomaly.score})
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
           </div>
         </div>
 
@@ -1,4 +1,4 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useMemo, useRef } from "react";
 import {
   PieChart,
   Pie,
@@ -29,59 +29,23 @@ import {
   showExportDialog,
 } from "./utils";
 import { api } from "../services/api";
+import { DemographicsResponse } from "../services/types";
 import LoaderOverlay from "./LoaderOverlay";
-
-interface ProvinceData {
-  name: string;
-  users: number;
-  percentage: number;
-  type: string;
-  // UI props added for frontend use
-  color?: string;
-  icon?: string;
-  [key: string]: any;
-}
-
-interface AgeGroup {
-  range: string;
-  percentage: number;
-  users: number;
-  label: string;
-  color?: string;
-  [key: string]: any;
-}
-
-interface NetworkData {
-  name: string;
-  percentage: number;
-  users: number;
-  description: string;
-  color?: string;
-  [key: string]: any;
-}
-
-interface MetricItem {
-  name: string;
-  value: number;
-  users?: number;
-  color?: string;
-  trend?: string;
-  [key: string]: any;
-}
-
-interface ApiResponse {
-  totalUsers: number;
-  provinceData: ProvinceData[];
-  networkData: NetworkData[];
-  ageGroups: AgeGroup[];
-  genderData: MetricItem[];
-  urbanRuralData: MetricItem[];
-  deviceData: MetricItem[];
-}
+import ErrorBanner from "./ErrorBanner";
+import RefreshButton from "./RefreshButton";
+import { useQuery } from "../hooks/useQuery";
 
 const USSDUserDemographics: React.FC = () => {
-  const [data, setData] = useState<ApiResponse | null>(null);
-  const [loading, setLoading] = useState(true);
+  const {
+    data: result,
+    error,
+    isLoading: loading,
+    isFetching,
+    updatedAt,
+    refresh,
+  } = useQuery("users/demographics", (signal) =>
+    api.getDemographics({ signal })
+  );
   const componentRef = useRef<HTMLDivElement>(null);
 
   // --- Configuration Maps (UI Styling) ---
@@ -100,54 +64,38 @@ const USSDUserDemographics: React.FC = () => {
 
   const ageColors = ["#60A5FA", "#3B82F6", "#2563EB", "#1D4ED8", "#1E3A8A"];
 
-  useEffect(() => {
-    const fetchData = async () => {
-      try {
-        const result: ApiResponse | null = await api.getDemographics();
-
-        if (result) {
-          // Hydrate API data with UI colors/icons
-          const hydratedData = {
-            ...result,
-            provinceData: result.provinceData.map((p) => ({
-              ...p,
-              ...(provinceConfig[p.name] || provinceConfig["Other Provinces"]),
-            })),
-            networkData: result.networkData.map((n) => ({
-              ...n,
-              color: networkColors[n.name] || "#9CA3AF",
-            })),
-            ageGroups: result.ageGroups.map((a, i) => ({
-              ...a,
-              color: ageColors[i] || ageColors[0],
-            })),
-            genderData: result.genderData.map((g) => ({
-              ...g,
-              color: g.name === "Male" ? "#3B82F6" : "#EC4899",
-            })),
-            urbanRuralData: result.urbanRuralData.map((u) => ({
-              ...u,
-              color: u.name === "Urban" ? "#374151" : "#10B981",
-            })),
-            deviceData: result.deviceData.map((d, i) => ({
-              ...d,
-              color: i === 0 ? "#3B82F6" : i === 1 ? "#10B981" : "#8B5CF6",
-            })),
-          };
-
-          setData(hydratedData);
-        } else {
-          alert("Fetch error");
-        }
-      } catch (err) {
-        console.error(err);
-      } finally {
-        setLoading(false);
-      }
+  // Hydrate API data with UI colors/icons
+  const data: DemographicsResponse | null = useMemo(() => {
+    if (!result) return null;
+
+    return {
+      ...result,
+      provinceData: result.provinceData.map((p) => ({
+        ...p,
+        ...(provinceConfig[p.name] || provinceConfig["Other Provinces"]),
+      })),
+      networkData: result.networkData.map((n) => ({
+        ...n,
+        color: networkColors[n.name] || "#9CA3AF",
+      })),
+      ageGroups: result.ageGroups.map((a, i) => ({
+        ...a,
+        color: ageColors[i] || ageColors[0],
+      })),
+      genderData: result.genderData.map((g) => ({
+        ...g,
+        color: g.name === "Male" ? "#3B82F6" : "#EC4899",
+      })),
+      urbanRuralData: result.urbanRuralData.map((u) => ({
+        ...u,
+        color: u.name === "Urban" ? "#374151" : "#10B981",
+      })),
+      deviceData: result.deviceData.map((d, i) => ({
+        ...d,
+        color: i === 0 ? "#3B82F6" : i === 1 ? "#10B981" : "#8B5CF6",
+      })),
     };
-
-    fetchData();
-  }, []);
+  }, [result]);
 
   const CustomTooltip: React.FC<CustomTooltipProps<any>> = ({
     active,
@@ -192,6 +140,10 @@ const USSDUserDemographics: React.FC = () => {
       <LoaderOverlay isLoading={loading} />
 
       <div className="max-w-7xl mx-auto space-y-6">
+        {error !== undefined && (
+          <ErrorBanner error={error} onRetry={refresh} />
+        )}
+
         {/* Header */}
         <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-200 ">
           <div className="flex flex-col lg:flex-row items-start lg:items-center justify-between gap-4">
@@ -216,6 +168,11 @@ const USSDUserDemographics: React.FC = () => {
                   <span>{data?.totalUsers.toLocaleString()} Total Users</span>
                 </div>
               </div>
+              <RefreshButton
+                onRefresh={refresh}
+                isFetching={isFetching}
+                updatedAt={updatedAt}
+              />
               <button
                 onClick={() => {
                   if (data) {
@@ -2,6 +2,7 @@ import html2canvas from "html2canvas";
 import React from "react";
 import Papa from "papaparse";
 import { TooltipProps } from "recharts";
+import type { Payload } from "recharts/types/component/DefaultTooltipContent";
 import Swal from 'sweetalert2';
 import withReactContent from 'sweetalert2-react-content';
 import { Download, FileText, File } from 'lucide-react';
@@ -84,16 +85,15 @@ export const exportAsCSV = <T extends Record<string, any>>(
  */
 export interface CustomTooltipProps<T> extends TooltipProps<number, string> {
   active?: boolean;
-  payload?: Array<{
-    payload: T;
-  }>;
+  payload?: Array<
+    Payload<number, string> & {
+      payload: T;
+    }
+  >;
   label?: string;
 }
 
-/**
- * Time range intervals for chart filtering
- */
-export type TimeRange = "24h" | "7d" | "30d" | "90d";
+export type { TimeRange } from "../services/types";
 
 
 const MySwal = withReactContent(Swal);
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from "react";
+import { useApiProfile } from "../services/config";
+import {
+  DEFAULT_TTL_MS,
+  queryCache,
+  QueryFetcher,
+} from "../services/queryCache";
+
+type UseQueryOptions = {
+  ttl?: number; // ms before cached data is revalidated
+  enabled?: boolean; // false to hold off fetching, e.g. until the query depends on another one
+};
+
+/**
+ * Read an api query through the shared cache (stale-while-revalidate)
+ * @param key endpoint + params, e.g. `volume/90d/airtime`
+ * @param fetcher loads the data, receives the signal that cancels it
+ * @param [options={}] cache options
+ */
+export const useQuery = <T>(
+  key: string,
+  fetcher: QueryFetcher<T>,
+  { ttl = DEFAULT_TTL_MS, enabled = true }: UseQueryOptions = {}
+) => {
+  // Every api profile gets its own entries so switching backend never shows the other one's data
+  const { name: profile } = useApiProfile();
+  const cacheKey = `${profile}:${key}`;
+
+  // Always call the latest fetcher without making it a dependency
+  const fetcherRef = useRef(fetcher);
+  fetcherRef.current = fetcher;
+
+  const snapshot = useSyncExternalStore(
+    useCallback(
+      (listener) => queryCache.subscribe(cacheKey, listener),
+      [cacheKey]
+    ),
+    () => queryCache.getSnapshot<T>(cacheKey)
+  );
+
+  // Fetch on first use, and revalidate in the background once the data is stale
+  useEffect(() => {
+    if (enabled && queryCache.isStale(cacheKey, ttl)) {
+      queryCache.fetch(cacheKey, fetcherRef.current);
+    }
+  }, [cacheKey, ttl, enabled, snapshot.updatedAt]);
+
+  const refresh = useCallback(
+    () => queryCache.fetch(cacheKey, fetcherRef.current),
+    [cacheKey]
+  );
+
+  return {
+    data: snapshot.data,
+    error: snapshot.error,
+    // Only the very first load blocks the UI, revalidation happens behind cached data
+    isLoading:
+      enabled &&
+      snapshot.data === undefined &&
+      (snapshot.isFetching || snapshot.error === undefined),
+    isFetching: snapshot.isFetching,
+    updatedAt: snapshot.updatedAt,
+    refresh,
+  };
+};
@@ -0,0 +1,31 @@
+import { useEffect, useState } from "react";
+import { LiveStatus } from "../analytics/live";
+import { mergeTickerSessions, TickerUpdate } from "../analytics/ticker";
+import { useApiProfile } from "../services/config";
+import { openSessionTicker } from "../services/live";
+
+/**
+ * Follow the sessions ingested by the server while mounted
+ * @returns the latest sessions (newest first), the rates per network and the connection status
+ */
+export const useSessionTicker = () => {
+  const { name: profile } = useApiProfile();
+  const [ticker, setTicker] = useState<TickerUpdate>();
+  const [status, setStatus] = useState<LiveStatus>("connecting");
+
+  useEffect(
+    () =>
+      openSessionTicker({
+        onStatus: setStatus,
+        onSnapshot: setTicker,
+        onUpdate: ({ sessions, rates }) =>
+          setTicker((current) => ({
+            sessions: mergeTickerSessions(current?.sessions ?? [], sessions),
+            rates,
+          })),
+      }),
+    [profile]
+  );
+
+  return { sessions: ticker?.sessions, rates: ticker?.rates, status };
+};
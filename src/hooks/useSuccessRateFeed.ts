@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from "react";
+import { dateRangeKey } from "../analytics/dateRange";
+import { applySuccessRateUpdate, LiveStatus } from "../analytics/live";
+import { useApiProfile } from "../services/config";
+import { openSuccessRateFeed } from "../services/live";
+import { queryCache } from "../services/queryCache";
+import { DateRange, GaugeApiResponse } from "../services/types";
+
+/**
+ * Keep the `success-rate/<period>` query up to date from the live feed while enabled.
+ * Pushed readings go straight into the cache, so they never show a loader.
+ * @param period the window the gauge shows
+ * @param enabled false to close the feed
+ * @returns the connection status
+ */
+export const useSuccessRateFeed = (
+  period: DateRange,
+  enabled: boolean
+): LiveStatus => {
+  const { name: profile } = useApiProfile();
+  const cacheKey = `${profile}:success-rate/${dateRangeKey(period)}`;
+  const [status, setStatus] = useState<LiveStatus>("paused");
+
+  // Custom periods are new objects on every render, the key says when they change
+  const periodRef = useRef(period);
+  periodRef.current = period;
+
+  useEffect(() => {
+    if (!enabled) {
+      setStatus("paused");
+      return;
+    }
+    return openSuccessRateFeed(periodRef.current, {
+      onStatus: setStatus,
+      onSnapshot: (data) => queryCache.set(cacheKey, data),
+      onUpdate: (update) => {
+        const current = queryCache.getSnapshot<GaugeApiResponse>(cacheKey).data;
+        if (current) {
+          queryCache.set(cacheKey, applySuccessRateUpdate(current, update));
+        }
+      },
+    });
+  }, [cacheKey, enabled]);
+
+  return status;
+};
@@ -5,7 +5,30 @@ import USSDRevenueTrends from "../components/RevenueTrends";
 import SuccessRageGauge from "../components/SuccessRateGauge";
 import TransactionVolumeChart from "../components/TransactionVolumeChart";
 import USSDUserDemographics from "../components/UserDemographics";
-import { BarChart3, Gauge, TrendingUp, Clock, Users } from "lucide-react";
+import SessionIngest from "../components/SessionIngest";
+import BusinessCalendar from "../components/BusinessCalendar";
+import ApiSettings from "../components/ApiSettings";
+import AlertBell from "../components/AlertBell";
+import AlertRules from "../components/AlertRules";
+import SessionTicker from "../components/SessionTicker";
+import MenuFlow from "../components/MenuFlow";
+import SessionExplorer from "../components/SessionExplorer";
+import ReportsCentre from "../components/ReportsCentre";
+import { useApiProfile } from "../services/config";
+import {
+  BarChart3,
+  Gauge,
+  TrendingUp,
+  Clock,
+  Users,
+  Database,
+  CalendarDays,
+  BellRing,
+  Activity,
+  GitBranch,
+  Search,
+  FileText,
+} from "lucide-react";
 
 const tabs = [
  "transaction-volume",
@@ -13,6 +36,13 @@ const tabs = [
  "revenue-trends",
   "peak-hours",
  "user-demographics",
+  "menu-flow",
+  "session-explorer",
+  "live-sessions",
+  "session-logs",
+  "reports",
+  "calendar",
+  "alerts",
 ];
 
 const getInitialTab = () => {
@@ -22,6 +52,8 @@ const getInitialTab = () => {
 
 const AnalyticsPage = () => {
   const [activeId, setActiveId] = useState(getInitialTab);
+  // Charts are keyed by profile so switching backend refetches everything
+  const { name: profile } = useApiProfile();
 
   return (
     <>
@@ -31,41 +63,96 @@ const AnalyticsPage = () => {
         onSetActive={(id: string) => {
           window.location.hash = id;
         }}
+        headerActions={
+          <>
+            <AlertBell key={profile} />
+            <ApiSettings />
+          </>
+        }
       >
         <DashboardItem
           icon={<BarChart3 className="w-5 h-5" />}
           title="Transaction Volume"
           id={"transaction-volume"}
         >
-          <TransactionVolumeChart />
+          <TransactionVolumeChart key={profile} />
         </DashboardItem>
         <DashboardItem
           icon={<Gauge className="w-5 h-5" />}
           title="Success Rates"
           id={"success-rate"}
         >
-          <SuccessRageGauge />
+          <SuccessRageGauge key={profile} />
         </DashboardItem>
         <DashboardItem
           icon={<TrendingUp className="w-5 h-5" />}
           title="Revenue Trends"
           id={"revenue-trends"}
         >
-          <USSDRevenueTrends />
+          <USSDRevenueTrends key={profile} />
         </DashboardItem>
         <DashboardItem
           icon={<Clock className="w-5 h-5" />}
           title="Peak Hours"
           id={"peak-hours"}
         >
-          <USSDPeakHoursHeatmap />
+          <USSDPeakHoursHeatmap key={profile} />
         </DashboardItem>
         <DashboardItem
           icon={<Users className="w-5 h-5" />}
           title="User Demographics"
           id={"user-demographics"}
         >
-          <USSDUserDemographics />
+          <USSDUserDemographics key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<GitBranch className="w-5 h-5" />}
+          title="Menu Flow"
+          id={"menu-flow"}
+        >
+          <MenuFlow key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<Search className="w-5 h-5" />}
+          title="Session Explorer"
+          id={"session-explorer"}
+        >
+          <SessionExplorer key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<Activity className="w-5 h-5" />}
+          title="Live Sessions"
+          id={"live-sessions"}
+        >
+          <SessionTicker key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<Database className="w-5 h-5" />}
+          title="Session Logs"
+          id={"session-logs"}
+        >
+          <SessionIngest key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<FileText className="w-5 h-5" />}
+          title="Reports"
+          id={"reports"}
+        >
+          <ReportsCentre key={profile} />
+        </DashboardItem>
+        <DashboardItem
+          icon={<CalendarDays className="w-5 h-5" />}
+          title="Calendar"
+          id={"calendar"}
+        >
+          <BusinessCalendar />
+        </DashboardItem>
+        <DashboardItem
+          icon={<BellRing className="w-5 h-5" />}
+          title="Alerts"
+          id={"alerts"}
+        >
+          <AlertRules key={profile} />
         </DashboardItem>
       </Dashboard>
     </>
@@ -1,45 +1,398 @@
-import { TimeRange } from "../components/utils";
+import {
+  ArchivedReport,
+  ChartDataPoint,
+  DateRange,
+  DemographicsResponse,
+  FailureBreakdownResponse,
+  FailureSessionFilter,
+  GaugeApiResponse,
+  HeatmapCell,
+  MenuFlowResponse,
+  MenuFunnelResponse,
+  ReportRecord,
+  RevenuePoint,
+  SessionSearchFilter,
+} from "./types";
+import { dateRangeSearch, dateRangeSegment } from "../analytics/dateRange";
+import { Anomaly } from "../analytics/anomalies";
+import { AlertIncident, AlertRule, AlertRuleInput } from "../analytics/alerts";
+import { ReportType } from "../analytics/reports";
+import { ReportSchedule, ReportScheduleInput } from "../analytics/schedules";
+import { SlaConfig } from "../analytics/sla";
+import {
+  Delivery,
+  NotificationChannel,
+  NotificationChannelInput,
+} from "../analytics/notifications";
+import {
+  IngestReport,
+  MENU_PATH_SEPARATOR,
+  SessionLogFormat,
+  SessionSummary,
+  UssdSession,
+} from "../analytics/sessions";
+import { getActiveProfile, loadRuntimeConfig } from "./config";
+import { mockRequest } from "./mock";
 
-const API_BASE = "http://localhost:3000/api/analytics"; // Node.js backend
+/**
+ * Shape of every response from the node.js api
+ */
+export type ApiEnvelope<T> =
+  | { success: true; payload: T }
+  | { success: false; message?: string };
+
+/**
+ * Base class for every error thrown by the api client
+ */
+export class ApiError extends Error {
+  constructor(message: string, public readonly path: string) {
+    super(message);
+    this.name = "ApiError";
+  }
+}
+
+/**
+ * The server could not be reached (offline, DNS, CORS, connection refused)
+ */
+export class ApiNetworkError extends ApiError {
+  constructor(path: string, public readonly cause?: unknown) {
+    super("Unable to reach the analytics server", path);
+    this.name = "ApiNetworkError";
+  }
+}
+
+// Error responses from the bundled server carry the `{ success: false, message }` envelope
+const messageFromBody = (body: string): string => {
+  try {
+    const parsed = JSON.parse(body);
+    if (typeof parsed?.message === "string") return parsed.message;
+  } catch {
+    // Not json (proxy error page, plain text), show it as is
+  }
+  return body;
+};
+
+/**
+ * The server answered with a non 2xx status
+ */
+export class ApiHttpError extends ApiError {
+  constructor(
+    path: string,
+    public readonly status: number,
+    public readonly body: string
+  ) {
+    super(
+      messageFromBody(body) || `Request failed with status ${status}`,
+      path
+    );
+    this.name = "ApiHttpError";
+  }
+}
+
+/**
+ * The server answered but flagged the request as unsuccessful (`success: false`)
+ */
+export class ApiResponseError extends ApiError {
+  constructor(path: string, public readonly serverMessage?: string) {
+    super(serverMessage || "The server could not complete the request", path);
+    this.name = "ApiResponseError";
+  }
+}
+
+/**
+ * The request was cancelled through its AbortSignal (dependency change or unmount).
+ * This is not a failure, the query cache drops it instead of storing it as the error of the query.
+ */
+export class ApiAbortError extends ApiError {
+  constructor(path: string) {
+    super("The request was cancelled", path);
+    this.name = "ApiAbortError";
+  }
+}
+
+/**
+ * Whether an error only signals a cancelled request
+ * @param error anything caught from an api call
+ */
+export const isAbortError = (error: unknown): error is ApiAbortError =>
+  error instanceof ApiAbortError;
+
+/**
+ * Per call options accepted by every endpoint function
+ */
+export type RequestOptions = {
+  signal?: AbortSignal;
+};
 
 /**
  * Utility to fetch from node.js api end points
  * @param path the path for the endpoint
  * @param [options={}] any options for fetching, (not needed for this demo because there are only get requests and there is no auth)
+ * @throws {ApiNetworkError} when the server cannot be reached
+ * @throws {ApiHttpError} when the server responds with a non 2xx status
+ * @throws {ApiResponseError} when the envelope is flagged `success: false`
+ * @throws {ApiAbortError} when `options.signal` is aborted before the payload arrives
  */
-async function request(path: string, options: any = {}) {
-  const res = await fetch(`${API_BASE}${path}`, {
-    headers: {
-      "Content-Type": "application/json",
-      ...(options.token && { Authorization: `Bearer ${options.token}` }),
-    },
-    ...options,
-  });
-
-  if (!res.ok) {
-    const err = await res.text();
-    throw new Error(err || "API request failed");
-  }
+async function request<T>(
+  path: string,
+  options: RequestInit & { token?: string } = {}
+): Promise<T> {
+  const { token, headers, ...init } = options;
+
+  try {
+    await loadRuntimeConfig();
+    const profile = getActiveProfile();
+
+    let response: ApiEnvelope<T>;
+
+    if (profile.name === "mock") {
+      response = (await mockRequest(path, init)) as ApiEnvelope<T>;
+    } else {
+      if (!profile.baseUrl) {
+        throw new ApiError(
+          `No API base URL configured for "${profile.label}"`,
+          path
+        );
+      }
 
-  const response: any = await res.json();
+      let res: Response;
+      try {
+        res = await fetch(`${profile.baseUrl}${path}`, {
+          headers: {
+            "Content-Type": "application/json",
+            ...(token && { Authorization: `Bearer ${token}` }),
+            ...(headers as Record<string, string> | undefined),
+          },
+          ...init,
+        });
+      } catch (error) {
+        throw new ApiNetworkError(path, error);
+      }
+
+      if (!res.ok) {
+        const body = await res.text();
+        throw new ApiHttpError(path, res.status, body);
+      }
+
+      response = await res.json();
+    }
+
+    // A response that lands after cancellation is stale, never hand it out
+    if (init.signal?.aborted) throw new ApiAbortError(path);
+
+    if (!response.success) {
+      throw new ApiResponseError(path, response.message);
+    }
 
-  if (response.success) {
     return response.payload;
+  } catch (error) {
+    if (init.signal?.aborted) throw new ApiAbortError(path);
+    throw error;
   }
-
-  return null;
 }
 
 // Endpoint functions your components/pages will call
 export const api = {
-  getTransactionVolume: (range: TimeRange, service: string) =>
-    request(`/transactions/volume/${range}/${service}`),
-  getSuccessRate: (selectedPeriod: TimeRange) =>
-    request(`/transactions/success-rate/${selectedPeriod}`),
-  getPeakHours: () => request("/peak-hours"),
-  getDemographics: () => request("/users/demographics"),
-  getRevenueTrends: (range: TimeRange | "ytd") =>
-    request(`/revenue/trends/${range}`),
-  getMenuNavigationFlow: () => request("/menu-flow"),
-  getReport: (type: string | number) => request(`/reports/${type}`),
+  getTransactionVolume: (
+    range: DateRange,
+    service: string,
+    options?: RequestOptions
+  ) =>
+    request<ChartDataPoint[]>(
+      `/transactions/volume/${dateRangeSegment(
+        range
+      )}/${service}${dateRangeSearch(range)}`,
+      options
+    ),
+  getAnomalies: (
+    range: DateRange,
+    service: string,
+    threshold?: number,
+    options?: RequestOptions
+  ) => {
+    const search = new URLSearchParams(dateRangeSearch(range));
+    if (threshold !== undefined) search.set("threshold", String(threshold));
+    return request<Anomaly[]>(
+      `/anomalies/${dateRangeSegment(range)}/${service}${
+        search.toString() && `?${search}`
+      }`,
+      options
+    );
+  },
+  getSuccessRate: (selectedPeriod: DateRange, options?: RequestOptions) =>
+    request<GaugeApiResponse>(
+      `/transactions/success-rate/${dateRangeSegment(
+        selectedPeriod
+      )}${dateRangeSearch(selectedPeriod)}`,
+      options
+    ),
+  getFailureBreakdown: (period: DateRange, options?: RequestOptions) =>
+    request<FailureBreakdownResponse>(
+      `/transactions/failures/${dateRangeSegment(period)}${dateRangeSearch(
+        period
+      )}`,
+      options
+    ),
+  getFailedSessions: (
+    period: DateRange,
+    { reason, network }: FailureSessionFilter,
+    options?: RequestOptions
+  ) => {
+    const search = new URLSearchParams(dateRangeSearch(period));
+    search.set("reason", reason);
+    search.set("network", network);
+    return request<UssdSession[]>(
+      `/transactions/failures/${dateRangeSegment(period)}/sessions?${search}`,
+      options
+    );
+  },
+  getPeakHours: (options?: RequestOptions) =>
+    request<HeatmapCell[]>("/peak-hours", options),
+  getDemographics: (options?: RequestOptions) =>
+    request<DemographicsResponse>("/users/demographics", options),
+  getRevenueTrends: (range: DateRange, options?: RequestOptions) =>
+    request<RevenuePoint[]>(
+      `/revenue/trends/${dateRangeSegment(range)}${dateRangeSearch(range)}`,
+      options
+    ),
+  getMenuNavigationFlow: (options?: RequestOptions) =>
+    request<MenuFlowResponse>("/menu-flow", options),
+  getMenuFunnel: (steps: string[], options?: RequestOptions) =>
+    request<MenuFunnelResponse>(
+      `/menu-flow/funnel?${new URLSearchParams({
+        steps: steps.join(MENU_PATH_SEPARATOR),
+      })}`,
+      options
+    ),
+  searchSessions: (
+    period: DateRange,
+    { node, outcome, network }: SessionSearchFilter,
+    options?: RequestOptions
+  ) => {
+    const search = new URLSearchParams(dateRangeSearch(period));
+    search.set("node", node);
+    search.set("outcome", outcome);
+    search.set("network", network);
+    return request<UssdSession[]>(
+      `/sessions/explore/${dateRangeSegment(period)}?${search}`,
+      options
+    );
+  },
+  generateReport: (
+    type: ReportType,
+    period: DateRange | null,
+    options?: RequestOptions
+  ) =>
+    request<ArchivedReport>(
+      period === null
+        ? `/reports/${type}`
+        : `/reports/${type}/${dateRangeSegment(period)}${dateRangeSearch(
+            period
+          )}`,
+      { ...options, method: "POST" }
+    ),
+  getReportHistory: (options?: RequestOptions) =>
+    request<ReportRecord[]>("/reports/history", options),
+  getReport: (id: string, options?: RequestOptions) =>
+    request<ArchivedReport>(`/reports/history/${id}`, options),
+  getReportSchedules: (options?: RequestOptions) =>
+    request<ReportSchedule[]>("/schedules", options),
+  saveReportSchedule: (
+    schedule: ReportScheduleInput,
+    id?: string,
+    options?: RequestOptions
+  ) =>
+    request<ReportSchedule>(id ? `/schedules/${id}` : "/schedules", {
+      ...options,
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(schedule),
+    }),
+  deleteReportSchedule: (id: string, options?: RequestOptions) =>
+    request<ReportSchedule[]>(`/schedules/${id}`, {
+      ...options,
+      method: "DELETE",
+    }),
+  runReportSchedule: (id: string, options?: RequestOptions) =>
+    request<ArchivedReport>(`/schedules/${id}/run`, {
+      ...options,
+      method: "POST",
+    }),
+  getAlertRules: (options?: RequestOptions) =>
+    request<AlertRule[]>("/alerts/rules", options),
+  saveAlertRule: (
+    rule: AlertRuleInput,
+    id?: string,
+    options?: RequestOptions
+  ) =>
+    request<AlertRule>(id ? `/alerts/rules/${id}` : "/alerts/rules", {
+      ...options,
+      method: id ? "PUT" : "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(rule),
+    }),
+  deleteAlertRule: (id: string, options?: RequestOptions) =>
+    request<AlertRule[]>(`/alerts/rules/${id}`, {
+      ...options,
+      method: "DELETE",
+    }),
+  getAlertIncidents: (status: "open" | "all", options?: RequestOptions) =>
+    request<AlertIncident[]>(`/alerts/incidents?status=${status}`, options),
+  acknowledgeIncident: (id: string, options?: RequestOptions) =>
+    request<AlertIncident>(`/alerts/incidents/${id}/acknowledge`, {
+      ...options,
+      method: "POST",
+    }),
+  getNotificationChannels: (options?: RequestOptions) =>
+    request<NotificationChannel[]>("/alerts/channels", options),
+  saveNotificationChannel: (
+    channel: NotificationChannelInput,
+    id?: string,
+    options?: RequestOptions
+  ) =>
+    request<NotificationChannel>(
+      id ? `/alerts/channels/${id}` : "/alerts/channels",
+      {
+        ...options,
+        method: id ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(channel),
+      }
+    ),
+  deleteNotificationChannel: (id: string, options?: RequestOptions) =>
+    request<NotificationChannel[]>(`/alerts/channels/${id}`, {
+      ...options,
+      method: "DELETE",
+    }),
+  testNotificationChannel: (id: string, options?: RequestOptions) =>
+    request<Delivery>(`/alerts/channels/${id}/test`, {
+      ...options,
+      method: "POST",
+    }),
+  getDeliveries: (options?: RequestOptions) =>
+    request<Delivery[]>("/alerts/deliveries", options),
+  getSlaConfig: (options?: RequestOptions) =>
+    request<SlaConfig>("/settings/sla", options),
+  saveSlaConfig: (config: SlaConfig, options?: RequestOptions) =>
+    request<SlaConfig>("/settings/sla", {
+      ...options,
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(config),
+    }),
+  getSessionSummary: (options?: RequestOptions) =>
+    request<SessionSummary>("/sessions/summary", options),
+  ingestSessions: (
+    content: string,
+    format: SessionLogFormat,
+    options?: RequestOptions
+  ) =>
+    request<IngestReport>(`/sessions/ingest?format=${format}`, {
+      ...options,
+      method: "POST",
+      headers: {
+        "Content-Type": format === "csv" ? "text/csv" : "application/x-ndjson",
+      },
+      body: content,
+    }),
 };
@@ -0,0 +1,104 @@
+import { useSyncExternalStore } from "react";
+import {
+  createHolidayCalendar,
+  CustomEvent,
+  DEFAULT_CUSTOM_EVENTS,
+  HolidayCalendar,
+} from "../analytics/holidays";
+
+/**
+ * Holiday calendar shared by every chart that flags holidays.
+ * National holidays are built in, custom events are added from the Holidays tab and persisted per browser.
+ */
+
+const STORAGE_KEY = "ussd-analytics:custom-events";
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isIsoDate = (value: unknown): value is string =>
+  typeof value === "string" && ISO_DATE.test(value);
+
+const isCustomEvent = (value: unknown): value is CustomEvent => {
+  if (typeof value !== "object" || value === null) return false;
+  const { id, name, start, end, recurring }: Record<string, unknown> = {
+    ...value,
+  };
+  return (
+    typeof id === "string" &&
+    typeof name === "string" &&
+    isIsoDate(start) &&
+    isIsoDate(end) &&
+    start <= end &&
+    typeof recurring === "boolean"
+  );
+};
+
+const readStoredEvents = (): CustomEvent[] | null => {
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(STORAGE_KEY) || "null"
+    );
+    return Array.isArray(stored) ? stored.filter(isCustomEvent) : null;
+  } catch {
+    return null;
+  }
+};
+
+let events: CustomEvent[] = readStoredEvents() ?? DEFAULT_CUSTOM_EVENTS;
+let calendar: HolidayCalendar = createHolidayCalendar(events);
+const listeners = new Set<() => void>();
+
+const setEvents = (next: CustomEvent[]) => {
+  events = next;
+  calendar = createHolidayCalendar(events);
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(events));
+  } catch {
+    // Storage can be unavailable (private mode), the events then last until reload
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const getCustomEvents = (): CustomEvent[] => events;
+
+export const getHolidayCalendar = (): HolidayCalendar => calendar;
+
+/**
+ * Add a custom event to the calendar
+ * @param event the event, an id is assigned
+ * @returns why the event is invalid, or null once added
+ */
+export const addCustomEvent = (event: Omit<CustomEvent, "id">) => {
+  const added = {
+    ...event,
+    name: event.name.trim(),
+    id: `${Date.now().toString(36)}-${events.length}`,
+  };
+  if (!added.name) return "Give the event a name";
+  if (!isCustomEvent(added)) {
+    return "The start date must be on or before the end date";
+  }
+  setEvents([...events, added]);
+  return null;
+};
+
+export const removeCustomEvent = (id: string) =>
+  setEvents(events.filter((event) => event.id !== id));
+
+export const subscribeToCalendar = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * React hook returning the calendar, re-renders when custom events change
+ */
+export const useHolidayCalendar = (): HolidayCalendar =>
+  useSyncExternalStore(subscribeToCalendar, getHolidayCalendar);
+
+/**
+ * React hook returning the custom events
+ */
+export const useCustomEvents = (): CustomEvent[] =>
+  useSyncExternalStore(subscribeToCalendar, getCustomEvents);
@@ -0,0 +1,150 @@
+import { useSyncExternalStore } from "react";
+
+/**
+ * Runtime api configuration.
+ * Profiles are seeded from build time env vars (REACT_APP_*), can be overridden by an optional
+ * `config.json` served from `public/`, and the selected profile is persisted per browser.
+ */
+
+export type ApiProfileName = "local" | "staging" | "prod" | "mock";
+
+export interface ApiProfile {
+  name: ApiProfileName;
+  label: string;
+  baseUrl: string;
+}
+
+/**
+ * Shape of `public/config.json`, every field is optional
+ */
+export interface RuntimeConfig {
+  defaultProfile?: ApiProfileName;
+  profiles?: Partial<Record<ApiProfileName, Partial<Omit<ApiProfile, "name">>>>;
+}
+
+export const PROFILE_NAMES: ApiProfileName[] = [
+  "local",
+  "staging",
+  "prod",
+  "mock",
+];
+
+// Base url used by the mock profile, requests never leave the browser
+export const MOCK_BASE_URL = "mock://analytics";
+
+const STORAGE_KEY = "ussd-analytics:api-profile";
+
+const isProfileName = (value: unknown): value is ApiProfileName =>
+  PROFILE_NAMES.includes(value as ApiProfileName);
+
+let profiles: Record<ApiProfileName, ApiProfile> = {
+  local: {
+    name: "local",
+    label: "Local",
+    baseUrl:
+      process.env.REACT_APP_API_BASE_LOCAL ||
+      "http://localhost:4000/api/analytics",
+  },
+  staging: {
+    name: "staging",
+    label: "Staging",
+    baseUrl: process.env.REACT_APP_API_BASE_STAGING || "",
+  },
+  prod: {
+    name: "prod",
+    label: "Production",
+    baseUrl: process.env.REACT_APP_API_BASE_PROD || "",
+  },
+  mock: { name: "mock", label: "Mock data", baseUrl: MOCK_BASE_URL },
+};
+
+let defaultProfile: ApiProfileName = isProfileName(
+  process.env.REACT_APP_API_PROFILE
+)
+  ? process.env.REACT_APP_API_PROFILE
+  : "local";
+
+const readStoredProfile = (): ApiProfileName | null => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    return isProfileName(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+};
+
+let selectedProfile: ApiProfileName | null = readStoredProfile();
+let loadPromise: Promise<void> | null = null;
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach((listener) => listener());
+
+/**
+ * Merge a runtime config on top of the build time profiles
+ * @param config the parsed `config.json`
+ */
+export const applyRuntimeConfig = (config: RuntimeConfig) => {
+  if (isProfileName(config.defaultProfile)) {
+    defaultProfile = config.defaultProfile;
+  }
+
+  const next = { ...profiles };
+  PROFILE_NAMES.forEach((name) => {
+    const override = config.profiles?.[name];
+    // The mock profile always stays in the browser
+    if (override && name !== "mock") {
+      next[name] = { ...next[name], ...override, name };
+    }
+  });
+  profiles = next;
+  notify();
+};
+
+/**
+ * Fetch `config.json` once, missing or invalid files fall back to the build time profiles
+ */
+export const loadRuntimeConfig = (): Promise<void> => {
+  if (!loadPromise) {
+    loadPromise = Promise.resolve()
+      .then(() => fetch(`${process.env.PUBLIC_URL || ""}/config.json`))
+      .then((res) => (res.ok ? res.json() : null))
+      .then((config: RuntimeConfig | null) => {
+        if (config) applyRuntimeConfig(config);
+      })
+      .catch(() => undefined);
+  }
+  return loadPromise;
+};
+
+export const getProfiles = (): ApiProfile[] =>
+  PROFILE_NAMES.map((name) => profiles[name]);
+
+export const getActiveProfile = (): ApiProfile =>
+  profiles[selectedProfile ?? defaultProfile];
+
+/**
+ * Select and persist the profile used by every subsequent request
+ * @param name the profile to activate
+ */
+export const setActiveProfile = (name: ApiProfileName) => {
+  selectedProfile = name;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, name);
+  } catch {
+    // Storage can be unavailable (private mode), the choice then lasts until reload
+  }
+  notify();
+};
+
+export const subscribeToConfig = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * React hook returning the active profile, re-renders when it changes
+ */
+export const useApiProfile = (): ApiProfile =>
+  useSyncExternalStore(subscribeToConfig, getActiveProfile);
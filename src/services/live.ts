@@ -0,0 +1,195 @@
+import { api } from "./api";
+import { getActiveProfile, loadRuntimeConfig } from "./config";
+import { DateRange, GaugeApiResponse } from "./types";
+import { dateRangeSearch, dateRangeSegment } from "../analytics/dateRange";
+import { createSessionSimulator } from "../analytics/generator";
+import {
+  LiveStatus,
+  reconnectDelay,
+  SuccessRateUpdate,
+  successRateUpdate,
+} from "../analytics/live";
+import {
+  mergeTickerSessions,
+  sessionsPerMinute,
+  TICKER_RATE_WINDOW_MS,
+  TickerUpdate,
+  toTickerSession,
+} from "../analytics/ticker";
+
+/**
+ * Clients of the live feeds served as Server-Sent Events.
+ * A dropped connection is retried with backoff until the feed is closed.
+ */
+
+export interface FeedHandlers<Snapshot, Update> {
+  onSnapshot: (data: Snapshot) => void; // on every (re)connection
+  onUpdate: (update: Update) => void;
+  onStatus: (status: LiveStatus) => void;
+}
+
+export type SuccessRateFeedHandlers = FeedHandlers<
+  GaugeApiResponse,
+  SuccessRateUpdate
+>;
+
+export type SessionTickerHandlers = FeedHandlers<TickerUpdate, TickerUpdate>;
+
+// The mock profile has no server to stream from, it reads the fixtures on these cycles instead
+const MOCK_FEED_INTERVAL_MS = 5000;
+const MOCK_TICKER_INTERVAL_MS = 2000;
+
+/**
+ * Follow an event stream of `snapshot` and `update` events, or the mock standing in for it
+ * @param path the stream, relative to the base url of the profile
+ * @param handlers receive the events and the connection status
+ * @param followMock reads the mock profile instead, returns what stops it
+ * @returns closes the feed
+ */
+const openFeed = <Snapshot, Update>(
+  path: string,
+  { onSnapshot, onUpdate, onStatus }: FeedHandlers<Snapshot, Update>,
+  followMock: () => () => void
+): (() => void) => {
+  let closed = false;
+  let attempt = 0;
+  let source: EventSource | undefined;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let stopMock: (() => void) | undefined;
+
+  const reconnect = () => {
+    source?.close();
+    if (closed) return;
+    onStatus("reconnecting");
+    retry = setTimeout(connect, reconnectDelay(++attempt));
+  };
+
+  const connect = async () => {
+    await loadRuntimeConfig();
+    if (closed) return;
+
+    const profile = getActiveProfile();
+    if (profile.name === "mock") {
+      stopMock = followMock();
+      return;
+    }
+    if (!profile.baseUrl) {
+      reconnect();
+      return;
+    }
+
+    source = new EventSource(`${profile.baseUrl}${path}`);
+    source.addEventListener("snapshot", (event) => {
+      attempt = 0;
+      onStatus("live");
+      onSnapshot(JSON.parse((event as MessageEvent).data));
+    });
+    source.addEventListener("update", (event) =>
+      onUpdate(JSON.parse((event as MessageEvent).data))
+    );
+    // EventSource retries on its own at a fixed pace, close it to back off instead
+    source.onerror = reconnect;
+  };
+
+  onStatus("connecting");
+  connect();
+
+  return () => {
+    closed = true;
+    clearTimeout(retry);
+    stopMock?.();
+    source?.close();
+  };
+};
+
+/**
+ * Follow the success rate gauge of a period
+ * @param period the window to watch
+ * @param handlers receive the readings and the connection status
+ * @returns closes the feed
+ */
+export const openSuccessRateFeed = (
+  period: DateRange,
+  handlers: SuccessRateFeedHandlers
+): (() => void) =>
+  openFeed(
+    `/transactions/success-rate/${dateRangeSegment(
+      period
+    )}/stream${dateRangeSearch(period)}`,
+    handlers,
+    () => {
+      let stopped = false;
+      let last: GaugeApiResponse | undefined;
+      const read = async () => {
+        try {
+          const reading = await api.getSuccessRate(period);
+          if (stopped) return;
+          if (!last) {
+            handlers.onStatus("live");
+            handlers.onSnapshot(reading);
+          } else {
+            const update = successRateUpdate(last, reading);
+            if (update) handlers.onUpdate(update);
+          }
+          last = reading;
+        } catch {
+          // Fixtures only fail on an invalid period, the query shows that error
+        }
+      };
+      read();
+      const timer = setInterval(read, MOCK_FEED_INTERVAL_MS);
+      return () => {
+        stopped = true;
+        clearInterval(timer);
+      };
+    }
+  );
+
+// Ticker traffic of the mock profile, busier than the generator default so it keeps moving
+const simulateMockSessions = createSessionSimulator({
+  seed: "mock",
+  sessionsPerDay: 20000,
+});
+
+// How far back the snapshot of the mock ticker looks
+const MOCK_TICKER_HISTORY_MS = 15 * 60 * 1000;
+
+/**
+ * Follow the sessions ingested by the server, for the live ticker
+ * @param handlers receive the sessions, the rates and the connection status
+ * @returns closes the feed
+ */
+export const openSessionTicker = (
+  handlers: SessionTickerHandlers
+): (() => void) =>
+  openFeed("/sessions/stream", handlers, () => {
+    let last = Date.now();
+    const rates = (now: number) =>
+      sessionsPerMinute(
+        simulateMockSessions(now - TICKER_RATE_WINDOW_MS, now),
+        now
+      );
+
+    handlers.onStatus("live");
+    handlers.onSnapshot({
+      sessions: mergeTickerSessions(
+        [],
+        simulateMockSessions(last - MOCK_TICKER_HISTORY_MS, last).map(
+          toTickerSession
+        )
+      ),
+      rates: rates(last),
+    });
+    const timer = setInterval(() => {
+      const now = Date.now();
+      handlers.onUpdate({
+        sessions: mergeTickerSessions(
+          [],
+          simulateMockSessions(last, now).map(toTickerSession)
+        ),
+        rates: rates(now),
+      });
+      last = now;
+    }, MOCK_TICKER_INTERVAL_MS);
+    return () => clearInterval(timer);
+  });
@@ -0,0 +1,660 @@
+import {
+  fixtureDemographics,
+  fixtureFailedSessions,
+  fixtureFailureBreakdown,
+  fixtureMenuFlow,
+  fixtureMenuFunnel,
+  fixturePeakHours,
+  fixtureRevenueTrends,
+  fixtureSessionSearch,
+  fixtureSuccessRate,
+  fixtureTransactionVolume,
+  fixtureWindowMetrics,
+} from "../analytics/fixtures";
+import {
+  buildIngestReport,
+  parseFailureFilter,
+  parseSessionLog,
+  SessionLogFormat,
+  summarizeSessions,
+  UssdSession,
+} from "../analytics/sessions";
+import { parseDateRange } from "../analytics/dateRange";
+import { detectAnomalies, parseAnomalyThreshold } from "../analytics/anomalies";
+import { parseSessionSearch } from "../analytics/explorer";
+import {
+  acknowledgeIncident,
+  AlertIncident,
+  AlertRule,
+  DEFAULT_ALERT_RULES,
+  evaluateAlerts,
+  metricValue,
+  parseAlertRule,
+} from "../analytics/alerts";
+import {
+  alertEvents,
+  buildNotification,
+  DEFAULT_CHANNELS,
+  Delivery,
+  MAX_DELIVERY_HISTORY,
+  Notification,
+  NotificationChannel,
+  parseNotificationChannel,
+  sampleIncident,
+} from "../analytics/notifications";
+import {
+  DEFAULT_SLA_CONFIG,
+  parseSlaConfig,
+  SlaConfig,
+} from "../analytics/sla";
+import { parseFunnelSteps } from "../analytics/funnel";
+import {
+  buildReport,
+  MAX_REPORT_HISTORY,
+  parseReportRequest,
+  REPORT_DEFINITIONS,
+  ReportDefinition,
+  ReportSource,
+} from "../analytics/reports";
+import { REPORT_MIME_TYPES, reportFileName } from "../analytics/reportFiles";
+import {
+  buildReportNotification,
+  nextScheduleRun,
+  parseReportSchedule,
+  recipientsChannel,
+  ReportSchedule,
+} from "../analytics/schedules";
+import { ArchivedReport, DateRange } from "./types";
+
+type MockRoute = {
+  method?: string; // GET when omitted
+  pattern: RegExp; // matched against the path without its query string
+  resolve: (params: string[], body: string, query: URLSearchParams) => unknown;
+};
+
+// Same validation as the server, the message ends up in the `success: false` envelope
+const mockRange = (segment: string, query: URLSearchParams): DateRange => {
+  const result = parseDateRange(segment, {
+    start: query.get("start") ?? undefined,
+    end: query.get("end") ?? undefined,
+  });
+  if ("error" in result) throw new Error(result.error);
+  return result.range;
+};
+
+const mockThreshold = (query: URLSearchParams) => {
+  const result = parseAnomalyThreshold(query.get("threshold") ?? undefined);
+  if ("error" in result) throw new Error(result.error);
+  return result.threshold;
+};
+
+const mockFailureFilter = (query: URLSearchParams) => {
+  const result = parseFailureFilter({
+    reason: query.get("reason") ?? undefined,
+    network: query.get("network") ?? undefined,
+  });
+  if ("error" in result) throw new Error(result.error);
+  return result.filter;
+};
+
+const mockSessionSearch = (query: URLSearchParams) => {
+  const result = parseSessionSearch({
+    node: query.get("node") ?? undefined,
+    outcome: query.get("outcome") ?? undefined,
+    network: query.get("network") ?? undefined,
+  });
+  if ("error" in result) throw new Error(result.error);
+  return result.filter;
+};
+
+// Sessions uploaded while on the mock profile, kept until the page reloads
+const mockSessions = new Map<string, UssdSession>();
+
+const ingestMockSessions = (content: string, format: SessionLogFormat) => {
+  const parsed = parseSessionLog(content, format);
+  let added = 0;
+  parsed.sessions.forEach((session) => {
+    if (mockSessions.has(session.sessionId)) return;
+    mockSessions.set(session.sessionId, session);
+    added++;
+  });
+
+  return buildIngestReport(
+    format,
+    parsed,
+    { added, duplicates: parsed.sessions.length - added },
+    summarizeSessions(Array.from(mockSessions.values()))
+  );
+};
+
+// Alert rules and incidents of the mock profile, a cycle runs on every read instead of on a timer
+let mockRules: AlertRule[] = DEFAULT_ALERT_RULES;
+let mockIncidents: AlertIncident[] = [];
+let mockIds = 0;
+
+// Nothing leaves the browser on the mock profile, every delivery succeeds and is printed to the console
+let mockChannels: NotificationChannel[] = DEFAULT_CHANNELS;
+let mockDeliveries: Delivery[] = [];
+
+const deliverMock = (
+  channel: NotificationChannel,
+  notification: Notification
+): Delivery => {
+  console.info(
+    `[mock notify] ${channel.name} (${channel.type}) ${notification.subject}: ${notification.message}`
+  );
+  const delivery: Delivery = {
+    id: `mock-delivery-${++mockIds}`,
+    channelId: channel.id,
+    channelName: channel.name,
+    incidentId: notification.incident?.id,
+    reportId: notification.report?.id,
+    event: notification.event,
+    status: "sent",
+    attempts: 1,
+    at: new Date().toISOString(),
+  };
+  mockDeliveries = [delivery, ...mockDeliveries].slice(0, MAX_DELIVERY_HISTORY);
+  return delivery;
+};
+
+const evaluateMockAlerts = () => {
+  const now = new Date();
+  const readings = Object.fromEntries(
+    mockRules
+      .filter((rule) => rule.enabled)
+      .map((rule) => [
+        rule.id,
+        metricValue(
+          rule.metric,
+          fixtureWindowMetrics(
+            now.getTime() - rule.windowMinutes * 60 * 1000,
+            now.getTime(),
+            rule
+          )
+        ),
+      ])
+  );
+  const before = mockIncidents;
+  mockIncidents = evaluateAlerts(
+    mockRules,
+    mockIncidents,
+    readings,
+    now,
+    () => `mock-incident-${++mockIds}`
+  );
+  alertEvents(before, mockIncidents).forEach(({ kind, incident }) =>
+    mockChannels
+      .filter(
+        (channel) =>
+          channel.enabled && incident.rule.channels.includes(channel.id)
+      )
+      .forEach((channel) =>
+        deliverMock(channel, buildNotification(channel, incident, kind))
+      )
+  );
+  return mockIncidents;
+};
+
+const mockRule = (body: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new Error("Send the rule as json");
+  }
+  const result = parseAlertRule(parsed);
+  if ("error" in result) throw new Error(result.error);
+  const unknown = result.rule.channels.find(
+    (id) => !mockChannels.some((channel) => channel.id === id)
+  );
+  if (unknown) throw new Error(`No notification channel "${unknown}"`);
+  return result.rule;
+};
+
+const saveMockRule = (id: string | undefined, body: string) => {
+  const rule = { id: id ?? `mock-rule-${++mockIds}`, ...mockRule(body) };
+  if (id !== undefined && !mockRules.some((r) => r.id === id)) {
+    throw new Error(`No alert rule "${id}"`);
+  }
+  mockRules =
+    id === undefined
+      ? [...mockRules, rule]
+      : mockRules.map((r) => (r.id === id ? rule : r));
+  evaluateMockAlerts();
+  return rule;
+};
+
+const deleteMockRule = (id: string) => {
+  if (!mockRules.some((r) => r.id === id)) {
+    throw new Error(`No alert rule "${id}"`);
+  }
+  mockRules = mockRules.filter((r) => r.id !== id);
+  evaluateMockAlerts();
+  return mockRules;
+};
+
+const mockChannel = (id: string) => {
+  const channel = mockChannels.find((c) => c.id === id);
+  if (!channel) throw new Error(`No notification channel "${id}"`);
+  return channel;
+};
+
+const saveMockChannel = (id: string | undefined, body: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new Error("Send the channel as json");
+  }
+  const result = parseNotificationChannel(parsed);
+  if ("error" in result) throw new Error(result.error);
+  if (id !== undefined) mockChannel(id);
+
+  const channel = { id: id ?? `mock-channel-${++mockIds}`, ...result.channel };
+  mockChannels =
+    id === undefined
+      ? [...mockChannels, channel]
+      : mockChannels.map((c) => (c.id === id ? channel : c));
+  return channel;
+};
+
+const deleteMockChannel = (id: string) => {
+  mockChannel(id);
+  mockRules = mockRules.map((rule) => ({
+    ...rule,
+    channels: rule.channels.filter((channel) => channel !== id),
+  }));
+  mockChannels = mockChannels.filter((c) => c.id !== id);
+  return mockChannels;
+};
+
+const acknowledgeMockIncident = (id: string) => {
+  const incidents = acknowledgeIncident(mockIncidents, id, new Date());
+  if (!incidents) throw new Error(`No open incident "${id}"`);
+  mockIncidents = incidents;
+  return incidents.find((incident) => incident.id === id);
+};
+
+let mockSla: SlaConfig = DEFAULT_SLA_CONFIG;
+
+const saveMockSla = (body: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new Error("Send the SLA bands as json");
+  }
+  const result = parseSlaConfig(parsed);
+  if ("error" in result) throw new Error(result.error);
+  mockSla = result.config;
+  return mockSla;
+};
+
+// Reports generated on the mock profile, built from the fixtures like the server's fixture store
+let mockReports: ArchivedReport[] = [];
+
+const fixtureSource: ReportSource = {
+  getTransactionVolume: async (range, service) =>
+    fixtureTransactionVolume(range, service),
+  getSuccessRate: async (period) => fixtureSuccessRate(period),
+  getFailureBreakdown: async (period) => fixtureFailureBreakdown(period),
+  getRevenueTrends: async (range) => fixtureRevenueTrends(range),
+  getDemographics: async () => fixtureDemographics(),
+};
+
+// Fixture days start at midnight in the browser's timezone
+const archiveMockReport = async (
+  definition: ReportDefinition,
+  period: DateRange | null,
+  schedule?: ArchivedReport["schedule"]
+) => {
+  const report = await buildReport(fixtureSource, definition, period, mockSla, {
+    utcOffsetMinutes: -new Date().getTimezoneOffset(),
+  });
+  const archived = {
+    id: `mock-report-${++mockIds}`,
+    ...report,
+    ...(schedule && { schedule }),
+  };
+  mockReports = [archived, ...mockReports].slice(0, MAX_REPORT_HISTORY);
+  return archived;
+};
+
+const generateMockReport = (
+  type: string,
+  segment: string | undefined,
+  query: URLSearchParams
+) => {
+  const result = parseReportRequest(type, segment, {
+    start: query.get("start") ?? undefined,
+    end: query.get("end") ?? undefined,
+  });
+  if ("error" in result) throw new Error(result.error);
+  return archiveMockReport(result.definition, result.period);
+};
+
+const mockReport = (id: string) => {
+  const report = mockReports.find((r) => r.id === id);
+  if (!report) throw new Error(`No report "${id}"`);
+  return report;
+};
+
+// Report schedules of the mock profile, due ones run whenever the list is read instead of on a timer
+let mockSchedules: ReportSchedule[] = [];
+
+const mockSchedule = (id: string) => {
+  const schedule = mockSchedules.find((s) => s.id === id);
+  if (!schedule) throw new Error(`No report schedule "${id}"`);
+  return schedule;
+};
+
+const updateMockSchedule = (id: string, changes: Partial<ReportSchedule>) => {
+  mockSchedules = mockSchedules.map((s) =>
+    s.id === id ? { ...s, ...changes } : s
+  );
+};
+
+const saveMockSchedule = (id: string | undefined, body: string) => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    throw new Error("Send the schedule as json");
+  }
+  const result = parseReportSchedule(parsed);
+  if ("error" in result) throw new Error(result.error);
+  const unknown = result.schedule.channels.find(
+    (channel) => !mockChannels.some((c) => c.id === channel)
+  );
+  if (unknown) throw new Error(`No notification channel "${unknown}"`);
+  const lastRun = id === undefined ? undefined : mockSchedule(id).lastRun;
+
+  const schedule: ReportSchedule = {
+    id: id ?? `mock-schedule-${++mockIds}`,
+    ...result.schedule,
+    nextRunAt: nextScheduleRun(result.schedule, new Date()),
+    ...(lastRun && { lastRun }),
+  };
+  mockSchedules =
+    id === undefined
+      ? [...mockSchedules, schedule]
+      : mockSchedules.map((s) => (s.id === id ? schedule : s));
+  return schedule;
+};
+
+const deleteMockSchedule = (id: string) => {
+  mockSchedule(id);
+  mockSchedules = mockSchedules.filter((s) => s.id !== id);
+  return mockSchedules;
+};
+
+const runMockSchedule = async (schedule: ReportSchedule, now = new Date()) => {
+  const report = await archiveMockReport(
+    REPORT_DEFINITIONS.find((item) => item.type === schedule.report)!,
+    schedule.period,
+    { id: schedule.id, name: schedule.name }
+  );
+  const { reportFile } = await import("../analytics/reportPdf");
+  const attachments = schedule.formats.map((format) => ({
+    filename: reportFileName(report, format),
+    contentType: REPORT_MIME_TYPES[format],
+    content: reportFile(report, format),
+  }));
+  const channels = [
+    ...mockChannels.filter(
+      (channel) => channel.enabled && schedule.channels.includes(channel.id)
+    ),
+    ...(schedule.recipients ? [recipientsChannel(schedule)] : []),
+  ];
+  channels.forEach((channel) =>
+    deliverMock(channel, buildReportNotification(channel, report, attachments))
+  );
+  updateMockSchedule(schedule.id, {
+    lastRun: {
+      at: now.toISOString(),
+      reportId: report.id,
+      ...(channels.length
+        ? { status: "sent" }
+        : {
+            status: "failed",
+            error: "No enabled channel or recipient to deliver to",
+          }),
+    },
+  });
+  return report;
+};
+
+const runDueMockSchedules = async () => {
+  const now = new Date();
+  for (const schedule of mockSchedules) {
+    if (
+      schedule.enabled &&
+      schedule.nextRunAt !== null &&
+      Date.parse(schedule.nextRunAt) <= now.getTime()
+    ) {
+      updateMockSchedule(schedule.id, {
+        nextRunAt: nextScheduleRun(schedule, now),
+      });
+      await runMockSchedule(schedule, now);
+    }
+  }
+  return mockSchedules;
+};
+
+// Mirrors the node.js api routes
+const routes: MockRoute[] = [
+  {
+    pattern: /^\/transactions\/volume\/([^/]+)\/([^/]+)$/,
+    resolve: ([range, service], body, query) =>
+      fixtureTransactionVolume(mockRange(range, query), service),
+  },
+  {
+    pattern: /^\/anomalies\/([^/]+)\/([^/]+)$/,
+    resolve: ([range, service], body, query) =>
+      detectAnomalies(
+        fixtureTransactionVolume(mockRange(range, query), service),
+        mockThreshold(query)
+      ),
+  },
+  {
+    pattern: /^\/transactions\/success-rate\/([^/]+)$/,
+    resolve: ([period], body, query) =>
+      fixtureSuccessRate(mockRange(period, query)),
+  },
+  {
+    pattern: /^\/transactions\/failures\/([^/]+)$/,
+    resolve: ([period], body, query) =>
+      fixtureFailureBreakdown(mockRange(period, query)),
+  },
+  {
+    pattern: /^\/transactions\/failures\/([^/]+)\/sessions$/,
+    resolve: ([period], body, query) =>
+      fixtureFailedSessions(mockRange(period, query), mockFailureFilter(query)),
+  },
+  { pattern: /^\/peak-hours$/, resolve: () => fixturePeakHours() },
+  { pattern: /^\/users\/demographics$/, resolve: () => fixtureDemographics() },
+  {
+    pattern: /^\/revenue\/trends\/([^/]+)$/,
+    resolve: ([range], body, query) =>
+      fixtureRevenueTrends(mockRange(range, query)),
+  },
+  { pattern: /^\/menu-flow$/, resolve: () => fixtureMenuFlow() },
+  {
+    pattern: /^\/menu-flow\/funnel$/,
+    resolve: (params, body, query) => {
+      const result = parseFunnelSteps(query.get("steps") ?? undefined);
+      if ("error" in result) throw new Error(result.error);
+      return fixtureMenuFunnel(result.steps);
+    },
+  },
+  {
+    pattern: /^\/sessions\/explore\/([^/]+)$/,
+    resolve: ([period], body, query) =>
+      fixtureSessionSearch(mockRange(period, query), mockSessionSearch(query)),
+  },
+  {
+    pattern: /^\/reports\/history$/,
+    resolve: () =>
+      mockReports.map(({ summary, sections, ...record }) => record),
+  },
+  {
+    pattern: /^\/reports\/history\/([^/]+)$/,
+    resolve: ([id]) => mockReport(id),
+  },
+  {
+    method: "POST",
+    pattern: /^\/reports\/([^/]+)(?:\/([^/]+))?$/,
+    resolve: ([type, period], body, query) =>
+      generateMockReport(type, period, query),
+  },
+  { pattern: /^\/schedules$/, resolve: () => runDueMockSchedules() },
+  {
+    method: "POST",
+    pattern: /^\/schedules$/,
+    resolve: (params, body) => saveMockSchedule(undefined, body),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/schedules\/([^/]+)$/,
+    resolve: ([id], body) => saveMockSchedule(id, body),
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/schedules\/([^/]+)$/,
+    resolve: ([id]) => deleteMockSchedule(id),
+  },
+  {
+    method: "POST",
+    pattern: /^\/schedules\/([^/]+)\/run$/,
+    resolve: ([id]) => runMockSchedule(mockSchedule(id)),
+  },
+  { pattern: /^\/alerts\/rules$/, resolve: () => mockRules },
+  {
+    method: "POST",
+    pattern: /^\/alerts\/rules$/,
+    resolve: (params, body) => saveMockRule(undefined, body),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/alerts\/rules\/([^/]+)$/,
+    resolve: ([id], body) => saveMockRule(id, body),
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/alerts\/rules\/([^/]+)$/,
+    resolve: ([id]) => deleteMockRule(id),
+  },
+  {
+    pattern: /^\/alerts\/incidents$/,
+    resolve: (params, body, query) =>
+      evaluateMockAlerts().filter(
+        (incident) =>
+          query.get("status") !== "open" || incident.status !== "resolved"
+      ),
+  },
+  {
+    method: "POST",
+    pattern: /^\/alerts\/incidents\/([^/]+)\/acknowledge$/,
+    resolve: ([id]) => acknowledgeMockIncident(id),
+  },
+  { pattern: /^\/alerts\/channels$/, resolve: () => mockChannels },
+  {
+    method: "POST",
+    pattern: /^\/alerts\/channels$/,
+    resolve: (params, body) => saveMockChannel(undefined, body),
+  },
+  {
+    method: "PUT",
+    pattern: /^\/alerts\/channels\/([^/]+)$/,
+    resolve: ([id], body) => saveMockChannel(id, body),
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/alerts\/channels\/([^/]+)$/,
+    resolve: ([id]) => deleteMockChannel(id),
+  },
+  {
+    method: "POST",
+    pattern: /^\/alerts\/channels\/([^/]+)\/test$/,
+    resolve: ([id]) => {
+      const channel = mockChannel(id);
+      return deliverMock(
+        channel,
+        buildNotification(channel, sampleIncident(new Date()), "test")
+      );
+    },
+  },
+  { pattern: /^\/alerts\/deliveries$/, resolve: () => mockDeliveries },
+  {
+    method: "POST",
+    pattern: /^\/alerts\/evaluate$/,
+    resolve: () => evaluateMockAlerts(),
+  },
+  { pattern: /^\/settings\/sla$/, resolve: () => mockSla },
+  {
+    method: "PUT",
+    pattern: /^\/settings\/sla$/,
+    resolve: (params, body) => saveMockSla(body),
+  },
+  {
+    pattern: /^\/sessions\/summary$/,
+    resolve: () => summarizeSessions(Array.from(mockSessions.values())),
+  },
+  {
+    method: "POST",
+    pattern: /^\/sessions\/ingest$/,
+    resolve: (params, body, query) =>
+      ingestMockSessions(body, query.get("format") as SessionLogFormat),
+  },
+];
+
+const MOCK_LATENCY_MS = 300;
+
+/**
+ * Resolve an api path against the in-browser fixtures, wrapped in the same envelope as the server
+ * @param path the path for the endpoint
+ * @param [init={}] the method, body and the signal that cancels the simulated latency
+ */
+export const mockRequest = async (
+  path: string,
+  { method = "GET", body, signal }: RequestInit = {}
+) => {
+  await new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new Error("Mock request aborted"));
+
+    const timer = setTimeout(resolve, MOCK_LATENCY_MS);
+    signal?.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        reject(new Error("Mock request aborted"));
+      },
+      { once: true }
+    );
+  });
+
+  const [pathname, search = ""] = path.split("?");
+  for (const route of routes) {
+    const match = pathname.match(route.pattern);
+    if (match && (route.method ?? "GET") === method.toUpperCase()) {
+      try {
+        return {
+          success: true as const,
+          payload: await route.resolve(
+            match.slice(1),
+            String(body ?? ""),
+            new URLSearchParams(search)
+          ),
+        };
+      } catch (error) {
+        return {
+          success: false as const,
+          message: error instanceof Error ? error.message : String(error),
+        };
+      }
+    }
+  }
+
+  return { success: false as const, message: `No mock data for ${path}` };
+};
@@ -0,0 +1,111 @@
+import { useMemo, useSyncExternalStore } from "react";
+import {
+  createPayCycle,
+  DEFAULT_PAY_DATES,
+  MAX_WINDOW_DAYS,
+  PayCycle,
+  PayDate,
+  ROLL_LABELS,
+} from "../analytics/payCycle";
+import { useHolidayCalendar } from "./calendar";
+
+/**
+ * Pay dates flagging the peak days of the revenue charts and forecasts.
+ * Configured from the Calendar tab and persisted per browser, like custom events.
+ */
+
+const STORAGE_KEY = "ussd-analytics:pay-dates";
+
+const isWholeNumber = (value: unknown, min: number, max: number) =>
+  typeof value === "number" &&
+  Number.isInteger(value) &&
+  value >= min &&
+  value <= max;
+
+const isPayDate = (value: unknown): value is PayDate => {
+  if (typeof value !== "object" || value === null) return false;
+  const { id, name, dayOfMonth, roll, windowDays }: Record<string, unknown> = {
+    ...value,
+  };
+  return (
+    typeof id === "string" &&
+    typeof name === "string" &&
+    isWholeNumber(dayOfMonth, 1, 31) &&
+    typeof roll === "string" &&
+    Object.keys(ROLL_LABELS).includes(roll) &&
+    isWholeNumber(windowDays, 1, MAX_WINDOW_DAYS)
+  );
+};
+
+const readStoredPayDates = (): PayDate[] | null => {
+  try {
+    const stored = JSON.parse(
+      window.localStorage.getItem(STORAGE_KEY) || "null"
+    );
+    return Array.isArray(stored) ? stored.filter(isPayDate) : null;
+  } catch {
+    return null;
+  }
+};
+
+let payDates: PayDate[] = readStoredPayDates() ?? DEFAULT_PAY_DATES;
+const listeners = new Set<() => void>();
+
+const setPayDates = (next: PayDate[]) => {
+  payDates = next;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(payDates));
+  } catch {
+    // Storage can be unavailable (private mode), the pay dates then last until reload
+  }
+  listeners.forEach((listener) => listener());
+};
+
+export const getPayDates = (): PayDate[] => payDates;
+
+/**
+ * Add a pay date to the cycle
+ * @param payDate the pay date, an id is assigned
+ * @returns why the pay date is invalid, or null once added
+ */
+export const addPayDate = (payDate: Omit<PayDate, "id">) => {
+  const added = {
+    ...payDate,
+    name: payDate.name.trim(),
+    id: `${Date.now().toString(36)}-${payDates.length}`,
+  };
+  if (!added.name) return "Give the pay date a name";
+  if (!isWholeNumber(added.dayOfMonth, 1, 31)) {
+    return "The day of the month must be between 1 and 31";
+  }
+  if (!isPayDate(added)) {
+    return `The window must be between 1 and ${MAX_WINDOW_DAYS} days`;
+  }
+  setPayDates([...payDates, added]);
+  return null;
+};
+
+export const removePayDate = (id: string) =>
+  setPayDates(payDates.filter((payDate) => payDate.id !== id));
+
+export const subscribeToPayDates = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+/**
+ * React hook returning the configured pay dates
+ */
+export const usePayDates = (): PayDate[] =>
+  useSyncExternalStore(subscribeToPayDates, getPayDates);
+
+/**
+ * React hook returning the pay cycle, rebuilt when pay dates or holidays change
+ */
+export const usePayCycle = (): PayCycle => {
+  const dates = usePayDates();
+  const calendar = useHolidayCalendar();
+  return useMemo(() => createPayCycle(dates, calendar), [dates, calendar]);
+};
@@ -0,0 +1,157 @@
+import { isAbortError } from "./api";
+
+/**
+ * Shared client-side cache for api queries.
+ * Entries are keyed by endpoint + params (e.g. `volume/90d/airtime`), concurrent fetches of the same key
+ * are de-duplicated, and stale entries keep serving their data while they revalidate in the background.
+ */
+
+export type QueryFetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export interface QuerySnapshot<T> {
+  data?: T;
+  error?: unknown;
+  isFetching: boolean;
+  updatedAt: number; // epoch ms of the last successful fetch, 0 if never fetched
+}
+
+interface CacheEntry<T> {
+  snapshot: QuerySnapshot<T>;
+  promise?: Promise<T | undefined>;
+  controller?: AbortController;
+  listeners: Set<() => void>;
+}
+
+// Default time an entry is considered fresh
+export const DEFAULT_TTL_MS =
+  Number(process.env.REACT_APP_QUERY_TTL_MS) || 60 * 1000;
+
+const EMPTY_SNAPSHOT: QuerySnapshot<never> = {
+  isFetching: false,
+  updatedAt: 0,
+};
+
+export class QueryCache {
+  private entries = new Map<string, CacheEntry<unknown>>();
+
+  private entry<T>(key: string): CacheEntry<T> {
+    let entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    if (!entry) {
+      entry = { snapshot: EMPTY_SNAPSHOT, listeners: new Set() };
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  private update<T>(key: string, patch: Partial<QuerySnapshot<T>>) {
+    const entry = this.entry<T>(key);
+    // Snapshots are immutable so they can be handed to useSyncExternalStore
+    entry.snapshot = { ...entry.snapshot, ...patch };
+    entry.listeners.forEach((listener) => listener());
+  }
+
+  getSnapshot<T>(key: string): QuerySnapshot<T> {
+    const entry = this.entries.get(key) as CacheEntry<T> | undefined;
+    return entry?.snapshot ?? EMPTY_SNAPSHOT;
+  }
+
+  /**
+   * Whether the entry needs a (re)fetch
+   * @param key the query key
+   * @param ttl how long data stays fresh in ms
+   */
+  isStale(key: string, ttl = DEFAULT_TTL_MS): boolean {
+    const { updatedAt } = this.getSnapshot(key);
+    return updatedAt === 0 || Date.now() - updatedAt > ttl;
+  }
+
+  /**
+   * Listen to changes of an entry.
+   * When the last listener leaves while a fetch is in flight, the fetch is cancelled.
+   */
+  subscribe(key: string, listener: () => void): () => void {
+    const entry = this.entry(key);
+    entry.listeners.add(listener);
+
+    return () => {
+      entry.listeners.delete(listener);
+      if (entry.listeners.size === 0 && entry.controller) {
+        // Dropped at once so a component mounting the key next starts a new fetch instead of joining this one
+        entry.controller.abort();
+        entry.promise = undefined;
+        entry.controller = undefined;
+        this.update(key, { isFetching: false });
+      }
+    };
+  }
+
+  /**
+   * Fetch an entry, joining the in-flight request for the same key if there is one
+   * @param key the query key
+   * @param fetcher loads the data, must honour the abort signal
+   * @returns the fetched data, or undefined when the fetch failed or was cancelled
+   */
+  fetch<T>(key: string, fetcher: QueryFetcher<T>): Promise<T | undefined> {
+    const entry = this.entry<T>(key);
+    if (entry.promise) return entry.promise;
+
+    const controller = new AbortController();
+    entry.controller = controller;
+    this.update<T>(key, { isFetching: true });
+
+    const promise = fetcher(controller.signal)
+      .then((data) => {
+        this.update<T>(key, {
+          data,
+          error: undefined,
+          isFetching: false,
+          updatedAt: Date.now(),
+        });
+        return data;
+      })
+      .catch((error) => {
+        // Cancelled fetches were superseded or abandoned, they are not failures: the entry keeps its data and error
+        if (entry.promise !== promise) return undefined;
+        this.update<T>(key, {
+          isFetching: false,
+          ...(!isAbortError(error) && { error }),
+        });
+        return undefined;
+      })
+      .finally(() => {
+        if (entry.promise === promise) {
+          entry.promise = undefined;
+          entry.controller = undefined;
+        }
+      });
+
+    entry.promise = promise;
+    return promise;
+  }
+
+  /**
+   * Replace the data of an entry without fetching, e.g. with an update pushed by the server
+   * @param key the query key
+   * @param data the new data, fresh from now
+   */
+  set<T>(key: string, data: T) {
+    this.update<T>(key, { data, error: undefined, updatedAt: Date.now() });
+  }
+
+  /**
+   * Mark entries as stale so their next use refetches
+   * @param prefix only invalidate keys starting with this prefix
+   */
+  invalidate(prefix = "") {
+    this.entries.forEach((entry, key) => {
+      if (key.startsWith(prefix)) this.update(key, { updatedAt: 0 });
+    });
+  }
+
+  clear() {
+    this.entries.forEach((entry) => entry.controller?.abort());
+    this.entries.clear();
+  }
+}
+
+export const queryCache = new QueryCache();
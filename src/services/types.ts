@@ -0,0 +1,276 @@
+import { FailureReason, SessionOutcome } from "../analytics/sessions";
+
+/**
+ * Domain types returned by the analytics API.
+ * Shared between the api client and the components that render the payloads.
+ */
+
+/**
+ * Time range intervals for chart filtering
+ */
+export type TimeRange = "24h" | "7d" | "30d" | "90d";
+
+/**
+ * Shortcuts offered by the date range picker, all ending now
+ */
+export type DateRangePreset = TimeRange | "ytd";
+
+/**
+ * An explicit window. Plain ISO dates (`2025-03-31`) cover whole days and `end` is included,
+ * full ISO timestamps are exact instants and `end` is excluded.
+ */
+export interface CustomDateRange {
+  start: string;
+  end: string;
+}
+
+/**
+ * The window a chart covers, either a preset or explicit bounds
+ */
+export type DateRange = DateRangePreset | CustomDateRange;
+
+// --- Transaction Volume ---
+
+export interface ChartDataPoint {
+  date: string; // formatted label (e.g., "10:00" or "Oct 24")
+  fullDate: string; // ISO string for sorting/logic
+  dayOfWeek: string; // "Mon", "Tue", etc.
+  hour?: number; // 0-23 (only needed for 24h view)
+
+  // Service Breakdowns (Counts)
+  total: number;
+  electricity: number;
+  water: number;
+  airtime: number;
+  mobileMoney: number;
+  banking: number;
+
+  // Performance Metrics
+  avgSessionTime: number; // in seconds
+  successRate: number; // percentage (0-100)
+  revenue: number; // total transaction volume or commission
+  failedTransactions: number;
+  peakConcurrentUsers: number;
+}
+
+// --- Success Rate ---
+
+/**
+ * Success rate over one bucket of the period, hourly or daily like the volume chart
+ */
+export interface SuccessRateBucket {
+  fullDate: string; // ISO start of the bucket
+  minutes: number; // length of the bucket
+  rate: number | null; // null when no transaction concluded
+  networks: Record<string, number | null>; // same, by network name
+}
+
+export interface GaugeApiResponse {
+  metrics: {
+    successRate: number;
+    successfulTxns: number;
+    failedTxns: number;
+    avgResponseTime: number;
+    activeSessions: number;
+    topProvince: string;
+    peakHour: string;
+  };
+  networks: {
+    name: string;
+    rate: number;
+    marketShare: number;
+    totalTransactions: number;
+  }[];
+  timeline: SuccessRateBucket[];
+}
+
+// --- Failure Reasons ---
+
+/**
+ * A failure reason reported by the gateway, or "unreported" for failed sessions from logs without reasons
+ */
+export type FailureReasonKey = FailureReason | "unreported";
+
+export interface FailureReasonSummary {
+  reason: FailureReasonKey;
+  count: number;
+  share: number; // percentage of the failed transactions
+  networks: Record<string, number>; // count by network name
+}
+
+/**
+ * Failed transactions of one bucket by reason, hourly or daily like the volume chart
+ */
+export type FailureTrendPoint = {
+  date: string; // formatted label
+  fullDate: string; // ISO start of the bucket
+} & Partial<Record<FailureReasonKey, number>>;
+
+/**
+ * Which failed sessions to drill into, "all" for any reason or network
+ */
+export interface FailureSessionFilter {
+  reason: FailureReasonKey | "all";
+  network: string;
+}
+
+export interface FailureBreakdownResponse {
+  totalFailed: number;
+  reasons: FailureReasonSummary[]; // every reported reason, "unreported" only when there are any
+  trend: FailureTrendPoint[]; // with a count for each reason of `reasons`
+}
+
+// --- Peak Hours ---
+
+export interface HeatmapCell {
+  day: string;
+  hour: string;
+  value: number;
+  intensity: number;
+  isPeak: boolean;
+}
+
+// --- Demographics ---
+
+export interface ProvinceData {
+  name: string;
+  users: number;
+  percentage: number;
+  type: string;
+  // UI props added for frontend use
+  color?: string;
+  icon?: string;
+  [key: string]: any;
+}
+
+export interface AgeGroup {
+  range: string;
+  percentage: number;
+  users: number;
+  label: string;
+  color?: string;
+  [key: string]: any;
+}
+
+export interface NetworkData {
+  name: string;
+  percentage: number;
+  users: number;
+  description: string;
+  color?: string;
+  [key: string]: any;
+}
+
+export interface MetricItem {
+  name: string;
+  value: number;
+  users?: number;
+  color?: string;
+  trend?: string;
+  [key: string]: any;
+}
+
+export interface DemographicsResponse {
+  totalUsers: number;
+  provinceData: ProvinceData[];
+  networkData: NetworkData[];
+  ageGroups: AgeGroup[];
+  genderData: MetricItem[];
+  urbanRuralData: MetricItem[];
+  deviceData: MetricItem[];
+}
+
+// --- Revenue ---
+
+/**
+ * A single day of revenue as returned by the backend (ZMW per service)
+ */
+export interface RevenuePoint {
+  date: string; // ISO String
+  electricity: number;
+  mobileMoney: number;
+  airtime: number;
+  water: number;
+  total: number;
+}
+
+// --- Menu Navigation ---
+
+export interface MenuFlowNode {
+  name: string;
+}
+
+export interface MenuFlowLink {
+  source: number; // index into nodes
+  target: number; // index into nodes
+  value: number; // session count
+}
+
+export interface MenuFlowResponse {
+  nodes: MenuFlowNode[];
+  links: MenuFlowLink[];
+}
+
+/**
+ * A step of a menu funnel, sessions count once they visited every step up to this one in order
+ */
+export interface MenuFunnelStep {
+  node: string;
+  sessions: number;
+  conversion: number; // % of the sessions of the previous step, 100 for the first
+  overallConversion: number; // % of the sessions of the first step
+  dropOff: number; // sessions of the previous step that never got here, 0 for the first
+  medianSeconds: number | null; // from the previous step (from dialling for the first), null without sessions
+  dropOffByNetwork: Record<string, number>;
+  dropOffByProvince: Record<string, number>;
+}
+
+export interface MenuFunnelResponse {
+  totalSessions: number; // sessions the funnel was computed over
+  steps: MenuFunnelStep[];
+}
+
+/**
+ * Which sessions the session explorer lists, "all" for any
+ */
+export interface SessionSearchFilter {
+  node: string; // menu node the session visited
+  outcome: SessionOutcome | "all";
+  network: string;
+}
+
+// --- Reports ---
+
+export interface ReportColumn {
+  key: string;
+  label: string;
+}
+
+/**
+ * A table of a report, one sheet of the XLSX export
+ */
+export interface ReportSection {
+  title: string;
+  columns: ReportColumn[];
+  rows: Record<string, string | number>[];
+}
+
+export interface ReportResponse {
+  type: string;
+  title: string;
+  generatedAt: string; // ISO String
+  period: string | null; // label of the period covered, null for snapshots
+  summary: { label: string; value: string }[]; // headline figures
+  sections: ReportSection[];
+}
+
+/**
+ * A generated report kept in the history
+ */
+export interface ArchivedReport extends ReportResponse {
+  id: string;
+  schedule?: { id: string; name: string }; // set when a schedule generated it
+}
+
+// What the history lists, the content is fetched on demand
+export type ReportRecord = Omit<ArchivedReport, "summary" | "sections">;